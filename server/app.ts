@@ -0,0 +1,67 @@
+// server/app.ts
+import express, { ErrorRequestHandler } from 'express';
+import cors from 'cors';
+import multer from 'multer';
+import mongoose from 'mongoose';
+import productsRouter from './routes/products';
+import billsRouter from './routes/bills';
+import companiesRouter from './routes/companies';
+import uploadsRouter from './routes/uploads';
+import authRouter from './routes/auth';
+import usersRouter from './routes/users';
+import settingsRouter from './routes/settings';
+import customersRouter from './routes/customers';
+import quotationsRouter from './routes/quotations';
+import creditNotesRouter from './routes/creditNotes';
+import paymentsRouter from './routes/payments';
+import { requireAuth, requirePermission } from './auth';
+import { HttpError } from './http';
+
+// Turns thrown errors into { error } JSON. Express 5 forwards rejected
+// promises from async handlers here, so routes can simply throw.
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+const errorHandler: ErrorRequestHandler = (error, _req, res, _next) => {
+  let status = 500;
+  if (error instanceof HttpError) {
+    status = error.status;
+  } else if (error instanceof multer.MulterError) {
+    status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+  } else if (error instanceof mongoose.Error.ValidationError) {
+    status = 400;
+  } else if (error?.code === 11000) {
+    status = 409;
+  }
+
+  if (status === 500) console.error('Unhandled API error:', error);
+  res.status(status).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+};
+
+export const createApp = () => {
+  const app = express();
+
+  app.use(cors({ origin: process.env.CORS_ORIGIN || true }));
+  app.use(express.json({ limit: '20mb' }));
+
+  app.get('/api/health', (_req, res) => {
+    res.json({ status: 'ok', database: mongoose.connection.readyState === 1 ? 'connected' : 'disconnected' });
+  });
+
+  app.use('/api/auth', authRouter);
+  app.use('/api/users', requireAuth, requirePermission('manageUsers'), usersRouter);
+  app.use('/api/products', requireAuth, productsRouter);
+  app.use('/api/bills', requireAuth, billsRouter);
+  app.use('/api/companies', requireAuth, companiesRouter);
+  app.use('/api/uploads', requireAuth, uploadsRouter);
+  app.use('/api/customers', requireAuth, customersRouter);
+  app.use('/api/quotations', requireAuth, quotationsRouter);
+  app.use('/api/credit-notes', requireAuth, creditNotesRouter);
+  app.use('/api/payments', requireAuth, paymentsRouter);
+  app.use('/api/settings', requireAuth, settingsRouter);
+
+  app.use('/api', (req, _res, next) => {
+    next(new HttpError(404, `No route for ${req.method} ${req.originalUrl}`));
+  });
+  app.use(errorHandler);
+
+  return app;
+};
@@ -0,0 +1,89 @@
+// server/auth.ts
+import { RequestHandler } from 'express';
+import jwt from 'jsonwebtoken';
+import { Role, User } from '../src/types';
+import { Permission, checkPermission } from '../src/utils/permissions';
+import { HttpError } from './http';
+
+const ACCESS_TOKEN_TTL = '15m';
+const REFRESH_TOKEN_TTL = '7d';
+
+const getSecret = (name: 'JWT_SECRET' | 'JWT_REFRESH_SECRET') => {
+  const secret = process.env[name];
+  if (!secret) throw new Error(`${name} is not configured`);
+  return secret;
+};
+
+interface AccessPayload {
+  sub: string;
+  name: string;
+  shopName: string;
+  email?: string;
+  role: Role;
+}
+
+interface RefreshPayload {
+  sub: string;
+  version: number;
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+export const signTokens = (user: User, tokenVersion: number) => {
+  const access: AccessPayload = {
+    sub: user.id,
+    name: user.name,
+    shopName: user.shopName,
+    email: user.email,
+    role: user.role || 'salesperson',
+  };
+  const refresh: RefreshPayload = { sub: user.id, version: tokenVersion };
+  return {
+    accessToken: jwt.sign(access, getSecret('JWT_SECRET'), { expiresIn: ACCESS_TOKEN_TTL }),
+    refreshToken: jwt.sign(refresh, getSecret('JWT_REFRESH_SECRET'), { expiresIn: REFRESH_TOKEN_TTL }),
+  };
+};
+
+export const verifyRefreshToken = (token: string): RefreshPayload => {
+  try {
+    return jwt.verify(token, getSecret('JWT_REFRESH_SECRET')) as unknown as RefreshPayload;
+  } catch {
+    throw new HttpError(401, 'Session expired, please sign in again');
+  }
+};
+
+// Rejects requests without a valid access token and exposes the signed-in
+// user as req.user.
+export const requireAuth: RequestHandler = (req, _res, next) => {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  if (!token) return next(new HttpError(401, 'Authentication required'));
+
+  try {
+    const payload = jwt.verify(token, getSecret('JWT_SECRET')) as unknown as AccessPayload;
+    req.user = {
+      id: payload.sub,
+      name: payload.name,
+      shopName: payload.shopName,
+      email: payload.email,
+      role: payload.role,
+    };
+    next();
+  } catch {
+    next(new HttpError(401, 'Invalid or expired token'));
+  }
+};
+
+// Must run after requireAuth. Responds 403 with the same explanation the
+// frontend shows when the role lacks the permission.
+export const requirePermission = (permission: Permission): RequestHandler => (req, _res, next) => {
+  const refusal = checkPermission(req.user, permission);
+  next(refusal ? new HttpError(403, refusal) : undefined);
+};
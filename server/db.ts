@@ -0,0 +1,23 @@
+// server/db.ts
+import mongoose from 'mongoose';
+
+export const connectDatabase = async (uri: string) => {
+  mongoose.set('strictQuery', true);
+  await mongoose.connect(uri);
+  console.log(`Connected to MongoDB at ${mongoose.connection.host}/${mongoose.connection.name}`);
+  return mongoose.connection;
+};
+
+export const disconnectDatabase = () => mongoose.disconnect();
+
+// Shared toJSON options so API responses use `id` like the frontend types
+// instead of Mongo's `_id`/`__v`.
+export const jsonOptions = {
+  virtuals: true,
+  versionKey: false,
+  transform: (_doc: unknown, ret: Record<string, unknown>) => {
+    ret.id = String(ret._id);
+    delete ret._id;
+    return ret;
+  },
+};
@@ -0,0 +1,22 @@
+// server/http.ts
+
+// Thrown from route handlers; the error middleware turns it into a JSON
+// response with the given status code.
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Reads ?page= and ?limit= with sane bounds
+export const getPagination = (query: Record<string, unknown>, defaultLimit = 50) => {
+  const page = Math.max(1, parseInt(String(query.page ?? '1')) || 1);
+  const limit = Math.min(500, Math.max(1, parseInt(String(query.limit ?? defaultLimit)) || defaultLimit));
+  return { page, limit, skip: (page - 1) * limit };
+};
@@ -0,0 +1,26 @@
+// server/index.ts
+import 'dotenv/config';
+import { createApp } from './app';
+import { connectDatabase } from './db';
+
+const PORT = Number(process.env.PORT) || 5000;
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://127.0.0.1:27017/sahajanand_sales';
+
+const start = async () => {
+  if (!process.env.JWT_SECRET || !process.env.JWT_REFRESH_SECRET) {
+    console.error('JWT_SECRET and JWT_REFRESH_SECRET must be set');
+    process.exit(1);
+  }
+
+  try {
+    await connectDatabase(MONGODB_URI);
+    createApp().listen(PORT, () => {
+      console.log(`API listening on http://localhost:${PORT}`);
+    });
+  } catch (error) {
+    console.error('Failed to start server:', error);
+    process.exit(1);
+  }
+};
+
+start();
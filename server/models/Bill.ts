@@ -0,0 +1,95 @@
+// server/models/Bill.ts
+import mongoose, { Schema } from 'mongoose';
+import { Bill } from '../../src/types';
+import { jsonOptions } from '../db';
+
+export const positiveQuantity = {
+  validator: (value: number) => value > 0,
+  message: 'Quantity must be greater than 0',
+};
+
+// Line items keep a snapshot of the product as it was billed, so later
+// catalog edits never change an issued bill.
+export const billItemSchema = new Schema(
+  {
+    product: { type: Schema.Types.Mixed, required: true },
+    // Any positive quantity, fractions included, as the billing service allows
+    quantity: { type: Number, required: true, validate: positiveQuantity },
+    selectedShop: String,
+    discount: { type: Number, default: 0, min: 0 },
+    discountType: { type: String, enum: ['percentage', 'amount'], default: 'percentage' },
+    lineTotal: { type: Number, required: true },
+    quantityOverride: {
+      type: new Schema({ by: String, at: Date, reason: String, problems: [String] }, { _id: false }),
+      default: undefined,
+    },
+    discountRule: {
+      type: new Schema({ ruleId: String, label: String }, { _id: false }),
+      default: undefined,
+    },
+    discountOverridden: Boolean,
+  },
+  { _id: false }
+);
+
+// The seller is copied with its invoice prefix so documents raised against a
+// bill later (credit notes) are numbered in the same series.
+export const partySchema = new Schema(
+  {
+    name: String,
+    gstin: String,
+    stateCode: String,
+    address: String,
+    phone: String,
+    email: String,
+    invoicePrefix: String,
+  },
+  { _id: false }
+);
+
+export const taxSummarySchema = new Schema(
+  { rate: Number, taxableValue: Number, cgst: Number, sgst: Number, igst: Number },
+  { _id: false }
+);
+
+// `_id` is the client-visible bill id (e.g. BILL-1721...) so bills created
+// offline keep the same id once they reach the server.
+const billSchema = new Schema<Bill & { _id: string }>(
+  {
+    _id: { type: String, default: () => `BILL-${Date.now()}` },
+    billNumber: { type: String, required: true, unique: true },
+    items: { type: [billItemSchema], required: true },
+    subtotal: { type: Number, required: true },
+    totalDiscount: { type: Number, required: true },
+    gst: { type: Number, required: true },
+    gstAmount: { type: Number, required: true },
+    total: { type: Number, required: true },
+    finalAmount: { type: Number, required: true },
+    customerName: String,
+    customerPhone: String,
+    customerId: { type: String, index: true },
+    // GST tax invoice details; bills issued before these existed lack them
+    seller: { type: partySchema, default: undefined },
+    customerGstin: { type: String, uppercase: true },
+    customerAddress: String,
+    placeOfSupply: String,
+    taxType: { type: String, enum: ['intra', 'inter'] },
+    taxableValue: Number,
+    cgst: Number,
+    sgst: Number,
+    igst: Number,
+    taxSummary: { type: [taxSummarySchema], default: undefined },
+    roundOff: Number,
+    amountInWords: String,
+    quotationId: { type: String, index: true },
+    dueDate: Date,
+    createdBy: {
+      id: { type: String, required: true },
+      name: { type: String, required: true },
+    },
+    date: { type: Date, default: Date.now, index: true },
+  },
+  { timestamps: true, toJSON: jsonOptions }
+);
+
+export const BillModel = mongoose.model('Bill', billSchema);
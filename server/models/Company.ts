@@ -0,0 +1,29 @@
+// server/models/Company.ts
+import mongoose, { Schema } from 'mongoose';
+import { Supplier } from '../../src/types';
+import { jsonOptions } from '../db';
+
+// The supplier master. productCount and totalSales from the Company type are
+// derived from products and bills when companies are listed, never stored.
+// `_id` is the client-generated supplier id (SUP-...) so suppliers added
+// offline keep their id once they reach the server.
+const companySchema = new Schema<Omit<Supplier, 'id'> & { _id: string }>(
+  {
+    _id: { type: String, default: () => `SUP-${Date.now()}` },
+    name: { type: String, required: true, unique: true, trim: true },
+    gstin: { type: String, trim: true, uppercase: true },
+    contactName: String,
+    phone: String,
+    email: String,
+    defaultDiscount: { type: Number, default: 0, min: 0, max: 100 },
+    currency: { type: String, default: 'INR' },
+    exchangeRate: { type: Number, default: 1, min: 0 },
+    importProfile: {
+      pdfLayout: { type: String, enum: ['auto', 'columns', 'lines'], default: 'auto' },
+      columnMapping: Schema.Types.Mixed,
+    },
+  },
+  { timestamps: true, toJSON: jsonOptions }
+);
+
+export const CompanyModel = mongoose.model('Company', companySchema);
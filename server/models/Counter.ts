@@ -0,0 +1,40 @@
+// server/models/Counter.ts
+import mongoose, { Schema } from 'mongoose';
+
+// Named sequences such as bill numbers. `_id` is the sequence key, e.g.
+// 'bill:SS/2026-27', so each prefix and financial year counts on its own.
+// `released` holds numbers given back by failed saves, lowest first.
+const counterSchema = new Schema<{ _id: string; seq: number; released: number[] }>({
+  _id: { type: String, required: true },
+  seq: { type: Number, default: 0 },
+  released: { type: [Number], default: [] },
+});
+
+export const CounterModel = mongoose.model('Counter', counterSchema);
+
+// A released number is reissued before the counter moves on. Both $pop and
+// $inc on a single document are atomic, so concurrent callers never get the
+// same value. The counter is created on first use.
+export const nextSequence = async (key: string) => {
+  const reissued = await CounterModel.findOneAndUpdate(
+    { _id: key, 'released.0': { $exists: true } },
+    { $pop: { released: -1 } }
+  );
+  if (reissued) return reissued.released[0];
+
+  const counter = await CounterModel.findOneAndUpdate(
+    { _id: key },
+    { $inc: { seq: 1 } },
+    { upsert: true, new: true }
+  );
+  return counter.seq;
+};
+
+// Gives back a number whose document was never saved. The counter steps back
+// when nothing was taken after it; otherwise the number waits to be reissued.
+export const releaseSequence = async (key: string, seq: number) => {
+  const { modifiedCount } = await CounterModel.updateOne({ _id: key, seq }, { $inc: { seq: -1 } });
+  if (modifiedCount === 0) {
+    await CounterModel.updateOne({ _id: key }, { $push: { released: { $each: [seq], $sort: 1 } } });
+  }
+};
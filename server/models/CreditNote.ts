@@ -0,0 +1,53 @@
+// server/models/CreditNote.ts
+import mongoose, { Schema } from 'mongoose';
+import { CreditNote } from '../../src/types';
+import { jsonOptions } from '../db';
+import { partySchema, positiveQuantity, taxSummarySchema } from './Bill';
+
+const creditNoteItemSchema = new Schema(
+  {
+    billItemIndex: { type: Number, required: true, min: 0 },
+    product: { type: Schema.Types.Mixed, required: true },
+    quantity: { type: Number, required: true, validate: positiveQuantity },
+    lineTotal: { type: Number, required: true },
+    restock: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
+// Credit notes are immutable once issued, like the bills they reverse. The
+// parties and tax split are copied from the bill.
+const creditNoteSchema = new Schema<CreditNote & { _id: string }>(
+  {
+    _id: { type: String, default: () => `CN-${Date.now()}` },
+    noteNumber: { type: String, required: true, unique: true },
+    billId: { type: String, required: true, index: true },
+    billNumber: { type: String, required: true },
+    reason: String,
+    items: { type: [creditNoteItemSchema], required: true },
+    seller: { type: partySchema, default: undefined },
+    customerName: String,
+    customerPhone: String,
+    customerId: { type: String, index: true },
+    customerGstin: String,
+    customerAddress: String,
+    placeOfSupply: String,
+    taxType: { type: String, enum: ['intra', 'inter'], required: true },
+    taxableValue: { type: Number, required: true },
+    cgst: { type: Number, required: true },
+    sgst: { type: Number, required: true },
+    igst: { type: Number, required: true },
+    gst: { type: Number, required: true },
+    taxSummary: { type: [taxSummarySchema], required: true },
+    roundOff: { type: Number, required: true },
+    total: { type: Number, required: true },
+    createdBy: {
+      id: { type: String, required: true },
+      name: { type: String, required: true },
+    },
+    date: { type: Date, default: Date.now, index: true },
+  },
+  { timestamps: true, toJSON: jsonOptions }
+);
+
+export const CreditNoteModel = mongoose.model('CreditNote', creditNoteSchema);
@@ -0,0 +1,24 @@
+// server/models/Customer.ts
+import mongoose, { Schema } from 'mongoose';
+import { Customer } from '../../src/types';
+import { jsonOptions } from '../db';
+
+// The customer master. `_id` is the client-generated id (CUS-...) so
+// customers added at an offline counter keep their id on the server.
+const customerSchema = new Schema<Omit<Customer, 'id'> & { _id: string }>(
+  {
+    _id: { type: String, default: () => `CUS-${Date.now()}` },
+    name: { type: String, required: true, trim: true, index: true },
+    phone: { type: String, trim: true, index: true },
+    gstin: { type: String, trim: true, uppercase: true },
+    billingAddress: String,
+    shippingAddress: String,
+    stateCode: String,
+    creditLimit: { type: Number, min: 0 },
+    group: { type: String, trim: true, index: true },
+    notes: String,
+  },
+  { timestamps: true, toJSON: jsonOptions }
+);
+
+export const CustomerModel = mongoose.model('Customer', customerSchema);
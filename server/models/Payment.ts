@@ -0,0 +1,30 @@
+// server/models/Payment.ts
+import mongoose, { Schema } from 'mongoose';
+import { Payment } from '../../src/types';
+import { jsonOptions } from '../db';
+
+// `_id` is the client-generated payment id (e.g. PAY-1721...) so payments
+// taken while offline keep their id once they reach the server.
+const paymentSchema = new Schema<Payment & { _id: string; sequence?: number }>(
+  {
+    _id: { type: String, default: () => `PAY-${Date.now()}` },
+    billId: { type: String, required: true, index: true },
+    date: { type: Date, default: Date.now, index: true },
+    amount: { type: Number, required: true, min: 0.01 },
+    mode: { type: String, enum: ['cash', 'upi', 'cheque', 'bank'], required: true },
+    reference: String,
+    // Position among the bill's payments. Two payments that read the same
+    // balance get the same position, so only one of them can be saved.
+    sequence: Number,
+    receivedBy: {
+      id: { type: String, required: true },
+      name: { type: String, required: true },
+    },
+  },
+  { timestamps: true, toJSON: jsonOptions }
+);
+
+// Payments recorded before `sequence` existed have none
+paymentSchema.index({ billId: 1, sequence: 1 }, { unique: true, partialFilterExpression: { sequence: { $exists: true } } });
+
+export const PaymentModel = mongoose.model('Payment', paymentSchema);
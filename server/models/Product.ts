@@ -0,0 +1,37 @@
+// server/models/Product.ts
+import mongoose, { Schema } from 'mongoose';
+import { Product } from '../../src/types';
+import { jsonOptions } from '../db';
+
+// Imported catalogs carry arbitrary extra columns, so the schema is not
+// strict: known fields are typed and indexed, everything else is kept as-is.
+const productSchema = new Schema<Product>(
+  {
+    productId: { type: String, required: true, unique: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    price: { type: Number, required: true, min: 0 },
+    quantity: { type: Number, default: 0 },
+    category: { type: String, index: true },
+    description: String,
+    companyName: { type: String, required: true, index: true },
+    shopName: { type: String, required: true },
+    gst: Number,
+    fileSource: { type: String, index: true },
+    sourceFile: String,
+    priceTiers: Schema.Types.Mixed,
+    catalogueNo: String,
+    obiArticleNo: String,
+    stock: Schema.Types.Mixed,
+    eCode: String,
+    dcat: String,
+    sap: String,
+    minOrderQty: Number,
+    packSize: Number,
+    sheet: { type: String, index: true },
+  },
+  { strict: false, timestamps: true, toJSON: jsonOptions }
+);
+
+productSchema.index({ name: 'text', productId: 'text', description: 'text' });
+
+export const ProductModel = mongoose.model<Product>('Product', productSchema);
@@ -0,0 +1,47 @@
+// server/models/Quotation.ts
+import mongoose, { Schema } from 'mongoose';
+import { Quotation } from '../../src/types';
+import { jsonOptions } from '../db';
+import { billItemSchema, partySchema, taxSummarySchema } from './Bill';
+
+// Quotations carry the same priced and taxed body as a bill. Prices are
+// fixed at quoting time; they are checked against the catalog again when
+// the quotation is converted.
+const quotationSchema = new Schema<Quotation & { _id: string }>(
+  {
+    _id: { type: String, default: () => `QUO-${Date.now()}` },
+    quoteNumber: { type: String, required: true, unique: true },
+    items: { type: [billItemSchema], required: true },
+    subtotal: { type: Number, required: true },
+    totalDiscount: { type: Number, required: true },
+    gst: { type: Number, required: true },
+    total: { type: Number, required: true },
+    customerName: String,
+    customerPhone: String,
+    customerId: { type: String, index: true },
+    seller: { type: partySchema, default: undefined },
+    customerGstin: { type: String, uppercase: true },
+    customerAddress: String,
+    placeOfSupply: String,
+    taxType: { type: String, enum: ['intra', 'inter'] },
+    taxableValue: Number,
+    cgst: Number,
+    sgst: Number,
+    igst: Number,
+    taxSummary: { type: [taxSummarySchema], default: undefined },
+    roundOff: Number,
+    validUntil: { type: Date, required: true },
+    // 'expired' is worked out from validUntil when read, see getQuotationStatus
+    status: { type: String, enum: ['draft', 'sent', 'accepted', 'expired'], default: 'draft' },
+    notes: String,
+    billId: String,
+    createdBy: {
+      id: { type: String, required: true },
+      name: { type: String, required: true },
+    },
+    date: { type: Date, default: Date.now, index: true },
+  },
+  { timestamps: true, toJSON: jsonOptions }
+);
+
+export const QuotationModel = mongoose.model('Quotation', quotationSchema);
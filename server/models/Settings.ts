@@ -0,0 +1,69 @@
+// server/models/Settings.ts
+import mongoose, { Schema } from 'mongoose';
+import { BusinessProfile, DiscountRule, InvoiceSettings } from '../../src/types';
+import { jsonOptions } from '../db';
+
+// Shop-wide settings live in a single document with the fixed id 'shop'.
+export const SETTINGS_ID = 'shop';
+
+const businessSchema = new Schema<BusinessProfile>(
+  {
+    name: { type: String, trim: true, default: '' },
+    gstin: { type: String, trim: true, uppercase: true },
+    stateCode: { type: String, default: '' },
+    address: String,
+    phone: String,
+    email: String,
+    invoicePrefix: { type: String, trim: true, uppercase: true },
+  },
+  { _id: false }
+);
+
+const invoiceSchema = new Schema<InvoiceSettings>(
+  {
+    template: { type: String, enum: ['a4', 'a5', 'letterhead'], default: 'a4' },
+    logo: String, // Data URL
+    bank: {
+      type: new Schema(
+        { accountName: String, accountNumber: String, ifsc: String, bankName: String, branch: String, upiId: String },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+    terms: String,
+    footer: String,
+  },
+  { _id: false }
+);
+
+// Rules keep their client-generated ids, as customers do
+const discountRuleSchema = new Schema<DiscountRule>(
+  {
+    id: { type: String, required: true },
+    dcat: { type: String, required: true, trim: true, uppercase: true },
+    customerId: String,
+    group: { type: String, trim: true },
+    percent: { type: Number, required: true, min: 0, max: 100 },
+  },
+  { _id: false }
+);
+
+const settingsSchema = new Schema<{
+  _id: string;
+  business?: BusinessProfile;
+  invoice?: InvoiceSettings;
+  discountRules: DiscountRule[];
+}>(
+  {
+    _id: { type: String, default: SETTINGS_ID },
+    business: { type: businessSchema, default: undefined },
+    invoice: { type: invoiceSchema, default: undefined },
+    discountRules: { type: [discountRuleSchema], default: [] },
+  },
+  { timestamps: true, toJSON: jsonOptions }
+);
+
+export const SettingsModel = mongoose.model('Settings', settingsSchema);
+
+export const getSettings = async () =>
+  (await SettingsModel.findById(SETTINGS_ID)) || new SettingsModel({ _id: SETTINGS_ID });
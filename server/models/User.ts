@@ -0,0 +1,39 @@
+// server/models/User.ts
+import mongoose, { Schema } from 'mongoose';
+import { Role } from '../../src/types';
+import { jsonOptions } from '../db';
+
+export interface UserDocument {
+  name: string;
+  email: string;
+  passwordHash: string;
+  shopName: string;
+  role: Role;
+  // Bumped on logout; refresh tokens carrying an older version are rejected
+  tokenVersion: number;
+}
+
+const userSchema = new Schema<UserDocument>(
+  {
+    name: { type: String, required: true, trim: true },
+    email: { type: String, required: true, unique: true, lowercase: true, trim: true },
+    passwordHash: { type: String, required: true },
+    shopName: { type: String, required: true, trim: true },
+    role: { type: String, enum: ['owner', 'manager', 'salesperson'], default: 'salesperson' },
+    tokenVersion: { type: Number, default: 0 },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      ...jsonOptions,
+      transform: (doc: unknown, ret: Record<string, unknown>) => {
+        jsonOptions.transform(doc, ret);
+        delete ret.passwordHash;
+        delete ret.tokenVersion;
+        return ret;
+      },
+    },
+  }
+);
+
+export const UserModel = mongoose.model<UserDocument>('User', userSchema);
@@ -0,0 +1,88 @@
+// server/routes/auth.ts
+import { Router } from 'express';
+import bcrypt from 'bcryptjs';
+import { Role, User } from '../../src/types';
+import { UserModel } from '../models/User';
+import { requireAuth, signTokens, verifyRefreshToken } from '../auth';
+import { HttpError } from '../http';
+
+const router = Router();
+
+const BCRYPT_ROUNDS = 10;
+const MIN_PASSWORD_LENGTH = 8;
+
+export const toUser = (doc: InstanceType<typeof UserModel>): User => ({
+  id: doc.id,
+  name: doc.name,
+  shopName: doc.shopName,
+  email: doc.email,
+  role: doc.role,
+});
+
+const session = (doc: InstanceType<typeof UserModel>) => ({
+  user: toUser(doc),
+  ...signTokens(toUser(doc), doc.tokenVersion),
+});
+
+// Checks and stores a new account. Used by registration and by owners
+// adding accounts from the Team screen.
+export const createAccount = async (body: Record<string, unknown>, role: Role, shopName = String(body.shopName || '').trim()) => {
+  const name = String(body.name || '').trim();
+  const email = String(body.email || '').trim().toLowerCase();
+  const password = String(body.password || '');
+
+  if (!name || !email || !shopName) throw new HttpError(400, 'Name, email and shop name are required');
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (await UserModel.exists({ email })) throw new HttpError(409, 'An account with this email already exists');
+
+  const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS);
+  return UserModel.create({ name, email, passwordHash, shopName, role });
+};
+
+// Registration sets up the shop: it is open only until the first account,
+// which owns the shop, exists. Everyone else is added by an owner.
+router.post('/register', async (req, res) => {
+  if (await UserModel.exists({})) {
+    throw new HttpError(403, 'This shop is already set up. Ask the owner to add an account for you.');
+  }
+  const user = await createAccount(req.body, 'owner');
+  res.status(201).json(session(user));
+});
+
+router.post('/login', async (req, res) => {
+  const email = String(req.body.email || '').trim().toLowerCase();
+  const password = String(req.body.password || '');
+
+  const user = await UserModel.findOne({ email });
+  // Same message for unknown email and wrong password
+  if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+    throw new HttpError(401, 'Invalid email or password');
+  }
+  res.json(session(user));
+});
+
+// Exchanges a refresh token for a new token pair
+router.post('/refresh', async (req, res) => {
+  const payload = verifyRefreshToken(String(req.body.refreshToken || ''));
+  const user = await UserModel.findById(payload.sub);
+  if (!user || user.tokenVersion !== payload.version) {
+    throw new HttpError(401, 'Session expired, please sign in again');
+  }
+  res.json(session(user));
+});
+
+// Invalidates every refresh token issued to this user
+router.post('/logout', requireAuth, async (req, res) => {
+  await UserModel.updateOne({ _id: req.user!.id }, { $inc: { tokenVersion: 1 } });
+  res.status(204).end();
+});
+
+router.get('/me', requireAuth, async (req, res) => {
+  const user = await UserModel.findById(req.user!.id);
+  if (!user) throw new HttpError(404, 'User not found');
+  res.json(toUser(user));
+});
+
+export default router;
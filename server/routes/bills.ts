@@ -0,0 +1,98 @@
+// server/routes/bills.ts
+import { Router } from 'express';
+import { BillModel } from '../models/Bill';
+import { QuotationModel } from '../models/Quotation';
+import { buildTaxDocument, createNumbered } from '../services/billing';
+import { getFinancialYear, getInvoicePrefix } from '../../src/utils/invoiceNumber';
+import { dueDateFor } from '../../src/utils/payments';
+import { amountInWords } from '../../src/utils/amounts';
+import { HttpError, escapeRegExp, getPagination } from '../http';
+import { requirePermission } from '../auth';
+
+const router = Router();
+
+// GET /api/bills?search=&customerId=&page=&limit=
+// The bill history is a report, like the dashboard
+router.get('/', requirePermission('viewReports'), async (req, res) => {
+  const { page, limit, skip } = getPagination(req.query);
+  const filter: Record<string, unknown> = {};
+  if (req.query.customerId) filter.customerId = String(req.query.customerId);
+
+  const search = String(req.query.search || '').trim();
+  if (search) {
+    const pattern = new RegExp(escapeRegExp(search), 'i');
+    filter.$or = [{ _id: pattern }, { billNumber: pattern }, { customerName: pattern }];
+  }
+
+  const [items, total] = await Promise.all([
+    BillModel.find(filter).sort({ date: -1 }).skip(skip).limit(limit),
+    BillModel.countDocuments(filter),
+  ]);
+
+  res.json({ items, total, page, limit, pages: Math.ceil(total / limit) });
+});
+
+router.get('/:id', requirePermission('viewReports'), async (req, res) => {
+  const bill = await BillModel.findById(req.params.id);
+  if (!bill) throw new HttpError(404, `Bill ${req.params.id} not found`);
+  res.json(bill);
+});
+
+const MAX_CREDIT_DAYS = 365;
+
+// Bills are immutable once issued, so there is no PUT or DELETE. Payments
+// against them are recorded separately.
+//
+// The bill number and date are the server's: numbers come from a shared
+// counter per prefix and financial year, taken only once every check has
+// passed and given back if the bill cannot be saved, so none go unused.
+router.post('/', async (req, res) => {
+  const document = await buildTaxDocument(req);
+  const id = req.body.id || `BILL-${Date.now()}`;
+  if (await BillModel.exists({ _id: id })) throw new HttpError(409, `Bill ${id} has already been issued`);
+
+  const creditDays = Number(req.body.creditDays ?? 0);
+  if (!Number.isInteger(creditDays) || creditDays < 0 || creditDays > MAX_CREDIT_DAYS) {
+    throw new HttpError(400, `Credit period must be between 0 and ${MAX_CREDIT_DAYS} days`);
+  }
+
+  // A quotation can be billed only once. It is claimed for this bill before
+  // the bill is saved, so of two bills racing for it only one gets it.
+  const quotationId = req.body.quotationId ? String(req.body.quotationId) : undefined;
+  const quotation = quotationId
+    ? await QuotationModel.findOneAndUpdate({ _id: quotationId, billId: null }, { status: 'accepted', billId: id })
+    : null;
+  if (quotationId && !quotation) {
+    const billed = await QuotationModel.findById(quotationId);
+    if (!billed) throw new HttpError(404, `Quotation ${quotationId} not found`);
+    throw new HttpError(409, `Quotation ${billed.quoteNumber} was already billed`);
+  }
+
+  const date = new Date();
+  const prefix = getInvoicePrefix(document.seller);
+  const financialYear = getFinancialYear(date);
+  const fields = {
+    ...document,
+    _id: id,
+    gstAmount: document.gst,
+    finalAmount: document.total,
+    amountInWords: amountInWords(document.total),
+    quotationId,
+    date,
+    dueDate: dueDateFor(date, creditDays),
+  };
+
+  try {
+    const bill = await createNumbered({ kind: 'bill', prefix, financialYear, field: 'billNumber' }, billNumber =>
+      BillModel.create({ ...fields, billNumber })
+    );
+    res.status(201).json(bill);
+  } catch (error) {
+    if (quotation) {
+      await QuotationModel.updateOne({ _id: quotationId, billId: id }, { status: quotation.status, $unset: { billId: 1 } });
+    }
+    throw error;
+  }
+});
+
+export default router;
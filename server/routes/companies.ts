@@ -0,0 +1,102 @@
+// server/routes/companies.ts
+import { Router } from 'express';
+import { Company, Supplier } from '../../src/types';
+import { CompanyModel } from '../models/Company';
+import { ProductModel } from '../models/Product';
+import { BillModel } from '../models/Bill';
+import { HttpError } from '../http';
+import { requirePermission } from '../auth';
+
+const router = Router();
+
+// Companies are the union of supplier records and every companyName found
+// in the catalog, with counts computed from products and bills.
+const listCompanies = async (): Promise<Company[]> => {
+  const [companies, productCounts, sales] = await Promise.all([
+    CompanyModel.find().sort({ name: 1 }),
+    ProductModel.aggregate<{ _id: string; count: number }>([
+      { $group: { _id: '$companyName', count: { $sum: 1 } } },
+    ]),
+    BillModel.aggregate<{ _id: string; total: number }>([
+      { $unwind: '$items' },
+      { $group: { _id: '$items.product.companyName', total: { $sum: '$items.lineTotal' } } },
+    ]),
+  ]);
+
+  const countByName = new Map(productCounts.map(c => [c._id, c.count]));
+  const salesByName = new Map(sales.map(s => [s._id, s.total]));
+  const names = new Set([...companies.map(c => c.name), ...countByName.keys()]);
+
+  return Array.from(names)
+    .filter(Boolean)
+    .sort()
+    .map(name => {
+      const company = companies.find(c => c.name === name);
+      return {
+        name,
+        productCount: countByName.get(name) || 0,
+        totalSales: salesByName.get(name) || 0,
+        supplier: company ? (company.toJSON() as unknown as Supplier) : undefined,
+      };
+    });
+};
+
+// Fields a client may set; anything else in the body is ignored
+const supplierFields = (body: Record<string, unknown>) => {
+  const fields: Partial<Supplier> = {};
+  if (body.name !== undefined) fields.name = String(body.name).trim();
+  (['gstin', 'contactName', 'phone', 'email', 'currency'] as const).forEach(key => {
+    if (body[key] !== undefined) fields[key] = String(body[key]).trim();
+  });
+  if (body.defaultDiscount !== undefined) fields.defaultDiscount = Number(body.defaultDiscount);
+  if (body.exchangeRate !== undefined) fields.exchangeRate = Number(body.exchangeRate);
+  if (body.importProfile !== undefined) fields.importProfile = body.importProfile as Supplier['importProfile'];
+  return fields;
+};
+
+router.get('/', async (_req, res) => {
+  res.json(await listCompanies());
+});
+
+router.get('/:name', async (req, res) => {
+  const company = (await listCompanies()).find(c => c.name === req.params.name);
+  if (!company) throw new HttpError(404, `Company ${req.params.name} not found`);
+  res.json(company);
+});
+
+router.post('/', requirePermission('importCatalog'), async (req, res) => {
+  const fields = supplierFields(req.body);
+  if (!fields.name) throw new HttpError(400, 'Company name is required');
+  if (await CompanyModel.exists({ name: fields.name })) throw new HttpError(409, `Company ${fields.name} already exists`);
+
+  const id = req.body.id ? String(req.body.id) : undefined;
+  res.status(201).json(await CompanyModel.create({ ...fields, ...(id ? { _id: id } : {}) }));
+});
+
+// Renaming a company also renames it on every product in the catalog
+router.put('/:id', requirePermission('importCatalog'), async (req, res) => {
+  const company = await CompanyModel.findById(req.params.id);
+  if (!company) throw new HttpError(404, `Company ${req.params.id} not found`);
+
+  const { name, ...fields } = supplierFields(req.body);
+  if (name && name !== company.name) {
+    if (await CompanyModel.exists({ name })) throw new HttpError(409, `Company ${name} already exists`);
+    await ProductModel.updateMany({ companyName: company.name }, { companyName: name });
+    company.name = name;
+  }
+  company.set(fields);
+  await company.save();
+  res.json(company);
+});
+
+router.delete('/:id', requirePermission('importCatalog'), async (req, res) => {
+  const company = await CompanyModel.findById(req.params.id);
+  if (!company) throw new HttpError(404, `Company ${req.params.id} not found`);
+  if (await ProductModel.exists({ companyName: company.name })) {
+    throw new HttpError(409, `Company ${company.name} still has products in the catalog`);
+  }
+  await company.deleteOne();
+  res.status(204).end();
+});
+
+export default router;
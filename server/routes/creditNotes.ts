@@ -0,0 +1,79 @@
+// server/routes/creditNotes.ts
+import { Router } from 'express';
+import { Bill, CreditNote } from '../../src/types';
+import { BillModel } from '../models/Bill';
+import { CreditNoteModel } from '../models/CreditNote';
+import { ProductModel } from '../models/Product';
+import { getSettings } from '../models/Settings';
+import { createNumbered } from '../services/billing';
+import { buildCreditNote, ReturnLine, validateReturn } from '../../src/utils/creditNotes';
+import { getCreditNotePrefix, getFinancialYear } from '../../src/utils/invoiceNumber';
+import { checkPermission } from '../../src/utils/permissions';
+import { HttpError } from '../http';
+
+const router = Router();
+
+// GET /api/credit-notes?billId=
+router.get('/', async (req, res) => {
+  const filter: Record<string, unknown> = {};
+  if (req.query.billId) filter.billId = String(req.query.billId);
+  res.json(await CreditNoteModel.find(filter).sort({ date: -1 }));
+});
+
+router.get('/:id', async (req, res) => {
+  const note = await CreditNoteModel.findById(req.params.id);
+  if (!note) throw new HttpError(404, `Credit note ${req.params.id} not found`);
+  res.json(note);
+});
+
+// The credit is worked out from the stored bill and its earlier credit
+// notes; only the returned lines are taken from the client. Numbered in
+// its own series, like bills.
+router.post('/', async (req, res) => {
+  const refusal = checkPermission(req.user, 'issueCreditNotes');
+  if (refusal) throw new HttpError(403, refusal);
+
+  const billDoc = await BillModel.findById(String(req.body.billId || ''));
+  if (!billDoc) throw new HttpError(404, `Bill ${req.body.billId} not found`);
+  const bill = billDoc.toJSON() as unknown as Bill;
+
+  const id = req.body.id || `CN-${Date.now()}`;
+  if (await CreditNoteModel.exists({ _id: id })) throw new HttpError(409, `Credit note ${id} has already been issued`);
+
+  const lines: ReturnLine[] = (Array.isArray(req.body.items) ? req.body.items : []).map(
+    (item: { billItemIndex?: unknown; quantity?: unknown; restock?: unknown }) => ({
+      billItemIndex: Number(item.billItemIndex),
+      quantity: Number(item.quantity),
+      restock: item.restock === true,
+    })
+  );
+  const earlier = (await CreditNoteModel.find({ billId: bill.id })).map(note => note.toJSON() as unknown as CreditNote);
+  const problems = validateReturn(bill, earlier, lines);
+  if (problems.length > 0) throw new HttpError(400, problems.join('; '));
+
+  const date = new Date();
+  // Bills stored before the seller carried its prefix fall back to the
+  // business on file, so their notes still share the shop's series.
+  const seller = bill.seller?.invoicePrefix ? bill.seller : (await getSettings()).toJSON().business || bill.seller;
+  const prefix = getCreditNotePrefix(seller || { name: '' });
+  const financialYear = getFinancialYear(date);
+  const fields = {
+    id,
+    date,
+    reason: req.body.reason ? String(req.body.reason).trim() : undefined,
+    createdBy: { id: req.user!.id, name: req.user!.name },
+  };
+
+  const saved = await createNumbered({ kind: 'credit', prefix, financialYear, field: 'noteNumber' }, noteNumber =>
+    CreditNoteModel.create({ ...buildCreditNote(bill, earlier, lines, { ...fields, noteNumber }), _id: id })
+  );
+  const note = saved.toJSON() as unknown as CreditNote;
+  await Promise.all(
+    note.items
+      .filter(item => item.restock)
+      .map(item => ProductModel.updateOne({ productId: item.product.productId }, { $inc: { quantity: item.quantity } }))
+  );
+  res.status(201).json(saved);
+});
+
+export default router;
@@ -0,0 +1,96 @@
+// server/routes/customers.ts
+import { Router } from 'express';
+import { Customer } from '../../src/types';
+import { CustomerModel } from '../models/Customer';
+import { BillModel } from '../models/Bill';
+import { HttpError } from '../http';
+import { checkPermission } from '../../src/utils/permissions';
+import { validateCustomer } from '../../src/utils/customers';
+
+const router = Router();
+
+// Fields a client may set; anything else in the body is ignored
+const customerFields = (body: Record<string, unknown>): Omit<Customer, 'id'> => {
+  const text = (key: string) => (body[key] ? String(body[key]).trim() : undefined);
+  return {
+    name: text('name') || '',
+    phone: text('phone'),
+    gstin: text('gstin')?.toUpperCase(),
+    billingAddress: text('billingAddress'),
+    shippingAddress: text('shippingAddress'),
+    stateCode: text('stateCode'),
+    creditLimit: body.creditLimit !== undefined && body.creditLimit !== null && body.creditLimit !== ''
+      ? Number(body.creditLimit)
+      : undefined,
+    group: text('group'),
+    notes: text('notes'),
+  };
+};
+
+const loadOthers = async () =>
+  (await CustomerModel.find()).map(customer => customer.toJSON() as unknown as Customer);
+
+router.get('/', async (_req, res) => {
+  res.json(await CustomerModel.find().sort({ name: 1 }));
+});
+
+router.get('/:id', async (req, res) => {
+  const customer = await CustomerModel.findById(req.params.id);
+  if (!customer) throw new HttpError(404, `Customer ${req.params.id} not found`);
+  res.json(customer);
+});
+
+router.post('/', async (req, res) => {
+  const id = req.body.id ? String(req.body.id) : `CUS-${Date.now()}`;
+  const fields = customerFields(req.body);
+  if (fields.creditLimit !== undefined) {
+    const refusal = checkPermission(req.user, 'manageCustomers');
+    if (refusal) throw new HttpError(403, refusal);
+  }
+  if (fields.group !== undefined) {
+    const refusal = checkPermission(req.user, 'manageDiscounts');
+    if (refusal) throw new HttpError(403, refusal);
+  }
+  const problems = validateCustomer({ id, ...fields }, await loadOthers());
+  if (problems.length > 0) throw new HttpError(400, problems.join('; '));
+
+  res.status(201).json(await CustomerModel.create({ _id: id, ...fields }));
+});
+
+router.put('/:id', async (req, res) => {
+  const customer = await CustomerModel.findById(req.params.id);
+  if (!customer) throw new HttpError(404, `Customer ${req.params.id} not found`);
+
+  const fields = customerFields(req.body);
+  if (fields.creditLimit !== customer.creditLimit) {
+    const refusal = checkPermission(req.user, 'manageCustomers');
+    if (refusal) throw new HttpError(403, refusal);
+  }
+  if (fields.group !== (customer.group || undefined)) {
+    const refusal = checkPermission(req.user, 'manageDiscounts');
+    if (refusal) throw new HttpError(403, refusal);
+  }
+  const problems = validateCustomer({ id: customer.id, ...fields }, await loadOthers());
+  if (problems.length > 0) throw new HttpError(400, problems.join('; '));
+
+  // Fields the client cleared arrive as undefined, which unsets them
+  customer.set(fields);
+  await customer.save();
+  res.json(customer);
+});
+
+// Customers with bills are kept so the bill history stays linked
+router.delete('/:id', async (req, res) => {
+  const refusal = checkPermission(req.user, 'manageCustomers');
+  if (refusal) throw new HttpError(403, refusal);
+
+  const customer = await CustomerModel.findById(req.params.id);
+  if (!customer) throw new HttpError(404, `Customer ${req.params.id} not found`);
+  if (await BillModel.exists({ customerId: customer.id })) {
+    throw new HttpError(409, `${customer.name} has bills and cannot be deleted`);
+  }
+  await customer.deleteOne();
+  res.status(204).end();
+});
+
+export default router;
@@ -0,0 +1,76 @@
+// server/routes/payments.ts
+import { Router } from 'express';
+import { Bill, CreditNote, Payment, PaymentMode } from '../../src/types';
+import { BillModel } from '../models/Bill';
+import { CreditNoteModel } from '../models/CreditNote';
+import { PaymentModel } from '../models/Payment';
+import { isDuplicateNumber } from '../services/billing';
+import { RECEIVED_MODES, getBillBalance } from '../../src/utils/payments';
+import { HttpError } from '../http';
+import { requirePermission } from '../auth';
+
+const router = Router();
+
+// GET /api/payments?billId=
+// Takings are a report, like the receivables ledger
+router.get('/', requirePermission('viewReports'), async (req, res) => {
+  const filter: Record<string, unknown> = {};
+  if (req.query.billId) filter.billId = String(req.query.billId);
+  res.json(await PaymentModel.find(filter).sort({ date: -1 }));
+});
+
+// Payments are recorded once and never edited. A payment may be dated back
+// to when the money came in, but not into the future. Of two payments made
+// against the same balance at once, the second is refused on save.
+router.post('/', async (req, res) => {
+  const id = req.body.id || `PAY-${Date.now()}`;
+  if (await PaymentModel.exists({ _id: id })) throw new HttpError(409, `Payment ${id} has already been recorded`);
+
+  const mode = req.body.mode as PaymentMode;
+  if (mode === 'credit') throw new HttpError(400, 'Credit is the unpaid balance and cannot be recorded as a payment');
+  if (!RECEIVED_MODES.includes(mode)) throw new HttpError(400, `Unknown payment mode ${req.body.mode}`);
+  const amount = Math.round(Number(req.body.amount) * 100) / 100;
+  if (!(amount > 0)) throw new HttpError(400, 'Payment amount must be positive');
+
+  const now = new Date();
+  const date = req.body.date ? new Date(req.body.date) : now;
+  if (Number.isNaN(date.getTime()) || date > now) throw new HttpError(400, 'Payment date cannot be in the future');
+
+  const billDoc = await BillModel.findById(String(req.body.billId || ''));
+  if (!billDoc) throw new HttpError(404, `Bill ${req.body.billId} not found`);
+  const bill = billDoc.toJSON() as unknown as Bill;
+
+  const [payments, creditNotes] = await Promise.all([
+    PaymentModel.find({ billId: bill.id }),
+    CreditNoteModel.find({ billId: bill.id }),
+  ]);
+  const { balance } = getBillBalance(
+    bill,
+    payments.map(p => p.toJSON() as unknown as Payment),
+    creditNotes.map(n => n.toJSON() as unknown as CreditNote)
+  );
+  if (amount > balance) {
+    throw new HttpError(400, `Bill ${bill.billNumber} has ₹${Math.max(0, balance).toFixed(2)} left to pay`);
+  }
+
+  try {
+    const payment = await PaymentModel.create({
+      _id: id,
+      billId: bill.id,
+      sequence: payments.length + 1,
+      date,
+      amount,
+      mode,
+      reference: req.body.reference ? String(req.body.reference).trim() : undefined,
+      receivedBy: { id: req.user!.id, name: req.user!.name },
+    });
+    res.status(201).json(payment);
+  } catch (error) {
+    if (isDuplicateNumber(error, 'sequence')) {
+      throw new HttpError(409, `Another payment against bill ${bill.billNumber} was just recorded; check the balance and try again`);
+    }
+    throw error;
+  }
+});
+
+export default router;
@@ -0,0 +1,93 @@
+// server/routes/products.ts
+import { Router } from 'express';
+import { ProductModel } from '../models/Product';
+import { insertNewProducts } from '../services/catalog';
+import { HttpError, escapeRegExp, getPagination } from '../http';
+import { requirePermission } from '../auth';
+import { checkProductEdit } from '../../src/utils/permissions';
+import { Product } from '../../src/types';
+
+const router = Router();
+
+// GET /api/products?search=&company=&category=&fileSource=&sheet=&page=&limit=
+router.get('/', async (req, res) => {
+  const { page, limit, skip } = getPagination(req.query);
+  const filter: Record<string, unknown> = {};
+
+  const search = String(req.query.search || '').trim();
+  if (search) {
+    const pattern = new RegExp(escapeRegExp(search), 'i');
+    filter.$or = [
+      { name: pattern },
+      { productId: pattern },
+      { companyName: pattern },
+      { category: pattern },
+      { description: pattern },
+      { fileSource: pattern },
+    ];
+  }
+  if (req.query.company) filter.companyName = String(req.query.company);
+  if (req.query.category) filter.category = String(req.query.category);
+  if (req.query.fileSource) filter.fileSource = String(req.query.fileSource);
+  if (req.query.sheet) filter.sheet = String(req.query.sheet);
+
+  const [items, total] = await Promise.all([
+    ProductModel.find(filter).sort({ productId: 1 }).skip(skip).limit(limit),
+    ProductModel.countDocuments(filter),
+  ]);
+
+  res.json({ items, total, page, limit, pages: Math.ceil(total / limit) });
+});
+
+router.get('/:productId', async (req, res) => {
+  const product = await ProductModel.findOne({ productId: req.params.productId });
+  if (!product) throw new HttpError(404, `Product ${req.params.productId} not found`);
+  res.json(product);
+});
+
+// Accepts either a single product or { products, fileName } for bulk imports
+router.post('/', requirePermission('importCatalog'), async (req, res) => {
+  const products = Array.isArray(req.body.products) ? req.body.products : [req.body];
+  if (products.length === 0) throw new HttpError(400, 'No products provided');
+
+  const result = await insertNewProducts(products, req.body.fileName);
+  res.status(201).json(result);
+});
+
+router.put('/:productId', async (req, res) => {
+  // The productId and Mongo id are identity, not editable fields
+  const updates = { ...req.body };
+  delete updates.id;
+  delete updates.productId;
+
+  const product = await ProductModel.findOne({ productId: req.params.productId });
+  if (!product) throw new HttpError(404, `Product ${req.params.productId} not found`);
+
+  // Only descriptive fields are open to everyone; the same rule as the reducer
+  const before = product.toJSON() as unknown as Product;
+  const refusal = checkProductEdit(req.user, before, { ...before, ...updates });
+  if (refusal) throw new HttpError(403, refusal);
+
+  product.set(updates);
+  await product.save();
+  res.json(product);
+});
+
+// DELETE /api/products?fileSource=name removes everything imported from a file
+router.delete('/', requirePermission('deleteProducts'), async (req, res) => {
+  const fileSource = String(req.query.fileSource || '');
+  if (!fileSource) throw new HttpError(400, 'fileSource is required');
+
+  const result = await ProductModel.deleteMany({
+    $or: [{ fileSource }, { sourceFile: fileSource }],
+  });
+  res.json({ deleted: result.deletedCount });
+});
+
+router.delete('/:productId', requirePermission('deleteProducts'), async (req, res) => {
+  const result = await ProductModel.deleteOne({ productId: req.params.productId });
+  if (result.deletedCount === 0) throw new HttpError(404, `Product ${req.params.productId} not found`);
+  res.status(204).end();
+});
+
+export default router;
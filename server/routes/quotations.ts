@@ -0,0 +1,70 @@
+// server/routes/quotations.ts
+import { Router } from 'express';
+import { QuotationStatus } from '../../src/types';
+import { QuotationModel } from '../models/Quotation';
+import { buildTaxDocument, createNumbered } from '../services/billing';
+import { getFinancialYear, getQuotationPrefix } from '../../src/utils/invoiceNumber';
+import { DEFAULT_VALIDITY_DAYS, validityDate } from '../../src/utils/quotations';
+import { HttpError } from '../http';
+
+const router = Router();
+
+const MAX_VALIDITY_DAYS = 365;
+
+router.get('/', async (_req, res) => {
+  res.json(await QuotationModel.find().sort({ date: -1 }));
+});
+
+router.get('/:id', async (req, res) => {
+  const quotation = await QuotationModel.findById(req.params.id);
+  if (!quotation) throw new HttpError(404, `Quotation ${req.params.id} not found`);
+  res.json(quotation);
+});
+
+// Priced and numbered like a bill, in a series of its own. The validity
+// runs from the server's date for `validityDays` days.
+router.post('/', async (req, res) => {
+  const document = await buildTaxDocument(req);
+  const id = req.body.id || `QUO-${Date.now()}`;
+  if (await QuotationModel.exists({ _id: id })) throw new HttpError(409, `Quotation ${id} already exists`);
+
+  const validityDays = Number(req.body.validityDays ?? DEFAULT_VALIDITY_DAYS);
+  if (!Number.isInteger(validityDays) || validityDays < 1 || validityDays > MAX_VALIDITY_DAYS) {
+    throw new HttpError(400, `Validity must be between 1 and ${MAX_VALIDITY_DAYS} days`);
+  }
+
+  const date = new Date();
+  const prefix = getQuotationPrefix(document.seller);
+  const financialYear = getFinancialYear(date);
+  const fields = {
+    ...document,
+    _id: id,
+    validUntil: validityDate(date, validityDays),
+    status: 'draft',
+    notes: req.body.notes ? String(req.body.notes).trim() : undefined,
+    date,
+  };
+
+  const quotation = await createNumbered({ kind: 'quote', prefix, financialYear, field: 'quoteNumber' }, quoteNumber =>
+    QuotationModel.create({ ...fields, quoteNumber })
+  );
+  res.status(201).json(quotation);
+});
+
+// Only the workflow status can change. A quotation becomes accepted when it
+// is billed, and expiry follows from its validity date.
+router.put('/:id/status', async (req, res) => {
+  const status = req.body.status as QuotationStatus;
+  if (status !== 'draft' && status !== 'sent') throw new HttpError(400, 'Status can only be set to draft or sent');
+
+  const quotation = await QuotationModel.findById(req.params.id);
+  if (!quotation) throw new HttpError(404, `Quotation ${req.params.id} not found`);
+  if (quotation.status === 'accepted') {
+    throw new HttpError(409, `Quotation ${quotation.quoteNumber} has been billed and can no longer change`);
+  }
+
+  quotation.status = status;
+  res.json(await quotation.save());
+});
+
+export default router;
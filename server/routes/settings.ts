@@ -0,0 +1,87 @@
+// server/routes/settings.ts
+import { Router } from 'express';
+import { BusinessProfile, DiscountRule, InvoiceSettings, InvoiceTemplate } from '../../src/types';
+import { getSettings } from '../models/Settings';
+import { validateBusiness } from '../../src/utils/gst';
+import { validateDiscountRule } from '../../src/utils/discounts';
+import { validateInvoiceSettings } from '../../src/utils/invoiceSettings';
+import { requirePermission } from '../auth';
+import { HttpError } from '../http';
+
+const router = Router();
+
+router.get('/', async (_req, res) => {
+  const { business, invoice, discountRules } = (await getSettings()).toJSON();
+  res.json({ business, invoice, discountRules });
+});
+
+router.put('/business', requirePermission('manageSettings'), async (req, res) => {
+  const business: BusinessProfile = {
+    name: String(req.body.name || '').trim(),
+    gstin: req.body.gstin ? String(req.body.gstin).trim().toUpperCase() : undefined,
+    stateCode: String(req.body.stateCode || ''),
+    address: req.body.address ? String(req.body.address) : undefined,
+    phone: req.body.phone ? String(req.body.phone) : undefined,
+    email: req.body.email ? String(req.body.email) : undefined,
+    invoicePrefix: req.body.invoicePrefix ? String(req.body.invoicePrefix).trim().toUpperCase() : undefined,
+  };
+  const problems = validateBusiness(business);
+  if (problems.length > 0) throw new HttpError(400, problems.join('; '));
+
+  const settings = await getSettings();
+  settings.set('business', business);
+  await settings.save();
+  res.json(business);
+});
+
+router.put('/invoice', requirePermission('manageSettings'), async (req, res) => {
+  const text = (value: unknown) => (value ? String(value).trim() : undefined);
+  const bank = req.body.bank as Record<string, unknown> | undefined;
+  const invoice: InvoiceSettings = {
+    template: String(req.body.template || 'a4') as InvoiceTemplate,
+    logo: text(req.body.logo),
+    bank: bank
+      ? {
+          accountName: text(bank.accountName),
+          accountNumber: text(bank.accountNumber) || '',
+          ifsc: (text(bank.ifsc) || '').toUpperCase(),
+          bankName: text(bank.bankName),
+          branch: text(bank.branch),
+          upiId: text(bank.upiId),
+        }
+      : undefined,
+    terms: text(req.body.terms),
+    footer: text(req.body.footer),
+  };
+  const problems = validateInvoiceSettings(invoice);
+  if (problems.length > 0) throw new HttpError(400, problems.join('; '));
+
+  const settings = await getSettings();
+  settings.set('invoice', invoice);
+  await settings.save();
+  res.json(invoice);
+});
+
+// Replaces the whole discount matrix
+router.put('/discount-rules', requirePermission('manageDiscounts'), async (req, res) => {
+  if (!Array.isArray(req.body)) throw new HttpError(400, 'Expected a list of discount rules');
+  const rules: DiscountRule[] = req.body.map((body: Record<string, unknown>) => ({
+    id: String(body.id || ''),
+    dcat: String(body.dcat || '').trim().toUpperCase(),
+    customerId: body.customerId ? String(body.customerId) : undefined,
+    group: body.group ? String(body.group).trim() : undefined,
+    percent: Number(body.percent),
+  }));
+  const problems = rules.flatMap(rule => [
+    ...(rule.id ? [] : ['Every rule needs an id']),
+    ...validateDiscountRule(rule, rules).map(problem => `DCAT ${rule.dcat || '?'}: ${problem}`),
+  ]);
+  if (problems.length > 0) throw new HttpError(400, Array.from(new Set(problems)).join('; '));
+
+  const settings = await getSettings();
+  settings.set('discountRules', rules);
+  await settings.save();
+  res.json(rules);
+});
+
+export default router;
@@ -0,0 +1,96 @@
+// server/routes/uploads.ts
+import { Router } from 'express';
+import multer from 'multer';
+import {
+  parseExcelData,
+  parseCSVData,
+  parsePDFData,
+  validateExcelFormat,
+  validateSpecificPDFData,
+  applyColumnMapping,
+  getColumnHeaders,
+  suggestColumnMapping,
+  MAX_IMPORT_FILE_SIZE,
+} from '../../src/utils/fileParser';
+import { applySupplier } from '../../src/utils/suppliers';
+import { Supplier } from '../../src/types';
+import { CompanyModel } from '../models/Company';
+import { insertNewProducts } from '../services/catalog';
+import { HttpError } from '../http';
+import { requirePermission } from '../auth';
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_FILE_SIZE, files: 10 },
+});
+
+const router = Router();
+
+// POST /api/uploads (multipart, field "files", plus "supplierId")
+// The supplier's import profile picks the PDF layout and spreadsheet column
+// mapping; without a saved mapping the suggested one is used. Responds with
+// the same shape the Upload screen shows: counts plus per-file errors and
+// warnings.
+router.post('/', requirePermission('importCatalog'), upload.array('files', 10), async (req, res) => {
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+  if (files.length === 0) throw new HttpError(400, 'No files selected for upload');
+
+  const company = await CompanyModel.findById(String(req.body.supplierId || ''));
+  if (!company) throw new HttpError(400, 'Choose a supplier for the upload');
+  const supplier = company.toJSON() as unknown as Supplier;
+
+  const shopName = req.user!.shopName;
+  const columnMapping = supplier.importProfile?.columnMapping;
+  let success = 0;
+  let skipped = 0;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const file of files) {
+    const fileName = file.originalname;
+    try {
+      let products;
+
+      if (/\.(xls|xlsx|csv)$/i.test(fileName)) {
+        let rows;
+        if (/\.csv$/i.test(fileName)) {
+          const csv = parseCSVData(file.buffer, fileName);
+          errors.push(...csv.errors);
+          warnings.push(...csv.warnings);
+          rows = csv.rows;
+        } else {
+          rows = parseExcelData(file.buffer);
+        }
+        const validation = validateExcelFormat(rows, fileName);
+        warnings.push(...validation.warnings);
+        if (validation.errors.length > 0) {
+          errors.push(...validation.errors);
+          continue;
+        }
+        const columns = columnMapping?.columns || suggestColumnMapping(getColumnHeaders(rows));
+        products = rows.map(row => applyColumnMapping(row, columns, { shopName, companyName: supplier.name }));
+      } else if (/\.pdf$/i.test(fileName)) {
+        const rows = await parsePDFData(file.buffer, fileName, supplier.importProfile?.pdfLayout);
+        const validation = validateSpecificPDFData(rows, fileName, supplier.name);
+        warnings.push(...validation.warnings);
+        products = validation.valid.map(product => ({ ...product, shopName }));
+      } else {
+        errors.push(`${fileName}: Unsupported file format. Only Excel (.xls, .xlsx), CSV and PDF files are allowed.`);
+        continue;
+      }
+
+      const result = await insertNewProducts(products.map(product => applySupplier(product, supplier)), fileName);
+      success += result.inserted;
+      skipped += result.skipped;
+      if (result.skipped > 0) {
+        warnings.push(`${fileName}: ${result.skipped} products skipped (duplicates)`);
+      }
+    } catch (error) {
+      errors.push(`${fileName}: ${error instanceof Error ? error.message : 'Unknown processing error'}`);
+    }
+  }
+
+  res.json({ success, skipped, errors, warnings });
+});
+
+export default router;
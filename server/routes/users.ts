@@ -0,0 +1,43 @@
+// server/routes/users.ts
+import { Router } from 'express';
+import { Role } from '../../src/types';
+import { UserModel } from '../models/User';
+import { createAccount, toUser } from './auth';
+import { HttpError } from '../http';
+
+const ROLES: Role[] = ['owner', 'manager', 'salesperson'];
+
+const router = Router();
+
+router.get('/', async (_req, res) => {
+  const users = await UserModel.find().sort({ name: 1 });
+  res.json(users.map(toUser));
+});
+
+// New accounts start as salespeople in the owner's shop until promoted
+router.post('/', async (req, res) => {
+  const user = await createAccount(req.body, 'salesperson', req.user!.shopName);
+  res.status(201).json(toUser(user));
+});
+
+// Changing a role also bumps tokenVersion so the user's existing refresh
+// token stops working and their next session carries the new role.
+router.put('/:id/role', async (req, res) => {
+  const role = req.body.role as Role;
+  if (!ROLES.includes(role)) throw new HttpError(400, `Role must be one of ${ROLES.join(', ')}`);
+
+  const user = await UserModel.findById(req.params.id);
+  if (!user) throw new HttpError(404, 'User not found');
+
+  if (user.role === 'owner' && role !== 'owner') {
+    const owners = await UserModel.countDocuments({ role: 'owner' });
+    if (owners <= 1) throw new HttpError(409, 'The shop needs at least one owner');
+  }
+
+  user.role = role;
+  user.tokenVersion += 1;
+  await user.save();
+  res.json(toUser(user));
+});
+
+export default router;
@@ -0,0 +1,169 @@
+// server/services/billing.ts
+import { Request } from 'express';
+import { CartItem, Customer } from '../../src/types';
+import { nextSequence, releaseSequence } from '../models/Counter';
+import { CustomerModel } from '../models/Customer';
+import { ProductModel } from '../models/Product';
+import { getSettings } from '../models/Settings';
+import { calculateItemTotal, calculateTotals } from '../../src/utils/billing';
+import { calculateTaxInvoice, getPlaceOfSupply, GST_STATES, isValidGstin } from '../../src/utils/gst';
+import { formatInvoiceNumber } from '../../src/utils/invoiceNumber';
+import { checkDiscount, checkQuantity } from '../../src/utils/permissions';
+import { quantityProblems } from '../../src/utils/orderRules';
+import { describeDiscountRule, findDiscountRule } from '../../src/utils/discounts';
+import { HttpError } from '../http';
+
+// Builds the priced, taxed body shared by bills and quotations from a
+// request. Totals are always recomputed from catalog prices; whatever totals
+// the client sends are ignored.
+
+interface BillItemInput {
+  productId?: string;
+  product?: { productId?: string };
+  hsn?: string;
+  quantity: number;
+  discount?: number;
+  discountType?: 'percentage' | 'amount';
+  selectedShop?: string;
+  quantityOverride?: { reason?: string };
+  discountOverridden?: boolean;
+}
+
+const buildItems = async (req: Request): Promise<CartItem[]> => {
+  const inputItems: BillItemInput[] = Array.isArray(req.body.items) ? req.body.items : [];
+  if (inputItems.length === 0) throw new HttpError(400, 'At least one item is required');
+
+  const productIds = inputItems.map(item => item.productId || item.product?.productId || '');
+  const products = await ProductModel.find({ productId: { $in: productIds } });
+  const productsById = new Map(products.map(p => [p.productId, p.toJSON()]));
+
+  const missing = productIds.filter(id => !productsById.has(id));
+  if (missing.length > 0) {
+    throw new HttpError(400, `Unknown products: ${missing.join(', ')}`);
+  }
+
+  // The buyer's discount schemes, which may take a line past the user's limit
+  const customerDoc = req.body.customerId ? await CustomerModel.findById(String(req.body.customerId)) : null;
+  const customer = customerDoc ? (customerDoc.toJSON() as unknown as Customer) : undefined;
+  const rules = (await getSettings()).toJSON().discountRules || [];
+
+  const items: CartItem[] = inputItems.map((item, index) => {
+    const quantity = Number(item.quantity);
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new HttpError(400, `Item ${index + 1}: quantity must be positive`);
+    }
+    // The HSN code may be filled in at billing time for products without one
+    const catalogProduct = productsById.get(productIds[index])!;
+    const product = item.hsn ? { ...catalogProduct, hsn: String(item.hsn).trim() } : catalogProduct;
+    // Overrides are re-recorded against the signed-in user and server time
+    const problems = quantityProblems(product, quantity);
+    const discount = Math.max(0, Number(item.discount) || 0);
+    const discountType = item.discountType === 'amount' ? 'amount' : 'percentage';
+    // The scheme is recorded on lines priced by it, not on ones typed by hand
+    const rule = findDiscountRule(rules, customer, product);
+    const onScheme = !!rule && !item.discountOverridden && discountType === 'percentage' && discount === rule.percent;
+    return {
+      product,
+      quantity,
+      selectedShop: item.selectedShop || product.shopName,
+      discount,
+      discountType,
+      quantityOverride: problems.length > 0 && item.quantityOverride
+        ? { by: req.user!.name, at: new Date(), reason: String(item.quantityOverride.reason || ''), problems }
+        : undefined,
+      discountRule: onScheme ? { ruleId: rule.id, label: describeDiscountRule(rule, [customer!]) } : undefined,
+      discountOverridden: item.discountOverridden ? true : undefined,
+    };
+  });
+
+  const refusal = items
+    .map(item => checkDiscount(req.user, item, findDiscountRule(rules, customer, item.product)?.percent) || checkQuantity(req.user, item))
+    .find(Boolean);
+  if (refusal) throw new HttpError(403, refusal);
+
+  return items;
+};
+
+export const buildTaxDocument = async (req: Request) => {
+  const items = await buildItems(req);
+
+  const customerGstin = req.body.customerGstin ? String(req.body.customerGstin).trim().toUpperCase() : undefined;
+  if (customerGstin && !isValidGstin(customerGstin)) throw new HttpError(400, `Invalid customer GSTIN ${customerGstin}`);
+
+  // Tax is split by the seller details on file at the time of issue, which
+  // are copied onto the document
+  const seller = (await getSettings()).toJSON().business;
+  if (!seller?.name || !seller.stateCode) {
+    throw new HttpError(409, 'Set up the business details before issuing tax invoices');
+  }
+  const placeOfSupply = String(req.body.placeOfSupply || getPlaceOfSupply(seller.stateCode, customerGstin));
+  if (!GST_STATES.some(state => state.code === placeOfSupply)) {
+    throw new HttpError(400, `Unknown place of supply ${placeOfSupply}`);
+  }
+
+  const totals = calculateTotals(items);
+  const invoice = calculateTaxInvoice(items, seller.stateCode, placeOfSupply);
+
+  return {
+    items: items.map(item => ({ ...item, lineTotal: calculateItemTotal(item) })),
+    subtotal: totals.subtotal,
+    totalDiscount: totals.totalDiscount,
+    gst: invoice.gst,
+    total: invoice.total,
+    customerName: req.body.customerName,
+    customerPhone: req.body.customerPhone,
+    // Not checked against the customer master: a customer added at the
+    // counter may still be on its way to the server
+    customerId: req.body.customerId ? String(req.body.customerId) : undefined,
+    seller,
+    customerGstin,
+    customerAddress: req.body.customerAddress,
+    placeOfSupply,
+    taxType: invoice.taxType,
+    taxableValue: invoice.taxableValue,
+    cgst: invoice.cgst,
+    sgst: invoice.sgst,
+    igst: invoice.igst,
+    taxSummary: invoice.taxSummary,
+    roundOff: invoice.roundOff,
+    createdBy: { id: req.user!.id, name: req.user!.name },
+  };
+};
+
+// A number can already be taken if a counter was reset or documents were
+// restored from a backup; the next one is tried instead
+const MAX_NUMBERING_ATTEMPTS = 5;
+
+export const isDuplicateNumber = (error: unknown, field: string) => {
+  const { code, keyPattern } = error as { code?: number; keyPattern?: Record<string, unknown> };
+  return code === 11000 && !!keyPattern?.[field];
+};
+
+interface NumberSeries {
+  kind: 'bill' | 'quote' | 'credit';
+  prefix: string;
+  financialYear: string;
+  field: string; // The uniquely indexed number field, e.g. 'billNumber'
+}
+
+// Saves a document under the next number of its series, e.g. SS/2026-27/0042.
+// A number is only kept once `create` succeeds: any other failure hands it
+// back, so the series has no gaps.
+export const createNumbered = async <T>(
+  { kind, prefix, financialYear, field }: NumberSeries,
+  create: (number: string) => Promise<T>
+): Promise<T> => {
+  const key = `${kind}:${prefix}/${financialYear}`;
+  for (let attempt = 1; ; attempt++) {
+    const seq = await nextSequence(key);
+    try {
+      return await create(formatInvoiceNumber(prefix, financialYear, seq));
+    } catch (error) {
+      if (!isDuplicateNumber(error, field)) {
+        await releaseSequence(key, seq);
+        throw error;
+      }
+      if (attempt >= MAX_NUMBERING_ATTEMPTS) throw error;
+    }
+  }
+};
@@ -0,0 +1,33 @@
+// server/services/catalog.ts
+import { Product } from '../../src/types';
+import { ProductModel } from '../models/Product';
+
+// Mirrors the ADD_PRODUCTS reducer: products whose productId already exists
+// are skipped, and fileName (if given) is stamped on every new product.
+export const insertNewProducts = async (products: Product[], fileName?: string) => {
+  const uniqueById = new Map<string, Product>();
+  products.forEach(product => {
+    if (product.productId && !uniqueById.has(product.productId)) {
+      uniqueById.set(product.productId, product);
+    }
+  });
+
+  const existing = await ProductModel.find(
+    { productId: { $in: Array.from(uniqueById.keys()) } },
+    { productId: 1 }
+  ).lean();
+  existing.forEach(product => uniqueById.delete(product.productId));
+
+  const newProducts = Array.from(uniqueById.values()).map(product => {
+    // Never trust a client-supplied Mongo id
+    const copy: Product = fileName ? { ...product, fileSource: fileName, sourceFile: fileName } : { ...product };
+    delete copy.id;
+    return copy;
+  });
+
+  if (newProducts.length > 0) {
+    await ProductModel.insertMany(newProducts, { ordered: false });
+  }
+
+  return { inserted: newProducts.length, skipped: products.length - newProducts.length };
+};
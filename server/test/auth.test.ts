@@ -0,0 +1,33 @@
+// server/test/auth.test.ts
+import supertest from 'supertest';
+import { describe, expect, it } from 'vitest';
+import { createApp } from '../app';
+import { signedInAs, withTestDatabase } from './helpers';
+
+withTestDatabase();
+
+const app = createApp();
+const account = (email: string) => ({ name: 'Test', email, password: 'long-enough', shopName: 'Sahajanand Sales' });
+
+describe('POST /api/auth/register', () => {
+  it('makes the first account the owner and then closes', async () => {
+    const first = await supertest(app).post('/api/auth/register').send(account('owner@example.com'));
+    expect(first.status).toBe(201);
+    expect(first.body.user.role).toBe('owner');
+
+    const second = await supertest(app).post('/api/auth/register').send(account('someone@example.com'));
+    expect(second.status).toBe(403);
+  });
+});
+
+describe('POST /api/users', () => {
+  it("adds a salesperson to the owner's shop", async () => {
+    const res = await signedInAs('owner').post('/api/users').send({ ...account('new@example.com'), shopName: 'Elsewhere' });
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ email: 'new@example.com', role: 'salesperson', shopName: 'Sahajanand Sales' });
+  });
+
+  it('is refused to anyone who cannot manage users', async () => {
+    expect((await signedInAs('manager').post('/api/users').send(account('new@example.com'))).status).toBe(403);
+  });
+});
@@ -0,0 +1,100 @@
+// server/test/bills.test.ts
+import { beforeEach, describe, expect, it } from 'vitest';
+import { formatInvoiceNumber, getFinancialYear } from '../../src/utils/invoiceNumber';
+import { nextSequence, releaseSequence } from '../models/Counter';
+import { QuotationModel } from '../models/Quotation';
+import { issueBill, seedBusiness, seedProduct, signedInAs, withTestDatabase } from './helpers';
+
+withTestDatabase();
+
+const billNumber = (sequence: number) => formatInvoiceNumber('SAH', getFinancialYear(new Date()), sequence);
+
+describe('POST /api/bills', () => {
+  beforeEach(async () => {
+    await Promise.all([seedBusiness(), seedProduct()]);
+  });
+
+  it('prices the bill from the catalog and numbers it in the shop series', async () => {
+    const res = await issueBill({ total: 1 });
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ billNumber: billNumber(1), subtotal: 200, gst: 36, total: 236 });
+    expect(res.body.amountInWords).toBe('Rupees Two Hundred Thirty Six Only');
+  });
+
+  it('bills fractional quantities', async () => {
+    const res = await issueBill({ items: [{ productId: 'DRILL-6', quantity: 1.5 }] });
+    expect(res.status).toBe(201);
+    expect(res.body.items[0].quantity).toBe(1.5);
+    expect(res.body.subtotal).toBe(150);
+  });
+
+  it('numbers bills one after another', async () => {
+    const first = await issueBill();
+    const second = await issueBill();
+    expect([first.body.billNumber, second.body.billNumber]).toEqual([billNumber(1), billNumber(2)]);
+  });
+
+  it('does not use up a number on a refused bill', async () => {
+    expect((await issueBill({ items: [{ productId: 'MISSING', quantity: 1 }] })).status).toBe(400);
+    expect((await issueBill()).body.billNumber).toBe(billNumber(1));
+  });
+
+  it('leaves no gap when a bill fails to save after taking a number', async () => {
+    // Both requests may pass the id check before either is saved
+    const results = await Promise.all([issueBill({ id: 'BILL-1' }), issueBill({ id: 'BILL-1' })]);
+    expect(results.map(res => res.status).sort()).toEqual([201, 409]);
+
+    const issued = results.find(res => res.status === 201)!;
+    const next = await issueBill();
+    expect([issued.body.billNumber, next.body.billNumber].sort()).toEqual([billNumber(1), billNumber(2)]);
+  });
+
+  it('bills a quotation only once', async () => {
+    const quotation = await signedInAs('owner')
+      .post('/api/quotations')
+      .send({ items: [{ productId: 'DRILL-6', quantity: 2 }] });
+    expect(quotation.status).toBe(201);
+
+    const results = await Promise.all([
+      issueBill({ quotationId: quotation.body.id }),
+      issueBill({ quotationId: quotation.body.id }),
+    ]);
+    expect(results.map(res => res.status).sort()).toEqual([201, 409]);
+
+    const billed = results.find(res => res.status === 201)!;
+    const stored = await QuotationModel.findById(quotation.body.id);
+    expect(stored?.toJSON()).toMatchObject({ status: 'accepted', billId: billed.body.id });
+  });
+});
+
+describe('GET /api/bills', () => {
+  it('is a report, refused to salespeople', async () => {
+    expect((await signedInAs('salesperson').get('/api/bills')).status).toBe(403);
+    expect((await signedInAs('manager').get('/api/bills')).status).toBe(200);
+  });
+});
+
+describe('GET /api/bills/:id', () => {
+  it('is a report too, refused to salespeople', async () => {
+    await Promise.all([seedBusiness(), seedProduct()]);
+    const bill = await issueBill({}, 'salesperson');
+    expect(bill.status).toBe(201);
+
+    expect((await signedInAs('salesperson').get(`/api/bills/${bill.body.id}`)).status).toBe(403);
+    expect((await signedInAs('manager').get(`/api/bills/${bill.body.id}`)).body.billNumber).toBe(billNumber(1));
+  });
+});
+
+describe('document numbering', () => {
+  it('reissues a released number before moving on', async () => {
+    expect([await nextSequence('test'), await nextSequence('test'), await nextSequence('test')]).toEqual([1, 2, 3]);
+    await releaseSequence('test', 2);
+    expect([await nextSequence('test'), await nextSequence('test')]).toEqual([2, 4]);
+  });
+
+  it('steps the counter back when the latest number is released', async () => {
+    await nextSequence('test');
+    await releaseSequence('test', 1);
+    expect(await nextSequence('test')).toBe(1);
+  });
+});
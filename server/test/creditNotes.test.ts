@@ -0,0 +1,46 @@
+// server/test/creditNotes.test.ts
+import { beforeEach, describe, expect, it } from 'vitest';
+import { formatInvoiceNumber, getFinancialYear } from '../../src/utils/invoiceNumber';
+import { ProductModel } from '../models/Product';
+import { SETTINGS_ID, SettingsModel } from '../models/Settings';
+import { issueBill, seedBusiness, seedProduct, signedInAs, withTestDatabase } from './helpers';
+
+withTestDatabase();
+
+describe('POST /api/credit-notes', () => {
+  let billId: string;
+
+  beforeEach(async () => {
+    await Promise.all([seedBusiness(), seedProduct()]);
+    billId = (await issueBill()).body.id;
+  });
+
+  const returnGoods = (quantity: number, role: 'owner' | 'salesperson' = 'owner') =>
+    signedInAs(role)
+      .post('/api/credit-notes')
+      .send({ billId, reason: 'Wrong size', items: [{ billItemIndex: 0, quantity, restock: true }] });
+
+  it('credits the returned goods and puts them back in stock', async () => {
+    const res = await returnGoods(1);
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({
+      noteNumber: formatInvoiceNumber('SAH/CN', getFinancialYear(new Date()), 1),
+      billId,
+    });
+    expect((await ProductModel.findOne({ productId: 'DRILL-6' }))?.quantity).toBe(11);
+  });
+
+  it('keeps the series of the bill after the prefix changes', async () => {
+    await SettingsModel.updateOne({ _id: SETTINGS_ID }, { 'business.invoicePrefix': 'NEW' });
+    expect((await returnGoods(1)).body.noteNumber).toMatch(/^SAH\/CN\//);
+  });
+
+  it('refuses to take back more than was billed', async () => {
+    expect((await returnGoods(2)).status).toBe(201);
+    expect((await returnGoods(1)).status).toBe(400);
+  });
+
+  it('is refused to salespeople', async () => {
+    expect((await returnGoods(1, 'salesperson')).status).toBe(403);
+  });
+});
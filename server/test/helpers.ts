@@ -0,0 +1,74 @@
+// server/test/helpers.ts
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import supertest from 'supertest';
+import { afterAll, afterEach, beforeAll } from 'vitest';
+import { BusinessProfile, Product, Role } from '../../src/types';
+import { createApp } from '../app';
+import { signTokens } from '../auth';
+import { ProductModel } from '../models/Product';
+import { SETTINGS_ID, SettingsModel } from '../models/Settings';
+
+// Route tests run the real app against an in-memory MongoDB, started once
+// per test file and emptied after every test. Set MONGOMS_SYSTEM_BINARY to
+// use a locally installed mongod instead of a downloaded one.
+
+process.env.JWT_SECRET ||= 'test-access-secret';
+process.env.JWT_REFRESH_SECRET ||= 'test-refresh-secret';
+
+export const withTestDatabase = () => {
+  let mongo: MongoMemoryServer;
+
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create();
+    await mongoose.connect(mongo.getUri());
+    // The unique indexes are what keep numbers and payments from clashing
+    await Promise.all(mongoose.modelNames().map(name => mongoose.model(name).createIndexes()));
+  });
+
+  afterEach(async () => {
+    await Promise.all(Object.values(mongoose.connection.collections).map(collection => collection.deleteMany({})));
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo?.stop();
+  });
+};
+
+const app = createApp();
+
+// Requests signed in as a user with the given role
+export const signedInAs = (role: Role) => {
+  const { accessToken } = signTokens({ id: `USER-${role}`, name: `Test ${role}`, shopName: 'Sahajanand Sales', role }, 0);
+  const authorize = (test: supertest.Test) => test.set('Authorization', `Bearer ${accessToken}`);
+  return {
+    get: (url: string) => authorize(supertest(app).get(url)),
+    post: (url: string) => authorize(supertest(app).post(url)),
+    put: (url: string) => authorize(supertest(app).put(url)),
+  };
+};
+
+export const seedBusiness = (business: Partial<BusinessProfile> = {}) =>
+  SettingsModel.create({
+    _id: SETTINGS_ID,
+    business: { name: 'Sahajanand Sales', stateCode: '24', invoicePrefix: 'SAH', ...business },
+  });
+
+// ₹100 plus 18% GST, so two of them come to ₹236
+export const seedProduct = (product: Partial<Product> = {}) =>
+  ProductModel.create({
+    productId: 'DRILL-6',
+    name: 'Drill bit 6mm',
+    price: 100,
+    gst: 18,
+    quantity: 10,
+    companyName: 'Bosch',
+    shopName: 'Sahajanand Sales',
+    ...product,
+  });
+
+export const issueBill = (body: Record<string, unknown> = {}, role: Role = 'owner') =>
+  signedInAs(role)
+    .post('/api/bills')
+    .send({ items: [{ productId: 'DRILL-6', quantity: 2 }], ...body });
@@ -0,0 +1,42 @@
+// server/test/payments.test.ts
+import { beforeEach, describe, expect, it } from 'vitest';
+import { issueBill, seedBusiness, seedProduct, signedInAs, withTestDatabase } from './helpers';
+
+withTestDatabase();
+
+describe('POST /api/payments', () => {
+  let billId: string;
+
+  beforeEach(async () => {
+    await Promise.all([seedBusiness(), seedProduct()]);
+    billId = (await issueBill({ creditDays: 30 })).body.id;
+  });
+
+  const pay = (amount: number, mode = 'cash') =>
+    signedInAs('salesperson').post('/api/payments').send({ billId, amount, mode });
+
+  it('records part payments up to the balance', async () => {
+    expect((await pay(100)).status).toBe(201);
+    expect((await pay(36, 'upi')).status).toBe(201);
+
+    const res = await pay(101);
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/₹100\.00 left to pay/);
+  });
+
+  it('accepts only one of two payments made against the same balance at once', async () => {
+    const results = await Promise.all([pay(236), pay(236, 'upi')]);
+    expect(results.filter(res => res.status === 201)).toHaveLength(1);
+
+    const payments = await signedInAs('owner').get(`/api/payments?billId=${billId}`);
+    expect(payments.body.map((payment: { amount: number }) => payment.amount)).toEqual([236]);
+  });
+
+  it('lists payments only to those who may see reports', async () => {
+    expect((await signedInAs('salesperson').get('/api/payments')).status).toBe(403);
+  });
+
+  it('refuses credit, which is the unpaid balance rather than a payment', async () => {
+    expect((await pay(50, 'credit')).status).toBe(400);
+  });
+});
@@ -0,0 +1,27 @@
+// server/test/products.test.ts
+import { beforeEach, describe, expect, it } from 'vitest';
+import { seedProduct, signedInAs, withTestDatabase } from './helpers';
+
+withTestDatabase();
+
+describe('PUT /api/products/:productId', () => {
+  beforeEach(async () => {
+    await seedProduct();
+  });
+
+  const edit = (updates: Record<string, unknown>, role: 'manager' | 'salesperson' = 'salesperson') =>
+    signedInAs(role).put('/api/products/DRILL-6').send(updates);
+
+  it('lets anyone correct the name and description', async () => {
+    const res = await edit({ name: 'Drill bit 6 mm', description: 'HSS' });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ name: 'Drill bit 6 mm', description: 'HSS' });
+  });
+
+  it('refuses commercial fields to salespeople', async () => {
+    for (const updates of [{ price: 90 }, { gst: 5 }, { dcat: 'D1' }, { minOrderQty: 1 }, { quantity: 99 }]) {
+      expect((await edit(updates)).status).toBe(403);
+    }
+    expect((await edit({ gst: 5 }, 'manager')).body.gst).toBe(5);
+  });
+});
@@ -0,0 +1,44 @@
+// server/test/uploads.test.ts
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CompanyModel } from '../models/Company';
+import { ProductModel } from '../models/Product';
+import { signedInAs, withTestDatabase } from './helpers';
+
+withTestDatabase();
+
+const catalog = Buffer.from('Article No,Description,Price,GST\nB-100,Drill bit 6mm,120,18\nB-101,Drill bit 8mm,150.50,18\n');
+
+const upload = (supplierId: string, role: 'owner' | 'salesperson' = 'owner') =>
+  signedInAs(role).post('/api/uploads').field('supplierId', supplierId).attach('files', catalog, 'bosch.csv');
+
+describe('POST /api/uploads', () => {
+  beforeEach(async () => {
+    await CompanyModel.create({ _id: 'SUP-BOSCH', name: 'Bosch' });
+  });
+
+  it("imports a spreadsheet under the supplier's name", async () => {
+    const res = await upload('SUP-BOSCH');
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ success: 2, skipped: 0, errors: [] });
+
+    const products = await ProductModel.find().sort({ productId: 1 });
+    expect(products.map(p => [p.productId, p.price, p.companyName, p.fileSource])).toEqual([
+      ['B-100', 120, 'Bosch', 'bosch.csv'],
+      ['B-101', 150.5, 'Bosch', 'bosch.csv'],
+    ]);
+  });
+
+  it('skips products that are already in the catalog', async () => {
+    await upload('SUP-BOSCH');
+    const res = await upload('SUP-BOSCH');
+    expect(res.body).toMatchObject({ success: 0, skipped: 2 });
+  });
+
+  it('needs a supplier', async () => {
+    expect((await upload('SUP-UNKNOWN')).status).toBe(400);
+  });
+
+  it('is refused to users who may not import catalogs', async () => {
+    expect((await upload('SUP-BOSCH', 'salesperson')).status).toBe(403);
+  });
+});
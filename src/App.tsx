@@ -1,3 +1,5 @@
+import { useEffect } from 'react';
+import { Loader2, ShieldAlert, X } from 'lucide-react';
 import { AppProvider, useApp } from './context/AppContext';
 import Header from './components/Header';
 import Dashboard from './components/Dashboard';
@@ -6,11 +8,30 @@ import FileUpload from './components/FileUpload';
 import Cart from './components/Cart';
 import Bills from './components/Bills';
 import Companies from './components/Companies';
+import Login from './components/Login';
+import Team from './components/Team';
+import Suppliers from './components/Suppliers';
+import Customers from './components/Customers';
+import Quotations from './components/Quotations';
+import Receivables from './components/Receivables';
+import Settings from './components/Settings';
+import { isApiEnabled } from './utils/api';
 
 function AppContent() {
-  const { state } = useApp();
+  const { state, dispatch } = useApp();
+
+  useEffect(() => {
+    if (!state.permissionError) return;
+    const timer = setTimeout(() => dispatch({ type: 'DISMISS_PERMISSION_ERROR' }), 6000);
+    return () => clearTimeout(timer);
+  }, [state.permissionError, dispatch]);
 
   const renderCurrentView = () => {
+    // With a server configured every screen requires a signed-in user
+    if (isApiEnabled && state.hydrated && !state.user) {
+      return <Login />;
+    }
+
     switch (state.currentView) {
       case 'dashboard':
         return <Dashboard />;
@@ -24,6 +45,18 @@ function AppContent() {
         return <Companies />;
       case 'bills':
         return <Bills />;
+      case 'quotations':
+        return <Quotations />;
+      case 'receivables':
+        return <Receivables />;
+      case 'suppliers':
+        return <Suppliers />;
+      case 'customers':
+        return <Customers />;
+      case 'team':
+        return <Team />;
+      case 'settings':
+        return <Settings />;
       default:
         return <Dashboard />;
     }
@@ -34,6 +67,33 @@ function AppContent() {
       state.theme === 'dark' ? 'bg-gray-900' : 'bg-gray-50'
     }`}>
       <Header />
+      {!state.hydrated && (
+        <div className={`flex items-center justify-center space-x-2 py-2 text-sm ${
+          state.theme === 'dark' ? 'bg-blue-900/20 text-blue-300' : 'bg-blue-50 text-blue-700'
+        }`}>
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Restoring saved data... {state.products.length > 0 && `${state.products.length} products loaded`}</span>
+        </div>
+      )}
+      {state.permissionError && (
+        <div className="container mx-auto px-4 pt-4">
+          <div className={`flex items-start space-x-3 p-4 rounded-xl border ${
+            state.theme === 'dark'
+              ? 'bg-red-900/20 border-red-500/30 text-red-300'
+              : 'bg-red-50 border-red-200 text-red-700'
+          }`}>
+            <ShieldAlert className="w-5 h-5 mt-0.5 flex-shrink-0" />
+            <p className="flex-1 text-sm">{state.permissionError}</p>
+            <button
+              onClick={() => dispatch({ type: 'DISMISS_PERMISSION_ERROR' })}
+              className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/40"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
       <main className="container mx-auto px-4 py-8">
         {renderCurrentView()}
       </main>
@@ -1,133 +1,87 @@
 import React from 'react';
-import { FileText, Download, Search, Calendar } from 'lucide-react';
+import { FileText, Download, Search, Calendar, RotateCcw, Wallet } from 'lucide-react';
 import { useApp } from '../context/AppContext';
 import { Bill } from '../types';
-import { jsPDF } from 'jspdf';
+import { getReturnedQuantities } from '../utils/creditNotes';
+import { downloadCreditNotePdf } from '../utils/creditNotePdf';
+import { downloadBillPdf } from '../utils/billPdf';
+import { can } from '../utils/permissions';
+import { getBillBalance } from '../utils/payments';
+import { amountInWords, formatRupees } from '../utils/amounts';
+import CreditNoteForm from './CreditNoteForm';
+import PaymentForm from './PaymentForm';
+
+type PaymentFilter = 'all' | 'paid' | 'partial' | 'unpaid' | 'overdue';
+
+const PAYMENT_BADGES = {
+  paid: { label: 'Paid', className: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300' },
+  partial: { label: 'Partial', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300' },
+  unpaid: { label: 'Unpaid', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+};
 
 export default function Bills() {
   const { state } = useApp();
   const [searchTerm, setSearchTerm] = React.useState('');
   const [dateFilter, setDateFilter] = React.useState('');
+  const [paymentFilter, setPaymentFilter] = React.useState<PaymentFilter>('all');
+  const [returningBill, setReturningBill] = React.useState<Bill | null>(null);
+  const [payingBill, setPayingBill] = React.useState<Bill | null>(null);
+  const canReturn = can(state.user, 'issueCreditNotes');
+
+  const balances = React.useMemo(
+    () => new Map(state.bills.map(bill => [bill.id, getBillBalance(bill, state.payments, state.creditNotes)])),
+    [state.bills, state.payments, state.creditNotes]
+  );
 
   const filteredBills = React.useMemo(() => {
     return state.bills.filter(bill => {
       const matchesSearch = 
         bill.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        bill.billNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
         (bill.customerName && bill.customerName.toLowerCase().includes(searchTerm.toLowerCase()));
       
       const matchesDate = dateFilter 
         ? new Date(bill.date).toLocaleDateString('en-CA') === new Date(dateFilter).toLocaleDateString('en-CA')
         : true;
       
-      return matchesSearch && matchesDate;
+      const balance = balances.get(bill.id);
+      const matchesPayment = paymentFilter === 'all' || (
+        paymentFilter === 'overdue' ? !!balance?.overdue : balance?.status === paymentFilter
+      );
+      
+      return matchesSearch && matchesDate && matchesPayment;
     }).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [state.bills, searchTerm, dateFilter]);
+  }, [state.bills, searchTerm, dateFilter, paymentFilter, balances]);
+
+  // Units returned and amount credited per bill
+  const returnsByBill = React.useMemo(() => new Map(state.bills.map(bill => {
+    const returned = getReturnedQuantities(bill, state.creditNotes);
+    const credited = state.creditNotes
+      .filter(note => note.billId === bill.id)
+      .reduce((sum, note) => sum + note.total, 0);
+    return [bill.id, { returned, units: returned.reduce((sum, qty) => sum + qty, 0), credited }];
+  })), [state.bills, state.creditNotes]);
+
+  const creditNotes = React.useMemo(
+    () => [...state.creditNotes].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    [state.creditNotes]
+  );
 
   const generatePDF = async (bill: Bill) => {
-  try {
-    // Create a new PDF instance
-    const pdf = new jsPDF();
-    
-    // Set initial position
-    let yPos = 20;
-    
-    // Add header
-    pdf.setFontSize(18);
-    pdf.setTextColor(40, 40, 40);
-    pdf.text('ProductFlow', 105, yPos, { align: 'center' });
-    yPos += 10;
-    
-    pdf.setFontSize(12);
-    pdf.text('Bill Receipt', 105, yPos, { align: 'center' });
-    yPos += 15;
-    
-    // Bill info - ensure single line for ID and Date
-    pdf.setFontSize(10);
-    pdf.text(`Bill ID: ${bill.id}`, 14, yPos);
-    pdf.text(`Date: ${new Date(bill.date).toLocaleDateString()}`, 160, yPos, { align: 'right' });
-    yPos += 8;
-    
-    if (bill.customerName) {
-      pdf.text(`Customer: ${bill.customerName}`, 14, yPos);
-      yPos += 8;
+    try {
+      await downloadBillPdf(bill, {
+        business: state.business,
+        invoice: state.invoiceSettings,
+        payments: state.payments,
+        creditNotes: state.creditNotes
+      });
+      alert('Bill downloaded successfully!');
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      alert('Failed to generate PDF. Please try again.');
     }
-    
-    // Add line separator
-    pdf.setDrawColor(200, 200, 200);
-    pdf.line(14, yPos, 196, yPos);
-    yPos += 15;
-    
-    // Add items header
-    pdf.setFontSize(12);
-    pdf.setTextColor(40, 40, 40);
-    pdf.text('Items', 14, yPos);
-    yPos += 10;
-    
-    // Format number function
-    const formatNumber = (num: number) => {
-      return '₹' + num.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ",");
-    };
-    
-    // Add items
-    pdf.setFontSize(10);
-    bill.items.forEach(item => {
-      const itemTotal = item.product.price * item.quantity;
-      pdf.text(`${item.product.name} x${item.quantity}`, 14, yPos);
-      pdf.text(formatNumber(itemTotal), 180, yPos, { align: 'right' });
-      yPos += 8;
-    });
-    
-    // Add totals separator
-    yPos += 5;
-    pdf.line(14, yPos, 196, yPos);
-    yPos += 10;
-    
-    // Add totals
-    pdf.setFontSize(12);
-    
-    // Subtotal
-    pdf.text(`Subtotal: ${formatNumber(bill.subtotal)}`, 14, yPos);
-    pdf.text(formatNumber(bill.subtotal), 180, yPos, { align: 'right' });
-    yPos += 10;
-    
-    // Discount
-    if (bill.totalDiscount > 0) {
-      pdf.setTextColor(200, 0, 0);
-      pdf.text(`Discount: -${formatNumber(bill.totalDiscount)}`, 14, yPos);
-      pdf.text(`-${formatNumber(bill.totalDiscount)}`, 180, yPos, { align: 'right' });
-      yPos += 10;
-      pdf.setTextColor(40, 40, 40);
-    }
-    
-    // GST
-    pdf.text(`GST: ${formatNumber(bill.gst)}`, 14, yPos);
-    pdf.text(formatNumber(bill.gst), 180, yPos, { align: 'right' });
-    yPos += 15;
-    
-    // Total
-    pdf.setFontSize(14);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text(`Total: ${formatNumber(bill.total)}`, 14, yPos);
-    pdf.text(formatNumber(bill.total), 180, yPos, { align: 'right' });
-    yPos += 20;
-    
-    // Footer
-    pdf.setFontSize(10);
-    pdf.setTextColor(100, 100, 100);
-    pdf.text('Thank you for your business!', 105, yPos, { align: 'center' });
-    yPos += 5;
-    pdf.text(`Generated on ${new Date().toLocaleString()}`, 105, yPos, { align: 'center' });
-    
-    // Save the PDF
-    pdf.save(`bill_${bill.id}.pdf`);
-    
-    // Provide user feedback
-    alert('Bill downloaded successfully!');
-  } catch (error) {
-    console.error('Error generating PDF:', error);
-    alert('Failed to generate PDF. Please try again.');
-  }
-};
+  };
 
   return (
     <div className="space-y-6">
@@ -144,7 +98,7 @@ export default function Bills() {
         </p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className={`relative rounded-xl border ${
           state.theme === 'dark'
             ? 'bg-gray-800 border-gray-700'
@@ -155,7 +109,7 @@ export default function Bills() {
           }`} />
           <input
             type="text"
-            placeholder="Search by bill ID or customer..."
+            placeholder="Search by bill number or customer..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className={`w-full pl-12 pr-4 py-3 rounded-xl border-0 ${
@@ -186,6 +140,22 @@ export default function Bills() {
           />
         </div>
 
+        <select
+          value={paymentFilter}
+          onChange={(e) => setPaymentFilter(e.target.value as PaymentFilter)}
+          className={`px-4 py-3 rounded-xl border ${
+            state.theme === 'dark'
+              ? 'bg-gray-800 border-gray-700 text-white'
+              : 'bg-white border-gray-200 text-gray-900'
+          }`}
+        >
+          <option value="all">All payments</option>
+          <option value="paid">Paid</option>
+          <option value="partial">Partly paid</option>
+          <option value="unpaid">Unpaid</option>
+          <option value="overdue">Overdue</option>
+        </select>
+
         <div className={`flex items-center justify-end ${
           state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
         }`}>
@@ -208,7 +178,7 @@ export default function Bills() {
                   <th className={`text-left py-3 px-4 font-medium ${
                     state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
                   }`}>
-                    Bill ID
+                    Bill No.
                   </th>
                   <th className={`text-left py-3 px-4 font-medium ${
                     state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
@@ -225,50 +195,209 @@ export default function Bills() {
                   }`}>
                     Items
                   </th>
+                  <th className={`text-left py-3 px-4 font-medium ${
+                    state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
+                  }`}>
+                    Created By
+                  </th>
                   <th className={`text-right py-3 px-4 font-medium ${
                     state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
                   }`}>
                     Total
                   </th>
+                  <th className={`text-left py-3 px-4 font-medium ${
+                    state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
+                  }`}>
+                    Payment
+                  </th>
                   <th className="w-10"></th>
                 </tr>
               </thead>
               <tbody>
-                {filteredBills.map((bill) => (
-                  <tr 
-                    key={bill.id} 
-                    className={`border-b ${
-                      state.theme === 'dark' ? 'border-gray-700 hover:bg-gray-700/50' : 'border-gray-200 hover:bg-gray-50'
-                    }`}
-                  >
-                    <td className={`py-3 px-4 ${
-                      state.theme === 'dark' ? 'text-white' : 'text-gray-900'
-                    }`}>
-                      #{bill.id.slice(-6)}
-                    </td>
-                    <td className={`py-3 px-4 ${
-                      state.theme === 'dark' ? 'text-white' : 'text-gray-900'
-                    }`}>
-                      {bill.customerName || 'Walk-in Customer'}
-                    </td>
-                    <td className={`py-3 px-4 ${
-                      state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
-                    }`}>
-                      {new Date(bill.date).toLocaleDateString()}
+                {filteredBills.map((bill) => {
+                  const returns = returnsByBill.get(bill.id);
+                  const fullyReturned = !!returns && returns.returned.every((qty, index) => qty >= bill.items[index].quantity);
+                  const balance = balances.get(bill.id);
+                  const badge = balance && PAYMENT_BADGES[balance.overdue ? 'overdue' : balance.status];
+                  return (
+                    <tr 
+                      key={bill.id} 
+                      className={`border-b ${
+                        state.theme === 'dark' ? 'border-gray-700 hover:bg-gray-700/50' : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <td className={`py-3 px-4 ${
+                        state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+                      }`}>
+                        {bill.billNumber}
+                      </td>
+                      <td className={`py-3 px-4 ${
+                        state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+                      }`}>
+                        {bill.customerName || 'Walk-in Customer'}
+                        {bill.customerGstin && (
+                          <div className={`text-xs ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                            GSTIN {bill.customerGstin}
+                          </div>
+                        )}
+                      </td>
+                      <td className={`py-3 px-4 ${
+                        state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
+                      }`}>
+                        {new Date(bill.date).toLocaleDateString()}
+                      </td>
+                      <td className={`py-3 px-4 ${
+                        state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
+                      }`}>
+                        {bill.items.length} items
+                        {returns && returns.units > 0 && (
+                          <div className="text-xs text-red-500">
+                            {fullyReturned ? 'All returned' : `${returns.units} unit${returns.units !== 1 ? 's' : ''} returned`}
+                          </div>
+                        )}
+                      </td>
+                      <td className={`py-3 px-4 ${
+                        state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
+                      }`}>
+                        {bill.createdBy?.name || '—'}
+                      </td>
+                      <td
+                        title={bill.amountInWords || amountInWords(bill.total)}
+                        className={`py-3 px-4 text-right font-semibold ${
+                          state.theme === 'dark' ? 'text-emerald-400' : 'text-emerald-600'
+                        }`}
+                      >
+                        {formatRupees(bill.total)}
+                        {bill.taxSummary && (
+                          <div className={`text-xs font-normal ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                            {bill.taxType === 'inter'
+                              ? `IGST ${formatRupees((bill.igst ?? 0))}`
+                              : `CGST ${formatRupees((bill.cgst ?? 0))} + SGST ${formatRupees((bill.sgst ?? 0))}`}
+                          </div>
+                        )}
+                        {returns && returns.credited > 0 && (
+                          <div className="text-xs font-normal text-red-500">
+                            -{formatRupees(returns.credited)} credited
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4">
+                        {badge && (
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${badge.className}`}>
+                            {badge.label}
+                          </span>
+                        )}
+                        {balance && balance.balance > 0 && (
+                          <div className={`text-xs mt-1 ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                            {formatRupees(balance.balance)} due {bill.dueDate && new Date(bill.dueDate).toLocaleDateString()}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-right whitespace-nowrap">
+                        {balance && balance.balance > 0 && (
+                          <button
+                            onClick={() => setPayingBill(bill)}
+                            className={`p-2 rounded-lg ${
+                              state.theme === 'dark'
+                                ? 'text-emerald-400 hover:bg-gray-700'
+                                : 'text-emerald-600 hover:bg-gray-100'
+                            }`}
+                            title="Record payment"
+                          >
+                            <Wallet className="w-5 h-5" />
+                          </button>
+                        )}
+                        {canReturn && !fullyReturned && (
+                          <button
+                            onClick={() => setReturningBill(bill)}
+                            className={`p-2 rounded-lg ${
+                              state.theme === 'dark'
+                                ? 'text-orange-400 hover:bg-gray-700'
+                                : 'text-orange-600 hover:bg-gray-100'
+                            }`}
+                            title="Return items"
+                          >
+                            <RotateCcw className="w-5 h-5" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => generatePDF(bill)}
+                          className={`p-2 rounded-lg ${
+                            state.theme === 'dark'
+                              ? 'text-blue-400 hover:bg-gray-700'
+                              : 'text-blue-600 hover:bg-gray-100'
+                          }`}
+                          title="Download PDF"
+                        >
+                          <Download className="w-5 h-5" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className={`text-center py-12 ${
+            state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+          }`}>
+            <FileText className="w-16 h-16 mx-auto mb-4 opacity-50" />
+            <h3 className="text-lg font-medium mb-2">No bills found</h3>
+            <p>Try adjusting your search filters or generate new bills.</p>
+          </div>
+        )}
+      </div>
+
+      {creditNotes.length > 0 && (
+        <div className={`rounded-xl border overflow-hidden ${
+          state.theme === 'dark'
+            ? 'bg-gray-800 border-gray-700'
+            : 'bg-white border-gray-200'
+        }`}>
+          <h2 className={`text-lg font-semibold px-4 pt-4 pb-2 ${
+            state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+          }`}>
+            Credit Notes
+          </h2>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className={`border-b ${
+                  state.theme === 'dark' ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-600'
+                }`}>
+                  <th className="text-left py-3 px-4 font-medium">Credit Note No.</th>
+                  <th className="text-left py-3 px-4 font-medium">Against Bill</th>
+                  <th className="text-left py-3 px-4 font-medium">Customer</th>
+                  <th className="text-left py-3 px-4 font-medium">Date</th>
+                  <th className="text-left py-3 px-4 font-medium">Returned</th>
+                  <th className="text-right py-3 px-4 font-medium">Credit</th>
+                  <th className="w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {creditNotes.map(note => (
+                  <tr key={note.id} className={`border-b ${
+                    state.theme === 'dark' ? 'border-gray-700 text-white' : 'border-gray-200 text-gray-900'
+                  }`}>
+                    <td className="py-3 px-4">{note.noteNumber}</td>
+                    <td className="py-3 px-4">{note.billNumber}</td>
+                    <td className="py-3 px-4">{note.customerName || 'Walk-in Customer'}</td>
+                    <td className={`py-3 px-4 ${state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}`}>
+                      {new Date(note.date).toLocaleDateString()}
                     </td>
-                    <td className={`py-3 px-4 ${
-                      state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
-                    }`}>
-                      {bill.items.length} items
+                    <td className={`py-3 px-4 text-sm ${state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}`}>
+                      {note.items.map(item => `${item.product.name} x${item.quantity}`).join(', ')}
+                      {note.reason && <div className="text-xs">{note.reason}</div>}
                     </td>
-                    <td className={`py-3 px-4 text-right font-semibold ${
-                      state.theme === 'dark' ? 'text-emerald-400' : 'text-emerald-600'
-                    }`}>
-                      ₹{bill.total.toFixed(2)}
+                    <td className="py-3 px-4 text-right font-semibold text-red-500">
+                      -{formatRupees(note.total)}
                     </td>
                     <td className="py-3 px-4 text-right">
                       <button
-                        onClick={() => generatePDF(bill)}
+                        onClick={() => downloadCreditNotePdf(note).catch(error =>
+                          alert(`Could not download the PDF: ${error instanceof Error ? error.message : 'Unknown error'}`)
+                        )}
                         className={`p-2 rounded-lg ${
                           state.theme === 'dark'
                             ? 'text-blue-400 hover:bg-gray-700'
@@ -284,16 +413,11 @@ export default function Bills() {
               </tbody>
             </table>
           </div>
-        ) : (
-          <div className={`text-center py-12 ${
-            state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
-          }`}>
-            <FileText className="w-16 h-16 mx-auto mb-4 opacity-50" />
-            <h3 className="text-lg font-medium mb-2">No bills found</h3>
-            <p>Try adjusting your search filters or generate new bills.</p>
-          </div>
-        )}
-      </div>
+        </div>
+      )}
+
+      {returningBill && <CreditNoteForm bill={returningBill} onClose={() => setReturningBill(null)} />}
+      {payingBill && <PaymentForm bill={payingBill} onClose={() => setPayingBill(null)} />}
     </div>
   );
 }
\ No newline at end of file
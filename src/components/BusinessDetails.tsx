@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Building2, AlertCircle } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { BusinessProfile } from '../types';
+import { cleanBusiness, validateBusiness } from '../utils/gst';
+import { checkPermission } from '../utils/permissions';
+import BusinessProfileFields from './BusinessProfileFields';
+
+interface BusinessDetailsProps {
+  onClose: () => void;
+}
+
+// The seller block printed on tax invoices. Only owners may change it.
+export default function BusinessDetails({ onClose }: BusinessDetailsProps) {
+  const { state, dispatch } = useApp();
+  const [form, setForm] = useState<BusinessProfile>(state.business);
+  const [showProblems, setShowProblems] = useState(false);
+
+  const refusal = checkPermission(state.user, 'manageSettings');
+  const problems = validateBusiness(form);
+
+  const update = (changes: Partial<BusinessProfile>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const save = () => {
+    if (problems.length > 0) {
+      setShowProblems(true);
+      return;
+    }
+    dispatch({ type: 'SET_BUSINESS', payload: cleanBusiness(form) });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className={`max-w-lg w-full max-h-[90vh] overflow-y-auto rounded-xl ${
+        state.theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+      }`}>
+        <div className="p-6">
+          <div className="flex items-start justify-between mb-4">
+            <h2 className={`text-xl font-bold flex items-center space-x-2 ${
+              state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+            }`}>
+              <Building2 className="w-5 h-5 text-blue-500" />
+              <span>Business Details</span>
+            </h2>
+            <button
+              onClick={onClose}
+              className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${
+                state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+              }`}
+            >
+              ✕
+            </button>
+          </div>
+
+          <fieldset disabled={!!refusal}>
+            <BusinessProfileFields form={form} onChange={update} />
+          </fieldset>
+
+          {(refusal || (showProblems && problems.length > 0)) && (
+            <div className="mt-4 space-y-1">
+              {(refusal ? [refusal] : problems).map(problem => (
+                <div key={problem} className="flex items-center space-x-2 text-sm text-red-600">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  <span>{problem}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex space-x-3 mt-6">
+            <button
+              onClick={save}
+              disabled={!!refusal}
+              className={`flex-1 px-4 py-2 rounded-lg font-medium text-white ${
+                refusal ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              Save
+            </button>
+            <button
+              onClick={onClose}
+              className={`px-6 py-2 rounded-lg font-medium ${
+                state.theme === 'dark'
+                  ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                  : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+              }`}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
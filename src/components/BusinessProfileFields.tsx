@@ -0,0 +1,91 @@
+import { useApp } from '../context/AppContext';
+import { BusinessProfile } from '../types';
+import { GST_STATES, stateFromGstin } from '../utils/gst';
+import { defaultInvoicePrefix, formatInvoiceNumber, getFinancialYear, getInvoicePrefix } from '../utils/invoiceNumber';
+
+interface BusinessProfileFieldsProps {
+  form: BusinessProfile;
+  onChange: (changes: Partial<BusinessProfile>) => void;
+}
+
+// The seller details form, used by the Cart's quick setup and the Settings screen
+export default function BusinessProfileFields({ form, onChange }: BusinessProfileFieldsProps) {
+  const { state } = useApp();
+
+  // A valid GSTIN already tells us the state
+  const updateGstin = (value: string) => {
+    const gstin = value.trim().toUpperCase();
+    onChange({ gstin: gstin || undefined, stateCode: stateFromGstin(gstin) || form.stateCode });
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border ${
+    state.theme === 'dark'
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`;
+  const labelClass = `block text-sm font-medium mb-1 ${
+    state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+  }`;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={labelClass}>Business name</label>
+        <input type="text" value={form.name} onChange={(e) => onChange({ name: e.target.value })} className={inputClass} />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>GSTIN</label>
+          <input
+            type="text"
+            value={form.gstin || ''}
+            placeholder="Leave blank if unregistered"
+            onChange={(e) => updateGstin(e.target.value)}
+            className={`${inputClass} uppercase`}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>State</label>
+          <select value={form.stateCode} onChange={(e) => onChange({ stateCode: e.target.value })} className={inputClass}>
+            <option value="">Select state</option>
+            {GST_STATES.map(s => (
+              <option key={s.code} value={s.code}>{s.code} - {s.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label className={labelClass}>Address</label>
+        <textarea
+          rows={3}
+          value={form.address || ''}
+          onChange={(e) => onChange({ address: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Phone</label>
+          <input type="tel" value={form.phone || ''} onChange={(e) => onChange({ phone: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Email</label>
+          <input type="email" value={form.email || ''} onChange={(e) => onChange({ email: e.target.value })} className={inputClass} />
+        </div>
+      </div>
+      <div>
+        <label className={labelClass}>Invoice prefix</label>
+        <input
+          type="text"
+          value={form.invoicePrefix || ''}
+          placeholder={defaultInvoicePrefix(form.name)}
+          onChange={(e) => onChange({ invoicePrefix: e.target.value.toUpperCase() || undefined })}
+          className={`${inputClass} uppercase`}
+        />
+        <p className={`text-xs mt-1 ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+          Bills are numbered like {formatInvoiceNumber(getInvoicePrefix(form), getFinancialYear(new Date()), 1)}. Numbering restarts every 1 April.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,30 @@
 import { useState } from 'react';
-import { ShoppingCart, Plus, Minus, Trash2, Edit} from 'lucide-react';
+import { ShoppingCart, Plus, Minus, Trash2, Edit, Building2, FileText, PauseCircle, Tag } from 'lucide-react';
 import { useApp } from '../context/AppContext';
-import { CartItem, Bill } from '../types';
-import { jsPDF } from 'jspdf';
+import { Bill, CartDetails, Customer, Payment, PaymentMode, Quotation } from '../types';
+import {
+  calculateItemBase,
+  calculateItemTotal,
+  calculateTotals as calculateBillTotals,
+  getNextPriceBreak,
+  getUnitPrice
+} from '../utils/billing';
+import { DISCOUNT_LIMITS, checkDiscount, checkPermission, getRole } from '../utils/permissions';
+import { describeOrderRules, getOrderRules, hasOrderRules, minimumQuantity, quantityProblems, snapQuantity, stepQuantity } from '../utils/orderRules';
+import { GST_STATES, calculateTaxInvoice, formatState, getPlaceOfSupply, isValidGstin, round2, stateFromGstin } from '../utils/gst';
+import { createCustomer, searchCustomers, validateCustomer } from '../utils/customers';
+import { getInvoicePrefix, getQuotationPrefix, nextInvoiceNumber } from '../utils/invoiceNumber';
+import { DEFAULT_VALIDITY_DAYS, validityDate } from '../utils/quotations';
+import { downloadQuotationPdf } from '../utils/quotationPdf';
+import { downloadBillPdf } from '../utils/billPdf';
+import { createBill, createQuotation, isApiEnabled, recordPayment } from '../utils/api';
+import { defaultCartName } from '../utils/heldCarts';
+import { applyDiscountScheme, describeDiscountRule, findDiscountRule } from '../utils/discounts';
+import { DEFAULT_CREDIT_DAYS, PAYMENT_MODES, PAYMENT_MODE_LABELS, createPayment, dueDateFor } from '../utils/payments';
+import { amountInWords, formatRupees } from '../utils/amounts';
+import { DEFAULT_INVOICE_FOOTER, INVOICE_TEMPLATES } from '../utils/invoiceSettings';
+import BusinessDetails from './BusinessDetails';
+import HeldCarts from './HeldCarts';
 
 export default function Cart() {
   const { state, dispatch } = useApp();
@@ -11,19 +33,56 @@ export default function Cart() {
     quantity: number;
     discount: number;
     discountType: 'percentage' | 'amount';
-  }>({ quantity: 1, discount: 0, discountType: 'percentage' });
-  const [customerName, setCustomerName] = useState('');
+    override: boolean; // Keep a quantity outside the MOQ / pack rules
+    overrideReason: string;
+    hsn: string;
+  }>({ quantity: 1, discount: 0, discountType: 'percentage', override: false, overrideReason: '', hsn: '' });
+  // Shown under a line whose quantity was rounded to fit its rules
+  const [quantityNotice, setQuantityNotice] = useState<{ index: number; message: string } | null>(null);
+  // Buyer details live in app state so they stay with the cart
+  const { customerId, customerName, customerPhone, customerGstin, customerAddress, placeOfSupply } = state.cartDetails;
+  const setDetails = (changes: Partial<CartDetails>) => dispatch({ type: 'SET_CART_DETAILS', payload: changes });
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [saveNewCustomer, setSaveNewCustomer] = useState(true);
   const [showBillPreview, setShowBillPreview] = useState(false);
+  const [showBusinessDetails, setShowBusinessDetails] = useState(false);
+  const [quoteForm, setQuoteForm] = useState<{ days: number; notes: string } | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [isSavingQuote, setIsSavingQuote] = useState(false);
+  const [parkName, setParkName] = useState<string | null>(null);
+  // How the bill is being paid. The first split has no amount until edited
+  // and takes whatever the others leave; anything unpaid goes on credit.
+  const [splits, setSplits] = useState<{ mode: PaymentMode; amount: number | null }[]>([{ mode: 'cash', amount: null }]);
+  const [creditDays, setCreditDays] = useState(DEFAULT_CREDIT_DAYS);
 
+  // Quantities are rounded up to the product's MOQ and pack multiple. A line
+  // with a recorded override takes the quantity as entered and keeps the
+  // override only while the quantity still breaks the rules.
   const updateQuantity = (index: number, newQuantity: number) => {
     if (newQuantity <= 0) return;
     
     const item = state.cart[index];
-    const updatedItem = { ...item, quantity: newQuantity };
+    const quantity = item.quantityOverride ? newQuantity : snapQuantity(item.product, newQuantity);
+    setQuantityNotice(quantity !== newQuantity
+      ? { index, message: `Rounded to ${quantity}: ${describeOrderRules(item.product)}` }
+      : null);
+    const updatedItem = {
+      ...item,
+      quantity,
+      quantityOverride: quantityProblems(item.product, quantity).length > 0 ? item.quantityOverride : undefined
+    };
     dispatch({ type: 'UPDATE_CART_ITEM', payload: { index, item: updatedItem } });
   };
 
+  const stepItem = (index: number, direction: 1 | -1) => {
+    const item = state.cart[index];
+    updateQuantity(index, item.quantityOverride
+      ? item.quantity + direction
+      : stepQuantity(item.product, item.quantity, direction));
+  };
+
   const removeItem = (index: number) => {
+    setQuantityNotice(null);
     dispatch({ type: 'REMOVE_FROM_CART', payload: index });
   };
 
@@ -33,192 +92,294 @@ export default function Cart() {
     setEditForm({
       quantity: item.quantity,
       discount: item.discount,
-      discountType: item.discountType
+      discountType: item.discountType,
+      override: !!item.quantityOverride,
+      overrideReason: item.quantityOverride?.reason || '',
+      hsn: item.product.hsn || ''
     });
   };
 
   const saveEdit = () => {
-    if (editingItem === null) return;
+    if (editingItem === null || editRefusal || overrideRefusal || quantityRefusal) return;
     
     const item = state.cart[editingItem];
+    const problems = quantityProblems(item.product, editForm.quantity);
+    const override = problems.length > 0 && editForm.override;
+    // Typing a different discount overrides the scheme for this line
+    const discountChanged = editForm.discount !== item.discount || editForm.discountType !== item.discountType;
     const updatedItem = {
       ...item,
-      quantity: editForm.quantity,
+      ...(discountChanged ? { discountRule: undefined, discountOverridden: true } : {}),
+      product: { ...item.product, hsn: editForm.hsn.trim() || undefined },
+      quantity: problems.length > 0 && !override ? snapQuantity(item.product, editForm.quantity) : editForm.quantity,
       discount: editForm.discount,
-      discountType: editForm.discountType
+      discountType: editForm.discountType,
+      quantityOverride: override
+        ? { by: state.user?.name || 'Offline user', at: new Date(), reason: editForm.overrideReason.trim(), problems }
+        : undefined
     };
     
     dispatch({ type: 'UPDATE_CART_ITEM', payload: { index: editingItem, item: updatedItem } });
+    setQuantityNotice(null);
     setEditingItem(null);
   };
 
-  const calculateItemTotal = (item: CartItem) => {
-    const basePrice = item.product.price * item.quantity;
-    let discountAmount = 0;
-    
-    if (item.discountType === 'percentage') {
-      discountAmount = (basePrice * item.discount) / 100;
-    } else {
-      discountAmount = item.discount;
-    }
-    
-    return Math.max(0, basePrice - discountAmount);
-  };
+  const discountLimit = DISCOUNT_LIMITS[getRole(state.user)];
+  // The buyer's scheme for the line being edited, which may go past the limit
+  const editScheme = editingItem !== null && state.cart[editingItem]
+    ? findDiscountRule(state.discountRules, state.customers.find(c => c.id === customerId), state.cart[editingItem].product)
+    : undefined;
+  const editRefusal = editingItem !== null && state.cart[editingItem]
+    ? checkDiscount(state.user, { ...state.cart[editingItem], ...editForm }, editScheme?.percent)
+    : null;
 
-  const calculateTotals = () => {
-    const subtotal = state.cart.reduce((sum, item) => sum + (item.product.price * item.quantity), 0);
-    const totalDiscount = state.cart.reduce((sum, item) => {
-      const basePrice = item.product.price * item.quantity;
-      if (item.discountType === 'percentage') {
-        return sum + (basePrice * item.discount) / 100;
+  // Drops a hand-typed discount and prices the line by the scheme again
+  const reapplyScheme = (index: number) => {
+    const item = { ...state.cart[index], discountOverridden: false };
+    dispatch({
+      type: 'UPDATE_CART_ITEM',
+      payload: {
+        index,
+        item: applyDiscountScheme(item, state.discountRules, linkedCustomer, state.suppliers, discountLimit)
       }
-      return sum + item.discount;
-    }, 0);
-    const afterDiscount = subtotal - totalDiscount;
-    const gst = state.cart.reduce((sum, item) => {
-      const itemTotal = calculateItemTotal(item);
-      const itemGst = item.product.gst || 0;
-      return sum + (itemTotal * itemGst) / 100;
-    }, 0);
-    const total = afterDiscount + gst;
-    
-    return { subtotal, totalDiscount, gst, total };
+    });
+  };
+  const editProblems = editingItem !== null && state.cart[editingItem]
+    ? quantityProblems(state.cart[editingItem].product, editForm.quantity)
+    : [];
+  const overrideRefusal = editProblems.length > 0 && editForm.override
+    ? checkPermission(state.user, 'overrideOrderRules') ||
+      (editForm.overrideReason.trim() ? null : 'Give a reason for the override.')
+    : null;
+  // Fractions are fine, e.g. a cut length billed with an override
+  const quantityRefusal = editForm.quantity > 0 ? null : 'Enter a quantity above 0.';
+
+  const calculateTotals = () => calculateBillTotals(state.cart);
+
+  const gstin = customerGstin.trim().toUpperCase();
+  const gstinProblem = gstin && !isValidGstin(gstin) ? 'GSTIN should be 15 characters, e.g. 24ABCDE1234F1Z5' : null;
+  const supplyState = placeOfSupply || getPlaceOfSupply(state.business.stateCode, gstinProblem ? undefined : gstin);
+  const invoice = calculateTaxInvoice(state.cart, state.business.stateCode, supplyState);
+  const sellerReady = !!state.business.name && !!state.business.stateCode;
+
+  const linkedCustomer = state.customers.find(c => c.id === customerId);
+  const suggestions = showSuggestions && !linkedCustomer ? searchCustomers(state.customers, customerName) : [];
+  // A buyer typed in by hand can be added to the customer master with the bill
+  const newCustomer = !linkedCustomer && customerName.trim()
+    ? createCustomer(customerName, {
+        phone: customerPhone.trim() || undefined,
+        gstin: gstinProblem ? undefined : gstin || undefined,
+        billingAddress: customerAddress.trim() || undefined,
+        stateCode: stateFromGstin(gstin) || placeOfSupply || undefined
+      })
+    : null;
+  const newCustomerProblems = newCustomer && saveNewCustomer ? validateCustomer(newCustomer, state.customers) : [];
+  const customerToSave = newCustomer && saveNewCustomer && newCustomerProblems.length === 0 ? newCustomer : null;
+  const sourceQuotation = state.quotations.find(q => q.id === state.cartDetails.quotationId);
+
+  const explicitlyPaid = splits.reduce((sum, split) => sum + (split.amount ?? 0), 0);
+  const paidSplits = splits.map(split => ({
+    mode: split.mode,
+    amount: split.amount ?? Math.max(0, round2(invoice.total - explicitlyPaid))
+  }));
+  // Credit splits and whatever the splits leave uncovered are the balance
+  const receivedSplits = paidSplits.filter(split => split.mode !== 'credit' && split.amount > 0);
+  const allocated = round2(paidSplits.reduce((sum, split) => sum + split.amount, 0));
+  const received = round2(receivedSplits.reduce((sum, split) => sum + split.amount, 0));
+  const onCredit = round2(invoice.total - received);
+  const paymentProblem = allocated > invoice.total ? `Payments add up to ${formatRupees(allocated)}, more than the bill total` : null;
+
+  const updateSplit = (index: number, changes: Partial<{ mode: PaymentMode; amount: number | null }>) =>
+    setSplits(prev => prev.map((split, i) => (i === index ? { ...split, ...changes } : split)));
+
+  const selectCustomer = (customer: Customer) => {
+    setDetails({
+      customerId: customer.id,
+      customerName: customer.name,
+      customerPhone: customer.phone || '',
+      customerGstin: customer.gstin || '',
+      customerAddress: customer.billingAddress || '',
+      // Without a GSTIN the customer's state decides the place of supply
+      placeOfSupply: customer.gstin ? '' : customer.stateCode || ''
+    });
+    setShowSuggestions(false);
+  };
+
+  const clearCustomer = () => {
+    setDetails({
+      customerId: undefined,
+      customerName: '',
+      customerPhone: '',
+      customerGstin: '',
+      customerAddress: '',
+      placeOfSupply: ''
+    });
   };
 
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
   const [pdfError, setPdfError] = useState<string | null>(null);
+  // Shown above the emptied cart once the bill is issued
+  const [billNotice, setBillNotice] = useState<{ message: string; failed: boolean } | null>(null);
 
-  const generateBillPDF = async (bill: Bill) => {
+  const generateBillPDF = async (bill: Bill, payments: Payment[] = []) => {
     setIsGeneratingPDF(true);
     setPdfError(null);
-    
+
     try {
-    // Create a new PDF instance
-    const pdf = new jsPDF();
-    
-    // Set initial position
-    let yPos = 20;
-    
-    // Add header
-    pdf.setFontSize(18);
-    pdf.setTextColor(40, 40, 40);
-    pdf.text('ProductFlow', 105, yPos, { align: 'center' });
-    yPos += 10;
-    
-    pdf.setFontSize(12);
-    pdf.text('Bill Receipt', 105, yPos, { align: 'center' });
-    yPos += 15;
-    
-    // Bill info - ensure single line for ID and Date
-    pdf.setFontSize(10);
-    pdf.text(`Bill ID: ${bill.id}`, 14, yPos);
-    pdf.text(`Date: ${new Date(bill.date).toLocaleDateString()}`, 160, yPos, { align: 'right' });
-    yPos += 8;
-    
-    if (bill.customerName) {
-      pdf.text(`Customer: ${bill.customerName}`, 14, yPos);
-      yPos += 8;
-    }
-    
-    // Add line separator
-    pdf.setDrawColor(200, 200, 200);
-    pdf.line(14, yPos, 196, yPos);
-    yPos += 15;
-    
-    // Add items header
-    pdf.setFontSize(12);
-    pdf.setTextColor(40, 40, 40);
-    pdf.text('Items', 14, yPos);
-    yPos += 10;
-    
-    // Format number function
-    const formatNumber = (num: number) => {
-      return '₹' + num.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ",");
-    };
-    
-    // Add items
-    pdf.setFontSize(10);
-    bill.items.forEach(item => {
-      const itemTotal = item.product.price * item.quantity;
-      pdf.text(`${item.product.name} x${item.quantity}`, 14, yPos);
-      pdf.text(formatNumber(itemTotal), 180, yPos, { align: 'right' });
-      yPos += 8;
-    });
-    
-    // Add totals separator
-    yPos += 5;
-    pdf.line(14, yPos, 196, yPos);
-    yPos += 10;
-    
-    // Add totals
-    pdf.setFontSize(12);
-    
-    // Subtotal
-    pdf.text(`Subtotal: ${formatNumber(bill.subtotal)}`, 14, yPos);
-    pdf.text(formatNumber(bill.subtotal), 180, yPos, { align: 'right' });
-    yPos += 10;
-    
-    // Discount
-    if (bill.totalDiscount > 0) {
-      pdf.setTextColor(200, 0, 0);
-      pdf.text(`Discount: -${formatNumber(bill.totalDiscount)}`, 14, yPos);
-      pdf.text(`-${formatNumber(bill.totalDiscount)}`, 180, yPos, { align: 'right' });
-      yPos += 10;
-      pdf.setTextColor(40, 40, 40);
+      await downloadBillPdf(bill, {
+        business: state.business,
+        invoice: state.invoiceSettings,
+        payments,
+        creditNotes: []
+      });
+      setBillNotice({ message: `Bill ${bill.billNumber} issued and downloaded.`, failed: false });
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      setBillNotice({
+        message: `Bill ${bill.billNumber} was issued, but its PDF could not be generated: ${error instanceof Error ? error.message : 'Unknown error'}. Download it from the Bills screen.`,
+        failed: true
+      });
+    } finally {
+      setIsGeneratingPDF(false);
     }
-    
-    // GST
-    pdf.text(`GST: ${formatNumber(bill.gst)}`, 14, yPos);
-    pdf.text(formatNumber(bill.gst), 180, yPos, { align: 'right' });
-    yPos += 15;
-    
-    // Total
-    pdf.setFontSize(14);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text(`Total: ${formatNumber(bill.total)}`, 14, yPos);
-    pdf.text(formatNumber(bill.total), 180, yPos, { align: 'right' });
-    yPos += 20;
-    
-    // Footer
-    pdf.setFontSize(10);
-    pdf.setTextColor(100, 100, 100);
-    pdf.text('Thank you for your business!', 105, yPos, { align: 'center' });
-    yPos += 5;
-    pdf.text(`Generated on ${new Date().toLocaleString()}`, 105, yPos, { align: 'center' });
-    
-    // Save the PDF
-    pdf.save(`bill_${bill.id}.pdf`);
-    
-    // Provide user feedback
-    alert('Bill downloaded successfully!');
-  } catch (error) {
-    console.error('Error generating PDF:', error);
-    alert('Failed to generate PDF. Please try again.');
-  }
-};
+  };
 
-  const generateBill = () => {
+  // The priced, taxed body shared by bills and quotations
+  const buildDocument = (date: Date) => {
     const totals = calculateTotals();
-    const bill: Bill = {
-      id: `BILL-${Date.now()}`,
+    return {
       customerName: customerName.trim() || undefined,
-      date: new Date(),
+      customerPhone: customerPhone.trim() || undefined,
+      customerId: linkedCustomer?.id || customerToSave?.id,
+      date,
       items: [...state.cart],
       subtotal: totals.subtotal,
       totalDiscount: totals.totalDiscount,
-      gst: totals.gst,
-      gstAmount: totals.gst,
-      finalAmount: totals.total,
-      billNumber: `BILL-${Date.now()}`,
-      total: totals.total
+      gst: invoice.gst,
+      total: invoice.total,
+      createdBy: state.user ? { id: state.user.id, name: state.user.name } : undefined,
+      seller: { ...state.business },
+      customerGstin: gstin || undefined,
+      customerAddress: customerAddress.trim() || undefined,
+      placeOfSupply: supplyState,
+      taxType: invoice.taxType,
+      taxableValue: invoice.taxableValue,
+      cgst: invoice.cgst,
+      sgst: invoice.sgst,
+      igst: invoice.igst,
+      taxSummary: invoice.taxSummary,
+      roundOff: invoice.roundOff
     };
-    
-    dispatch({ type: 'ADD_BILL', payload: bill });
-    dispatch({ type: 'CLEAR_CART' });
-    setCustomerName('');
-    setShowBillPreview(false);
-    
-    generateBillPDF(bill);
+  };
+
+  // With the API configured the server numbers and dates the bill; otherwise
+  // it takes the next number in this browser's bill history
+  const generateBill = async () => {
+    if (paymentProblem) return;
+    const date = new Date();
+    const days = onCredit > 0 ? creditDays : 0;
+    const draft: Bill = {
+      ...buildDocument(date),
+      id: `BILL-${Date.now()}`,
+      gstAmount: invoice.gst,
+      finalAmount: invoice.total,
+      amountInWords: amountInWords(invoice.total),
+      billNumber: isApiEnabled ? '' : nextInvoiceNumber(state.bills.map(bill => bill.billNumber), getInvoicePrefix(state.business), date),
+      quotationId: state.cartDetails.quotationId,
+      dueDate: dueDateFor(date, days)
+    };
+
+    setIsGeneratingPDF(true);
+    setPdfError(null);
+    setBillNotice(null);
+    try {
+      const bill = isApiEnabled
+        ? await createBill(draft, days).then(saved => ({
+            ...saved,
+            date: new Date(saved.date),
+            dueDate: saved.dueDate && new Date(saved.dueDate)
+          }))
+        : draft;
+      // Split payments are recorded one after another once the bill exists;
+      // the bill stays issued if one is refused, and only the recorded ones
+      // count towards it
+      const payments: Payment[] = [];
+      let paymentError: string | null = null;
+      for (const split of receivedSplits) {
+        const payment = createPayment(bill.id, split.amount, split.mode, {
+          date: bill.date,
+          receivedBy: state.user ? { id: state.user.id, name: state.user.name } : undefined
+        });
+        try {
+          payments.push(isApiEnabled
+            ? await recordPayment(payment).then(saved => ({ ...saved, date: new Date(saved.date) }))
+            : payment);
+        } catch (error) {
+          paymentError = error instanceof Error ? error.message : 'Unknown error';
+          break;
+        }
+      }
+
+      if (customerToSave) dispatch({ type: 'SAVE_CUSTOMER', payload: customerToSave });
+      dispatch({ type: 'ADD_BILL', payload: bill });
+      payments.forEach(payment => dispatch({ type: 'ADD_PAYMENT', payload: payment }));
+      dispatch({ type: 'CLEAR_CART' });
+      setSaveNewCustomer(true);
+      setSplits([{ mode: 'cash', amount: null }]);
+      setCreditDays(DEFAULT_CREDIT_DAYS);
+      setShowBillPreview(false);
+
+      if (paymentError) {
+        alert(`Bill ${bill.billNumber} was issued, but a payment could not be recorded: ${paymentError}. Record it from the Bills screen.`);
+      }
+      await generateBillPDF(bill, payments);
+    } catch (error) {
+      setPdfError(`Could not issue the bill: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsGeneratingPDF(false);
+    }
+  };
+
+  // Quotations are numbered in their own series, the same way as bills
+  const saveQuotation = async () => {
+    if (!quoteForm) return;
+    const date = new Date();
+    const draft: Quotation = {
+      ...buildDocument(date),
+      id: `QUO-${Date.now()}`,
+      quoteNumber: isApiEnabled
+        ? ''
+        : nextInvoiceNumber(state.quotations.map(q => q.quoteNumber), getQuotationPrefix(state.business), date),
+      validUntil: validityDate(date, quoteForm.days),
+      status: 'draft',
+      notes: quoteForm.notes.trim() || undefined
+    };
+
+    setIsSavingQuote(true);
+    setQuoteError(null);
+    try {
+      const quotation = isApiEnabled
+        ? await createQuotation(draft, quoteForm.days).then(saved => ({
+            ...saved,
+            date: new Date(saved.date),
+            validUntil: new Date(saved.validUntil)
+          }))
+        : draft;
+
+      if (customerToSave) dispatch({ type: 'SAVE_CUSTOMER', payload: customerToSave });
+      dispatch({ type: 'ADD_QUOTATION', payload: quotation });
+      dispatch({ type: 'CLEAR_CART' });
+      setSaveNewCustomer(true);
+      setQuoteForm(null);
+
+      downloadQuotationPdf(quotation).catch(error =>
+        alert(`Could not download the PDF: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      );
+    } catch (error) {
+      setQuoteError(`Could not save the quotation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSavingQuote(false);
+    }
   };
 
   const totals = calculateTotals();
@@ -239,6 +400,10 @@ export default function Cart() {
           </p>
         </div>
 
+        {billNotice && (
+          <p className={`text-sm ${billNotice.failed ? 'text-red-500' : 'text-emerald-600'}`}>{billNotice.message}</p>
+        )}
+
         <div className={`text-center py-12 ${
           state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
         }`}>
@@ -246,122 +411,186 @@ export default function Cart() {
           <h3 className="text-lg font-medium mb-2">Your cart is empty</h3>
           <p>Browse products and add them to your cart to continue.</p>
         </div>
+
+        <HeldCarts />
       </div>
     );
   }
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className={`text-3xl font-bold ${
-          state.theme === 'dark' ? 'text-white' : 'text-gray-900'
-        }`}>
-          Shopping Cart
-        </h1>
-        <p className={`mt-2 ${
-          state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
-        }`}>
-          Review and manage your selected items.
-        </p>
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className={`text-3xl font-bold ${
+            state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+          }`}>
+            Shopping Cart
+          </h1>
+          <p className={`mt-2 ${
+            state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+          }`}>
+            Review and manage your selected items.
+          </p>
+        </div>
+        <button
+          onClick={() => setParkName(defaultCartName(state.cartDetails, state.heldCarts))}
+          className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition-colors ${
+            state.theme === 'dark'
+              ? 'bg-gray-700 hover:bg-gray-600 text-white'
+              : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+          }`}
+          title="Put this sale on hold and start a new cart"
+        >
+          <PauseCircle className="w-4 h-4" />
+          <span>Park Cart</span>
+        </button>
       </div>
 
+      <HeldCarts />
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2 space-y-4">
-          {state.cart.map((item, index) => (
-            <div key={index} className={`p-6 rounded-xl border ${
-              state.theme === 'dark'
-                ? 'bg-gray-800 border-gray-700'
-                : 'bg-white border-gray-200'
-            }`}>
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <h3 className={`font-semibold text-lg ${
-                    state.theme === 'dark' ? 'text-white' : 'text-gray-900'
-                  }`}>
-                    {item.product.name}
-                  </h3>
-                  <p className={`text-sm ${
-                    state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
-                  }`}>
-                    {item.product.companyName} • {item.selectedShop}
-                  </p>
-                  <p className={`text-sm ${
-                    state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
-                  }`}>
-                    ₹{item.product.price} each
-                  </p>
-                </div>
-                <div className="flex space-x-2">
-                  <button
-                    onClick={() => openEditModal(index)}
-                    className={`p-2 rounded-lg ${
-                      state.theme === 'dark'
-                        ? 'bg-gray-700 hover:bg-gray-600 text-white'
-                        : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
-                    }`}
-                  >
-                    <Edit className="w-4 h-4" />
-                  </button>
-                  <button
-                    onClick={() => removeItem(index)}
-                    className="p-2 rounded-lg bg-red-100 hover:bg-red-200 text-red-600"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+          {state.cart.map((item, index) => {
+            const unitPrice = getUnitPrice(item.product, item.quantity);
+            const nextBreak = getNextPriceBreak(item.product, item.quantity);
+            return (
+              <div key={index} className={`p-6 rounded-xl border ${
+                state.theme === 'dark'
+                  ? 'bg-gray-800 border-gray-700'
+                  : 'bg-white border-gray-200'
+              }`}>
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <h3 className={`font-semibold text-lg ${
+                      state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+                    }`}>
+                      {item.product.name}
+                    </h3>
+                    <p className={`text-sm ${
+                      state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+                    }`}>
+                      {item.product.companyName} • {item.selectedShop}
+                    </p>
+                    <p className={`text-sm ${
+                      state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+                    }`}>
+                      {formatRupees(unitPrice)} each
+                      {unitPrice < item.product.price && (
+                        <span className="ml-2 line-through">{formatRupees(item.product.price)}</span>
+                      )}
+                    </p>
+                    {hasOrderRules(item.product) && (
+                      <p className={`text-xs ${
+                        state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+                      }`}>
+                        {describeOrderRules(item.product)}
+                      </p>
+                    )}
+                    {nextBreak && (
+                      <button
+                        onClick={() => updateQuantity(index, nextBreak.minQty)}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        Buy {nextBreak.minQty} for {formatRupees(nextBreak.price)} each
+                      </button>
+                    )}
+                    {item.quantityOverride && (
+                      <p className="text-xs text-yellow-600">
+                        Override by {item.quantityOverride.by}: {item.quantityOverride.reason}
+                      </p>
+                    )}
+                    {quantityNotice?.index === index && (
+                      <p className="text-xs text-yellow-600">{quantityNotice.message}</p>
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => openEditModal(index)}
+                      className={`p-2 rounded-lg ${
+                        state.theme === 'dark'
+                          ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                          : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+                      }`}
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => removeItem(index)}
+                      className="p-2 rounded-lg bg-red-100 hover:bg-red-200 text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
                 </div>
-              </div>
 
-              <div className="flex items-center justify-between mt-4">
-                <div className="flex items-center space-x-3">
-                  <button
-                    onClick={() => updateQuantity(index, item.quantity - 1)}
-                    className={`p-1 rounded ${
-                      state.theme === 'dark'
-                        ? 'bg-gray-700 hover:bg-gray-600 text-white'
-                        : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
-                    }`}
-                  >
-                    <Minus className="w-4 h-4" />
-                  </button>
-                  <span className={`font-medium ${
-                    state.theme === 'dark' ? 'text-white' : 'text-gray-900'
-                  }`}>
-                    {item.quantity}
-                  </span>
-                  <button
-                    onClick={() => updateQuantity(index, item.quantity + 1)}
-                    className={`p-1 rounded ${
-                      state.theme === 'dark'
-                        ? 'bg-gray-700 hover:bg-gray-600 text-white'
-                        : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
-                    }`}
-                  >
-                    <Plus className="w-4 h-4" />
-                  </button>
-                </div>
+                <div className="flex items-center justify-between mt-4">
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => stepItem(index, -1)}
+                      className={`p-1 rounded ${
+                        state.theme === 'dark'
+                          ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                          : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+                      }`}
+                    >
+                      <Minus className="w-4 h-4" />
+                    </button>
+                    <span className={`font-medium ${
+                      state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+                    }`}>
+                      {item.quantity}
+                    </span>
+                    <button
+                      onClick={() => stepItem(index, 1)}
+                      className={`p-1 rounded ${
+                        state.theme === 'dark'
+                          ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                          : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+                      }`}
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                  </div>
 
-                <div className="text-right">
-                  {item.discount > 0 && (
-                    <p className={`text-sm line-through ${
-                      state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+                  <div className="text-right">
+                    {item.discount > 0 && (
+                      <p className={`text-sm line-through ${
+                        state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+                      }`}>
+                        {formatRupees(calculateItemBase(item))}
+                      </p>
+                    )}
+                    <p className={`font-bold text-lg ${
+                      state.theme === 'dark' ? 'text-emerald-400' : 'text-emerald-600'
                     }`}>
-                      ₹{(item.product.price * item.quantity).toFixed(2)}
-                    </p>
-                  )}
-                  <p className={`font-bold text-lg ${
-                    state.theme === 'dark' ? 'text-emerald-400' : 'text-emerald-600'
-                  }`}>
-                    ₹{calculateItemTotal(item).toFixed(2)}
-                  </p>
-                  {item.discount > 0 && (
-                    <p className="text-sm text-red-500">
-                      -{item.discountType === 'percentage' ? `${item.discount}%` : `₹${item.discount}`} discount
+                      {formatRupees(calculateItemTotal(item))}
                     </p>
-                  )}
+                    {item.discount > 0 && (
+                      <p className="text-sm text-red-500">
+                        -{item.discountType === 'percentage' ? `${item.discount}%` : formatRupees(item.discount)} discount
+                      </p>
+                    )}
+                    {item.discountRule && (
+                      <p className={`text-xs flex items-center justify-end space-x-1 ${
+                        state.theme === 'dark' ? 'text-blue-300' : 'text-blue-600'
+                      }`}>
+                        <Tag className="w-3 h-3" />
+                        <span>{item.discountRule.label}</span>
+                      </p>
+                    )}
+                    {item.discountOverridden && (
+                      <p className={`text-xs ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                        Discount set by hand ·{' '}
+                        <button onClick={() => reapplyScheme(index)} className="text-blue-500 hover:underline">
+                          Reapply scheme
+                        </button>
+                      </p>
+                    )}
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
 
         <div className={`p-6 rounded-xl border h-fit ${
@@ -375,13 +604,30 @@ export default function Cart() {
             Order Summary
           </h2>
 
+          {sourceQuotation && (
+            <div className={`mb-4 p-3 rounded-lg text-sm flex items-center justify-between ${
+              state.theme === 'dark' ? 'bg-blue-900/30 text-blue-300' : 'bg-blue-50 text-blue-700'
+            }`}>
+              <span className="flex items-center space-x-2">
+                <FileText className="w-4 h-4 flex-shrink-0" />
+                <span>Billing quotation {sourceQuotation.quoteNumber}</span>
+              </span>
+              <button
+                onClick={() => setDetails({ quotationId: undefined })}
+                className="text-blue-500 hover:underline ml-2"
+              >
+                Unlink
+              </button>
+            </div>
+          )}
+
           <div className="space-y-3 mb-6">
             <div className="flex justify-between">
               <span className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
                 Subtotal:
               </span>
               <span className={state.theme === 'dark' ? 'text-white' : 'text-gray-900'}>
-                ₹{totals.subtotal.toFixed(2)}
+                {formatRupees(totals.subtotal)}
               </span>
             </div>
             <div className="flex justify-between">
@@ -389,47 +635,303 @@ export default function Cart() {
                 Discount:
               </span>
               <span className="text-red-500">
-                -₹{totals.totalDiscount.toFixed(2)}
-              </span>
-            </div>
-            <div className="flex justify-between">
-              <span className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
-                GST:
-              </span>
-              <span className={state.theme === 'dark' ? 'text-white' : 'text-gray-900'}>
-                ₹{totals.gst.toFixed(2)}
+                -{formatRupees(totals.totalDiscount)}
               </span>
             </div>
+            {(invoice.taxType === 'intra'
+              ? [['CGST', invoice.cgst], ['SGST', invoice.sgst]] as const
+              : [['IGST', invoice.igst]] as const
+            ).map(([label, amount]) => (
+              <div key={label} className="flex justify-between">
+                <span className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
+                  {label}:
+                </span>
+                <span className={state.theme === 'dark' ? 'text-white' : 'text-gray-900'}>
+                  {formatRupees(amount)}
+                </span>
+              </div>
+            ))}
+            {invoice.roundOff !== 0 && (
+              <div className="flex justify-between">
+                <span className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
+                  Round off:
+                </span>
+                <span className={state.theme === 'dark' ? 'text-white' : 'text-gray-900'}>
+                  {invoice.roundOff > 0 ? '+' : '-'}{formatRupees(Math.abs(invoice.roundOff))}
+                </span>
+              </div>
+            )}
             <hr className={state.theme === 'dark' ? 'border-gray-700' : 'border-gray-200'} />
             <div className="flex justify-between text-lg font-bold">
               <span className={state.theme === 'dark' ? 'text-white' : 'text-gray-900'}>
                 Total:
               </span>
               <span className={state.theme === 'dark' ? 'text-emerald-400' : 'text-emerald-600'}>
-                ₹{totals.total.toFixed(2)}
+                {formatRupees(invoice.total)}
               </span>
             </div>
+            <p className={`text-xs text-right ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+              {amountInWords(invoice.total)}
+            </p>
+          </div>
+
+          <div className="space-y-2 mb-6">
+            <h3 className={`text-sm font-medium ${state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+              Payment
+            </h3>
+            {splits.map((split, index) => (
+              <div key={index} className="flex space-x-2">
+                <select
+                  value={split.mode}
+                  onChange={(e) => updateSplit(index, { mode: e.target.value as PaymentMode })}
+                  className={`flex-1 px-3 py-2 rounded-lg border text-sm ${
+                    state.theme === 'dark'
+                      ? 'bg-gray-700 border-gray-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-900'
+                  }`}
+                >
+                  {PAYMENT_MODES.map(mode => (
+                    <option key={mode} value={mode}>{PAYMENT_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={paidSplits[index].amount}
+                  onChange={(e) => updateSplit(index, { amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className={`w-28 px-3 py-2 rounded-lg border text-sm text-right ${
+                    state.theme === 'dark'
+                      ? 'bg-gray-700 border-gray-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-900'
+                  }`}
+                />
+                {splits.length > 1 && (
+                  <button
+                    onClick={() => setSplits(prev => prev.filter((_, i) => i !== index))}
+                    className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={() => setSplits(prev => [
+                ...prev,
+                { mode: PAYMENT_MODES.find(mode => !prev.some(split => split.mode === mode)) || 'cash', amount: 0 }
+              ])}
+              className="text-sm text-blue-500 hover:underline"
+            >
+              + Split across another mode
+            </button>
+            <div className="flex justify-between text-sm">
+              <span className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
+                Credit (pay later):
+              </span>
+              <span className={onCredit > 0 ? 'text-orange-500 font-medium' : state.theme === 'dark' ? 'text-white' : 'text-gray-900'}>
+                {formatRupees(Math.max(0, onCredit))}
+              </span>
+            </div>
+            {onCredit > 0 && (
+              <div className={`flex items-center justify-between text-sm ${
+                state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+              }`}>
+                <span>Due in</span>
+                <span className="flex items-center space-x-2">
+                  <input
+                    type="number"
+                    min="0"
+                    max="365"
+                    value={creditDays}
+                    onChange={(e) => setCreditDays(Math.min(365, Math.max(0, parseInt(e.target.value) || 0)))}
+                    className={`w-20 px-2 py-1 rounded-lg border text-right ${
+                      state.theme === 'dark'
+                        ? 'bg-gray-700 border-gray-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-900'
+                    }`}
+                  />
+                  <span>days</span>
+                </span>
+              </div>
+            )}
+            {paymentProblem && <p className="text-xs text-red-500">{paymentProblem}</p>}
           </div>
 
           <div className="space-y-3">
+            <div className="relative">
+              <input
+                type="text"
+                placeholder="Customer name, phone or GSTIN (optional)"
+                value={customerName}
+                onChange={(e) => {
+                  setDetails({ customerName: e.target.value, customerId: undefined });
+                  setShowSuggestions(true);
+                }}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setShowSuggestions(false)}
+                className={`w-full px-3 py-2 rounded-lg border ${
+                  state.theme === 'dark'
+                    ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                    : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+                }`}
+              />
+              {suggestions.length > 0 && (
+                <div className={`absolute z-10 mt-1 w-full rounded-lg border shadow-lg max-h-64 overflow-y-auto ${
+                  state.theme === 'dark' ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-200'
+                }`}>
+                  {suggestions.map(customer => (
+                    <button
+                      key={customer.id}
+                      // mousedown fires before the input's blur hides the list
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        selectCustomer(customer);
+                      }}
+                      className={`w-full text-left px-3 py-2 text-sm ${
+                        state.theme === 'dark' ? 'text-white hover:bg-gray-600' : 'text-gray-900 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="font-medium">{customer.name}</div>
+                      <div className={`text-xs ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {[customer.phone, customer.gstin].filter(Boolean).join(' · ') || 'No phone or GSTIN'}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {linkedCustomer ? (
+              <div className={`flex items-start justify-between text-xs ${
+                state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+              }`}>
+                <span>
+                  From the customer list
+                  {linkedCustomer.creditLimit !== undefined && ` · credit limit ${formatRupees(linkedCustomer.creditLimit)}`}
+                  {linkedCustomer.notes && ` · ${linkedCustomer.notes}`}
+                </span>
+                <button onClick={clearCustomer} className="text-blue-500 hover:underline flex-shrink-0 ml-2">
+                  Clear
+                </button>
+              </div>
+            ) : newCustomer && (
+              <div>
+                <label className={`flex items-center space-x-2 text-xs ${
+                  state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+                }`}>
+                  <input
+                    type="checkbox"
+                    checked={saveNewCustomer}
+                    onChange={(e) => setSaveNewCustomer(e.target.checked)}
+                    className="rounded"
+                  />
+                  <span>Add {newCustomer.name} to the customer list</span>
+                </label>
+                {newCustomerProblems.map(problem => (
+                  <p key={problem} className="text-xs text-yellow-600">{problem}; the customer will not be saved.</p>
+                ))}
+              </div>
+            )}
+            <input
+              type="tel"
+              placeholder="Customer phone (optional)"
+              value={customerPhone}
+              onChange={(e) => setDetails({ customerPhone: e.target.value })}
+              className={`w-full px-3 py-2 rounded-lg border ${
+                state.theme === 'dark'
+                  ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                  : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+              }`}
+            />
             <input
               type="text"
-              placeholder="Customer name (optional)"
-              value={customerName}
-              onChange={(e) => setCustomerName(e.target.value)}
+              placeholder="Customer GSTIN (optional)"
+              value={customerGstin}
+              onChange={(e) => setDetails({ customerGstin: e.target.value })}
+              className={`w-full px-3 py-2 rounded-lg border uppercase ${
+                state.theme === 'dark'
+                  ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                  : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+              }`}
+            />
+            {gstinProblem && <p className="text-xs text-red-500">{gstinProblem}</p>}
+            <textarea
+              rows={2}
+              placeholder="Billing address (optional)"
+              value={customerAddress}
+              onChange={(e) => setDetails({ customerAddress: e.target.value })}
               className={`w-full px-3 py-2 rounded-lg border ${
                 state.theme === 'dark'
                   ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
                   : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
               }`}
             />
+            <div>
+              <label className={`block text-xs font-medium mb-1 ${
+                state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+              }`}>
+                Place of supply
+              </label>
+              <select
+                value={placeOfSupply}
+                onChange={(e) => setDetails({ placeOfSupply: e.target.value })}
+                className={`w-full px-3 py-2 rounded-lg border ${
+                  state.theme === 'dark'
+                    ? 'bg-gray-700 border-gray-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-900'
+                }`}
+              >
+                <option value="">
+                  {supplyState && !placeOfSupply ? `Automatic (${formatState(supplyState)})` : 'Automatic'}
+                </option>
+                {GST_STATES.map(s => (
+                  <option key={s.code} value={s.code}>{s.code} - {s.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className={`flex items-start justify-between text-xs ${
+              state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+            }`}>
+              <span className="flex items-center space-x-1">
+                <Building2 className="w-3 h-3 flex-shrink-0" />
+                <span>
+                  {sellerReady
+                    ? `${state.business.name}${state.business.gstin ? ` · ${state.business.gstin}` : ''}`
+                    : 'Seller details are not set up'}
+                </span>
+              </span>
+              <button
+                onClick={() => setShowBusinessDetails(true)}
+                className="text-blue-500 hover:underline flex-shrink-0 ml-2"
+              >
+                {sellerReady ? 'Edit' : 'Set up'}
+              </button>
+            </div>
             <button
-              onClick={() => setShowBillPreview(true)}
-              className="w-full bg-blue-600 hover:bg-blue-700 text-white px-4 py-3 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2"
+              onClick={() => sellerReady ? setShowBillPreview(true) : setShowBusinessDetails(true)}
+              disabled={!!gstinProblem || !!paymentProblem}
+              className={`w-full ${
+                gstinProblem || paymentProblem ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              } text-white px-4 py-3 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2`}
             >
               {/* <Receipt className="w-4 h-4" /> */}
               <span>Generate Bill</span>
             </button>
+            <button
+              onClick={() => sellerReady ? setQuoteForm({ days: DEFAULT_VALIDITY_DAYS, notes: '' }) : setShowBusinessDetails(true)}
+              disabled={!!gstinProblem}
+              className={`w-full px-4 py-2 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2 ${
+                gstinProblem ? 'cursor-not-allowed opacity-50' : ''
+              } ${
+                state.theme === 'dark'
+                  ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                  : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+              }`}
+            >
+              <FileText className="w-4 h-4" />
+              <span>Save as Quotation</span>
+            </button>
           </div>
         </div>
       </div>
@@ -455,15 +957,80 @@ export default function Cart() {
                   </label>
                   <input
                     type="number"
-                    min="1"
+                    min={editingItem !== null && state.cart[editingItem] && !editForm.override
+                      ? minimumQuantity(state.cart[editingItem].product)
+                      : 0}
+                    step={editingItem !== null && state.cart[editingItem] && !editForm.override
+                      ? getOrderRules(state.cart[editingItem].product).packSize
+                      : 'any'}
                     value={editForm.quantity}
-                    onChange={(e) => setEditForm(prev => ({ ...prev, quantity: parseInt(e.target.value) || 1 }))}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, quantity: Math.max(0, parseFloat(e.target.value) || 0) }))}
                     className={`w-full px-3 py-2 rounded-lg border ${
                       state.theme === 'dark'
                         ? 'bg-gray-700 border-gray-600 text-white'
                         : 'bg-white border-gray-300 text-gray-900'
                     }`}
                   />
+                  {quantityRefusal && <p className="text-xs mt-1 text-red-500">{quantityRefusal}</p>}
+                  {editingItem !== null && state.cart[editingItem] && (
+                    <p className={`text-xs mt-1 ${
+                      state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+                    }`}>
+                      {formatRupees(getUnitPrice(state.cart[editingItem].product, editForm.quantity))} each at this quantity
+                    </p>
+                  )}
+                  {editProblems.length > 0 && editingItem !== null && (
+                    <div className="mt-2 space-y-2">
+                      <p className="text-xs text-yellow-600">
+                        {editForm.quantity} is {editProblems.join(' and ')}.
+                        {!editForm.override && ` It will be rounded up to ${snapQuantity(state.cart[editingItem].product, editForm.quantity)}.`}
+                      </p>
+                      <label className={`flex items-center space-x-2 text-sm ${
+                        state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+                      }`}>
+                        <input
+                          type="checkbox"
+                          checked={editForm.override}
+                          onChange={(e) => setEditForm(prev => ({ ...prev, override: e.target.checked }))}
+                          className="rounded"
+                        />
+                        <span>Override and bill {editForm.quantity} as entered</span>
+                      </label>
+                      {editForm.override && (
+                        <input
+                          type="text"
+                          value={editForm.overrideReason}
+                          placeholder="Reason, e.g. customer returning a part pack"
+                          onChange={(e) => setEditForm(prev => ({ ...prev, overrideReason: e.target.value }))}
+                          className={`w-full px-3 py-2 rounded-lg border text-sm ${
+                            state.theme === 'dark'
+                              ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                              : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+                          }`}
+                        />
+                      )}
+                      {overrideRefusal && <p className="text-xs text-red-500">{overrideRefusal}</p>}
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <label className={`block text-sm font-medium mb-2 ${
+                    state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+                  }`}>
+                    HSN / SAC
+                  </label>
+                  <input
+                    type="text"
+                    value={editForm.hsn}
+                    placeholder="Printed on the tax invoice"
+                    onChange={(e) => setEditForm(prev => ({ ...prev, hsn: e.target.value }))}
+                    className={`w-full px-3 py-2 rounded-lg border ${
+                      state.theme === 'dark'
+                        ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                        : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+                    }`}
+                  />
                 </div>
 
                 <div>
@@ -503,13 +1070,27 @@ export default function Cart() {
                         : 'bg-white border-gray-300 text-gray-900'
                     }`}
                   />
+                  <p className={`text-xs mt-1 ${
+                    editRefusal ? 'text-red-500' : state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+                  }`}>
+                    {editRefusal || `You can give up to ${Math.max(discountLimit, editScheme?.percent || 0)}% on a line.`}
+                  </p>
+                  {editScheme && (
+                    <p className={`text-xs mt-1 ${state.theme === 'dark' ? 'text-blue-300' : 'text-blue-600'}`}>
+                      Scheme: {editScheme.percent}% for {describeDiscountRule(editScheme, state.customers)}.
+                      Changing the discount overrides it for this line.
+                    </p>
+                  )}
                 </div>
               </div>
 
               <div className="flex space-x-3 mt-6">
                 <button
                   onClick={saveEdit}
-                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+                  disabled={!!editRefusal || !!overrideRefusal || !!quantityRefusal}
+                  className={`flex-1 ${
+                    editRefusal || overrideRefusal || quantityRefusal ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+                  } text-white px-4 py-2 rounded-lg font-medium transition-colors`}
                 >
                   Save Changes
                 </button>
@@ -538,28 +1119,58 @@ export default function Cart() {
               <h2 className={`text-xl font-bold mb-4 ${
                 state.theme === 'dark' ? 'text-white' : 'text-gray-900'
               }`}>
-                Bill Preview
+                Tax Invoice Preview
               </h2>
 
               <div className="space-y-4 mb-6">
                 <div className="text-center">
-                  <h3 className={`text-lg font-bold ${
-                    state.theme === 'dark' ? 'text-white' : 'text-gray-900'
-                  }`}>
-                    ProductFlow
-                  </h3>
+                  {/* The business header the PDF prints, left off letterhead stationery */}
+                  {INVOICE_TEMPLATES[state.invoiceSettings.template]?.printHeader !== false && (
+                    <>
+                      {state.invoiceSettings.logo && (
+                        <img src={state.invoiceSettings.logo} alt="" className="h-12 mx-auto mb-2 object-contain" />
+                      )}
+                      <h3 className={`text-lg font-bold ${
+                        state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+                      }`}>
+                        {state.business.name}
+                      </h3>
+                      <div className={`text-xs ${
+                        state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+                      }`}>
+                        {state.business.address && <p className="whitespace-pre-line">{state.business.address}</p>}
+                        {(state.business.phone || state.business.email) && (
+                          <p>{[state.business.phone, state.business.email].filter(Boolean).join(' · ')}</p>
+                        )}
+                        {state.business.gstin && <p>GSTIN: {state.business.gstin}</p>}
+                      </div>
+                    </>
+                  )}
                   <p className={`text-sm ${
                     state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
                   }`}>
                     {new Date().toLocaleDateString()} {new Date().toLocaleTimeString()}
                   </p>
-                  {customerName && (
-                    <p className={`text-sm ${
-                      state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
-                    }`}>
-                      Customer: {customerName}
-                    </p>
-                  )}
+                </div>
+
+                <div className={`grid grid-cols-2 gap-4 text-xs ${
+                  state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+                }`}>
+                  <div>
+                    <p className="font-semibold">Sold by</p>
+                    <p>{state.business.name}</p>
+                    {state.business.address && <p className="whitespace-pre-line">{state.business.address}</p>}
+                    <p>{state.business.gstin ? `GSTIN: ${state.business.gstin}` : 'Unregistered'}</p>
+                    <p>State: {formatState(state.business.stateCode)}</p>
+                  </div>
+                  <div>
+                    <p className="font-semibold">Billed to</p>
+                    <p>{customerName.trim() || 'Cash customer'}</p>
+                    {customerPhone.trim() && <p>Phone: {customerPhone.trim()}</p>}
+                    {customerAddress.trim() && <p className="whitespace-pre-line">{customerAddress.trim()}</p>}
+                    <p>{gstin ? `GSTIN: ${gstin}` : 'Unregistered'}</p>
+                    <p>Place of supply: {formatState(supplyState)}</p>
+                  </div>
                 </div>
 
                 <hr className={state.theme === 'dark' ? 'border-gray-700' : 'border-gray-200'} />
@@ -574,11 +1185,11 @@ export default function Cart() {
                         <p className={`text-xs ${
                           state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
                         }`}>
-                          ₹{item.product.price} each
+                          {formatRupees(getUnitPrice(item.product, item.quantity))} each · HSN {item.product.hsn || '—'} · GST {Number(item.product.gst) || 0}%
                         </p>
                       </div>
                       <p className={state.theme === 'dark' ? 'text-white' : 'text-gray-900'}>
-                        ₹{calculateItemTotal(item).toFixed(2)}
+                        {formatRupees(calculateItemTotal(item))}
                       </p>
                     </div>
                   ))}
@@ -589,27 +1200,80 @@ export default function Cart() {
                 <div className="space-y-1 text-sm">
                   <div className="flex justify-between">
                     <span>Subtotal:</span>
-                    <span>₹{totals.subtotal.toFixed(2)}</span>
+                    <span>{formatRupees(totals.subtotal)}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Discount:</span>
-                    <span>-₹{totals.totalDiscount.toFixed(2)}</span>
+                    <span>-{formatRupees(totals.totalDiscount)}</span>
                   </div>
+                  <table className="w-full text-xs my-2">
+                    <thead>
+                      <tr className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
+                        <th className="text-left font-medium">Rate</th>
+                        <th className="text-right font-medium">Taxable</th>
+                        {invoice.taxType === 'intra' ? (
+                          <>
+                            <th className="text-right font-medium">CGST</th>
+                            <th className="text-right font-medium">SGST</th>
+                          </>
+                        ) : (
+                          <th className="text-right font-medium">IGST</th>
+                        )}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {invoice.taxSummary.map(row => (
+                        <tr key={row.rate}>
+                          <td>{row.rate}%</td>
+                          <td className="text-right">{formatRupees(row.taxableValue)}</td>
+                          {invoice.taxType === 'intra' ? (
+                            <>
+                              <td className="text-right">{formatRupees(row.cgst)}</td>
+                              <td className="text-right">{formatRupees(row.sgst)}</td>
+                            </>
+                          ) : (
+                            <td className="text-right">{formatRupees(row.igst)}</td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                   <div className="flex justify-between">
-                    <span>GST:</span>
-                    <span>₹{totals.gst.toFixed(2)}</span>
+                    <span>Total tax:</span>
+                    <span>{formatRupees(invoice.gst)}</span>
                   </div>
+                  {invoice.roundOff !== 0 && (
+                    <div className="flex justify-between">
+                      <span>Round off:</span>
+                      <span>{invoice.roundOff > 0 ? '+' : '-'}{formatRupees(Math.abs(invoice.roundOff))}</span>
+                    </div>
+                  )}
                   <div className={`flex justify-between font-bold text-lg ${
                     state.theme === 'dark' ? 'text-emerald-400' : 'text-emerald-600'
                   }`}>
                     <span>Total:</span>
-                    <span>₹{totals.total.toFixed(2)}</span>
+                    <span>{formatRupees(invoice.total)}</span>
                   </div>
+                  <p className={`text-xs text-right ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {amountInWords(invoice.total)}
+                  </p>
+                  {receivedSplits.map((split, index) => (
+                    <div key={index} className="flex justify-between">
+                      <span>Paid by {PAYMENT_MODE_LABELS[split.mode]}:</span>
+                      <span>{formatRupees(split.amount)}</span>
+                    </div>
+                  ))}
+                  {onCredit > 0 && (
+                    <div className="flex justify-between text-orange-500">
+                      <span>Balance due by {dueDateFor(new Date(), creditDays).toLocaleDateString()}:</span>
+                      <span>{formatRupees(onCredit)}</span>
+                    </div>
+                  )}
                 </div>
 
                 <div className="text-center text-sm">
                   <p className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
-                    Thank you for your business!
+                    {state.invoiceSettings.footer?.trim() || DEFAULT_INVOICE_FOOTER}
                   </p>
                 </div>
               </div>
@@ -654,6 +1318,165 @@ export default function Cart() {
           </div>
         </div>
       )}
+
+      {quoteForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className={`max-w-md w-full rounded-xl ${
+            state.theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+          }`}>
+            <div className="p-6">
+              <h2 className={`text-xl font-bold mb-4 ${
+                state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+              }`}>
+                Save as Quotation
+              </h2>
+
+              <div className="space-y-4">
+                <div>
+                  <label className={`block text-sm font-medium mb-2 ${
+                    state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+                  }`}>
+                    Valid for (days)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="365"
+                    value={quoteForm.days}
+                    onChange={(e) => setQuoteForm({ ...quoteForm, days: Math.min(365, Math.max(1, parseInt(e.target.value) || 1)) })}
+                    className={`w-full px-3 py-2 rounded-lg border ${
+                      state.theme === 'dark'
+                        ? 'bg-gray-700 border-gray-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-900'
+                    }`}
+                  />
+                  <p className={`text-xs mt-1 ${
+                    state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+                  }`}>
+                    Valid until {validityDate(new Date(), quoteForm.days).toLocaleDateString()}
+                  </p>
+                </div>
+                <div>
+                  <label className={`block text-sm font-medium mb-2 ${
+                    state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+                  }`}>
+                    Notes
+                  </label>
+                  <textarea
+                    rows={3}
+                    value={quoteForm.notes}
+                    placeholder="Delivery terms, payment terms... (optional)"
+                    onChange={(e) => setQuoteForm({ ...quoteForm, notes: e.target.value })}
+                    className={`w-full px-3 py-2 rounded-lg border ${
+                      state.theme === 'dark'
+                        ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                        : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+                    }`}
+                  />
+                </div>
+                <p className={`text-sm ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                  Quoting {customerName.trim() || 'a cash customer'} for {formatRupees(invoice.total)}. The cart is cleared once the quotation is saved.
+                </p>
+                {quoteError && (
+                  <p className="text-red-500 text-sm">{quoteError}</p>
+                )}
+              </div>
+
+              <div className="flex space-x-3 mt-6">
+                <button
+                  onClick={saveQuotation}
+                  disabled={isSavingQuote}
+                  className={`flex-1 ${
+                    isSavingQuote ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+                  } text-white px-4 py-2 rounded-lg font-medium transition-colors`}
+                >
+                  {isSavingQuote ? 'Saving...' : 'Save & Download Quotation'}
+                </button>
+                <button
+                  onClick={() => {
+                    setQuoteForm(null);
+                    setQuoteError(null);
+                  }}
+                  className={`px-6 py-2 rounded-lg font-medium transition-colors ${
+                    state.theme === 'dark'
+                      ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+                  }`}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {parkName !== null && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className={`max-w-sm w-full rounded-xl ${
+            state.theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+          }`}>
+            <form
+              className="p-6"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (!parkName.trim()) return;
+                dispatch({ type: 'PARK_CART', payload: parkName });
+                setParkName(null);
+              }}
+            >
+              <h2 className={`text-xl font-bold mb-4 ${
+                state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+              }`}>
+                Park Cart
+              </h2>
+              <label className={`block text-sm font-medium mb-2 ${
+                state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+              }`}>
+                Name
+              </label>
+              <input
+                type="text"
+                autoFocus
+                value={parkName}
+                onChange={(e) => setParkName(e.target.value)}
+                className={`w-full px-3 py-2 rounded-lg border ${
+                  state.theme === 'dark'
+                    ? 'bg-gray-700 border-gray-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-900'
+                }`}
+              />
+              <p className={`text-xs mt-1 ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                The items and customer details are held until you resume or discard the cart.
+              </p>
+              <div className="flex space-x-3 mt-6">
+                <button
+                  type="submit"
+                  disabled={!parkName.trim()}
+                  className={`flex-1 px-4 py-2 rounded-lg font-medium text-white ${
+                    parkName.trim() ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-400 cursor-not-allowed'
+                  }`}
+                >
+                  Park
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setParkName(null)}
+                  className={`px-6 py-2 rounded-lg font-medium transition-colors ${
+                    state.theme === 'dark'
+                      ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+                  }`}
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showBusinessDetails && <BusinessDetails onClose={() => setShowBusinessDetails(false)} />}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,225 @@
+import { useMemo, useState } from 'react';
+import { GitCompare, TrendingUp, TrendingDown, Plus, Minus, RefreshCw } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { CatalogChange, CatalogChangeKind, FIELD_LABELS, formatFieldValue } from '../utils/catalogDiff';
+import { formatRupees } from '../utils/amounts';
+
+interface CatalogDiffPreviewProps {
+  supplier: string;
+  fileNames: string[];
+  changes: CatalogChange[];
+  onApply: (selected: CatalogChange[]) => void;
+  onCancel: () => void;
+}
+
+const KIND_LABELS: Record<CatalogChangeKind, string> = {
+  added: 'New',
+  removed: 'Removed',
+  priceUp: 'Price up',
+  priceDown: 'Price down',
+  changed: 'MOQ / pack / stock',
+};
+
+const KIND_ICONS = {
+  added: Plus,
+  removed: Minus,
+  priceUp: TrendingUp,
+  priceDown: TrendingDown,
+  changed: RefreshCw,
+};
+
+const KIND_COLORS: Record<CatalogChangeKind, string> = {
+  added: 'text-emerald-600',
+  removed: 'text-red-600',
+  priceUp: 'text-orange-600',
+  priceDown: 'text-blue-600',
+  changed: 'text-purple-600',
+};
+
+export default function CatalogDiffPreview({ supplier, fileNames, changes, onApply, onCancel }: CatalogDiffPreviewProps) {
+  const { state } = useApp();
+  const [filter, setFilter] = useState<CatalogChangeKind | 'all'>('all');
+  // Removals are opt-in: a partial price list should not wipe the catalog
+  const [selected, setSelected] = useState(
+    () => new Set(changes.filter(change => change.kind !== 'removed').map(change => change.productId))
+  );
+
+  const counts = useMemo(() => {
+    const result: Record<CatalogChangeKind, number> = { added: 0, removed: 0, priceUp: 0, priceDown: 0, changed: 0 };
+    changes.forEach(change => result[change.kind]++);
+    return result;
+  }, [changes]);
+
+  const visible = filter === 'all' ? changes : changes.filter(change => change.kind === filter);
+  const allVisibleSelected = visible.length > 0 && visible.every(change => selected.has(change.productId));
+
+  const toggle = (productId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(productId)) next.delete(productId);
+      else next.add(productId);
+      return next;
+    });
+  };
+
+  const toggleVisible = () => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      visible.forEach(change => {
+        if (allVisibleSelected) next.delete(change.productId);
+        else next.add(change.productId);
+      });
+      return next;
+    });
+  };
+
+  const selectedChanges = changes.filter(change => selected.has(change.productId));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className={`max-w-5xl w-full max-h-[90vh] flex flex-col rounded-xl ${
+        state.theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+      }`}>
+        <div className="p-6 space-y-4">
+          <div className="flex items-start justify-between">
+            <div>
+              <h2 className={`text-2xl font-bold flex items-center space-x-2 ${
+                state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+              }`}>
+                <GitCompare className="w-6 h-6 text-blue-500" />
+                <span>Review Catalog Update</span>
+              </h2>
+              <p className={`mt-1 text-sm ${
+                state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+              }`}>
+                {supplier}: {fileNames.join(', ')} compared with the current catalog. Only the selected changes are applied.
+              </p>
+            </div>
+            <button
+              onClick={onCancel}
+              className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${
+                state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+              }`}
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setFilter('all')}
+              className={`px-3 py-1 rounded-full text-sm font-medium ${
+                filter === 'all'
+                  ? 'bg-blue-600 text-white'
+                  : state.theme === 'dark' ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-700'
+              }`}
+            >
+              All ({changes.length})
+            </button>
+            {(Object.keys(KIND_LABELS) as CatalogChangeKind[]).filter(kind => counts[kind] > 0).map(kind => (
+              <button
+                key={kind}
+                onClick={() => setFilter(kind)}
+                className={`px-3 py-1 rounded-full text-sm font-medium ${
+                  filter === kind
+                    ? 'bg-blue-600 text-white'
+                    : state.theme === 'dark' ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                {KIND_LABELS[kind]} ({counts[kind]})
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="px-6 overflow-y-auto flex-1">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className={`border-b ${
+                state.theme === 'dark' ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-600'
+              }`}>
+                <th className="py-2 pr-2 text-left">
+                  <input type="checkbox" checked={allVisibleSelected} onChange={toggleVisible} />
+                </th>
+                <th className="py-2 px-2 text-left font-medium">Change</th>
+                <th className="py-2 px-2 text-left font-medium">Product</th>
+                <th className="py-2 px-2 text-left font-medium">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(change => {
+                const Icon = KIND_ICONS[change.kind];
+                return (
+                  <tr key={change.productId} className={`border-b ${
+                    state.theme === 'dark' ? 'border-gray-700 text-white' : 'border-gray-200 text-gray-900'
+                  }`}>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(change.productId)}
+                        onChange={() => toggle(change.productId)}
+                      />
+                    </td>
+                    <td className={`py-2 px-2 whitespace-nowrap font-medium ${KIND_COLORS[change.kind]}`}>
+                      <span className="flex items-center space-x-1">
+                        <Icon className="w-4 h-4" />
+                        <span>{KIND_LABELS[change.kind]}</span>
+                      </span>
+                    </td>
+                    <td className="py-2 px-2">
+                      <div className="font-medium">{change.name}</div>
+                      <div className={`text-xs ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {change.productId}
+                      </div>
+                    </td>
+                    <td className={`py-2 px-2 ${state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}`}>
+                      {change.kind === 'added' && change.incoming && formatRupees(Number(change.incoming.price))}
+                      {change.kind === 'removed' && 'Not in the new price list'}
+                      {change.fields.map(field => (
+                        <div key={field.field}>
+                          {FIELD_LABELS[field.field]}: {formatFieldValue(field.field, field.from)} → {formatFieldValue(field.field, field.to)}
+                          {field.field === 'price' && change.percentChange !== undefined && (
+                            <span className={`ml-2 font-medium ${KIND_COLORS[change.kind]}`}>
+                              {change.percentChange > 0 ? '+' : ''}{change.percentChange.toFixed(1)}%
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-6 flex justify-between items-center">
+          <span className={`text-sm ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+            {selectedChanges.length} of {changes.length} changes selected
+          </span>
+          <div className="flex space-x-3">
+            <button
+              onClick={onCancel}
+              className={`px-4 py-2 rounded-lg font-medium ${
+                state.theme === 'dark'
+                  ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                  : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+              }`}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply(selectedChanges)}
+              disabled={selectedChanges.length === 0}
+              className={`px-4 py-2 rounded-lg font-medium text-white ${
+                selectedChanges.length === 0 ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              Apply {selectedChanges.length} change{selectedChanges.length !== 1 ? 's' : ''}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { Columns, AlertCircle } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { ColumnMapping, ImportField } from '../types';
+import { IMPORT_FIELD_LABELS } from '../utils/fileParser';
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  supplier: string;
+  headers: string[];
+  sampleRows: Record<string, unknown>[];
+  initialColumns: ColumnMapping['columns'];
+  onConfirm: (columns: ColumnMapping['columns'], remember: boolean) => void;
+  onCancel: () => void;
+}
+
+// Fields that may only be taken from one column
+const SINGLE_FIELDS: ImportField[] = (Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).filter(field => field !== 'priceTier');
+
+export default function ColumnMappingWizard({
+  fileName,
+  supplier,
+  headers,
+  sampleRows,
+  initialColumns,
+  onConfirm,
+  onCancel
+}: ColumnMappingWizardProps) {
+  const { state } = useApp();
+  const [columns, setColumns] = useState(initialColumns);
+  const [remember, setRemember] = useState(true);
+
+  const mappedFields = Object.values(columns).filter(Boolean) as ImportField[];
+  const duplicates = SINGLE_FIELDS.filter(field =>
+    mappedFields.filter(mapped => mapped === field).length > 1
+  );
+  const hasPrice = mappedFields.includes('price') || mappedFields.includes('priceTier');
+  const hasIdentifier = mappedFields.some(field => ['productId', 'eCode', 'catalogueNo'].includes(field));
+
+  const problems: string[] = [];
+  if (!hasPrice) problems.push('Map at least one column to Price.');
+  if (duplicates.length > 0) {
+    problems.push(`Each field can come from one column only: ${duplicates.map(field => IMPORT_FIELD_LABELS[field]).join(', ')}.`);
+  }
+
+  const updateColumn = (header: string, value: string) => {
+    setColumns(prev => ({ ...prev, [header]: value ? value as ImportField : null }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className={`max-w-5xl w-full max-h-[90vh] overflow-y-auto rounded-xl ${
+        state.theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+      }`}>
+        <div className="p-6 space-y-6">
+          <div className="flex items-start justify-between">
+            <div>
+              <h2 className={`text-2xl font-bold flex items-center space-x-2 ${
+                state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+              }`}>
+                <Columns className="w-6 h-6 text-blue-500" />
+                <span>Map Columns</span>
+              </h2>
+              <p className={`mt-1 text-sm ${
+                state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+              }`}>
+                Choose which product field each column of <span className="font-medium">{fileName}</span> ({supplier}) fills.
+              </p>
+            </div>
+            <button
+              onClick={onCancel}
+              className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${
+                state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+              }`}
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className={state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}>
+                  <th className="text-left p-2 font-semibold">Column</th>
+                  <th className="text-left p-2 font-semibold">Import as</th>
+                  <th className="text-left p-2 font-semibold">Sample values</th>
+                </tr>
+              </thead>
+              <tbody>
+                {headers.map(header => (
+                  <tr
+                    key={header}
+                    className={`border-t ${state.theme === 'dark' ? 'border-gray-700' : 'border-gray-200'}`}
+                  >
+                    <td className={`p-2 font-medium ${
+                      state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+                    }`}>
+                      {header}
+                    </td>
+                    <td className="p-2">
+                      <select
+                        value={columns[header] || ''}
+                        onChange={(e) => updateColumn(header, e.target.value)}
+                        className={`w-full px-2 py-1 rounded-md border ${
+                          columns[header] && duplicates.includes(columns[header] as ImportField)
+                            ? 'border-red-500'
+                            : state.theme === 'dark' ? 'border-gray-600' : 'border-gray-300'
+                        } ${
+                          state.theme === 'dark' ? 'bg-gray-700 text-white' : 'bg-white text-gray-900'
+                        }`}
+                      >
+                        <option value="">Ignore column</option>
+                        {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map(field => (
+                          <option key={field} value={field}>{IMPORT_FIELD_LABELS[field]}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className={`p-2 ${
+                      state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+                    }`}>
+                      {sampleRows
+                        .map(row => row[header])
+                        .filter(value => value !== undefined && value !== '')
+                        .slice(0, 3)
+                        .join(' · ') || '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {(problems.length > 0 || !hasIdentifier) && (
+            <div className="space-y-1">
+              {problems.map(problem => (
+                <div key={problem} className="flex items-start space-x-2 text-sm text-red-600">
+                  <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>{problem}</span>
+                </div>
+              ))}
+              {!hasIdentifier && (
+                <div className="flex items-start space-x-2 text-sm text-yellow-600">
+                  <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>No Product ID, E-Code or Catalogue No. column is mapped. Products will get generated IDs and cannot be matched on later imports.</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <label className={`flex items-center space-x-2 text-sm ${
+              state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+            }`}>
+              <input
+                type="checkbox"
+                checked={remember}
+                onChange={(e) => setRemember(e.target.checked)}
+                className="rounded"
+              />
+              <span>Remember this mapping for {supplier}</span>
+            </label>
+            <div className="flex space-x-3">
+              <button
+                onClick={onCancel}
+                className={`px-4 py-2 rounded-lg font-medium ${
+                  state.theme === 'dark'
+                    ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                    : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                Skip file
+              </button>
+              <button
+                onClick={() => onConfirm(columns, remember)}
+                disabled={problems.length > 0}
+                className={`px-4 py-2 rounded-lg font-medium text-white ${
+                  problems.length > 0 ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                Import
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import * as pdfjsLib from "pdfjs-dist";
 import "pdfjs-dist/build/pdf.worker.entry";
 import { useApp } from '../context/AppContext';
+import { formatRupees } from '../utils/amounts';
 
 pdfjsLib.GlobalWorkerOptions.workerSrc = "/pdf.worker.min.js";
 
@@ -44,10 +45,10 @@ const CartBillSection: React.FC<{ cart: SearchResult[], isDark: boolean }> = ({
     <div className={`p-4 rounded-lg mt-4 ${isDark ? 'bg-gray-800 text-white' : 'bg-blue-50 text-gray-900'}`}>
       <h4 className="text-lg font-medium mb-2">🧾 Bill Summary</h4>
       <div className="flex flex-col gap-1">
-        <span>Subtotal: <b>₹{subTotal.toFixed(2)}</b></span>
-        <span>Total Discount: <b>-₹{totalDiscount.toFixed(2)}</b></span>
+        <span>Subtotal: <b>{formatRupees(subTotal)}</b></span>
+        <span>Total Discount: <b>-{formatRupees(totalDiscount)}</b></span>
         <span className="text-blue-600 font-bold text-lg">
-          Total to Pay: ₹{finalTotal.toFixed(2)}
+          Total to Pay: {formatRupees(finalTotal)}
         </span>
       </div>
     </div>
@@ -266,7 +267,7 @@ const Companies: React.FC = () => {
                     <td className="px-4 py-3 text-sm font-medium">{row.ecode}</td>
                     <td className="px-4 py-3 text-sm">{row.dcat}</td>
                     <td className="px-4 py-3 text-sm">{row.sap}</td>
-                    <td className="px-4 py-3 text-sm">₹{row.price}</td>
+                    <td className="px-4 py-3 text-sm">{formatRupees(Number(row.price))}</td>
                     <td className="px-4 py-3 text-sm">{row.moq}</td>
                     <td className="px-4 py-3 whitespace-nowrap text-sm">
                       <button
@@ -352,10 +353,10 @@ const Companies: React.FC = () => {
                         const price = Number(item.price);
                         const discount = Number(item.discount) || 0;
 
-                        if (isNaN(price) || isNaN(qty)) return "₹0.00";
+                        if (isNaN(price) || isNaN(qty)) return formatRupees(0);
 
                         const total = qty * price * (1 - discount / 100);
-                        return `₹${total.toFixed(2)}`;
+                        return formatRupees(total);
                       })()}
                     </td>
                     <td className="px-2 py-2">
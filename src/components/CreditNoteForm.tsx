@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { RotateCcw, AlertCircle } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { Bill } from '../types';
+import { ReturnLine, buildCreditNote, getReturnedQuantities, validateReturn } from '../utils/creditNotes';
+import { downloadCreditNotePdf } from '../utils/creditNotePdf';
+import { getCreditNotePrefix, nextInvoiceNumber } from '../utils/invoiceNumber';
+import { checkPermission } from '../utils/permissions';
+import { createCreditNote, isApiEnabled } from '../utils/api';
+import { formatRupees } from '../utils/amounts';
+
+interface CreditNoteFormProps {
+  bill: Bill;
+  onClose: () => void;
+}
+
+// Takes back some or all of a bill's lines and issues a credit note for them
+export default function CreditNoteForm({ bill, onClose }: CreditNoteFormProps) {
+  const { state, dispatch } = useApp();
+  const returned = getReturnedQuantities(bill, state.creditNotes);
+  const [lines, setLines] = useState<ReturnLine[]>(
+    bill.items.map((_, billItemIndex) => ({ billItemIndex, quantity: 0, restock: true }))
+  );
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refusal = checkPermission(state.user, 'issueCreditNotes');
+  const problems = validateReturn(bill, state.creditNotes, lines);
+  const date = new Date();
+  const draft = buildCreditNote(bill, state.creditNotes, problems.length === 0 ? lines : [], {
+    id: `CN-${Date.now()}`,
+    noteNumber: isApiEnabled
+      ? ''
+      : nextInvoiceNumber(
+          state.creditNotes.map(note => note.noteNumber),
+          getCreditNotePrefix(bill.seller || state.business),
+          date
+        ),
+    date,
+    reason: reason.trim() || undefined,
+    createdBy: state.user ? { id: state.user.id, name: state.user.name } : undefined
+  });
+
+  const updateLine = (index: number, changes: Partial<ReturnLine>) =>
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  // With the API configured the server numbers the note and restocks the
+  // catalog; the local copy follows
+  const issue = async () => {
+    if (refusal || problems.length > 0) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const note = isApiEnabled
+        ? await createCreditNote(draft).then(saved => ({ ...saved, date: new Date(saved.date) }))
+        : draft;
+      dispatch({ type: 'ADD_CREDIT_NOTE', payload: note });
+      downloadCreditNotePdf(note).catch(error =>
+        alert(`Could not download the PDF: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      );
+      onClose();
+    } catch (error) {
+      setError(`Could not issue the credit note: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const mutedClass = state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+  const inputClass = `w-full px-3 py-2 rounded-lg border ${
+    state.theme === 'dark'
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className={`max-w-2xl w-full max-h-[90vh] overflow-y-auto rounded-xl ${
+        state.theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+      }`}>
+        <div className="p-6">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h2 className={`text-xl font-bold flex items-center space-x-2 ${
+                state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+              }`}>
+                <RotateCcw className="w-5 h-5 text-blue-500" />
+                <span>Return Items</span>
+              </h2>
+              <p className={`text-sm mt-1 ${mutedClass}`}>
+                Bill {bill.billNumber} · {bill.customerName || 'Walk-in Customer'} · {new Date(bill.date).toLocaleDateString()}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${mutedClass}`}
+            >
+              ✕
+            </button>
+          </div>
+
+          <fieldset disabled={!!refusal}>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className={`border-b ${
+                  state.theme === 'dark' ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-600'
+                }`}>
+                  <th className="text-left py-2 font-medium">Item</th>
+                  <th className="text-right py-2 font-medium">Sold</th>
+                  <th className="text-right py-2 font-medium">Returned</th>
+                  <th className="text-right py-2 font-medium w-24">Return now</th>
+                  <th className="text-center py-2 font-medium">Restock</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bill.items.map((item, index) => {
+                  const remaining = item.quantity - returned[index];
+                  return (
+                    <tr key={index} className={`border-b ${
+                      state.theme === 'dark' ? 'border-gray-700 text-white' : 'border-gray-200 text-gray-900'
+                    }`}>
+                      <td className="py-2">{item.product.name}</td>
+                      <td className="py-2 text-right">{item.quantity}</td>
+                      <td className={`py-2 text-right ${mutedClass}`}>{returned[index] || '—'}</td>
+                      <td className="py-2 pl-2">
+                        <input
+                          type="number"
+                          min="0"
+                          max={remaining}
+                          disabled={remaining === 0}
+                          value={lines[index].quantity}
+                          onChange={(e) => updateLine(index, { quantity: Math.max(0, parseInt(e.target.value) || 0) })}
+                          className={`${inputClass} text-right py-1`}
+                        />
+                      </td>
+                      <td className="py-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={lines[index].restock}
+                          disabled={remaining === 0}
+                          onChange={(e) => updateLine(index, { restock: e.target.checked })}
+                          title="Put the returned units back into stock"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="mt-4">
+              <label className={`block text-sm font-medium mb-1 ${
+                state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+              }`}>
+                Reason
+              </label>
+              <input
+                type="text"
+                value={reason}
+                placeholder="e.g. Damaged in transit (optional)"
+                onChange={(e) => setReason(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </fieldset>
+
+          {draft.items.length > 0 && (
+            <div className={`mt-4 p-4 rounded-lg space-y-1 text-sm ${
+              state.theme === 'dark' ? 'bg-gray-700/50 text-gray-300' : 'bg-gray-50 text-gray-700'
+            }`}>
+              <div className="flex justify-between">
+                <span>Taxable value</span>
+                <span>{formatRupees(draft.taxableValue)}</span>
+              </div>
+              {draft.taxType === 'inter' ? (
+                <div className="flex justify-between">
+                  <span>IGST reversed</span>
+                  <span>{formatRupees(draft.igst)}</span>
+                </div>
+              ) : (
+                <div className="flex justify-between">
+                  <span>CGST + SGST reversed</span>
+                  <span>{formatRupees(draft.cgst)} + {formatRupees(draft.sgst)}</span>
+                </div>
+              )}
+              {draft.roundOff !== 0 && (
+                <div className="flex justify-between">
+                  <span>Round off</span>
+                  <span>{draft.roundOff > 0 ? '+' : '-'}{formatRupees(Math.abs(draft.roundOff))}</span>
+                </div>
+              )}
+              <div className={`flex justify-between font-bold text-base ${
+                state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+              }`}>
+                <span>Credit to customer</span>
+                <span>{formatRupees(draft.total)}</span>
+              </div>
+            </div>
+          )}
+
+          {(refusal || error || (problems.length > 0 && lines.some(line => line.quantity > 0))) && (
+            <div className="mt-4 space-y-1">
+              {(refusal ? [refusal] : error ? [error] : problems).map(problem => (
+                <div key={problem} className="flex items-center space-x-2 text-sm text-red-600">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  <span>{problem}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex space-x-3 mt-6">
+            <button
+              onClick={issue}
+              disabled={!!refusal || problems.length > 0 || isSaving}
+              className={`flex-1 px-4 py-2 rounded-lg font-medium text-white ${
+                refusal || problems.length > 0 || isSaving
+                  ? 'bg-blue-400 cursor-not-allowed'
+                  : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {isSaving ? 'Issuing...' : 'Issue Credit Note'}
+            </button>
+            <button
+              onClick={onClose}
+              className={`px-6 py-2 rounded-lg font-medium ${
+                state.theme === 'dark'
+                  ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                  : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+              }`}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,447 @@
+import { useMemo, useState } from 'react';
+import { Contact, Plus, Pencil, Trash2, AlertCircle, ArrowLeft, Search as SearchIcon } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { Customer } from '../types';
+import { can } from '../utils/permissions';
+import { createCustomer, getCustomerBills, searchCustomers, validateCustomer } from '../utils/customers';
+import { GST_STATES, formatState, stateFromGstin } from '../utils/gst';
+import { getBillBalance } from '../utils/payments';
+import { getCustomerGroups } from '../utils/discounts';
+import { formatRupees } from '../utils/amounts';
+import DiscountSchemes from './DiscountSchemes';
+
+export default function Customers() {
+  const { state, dispatch } = useApp();
+  const [editing, setEditing] = useState<Customer | null>(null);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+
+  const canManage = can(state.user, 'manageCustomers');
+  const canManageDiscounts = can(state.user, 'manageDiscounts');
+  const problems = editing ? validateCustomer(editing, state.customers) : [];
+
+  // Bill count, total, outstanding balance and last bill date per customer
+  const stats = useMemo(() => new Map(state.customers.map(customer => {
+    const bills = getCustomerBills(state.bills, customer);
+    return [customer.id, {
+      bills,
+      total: bills.reduce((sum, bill) => sum + bill.total, 0),
+      outstanding: bills.reduce((sum, bill) => sum + Math.max(0, getBillBalance(bill, state.payments, state.creditNotes).balance), 0),
+      lastBill: bills[0]?.date
+    }];
+  })), [state.customers, state.bills, state.payments, state.creditNotes]);
+
+  const visible = query.trim()
+    ? searchCustomers(state.customers, query, state.customers.length)
+    : [...state.customers].sort((a, b) => a.name.localeCompare(b.name));
+  const profile = state.customers.find(c => c.id === profileId);
+
+  const update = <K extends keyof Customer>(key: K, value: Customer[K]) => {
+    setEditing(prev => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const save = () => {
+    if (!editing || problems.length > 0) return;
+    dispatch({
+      type: 'SAVE_CUSTOMER',
+      payload: {
+        ...editing,
+        name: editing.name.trim(),
+        phone: editing.phone?.trim() || undefined,
+        gstin: editing.gstin?.trim() || undefined,
+        billingAddress: editing.billingAddress?.trim() || undefined,
+        shippingAddress: editing.shippingAddress?.trim() || undefined,
+        group: editing.group?.trim() || undefined,
+        notes: editing.notes?.trim() || undefined
+      }
+    });
+    setEditing(null);
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border ${
+    state.theme === 'dark'
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`;
+
+  const labelClass = `block text-sm font-medium mb-2 ${
+    state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+  }`;
+
+  const cardClass = `rounded-xl border ${
+    state.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+  }`;
+
+  const mutedClass = state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+
+  const renderProfile = (customer: Customer) => {
+    const { bills, total, outstanding, lastBill } = stats.get(customer.id) || { bills: [], total: 0, outstanding: 0, lastBill: undefined };
+    const details: [string, string | undefined][] = [
+      ['Phone', customer.phone],
+      ['GSTIN', customer.gstin],
+      ['State', customer.stateCode && formatState(customer.stateCode)],
+      ['Billing address', customer.billingAddress],
+      ['Shipping address', customer.shippingAddress],
+      ['Credit limit', customer.creditLimit !== undefined ? formatRupees(customer.creditLimit) : undefined],
+      ['Discount group', customer.group],
+      ['Notes', customer.notes],
+    ];
+
+    return (
+      <div className="space-y-6">
+        <button
+          onClick={() => setProfileId(null)}
+          className={`flex items-center space-x-2 text-sm font-medium ${mutedClass} hover:underline`}
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>All customers</span>
+        </button>
+
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className={`text-3xl font-bold ${state.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+              {customer.name}
+            </h1>
+            <p className={`mt-2 ${mutedClass}`}>
+              {bills.length} bill{bills.length !== 1 ? 's' : ''} · {formatRupees(total)} billed
+              {outstanding > 0 && ` · ${formatRupees(outstanding)} outstanding`}
+              {lastBill && ` · last bill ${new Date(lastBill).toLocaleDateString()}`}
+            </p>
+          </div>
+          <button
+            onClick={() => setEditing(customer)}
+            className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            <Pencil className="w-4 h-4" />
+            <span>Edit</span>
+          </button>
+        </div>
+
+        <div className={`${cardClass} p-6 grid grid-cols-1 sm:grid-cols-2 gap-4`}>
+          {details.filter(([, value]) => value).map(([label, value]) => (
+            <div key={label}>
+              <div className={`text-sm ${mutedClass}`}>{label}</div>
+              <div className={`whitespace-pre-line ${state.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>{value}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className={`${cardClass} overflow-hidden`}>
+          {bills.length === 0 ? (
+            <p className={`text-center py-12 ${mutedClass}`}>No bills for this customer yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className={`border-b ${
+                    state.theme === 'dark' ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-600'
+                  }`}>
+                    <th className="text-left py-3 px-4 font-medium">Bill No.</th>
+                    <th className="text-left py-3 px-4 font-medium">Date</th>
+                    <th className="text-left py-3 px-4 font-medium">Items</th>
+                    <th className="text-left py-3 px-4 font-medium">Created By</th>
+                    <th className="text-right py-3 px-4 font-medium">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {bills.map(bill => (
+                    <tr key={bill.id} className={`border-b ${
+                      state.theme === 'dark' ? 'border-gray-700 text-white' : 'border-gray-200 text-gray-900'
+                    }`}>
+                      <td className="py-3 px-4">{bill.billNumber}</td>
+                      <td className={`py-3 px-4 ${mutedClass}`}>{new Date(bill.date).toLocaleDateString()}</td>
+                      <td className={`py-3 px-4 ${mutedClass}`}>{bill.items.length} items</td>
+                      <td className={`py-3 px-4 ${mutedClass}`}>{bill.createdBy?.name || '—'}</td>
+                      <td className={`py-3 px-4 text-right font-semibold ${
+                        state.theme === 'dark' ? 'text-emerald-400' : 'text-emerald-600'
+                      }`}>
+                        {formatRupees(bill.total)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {profile ? renderProfile(profile) : (
+        <>
+          <div className="flex items-start justify-between">
+            <div>
+              <h1 className={`text-3xl font-bold ${
+                state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+              }`}>
+                Customers
+              </h1>
+              <p className={`mt-2 ${mutedClass}`}>
+                Customer details for quick lookup at billing, with their bill history.
+              </p>
+            </div>
+            <button
+              onClick={() => setEditing(createCustomer(''))}
+              className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Customer</span>
+            </button>
+          </div>
+
+          <div className={`relative ${cardClass}`}>
+            <SearchIcon className={`absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 ${mutedClass}`} />
+            <input
+              type="text"
+              placeholder="Search by name, phone or GSTIN..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className={`w-full pl-12 pr-4 py-3 rounded-xl border-0 ${
+                state.theme === 'dark'
+                  ? 'bg-gray-800 text-white placeholder-gray-400'
+                  : 'bg-white text-gray-900 placeholder-gray-500'
+              }`}
+            />
+          </div>
+
+          <div className={`${cardClass} overflow-hidden`}>
+            {visible.length === 0 ? (
+              <div className={`text-center py-12 ${mutedClass}`}>
+                <Contact className="w-16 h-16 mx-auto mb-4 opacity-50" />
+                <h3 className="text-lg font-medium mb-2">
+                  {state.customers.length === 0 ? 'No customers yet' : 'No matching customers'}
+                </h3>
+                <p>Customers are also added from the Cart when you bill someone new.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className={`border-b ${
+                      state.theme === 'dark' ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-600'
+                    }`}>
+                      <th className="text-left py-3 px-4 font-medium">Customer</th>
+                      <th className="text-left py-3 px-4 font-medium">Phone</th>
+                      <th className="text-left py-3 px-4 font-medium">GSTIN</th>
+                      <th className="text-right py-3 px-4 font-medium">Bills</th>
+                      <th className="text-right py-3 px-4 font-medium">Total Billed</th>
+                      <th className="text-right py-3 px-4 font-medium">Credit Limit</th>
+                      <th className="py-3 px-4" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visible.map(customer => {
+                      const customerStats = stats.get(customer.id);
+                      const billCount = customerStats?.bills.length || 0;
+                      return (
+                        <tr key={customer.id} className={`border-b ${
+                          state.theme === 'dark' ? 'border-gray-700 text-white hover:bg-gray-700/50' : 'border-gray-200 text-gray-900 hover:bg-gray-50'
+                        }`}>
+                          <td className="py-3 px-4">
+                            <button onClick={() => setProfileId(customer.id)} className="font-medium text-left hover:underline">
+                              {customer.name}
+                            </button>
+                            {(customer.stateCode || customer.group) && (
+                              <div className={`text-xs ${mutedClass}`}>
+                                {[customer.stateCode && formatState(customer.stateCode), customer.group].filter(Boolean).join(' · ')}
+                              </div>
+                            )}
+                          </td>
+                          <td className={`py-3 px-4 ${mutedClass}`}>{customer.phone || '—'}</td>
+                          <td className={`py-3 px-4 ${mutedClass}`}>{customer.gstin || '—'}</td>
+                          <td className="py-3 px-4 text-right">{billCount}</td>
+                          <td className="py-3 px-4 text-right">{formatRupees((customerStats?.total || 0))}</td>
+                          <td className="py-3 px-4 text-right">
+                            {customer.creditLimit !== undefined ? formatRupees(customer.creditLimit) : '—'}
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="flex justify-end space-x-2">
+                              <button
+                                onClick={() => setEditing(customer)}
+                                className="p-2 rounded-lg text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                                title="Edit customer"
+                              >
+                                <Pencil className="w-4 h-4" />
+                              </button>
+                              {canManage && (
+                                <button
+                                  onClick={() => dispatch({ type: 'DELETE_CUSTOMER', payload: customer.id })}
+                                  disabled={billCount > 0}
+                                  className={`p-2 rounded-lg ${
+                                    billCount > 0
+                                      ? 'text-gray-400 cursor-not-allowed'
+                                      : 'text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20'
+                                  }`}
+                                  title={billCount > 0 ? 'Customers with bills cannot be deleted' : 'Delete customer'}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <DiscountSchemes />
+        </>
+      )}
+
+      {editing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className={`max-w-2xl w-full max-h-[90vh] overflow-y-auto rounded-xl ${
+            state.theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+          }`}>
+            <div className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className={`text-2xl font-bold ${
+                  state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+                }`}>
+                  {state.customers.some(c => c.id === editing.id) ? 'Edit Customer' : 'Add Customer'}
+                </h2>
+                <button
+                  onClick={() => setEditing(null)}
+                  className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${mutedClass}`}
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Name</label>
+                  <input type="text" value={editing.name} onChange={(e) => update('name', e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Phone</label>
+                  <input type="tel" value={editing.phone || ''} onChange={(e) => update('phone', e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>GSTIN</label>
+                  <input
+                    type="text"
+                    value={editing.gstin || ''}
+                    onChange={(e) => {
+                      const gstin = e.target.value.toUpperCase();
+                      update('gstin', gstin);
+                      const stateCode = stateFromGstin(gstin);
+                      if (stateCode) update('stateCode', stateCode);
+                    }}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>State</label>
+                  <select
+                    value={editing.stateCode || ''}
+                    onChange={(e) => update('stateCode', e.target.value || undefined)}
+                    className={inputClass}
+                  >
+                    <option value="">Not set</option>
+                    {GST_STATES.map(s => (
+                      <option key={s.code} value={s.code}>{s.code} - {s.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Billing address</label>
+                  <textarea
+                    rows={3}
+                    value={editing.billingAddress || ''}
+                    onChange={(e) => update('billingAddress', e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Shipping address</label>
+                  <textarea
+                    rows={3}
+                    value={editing.shippingAddress || ''}
+                    placeholder="Same as billing"
+                    onChange={(e) => update('shippingAddress', e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Credit limit (₹)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="100"
+                    value={editing.creditLimit ?? ''}
+                    placeholder="No limit"
+                    disabled={!canManage}
+                    title={canManage ? undefined : 'Only an owner or manager can set credit limits'}
+                    onChange={(e) => update('creditLimit', e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Discount group</label>
+                  <input
+                    type="text"
+                    list="customer-groups"
+                    value={editing.group || ''}
+                    placeholder="e.g. Dealers"
+                    disabled={!canManageDiscounts}
+                    title={canManageDiscounts ? undefined : 'Only an owner or manager can change discount groups'}
+                    onChange={(e) => update('group', e.target.value)}
+                    className={inputClass}
+                  />
+                  <datalist id="customer-groups">
+                    {getCustomerGroups(state.customers).map(group => <option key={group} value={group} />)}
+                  </datalist>
+                </div>
+                <div>
+                  <label className={labelClass}>Notes</label>
+                  <input type="text" value={editing.notes || ''} onChange={(e) => update('notes', e.target.value)} className={inputClass} />
+                </div>
+              </div>
+
+              {problems.length > 0 && (
+                <div className="space-y-1">
+                  {problems.map(problem => (
+                    <div key={problem} className="flex items-start space-x-2 text-sm text-red-600">
+                      <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      <span>{problem}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  onClick={() => setEditing(null)}
+                  className={`px-4 py-2 rounded-lg font-medium ${
+                    state.theme === 'dark'
+                      ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                  }`}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={save}
+                  disabled={problems.length > 0}
+                  className={`px-4 py-2 rounded-lg font-medium text-white ${
+                    problems.length > 0 ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+                  }`}
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,13 @@
 import React from 'react';
 import { Package, Building2, ShoppingCart, TrendingUp, AlertTriangle } from 'lucide-react';
 import { useApp } from '../context/AppContext';
+import { formatRupees } from '../utils/amounts';
 
 export default function Dashboard() {
   const { state } = useApp();
 
   const totalProducts = state.products.length;
   const totalCompanies = new Set(state.products.map(p => p.companyName)).size;
-  const totalShops = new Set(state.products.map(p => p.shopName)).size;
   const lowStockProducts = state.products.filter(p => p.quantity < 10);
   const recentBills = state.bills.slice(-5).reverse();
 
@@ -168,7 +168,7 @@ export default function Dashboard() {
                       <p className={`text-sm ${
                         state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
                       }`}>
-                        ₹{product.price}
+                        {formatRupees(product.price)}
                       </p>
                     </div>
                   </div>
@@ -236,7 +236,7 @@ export default function Dashboard() {
                     <td className={`py-2 px-4 ${
                       state.theme === 'dark' ? 'text-white' : 'text-gray-900'
                     }`}>
-                      #{bill.id.slice(-6)}
+                      {bill.billNumber}
                     </td>
                     <td className={`py-2 px-4 ${
                       state.theme === 'dark' ? 'text-white' : 'text-gray-900'
@@ -251,7 +251,7 @@ export default function Dashboard() {
                     <td className={`py-2 px-4 font-semibold ${
                       state.theme === 'dark' ? 'text-emerald-400' : 'text-emerald-600'
                     }`}>
-                      ₹{bill.total.toFixed(2)}
+                      {formatRupees(bill.total)}
                     </td>
                   </tr>
                 ))}
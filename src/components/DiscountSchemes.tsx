@@ -0,0 +1,273 @@
+import { useMemo, useState } from 'react';
+import { Tag, Plus, Pencil, Trash2, AlertCircle } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { DiscountRule } from '../types';
+import { can } from '../utils/permissions';
+import { createDiscountRule, describeDiscountRule, getCustomerGroups, validateDiscountRule } from '../utils/discounts';
+
+// The customer discount matrix: a percentage per DCAT for a customer or a
+// customer group, applied to cart lines as they are added
+export default function DiscountSchemes() {
+  const { state, dispatch } = useApp();
+  const [editing, setEditing] = useState<DiscountRule | null>(null);
+
+  const canManage = can(state.user, 'manageDiscounts');
+  const problems = editing ? validateDiscountRule(editing, state.discountRules) : [];
+  const groups = getCustomerGroups(state.customers);
+  const dcats = useMemo(
+    () => Array.from(new Set(state.products.map(p => p.dcat?.trim().toUpperCase()).filter((dcat): dcat is string => !!dcat)))
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+    [state.products]
+  );
+
+  // Customer rules first, then group rules, each by DCAT
+  const rules = [...state.discountRules].sort((a, b) =>
+    Number(!a.customerId) - Number(!b.customerId) ||
+    describeDiscountRule(a, state.customers).localeCompare(describeDiscountRule(b, state.customers), undefined, { numeric: true })
+  );
+
+  const save = () => {
+    if (!editing || problems.length > 0) return;
+    const rule = {
+      ...editing,
+      dcat: editing.dcat.trim().toUpperCase(),
+      group: editing.customerId ? undefined : editing.group?.trim()
+    };
+    const exists = state.discountRules.some(r => r.id === rule.id);
+    dispatch({
+      type: 'SET_DISCOUNT_RULES',
+      payload: exists ? state.discountRules.map(r => (r.id === rule.id ? rule : r)) : [...state.discountRules, rule]
+    });
+    setEditing(null);
+  };
+
+  const remove = (id: string) =>
+    dispatch({ type: 'SET_DISCOUNT_RULES', payload: state.discountRules.filter(r => r.id !== id) });
+
+  const cardClass = `rounded-xl border ${
+    state.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+  }`;
+  const mutedClass = state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+  const inputClass = `w-full px-3 py-2 rounded-lg border ${
+    state.theme === 'dark'
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`;
+  const labelClass = `block text-sm font-medium mb-1 ${
+    state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+  }`;
+
+  return (
+    <div className={`${cardClass} overflow-hidden`}>
+      <div className="flex items-start justify-between p-6 pb-4">
+        <div>
+          <h2 className={`text-xl font-semibold flex items-center space-x-2 ${
+            state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+          }`}>
+            <Tag className="w-5 h-5 text-blue-500" />
+            <span>Discount Schemes</span>
+          </h2>
+          <p className={`text-sm mt-1 ${mutedClass}`}>
+            Discount by the DCAT printed on supplier catalogs. A customer's own rule beats their group's.
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setEditing(createDiscountRule({ group: groups[0] || '' }))}
+            className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Rule</span>
+          </button>
+        )}
+      </div>
+
+      {rules.length === 0 ? (
+        <p className={`text-center pb-8 ${mutedClass}`}>
+          No schemes yet. Lines start with the supplier's default discount.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className={`border-y ${
+                state.theme === 'dark' ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-600'
+              }`}>
+                <th className="text-left py-3 px-4 font-medium">Customer / Group</th>
+                <th className="text-left py-3 px-4 font-medium">DCAT</th>
+                <th className="text-right py-3 px-4 font-medium">Discount</th>
+                <th className="py-3 px-4" />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map(rule => (
+                <tr key={rule.id} className={`border-b ${
+                  state.theme === 'dark' ? 'border-gray-700 text-white' : 'border-gray-200 text-gray-900'
+                }`}>
+                  <td className="py-3 px-4">
+                    {rule.customerId
+                      ? state.customers.find(c => c.id === rule.customerId)?.name || 'Deleted customer'
+                      : rule.group}
+                    <div className={`text-xs ${mutedClass}`}>{rule.customerId ? 'Customer' : 'Group'}</div>
+                  </td>
+                  <td className="py-3 px-4">{rule.dcat}</td>
+                  <td className="py-3 px-4 text-right font-semibold">{rule.percent}%</td>
+                  <td className="py-3 px-4">
+                    {canManage && (
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => setEditing(rule)}
+                          className="p-2 rounded-lg text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                          title="Edit rule"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => remove(rule.id)}
+                          className="p-2 rounded-lg text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                          title="Delete rule"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className={`max-w-md w-full rounded-xl ${
+            state.theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+          }`}>
+            <div className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className={`text-xl font-bold ${
+                  state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+                }`}>
+                  {state.discountRules.some(r => r.id === editing.id) ? 'Edit Rule' : 'Add Rule'}
+                </h2>
+                <button
+                  onClick={() => setEditing(null)}
+                  className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${mutedClass}`}
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div>
+                <label className={labelClass}>Applies to</label>
+                <select
+                  value={editing.customerId ? 'customer' : 'group'}
+                  onChange={(e) => setEditing(prev => prev && (e.target.value === 'customer'
+                    ? { ...prev, customerId: state.customers[0]?.id, group: undefined }
+                    : { ...prev, customerId: undefined, group: groups[0] || '' }))}
+                  className={inputClass}
+                >
+                  <option value="group">A customer group</option>
+                  <option value="customer">One customer</option>
+                </select>
+              </div>
+
+              {editing.customerId !== undefined ? (
+                <div>
+                  <label className={labelClass}>Customer</label>
+                  <select
+                    value={editing.customerId}
+                    onChange={(e) => setEditing(prev => prev && { ...prev, customerId: e.target.value })}
+                    className={inputClass}
+                  >
+                    {[...state.customers].sort((a, b) => a.name.localeCompare(b.name)).map(customer => (
+                      <option key={customer.id} value={customer.id}>{customer.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <div>
+                  <label className={labelClass}>Group</label>
+                  <input
+                    type="text"
+                    list="discount-groups"
+                    value={editing.group || ''}
+                    placeholder="e.g. Dealers"
+                    onChange={(e) => setEditing(prev => prev && { ...prev, group: e.target.value })}
+                    className={inputClass}
+                  />
+                  <datalist id="discount-groups">
+                    {groups.map(group => <option key={group} value={group} />)}
+                  </datalist>
+                  <p className={`text-xs mt-1 ${mutedClass}`}>Set a customer's group when editing the customer.</p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>DCAT</label>
+                  <input
+                    type="text"
+                    list="discount-dcats"
+                    value={editing.dcat}
+                    onChange={(e) => setEditing(prev => prev && { ...prev, dcat: e.target.value })}
+                    className={inputClass}
+                  />
+                  <datalist id="discount-dcats">
+                    {dcats.map(dcat => <option key={dcat} value={dcat} />)}
+                  </datalist>
+                </div>
+                <div>
+                  <label className={labelClass}>Discount (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.5"
+                    value={editing.percent}
+                    onChange={(e) => setEditing(prev => prev && { ...prev, percent: parseFloat(e.target.value) || 0 })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              {problems.length > 0 && (
+                <div className="space-y-1">
+                  {problems.map(problem => (
+                    <div key={problem} className="flex items-start space-x-2 text-sm text-red-600">
+                      <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      <span>{problem}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  onClick={() => setEditing(null)}
+                  className={`px-4 py-2 rounded-lg font-medium ${
+                    state.theme === 'dark'
+                      ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                  }`}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={save}
+                  disabled={problems.length > 0}
+                  className={`px-4 py-2 rounded-lg font-medium text-white ${
+                    problems.length > 0 ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+                  }`}
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
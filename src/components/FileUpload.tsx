@@ -1,7 +1,72 @@
-import React, { useCallback, useState } from 'react';
-import {  FileSpreadsheet, AlertCircle, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import React, { useCallback, useRef, useState } from 'react';
+import {  FileSpreadsheet, FileText, AlertCircle, CheckCircle, XCircle, Loader2 } from 'lucide-react';
 import { useApp } from '../context/AppContext';
-import { parseExcel, } from '../utils/fileParser';
+import { ColumnMapping, Product } from '../types';
+import {
+  MAX_IMPORT_FILE_SIZE,
+  SheetSelection,
+  WorkbookSheet,
+  validateSpecificPDFData,
+  getColumnHeaders,
+  suggestColumnMapping,
+  isMappingComplete,
+  applyColumnMapping,
+  ParsedRow
+} from '../utils/fileParser';
+import { checkPermission } from '../utils/permissions';
+import { applySupplier, createSupplier, findSupplier } from '../utils/suppliers';
+import { CatalogChange, buildCatalogUpdate, diffCatalog } from '../utils/catalogDiff';
+import {
+  ParseCancelledError,
+  ParseProgress,
+  inspectWorkbookInWorker,
+  parseFileInWorker,
+  parseKindFor
+} from '../utils/parseInWorker';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import CatalogDiffPreview from './CatalogDiffPreview';
+import SheetPicker from './SheetPicker';
+
+interface PendingMapping {
+  fileName: string;
+  supplier: string;
+  headers: string[];
+  sampleRows: Record<string, unknown>[];
+  initialColumns: ColumnMapping['columns'];
+  resolve: (result: { columns: ColumnMapping['columns']; remember: boolean } | null) => void;
+}
+
+interface PendingSheets {
+  fileName: string;
+  sheets: WorkbookSheet[];
+  resolve: (selections: SheetSelection[] | null) => void;
+}
+
+interface ImportProgress {
+  fileName: string;
+  fileIndex: number;
+  fileCount: number;
+  done: number;
+  total: number;
+  unit: ParseProgress['unit'] | null; // null until the worker reports
+  imported: number; // Products from this file added so far
+}
+
+// Products dispatched per ADD_PRODUCTS when importing a large file
+const IMPORT_CHUNK_SIZE = 500;
+
+const PROGRESS_UNITS: Record<ParseProgress['unit'], string> = {
+  page: 'Page',
+  sheet: 'Sheet',
+  row: 'Row',
+};
+
+interface PendingReview {
+  supplier: string;
+  fileNames: string[];
+  changes: CatalogChange[];
+  resolve: (selected: CatalogChange[] | null) => void;
+}
 
 export default function FileUpload() {
   const { state, dispatch } = useApp();
@@ -10,130 +75,61 @@ export default function FileUpload() {
   const [uploadResults, setUploadResults] = useState<{
     success: number;
     skipped: number;
+    invalid: number; // Rows that failed validation and were not imported
+    updated: number; // Existing products changed in update mode
+    removed: number;
     errors: string[];
     warnings: string[];
   } | null>(null);
+  const [showAllWarnings, setShowAllWarnings] = useState(false);
+  const [supplierName, setSupplierName] = useState(state.suppliers[0]?.name || '');
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
+  // 'add' skips products already in the catalog; 'update' previews and applies changes to them
+  const [importMode, setImportMode] = useState<'add' | 'update'>('add');
+  const [pendingReview, setPendingReview] = useState<PendingReview | null>(null);
+  const [pendingSheets, setPendingSheets] = useState<PendingSheets | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const importRefusal = checkPermission(state.user, 'importCatalog');
+  const selectedSupplier = findSupplier(state.suppliers, supplierName);
+
+  // Opens the mapping wizard and waits for the user; null means skip the file
+  const requestMapping = useCallback((request: Omit<PendingMapping, 'resolve'>) =>
+    new Promise<{ columns: ColumnMapping['columns']; remember: boolean } | null>(resolve => {
+      setPendingMapping({ ...request, resolve });
+    }), []);
+
+  // Opens the sheet picker and waits for the user; null means skip the file
+  const requestSheets = useCallback((request: Omit<PendingSheets, 'resolve'>) =>
+    new Promise<SheetSelection[] | null>(resolve => {
+      setPendingSheets({ ...request, resolve });
+    }), []);
+
+  // Shows the update diff and waits for the user; null means cancel
+  const requestReview = useCallback((request: Omit<PendingReview, 'resolve'>) =>
+    new Promise<CatalogChange[] | null>(resolve => {
+      setPendingReview({ ...request, resolve });
+    }), []);
 
-// Update the validateExcelFormat function to make some fields optional
-const validateExcelFormat = (products: any[], filename: string) => {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  
-  if (products.length === 0) {
-    errors.push(`${filename}: File is empty`);
-    return { errors, warnings };
-  }
-
-  const firstRow = products[0];
-  const availableHeaders = Object.keys(firstRow).map(h => h.toLowerCase());
-  
-  // Check for at least price column (minimum requirement)
-  const hasPriceColumn = availableHeaders.some(header => 
-    ['price', 'cost', 'inr', 'amount'].some(pattern => header.includes(pattern))
-  );
-  
-  if (!hasPriceColumn) {
-    errors.push(`${filename}: Must contain at least a price column`);
-    return { errors, warnings };
-  }
-
-  // Warn about missing optional columns
-  const optionalChecks = [
-    { name: 'Category', patterns: ['taper', 'categories', 'category', 'type'] },
-    { name: 'Description', patterns: ['description', 'name', 'product name', 'title'] },
-    { name: 'Article Number', patterns: ['catalogue', 'article', 'part', 'number', 'code', 'sku'] }
-  ];
-
-  optionalChecks.forEach(check => {
-    const hasColumn = check.patterns.some(pattern => 
-      availableHeaders.some(header => header.includes(pattern))
-    );
-    if (!hasColumn) {
-      warnings.push(`${filename}: Missing optional column: ${check.name}. Products will use default values.`);
-    }
-  });
-
-  return { errors, warnings };
-};
-
-
-  const normalizeProduct = (product: any) => {
-    const normalized: any = {};
-    
-    // Map fields based on your Excel structure
-    const fieldMappings = {
-      category: ['taper', 'categories', 'taper/ categories'],
-      description: ['description', 'bezeichnung', 'designation'],
-      catalogueNo: [
-        'catalogue article no.', 
-        'catalogue article no', 
-        'article no.',
-        'catalogue no.'
-      ],
-      obiArticleNo: ['obi article no.', 'obi article no', 'obi no.'],
-      price: ['unit price in inr', 'unit price', 'price', 'inr price per piece'],
-      stock: ['stock', 'quantity', 'qty'],
-      eCode: ['e-code', 'ecode'],
-      dcat: ['dcat'],
-      sap: ['sap'],
-      minOrderQty: ['min. order quantity', 'min order quantity', 'moq']
-    };
-
-    // Map known fields
-    Object.entries(fieldMappings).forEach(([normalizedKey, possibleKeys]) => {
-      const sourceKey = Object.keys(product).find(key => 
-        possibleKeys.some(pk => key.toLowerCase().includes(pk.toLowerCase()))
-      );
-      if (sourceKey && product[sourceKey] !== undefined && product[sourceKey] !== '') {
-        normalized[normalizedKey] = product[sourceKey];
-      }
-    });
-
-    // Handle price tiers (1.0, 2.0, 3.0, 6.0, 11.0 columns from your Excel)
-    const priceTiers: any = {};
-    Object.keys(product).forEach(key => {
-      if (/^\d+\.0$/.test(key)) {
-        const tierValue = product[key];
-        if (tierValue && !isNaN(Number(tierValue)) && Number(tierValue) > 0) {
-          priceTiers[key] = Number(tierValue);
-        }
-      }
-    });
-    
-    if (Object.keys(priceTiers).length > 0) {
-      normalized.priceTiers = priceTiers;
+  const handleFiles = useCallback(async (files: FileList) => {
+    if (importRefusal) {
+      setUploadResults({ success: 0, skipped: 0, invalid: 0, updated: 0, removed: 0, errors: [importRefusal], warnings: [] });
+      return;
     }
 
-    // Copy any remaining fields that weren't mapped
-    Object.keys(product).forEach(key => {
-      const normalizedKey = key.toLowerCase().replace(/[^a-z0-9]/g, '');
-      if (!Object.values(fieldMappings).flat().some(field => 
-        key.toLowerCase().includes(field.toLowerCase())
-      )) {
-        normalized[normalizedKey] = product[key];
-      }
-    });
-
-    // Generate a unique ID if not present
-    if (!normalized.productId && !normalized.eCode && !normalized.catalogueNo) {
-      normalized.productId = `${normalized.category || 'UNKNOWN'}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    } else {
-      normalized.productId = normalized.eCode || normalized.catalogueNo || normalized.productId;
+    if (!supplierName.trim()) {
+      setUploadResults({ success: 0, skipped: 0, invalid: 0, updated: 0, removed: 0, errors: ['Choose or enter the supplier these files are from'], warnings: [] });
+      return;
     }
 
-    // Ensure required fields have values
-    normalized.name = normalized.description || normalized.catalogueNo || 'Unknown Product';
-    normalized.companyName = 'Dormer Pramet'; // Based on your PDF file
-    normalized.shopName = state.user?.shopName || 'Default Shop';
-
-    return normalized;
-  };
-
-  const handleFiles = useCallback(async (files: FileList) => {
     if (files.length === 0) {
       setUploadResults({
         success: 0,
         skipped: 0,
+        invalid: 0,
+        updated: 0,
+        removed: 0,
         errors: ['No files selected for upload'],
         warnings: []
       });
@@ -142,82 +138,247 @@ const validateExcelFormat = (products: any[], filename: string) => {
 
     setUploading(true);
     setUploadResults(null);
+    setShowAllWarnings(false);
     
     let totalSuccess = 0;
     let totalSkipped = 0;
+    let totalInvalid = 0;
+    let totalUpdated = 0;
+    let totalRemoved = 0;
+    // Update mode compares all files together so a product moved between
+    // files of the same price list is not reported as removed
+    const incoming: Product[] = [];
+    const incomingFiles: string[] = [];
     let allErrors: string[] = [];
     let allWarnings: string[] = [];
+    // The chosen supplier drives parsing and normalization. A name that is
+    // not in the supplier master yet is added with default settings.
+    let supplier = findSupplier(state.suppliers, supplierName);
+    if (!supplier) {
+      supplier = createSupplier(supplierName);
+      dispatch({ type: 'SAVE_SUPPLIER', payload: supplier });
+    }
+
+    const shopName = state.user?.shopName || 'Default Shop';
+    // Grows as chunks are dispatched; the reducer also drops duplicates but
+    // the counts shown afterwards need them excluded here
+    const knownIds = new Set(state.products.map(p => p.productId));
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // Adds one chunk of normalized products in add mode. Returns how many
+    // were new; the rest are already in the catalog.
+    const importChunk = (products: Product[], fileName: string) => {
+      const newProducts = products.filter(p => !knownIds.has(p.productId));
+      newProducts.forEach(p => knownIds.add(p.productId));
+      if (newProducts.length > 0) {
+        dispatch({ type: 'ADD_PRODUCTS', payload: { products: newProducts, fileName } });
+      }
+      totalSuccess += newProducts.length;
+      totalSkipped += products.length - newProducts.length;
+      return newProducts.length;
+    };
 
-    for (const file of Array.from(files)) {
+    for (const [fileIndex, file] of Array.from(files).entries()) {
+      if (controller.signal.aborted) break;
+      let fileImported = 0;
+      let fileSkipped = 0;
       try {
-        // Validate file type - Excel only for this specific format
-        if (!file.name.match(/\.(xls|xlsx)$/i)) {
-          allErrors.push(`${file.name}: Unsupported file format. Only Excel files (.xls, .xlsx) are allowed.`);
+        // Validate file type
+        const kind = parseKindFor(file.name);
+        if (!kind) {
+          allErrors.push(`${file.name}: Unsupported file format. Only Excel (.xls, .xlsx), CSV and PDF files are allowed.`);
           continue;
         }
 
-        // Check file size (Max 10MB for Excel files)
-        const maxSize = 10 * 1024 * 1024;
-        if (file.size > maxSize) {
-          allErrors.push(`${file.name}: File too large. Maximum size is 10MB.`);
+        if (file.size > MAX_IMPORT_FILE_SIZE) {
+          allErrors.push(`${file.name}: File too large. Maximum size is ${MAX_IMPORT_FILE_SIZE / (1024 * 1024)}MB.`);
           continue;
         }
 
-        // Parse Excel file
-        let products;
-        try {
-          products = await parseExcel(file);
-        } catch (parseError) {
-          allErrors.push(`${file.name}: Failed to parse file - ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
-          continue;
+        setProgress({ fileName: file.name, fileIndex, fileCount: files.length, done: 0, total: 0, unit: null, imported: 0 });
+        const currentSupplier = supplier;
+        const onProgress = (update: ParseProgress) => {
+          setProgress(prev => prev && { ...prev, ...update, imported: fileImported });
+        };
+        let normalizedProducts: Product[];
+
+        if (kind === 'pdf') {
+          // PDF rows need no mapping, so in add mode each page goes into the
+          // catalog as soon as the worker has read it
+          const toProducts = (rows: ParsedRow[]) => {
+            const { valid, invalid, warnings } = validateSpecificPDFData(rows, file.name, currentSupplier.name);
+            totalInvalid += invalid.length;
+            allWarnings.push(...warnings);
+            return valid.map(product => applySupplier({ ...product, shopName }, currentSupplier) as Product);
+          };
+
+          let rows;
+          try {
+            ({ rows } = await parseFileInWorker(file, kind, {
+              layout: supplier.importProfile.pdfLayout,
+              signal: controller.signal,
+              onProgress,
+              onRows: importMode === 'add'
+                ? pageRows => {
+                    const products = toProducts(pageRows);
+                    const added = importChunk(products, file.name);
+                    fileImported += added;
+                    fileSkipped += products.length - added;
+                  }
+                : undefined
+            }));
+          } catch (parseError) {
+            if (parseError instanceof ParseCancelledError) throw parseError;
+            allErrors.push(`${file.name}: Failed to parse file - ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+            continue;
+          }
+
+          if (rows.length === 0) {
+            allErrors.push(`${file.name}: No product rows found. Make sure the PDF has an E-Code / DCAT / Price table.`);
+            continue;
+          }
+
+          if (importMode === 'add') {
+            if (fileSkipped > 0) {
+              allWarnings.push(`${file.name}: ${fileSkipped} products skipped (duplicates)`);
+            }
+            continue;
+          }
+          normalizedProducts = toProducts(rows);
+        } else {
+          // Parse Excel or CSV file; both then share the mapping path
+          let products;
+          try {
+            // Workbooks with several sheets or title rows above the header
+            // go through the sheet picker first
+            let sheets: SheetSelection[] | undefined;
+            if (kind === 'excel') {
+              const workbook = await inspectWorkbookInWorker(file, controller.signal);
+              sheets = workbook.length > 1 || workbook.some(sheet => sheet.headerRow > 0)
+                ? await requestSheets({ fileName: file.name, sheets: workbook }) || undefined
+                : workbook;
+              if (!sheets) {
+                allWarnings.push(`${file.name}: Skipped, no sheets chosen`);
+                continue;
+              }
+            }
+            const parsed = await parseFileInWorker(file, kind, { sheets, signal: controller.signal, onProgress });
+            allErrors.push(...parsed.errors);
+            allWarnings.push(...parsed.warnings);
+            products = parsed.rows;
+          } catch (parseError) {
+            if (parseError instanceof ParseCancelledError) throw parseError;
+            allErrors.push(`${file.name}: Failed to parse file - ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+            continue;
+          }
+
+          if (products.length === 0) {
+            allErrors.push(`${file.name}: File is empty`);
+            continue;
+          }
+
+          // Reuse the supplier's saved mapping when it covers every column,
+          // otherwise ask how the columns should be imported
+          const headers = getColumnHeaders(products);
+          const saved = supplier.importProfile.columnMapping;
+          let columns = saved?.columns || {};
+
+          if (!isMappingComplete(saved, headers)) {
+            const result = await requestMapping({
+              fileName: file.name,
+              supplier: supplier.name,
+              headers,
+              sampleRows: products.slice(0, 5),
+              initialColumns: { ...suggestColumnMapping(headers), ...saved?.columns }
+            });
+            if (!result) {
+              allWarnings.push(`${file.name}: Skipped, no column mapping chosen`);
+              continue;
+            }
+            columns = result.columns;
+            if (result.remember) {
+              // Keep the local copy current so later files in this drop reuse it
+              const columnMapping: ColumnMapping = { columns, updatedAt: new Date() };
+              supplier = { ...supplier, importProfile: { ...supplier.importProfile, columnMapping } };
+              dispatch({ type: 'SAVE_SUPPLIER', payload: supplier });
+            }
+          }
+
+          const companyName = supplier.name;
+          normalizedProducts = products.map(product =>
+            applySupplier(applyColumnMapping(product, columns, { shopName, companyName }), currentSupplier)
+          );
         }
 
-        // Validate products with the new Excel format validation
-        const { errors, warnings } = validateExcelFormat(products, file.name);
-        if (errors.length > 0) {
-          allErrors.push(...errors);
-          allWarnings.push(...warnings);
+        if (importMode === 'update') {
+          normalizedProducts.forEach(product => incoming.push({
+            ...product,
+            fileSource: file.name,
+            sourceFile: file.name
+          }));
+          incomingFiles.push(file.name);
           continue;
         }
 
-        // Normalize and process products
-        const normalizedProducts = products.map(normalizeProduct);
-        const existingIds = new Set(state.products.map(p => p.productId));
-        const newProducts = normalizedProducts.filter(p => !existingIds.has(p.productId));
-        const skippedCount = normalizedProducts.length - newProducts.length;
-
-        if (newProducts.length > 0) {
-          // Use the correct payload structure that matches AppContext
-          dispatch({ 
-            type: 'ADD_PRODUCTS', 
-            payload: { 
-              products: newProducts, 
-              fileName: file.name 
-            } 
-          });
+        // Add in chunks, yielding between them so the screen can repaint
+        for (let start = 0; start < normalizedProducts.length; start += IMPORT_CHUNK_SIZE) {
+          if (controller.signal.aborted) throw new ParseCancelledError(file.name);
+          const chunk = normalizedProducts.slice(start, start + IMPORT_CHUNK_SIZE);
+          const added = importChunk(chunk, file.name);
+          fileImported += added;
+          fileSkipped += chunk.length - added;
+          setProgress(prev => prev && { ...prev, imported: fileImported });
+          await new Promise(resolve => setTimeout(resolve, 0));
         }
-        
-        totalSuccess += newProducts.length;
-        totalSkipped += skippedCount;
-        allWarnings.push(...warnings);
-        
-        if (skippedCount > 0) {
-          allWarnings.push(`${file.name}: ${skippedCount} products skipped (duplicates)`);
+
+        if (fileSkipped > 0) {
+          allWarnings.push(`${file.name}: ${fileSkipped} products skipped (duplicates)`);
         }
         
       } catch (error) {
+        if (error instanceof ParseCancelledError) {
+          allWarnings.push(fileImported > 0
+            ? `${error.message}. ${fileImported} products added before cancelling were kept.`
+            : error.message);
+          break;
+        }
         allErrors.push(`${file.name}: ${error instanceof Error ? error.message : 'Unknown processing error'}`);
       }
     }
+    abortRef.current = null;
+    setProgress(null);
+
+    if (importMode === 'update' && incomingFiles.length > 0 && !controller.signal.aborted) {
+      const changes = diffCatalog(state.products, incoming, supplier.name);
+      const selected = changes.length > 0
+        ? await requestReview({ supplier: supplier.name, fileNames: incomingFiles, changes })
+        : [];
+
+      if (changes.length === 0) {
+        allWarnings.push(`${incomingFiles.join(', ')}: No differences from the current catalog`);
+      } else if (!selected) {
+        allWarnings.push(`${incomingFiles.join(', ')}: Catalog update cancelled, nothing was changed`);
+      } else {
+        const update = buildCatalogUpdate(selected, state.user?.name);
+        dispatch({ type: 'APPLY_CATALOG_UPDATE', payload: update });
+        totalSuccess += update.added.length;
+        totalUpdated += update.updated.length;
+        totalRemoved += update.removed.length;
+      }
+    }
 
     setUploadResults({
       success: totalSuccess,
       skipped: totalSkipped,
+      invalid: totalInvalid,
+      updated: totalUpdated,
+      removed: totalRemoved,
       errors: allErrors,
       warnings: allWarnings
     });
     setUploading(false);
-  }, [state.products, state.user, dispatch]);
+  }, [state.products, state.user, state.suppliers, supplierName, importMode, dispatch, importRefusal, requestMapping, requestReview, requestSheets]);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -246,6 +407,10 @@ const validateExcelFormat = (products: any[], filename: string) => {
     }
   }, [handleFiles]);
 
+  const cancelUpload = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
   const resetUpload = useCallback(() => {
     setUploadResults(null);
   }, []);
@@ -256,12 +421,12 @@ const validateExcelFormat = (products: any[], filename: string) => {
         <h1 className={`text-3xl font-bold ${
           state.theme === 'dark' ? 'text-white' : 'text-gray-900'
         }`}>
-          Excel File Upload
+          Catalog Upload
         </h1>
         <p className={`mt-2 ${
           state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
         }`}>
-          Upload Excel files (.xls, .xlsx) to import product data in the specified format.
+          Upload Excel files (.xls, .xlsx), CSV files or PDF price lists to import product data in the specified format.
         </p>
       </div>
 
@@ -270,6 +435,68 @@ const validateExcelFormat = (products: any[], filename: string) => {
           ? 'bg-gray-800 border-gray-700'
           : 'bg-white border-gray-200'
       }`}>
+        <div className="mb-4">
+          <label className={`block text-sm font-medium mb-2 ${
+            state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+          }`}>
+            Supplier
+          </label>
+          <input
+            type="text"
+            list="import-suppliers"
+            value={supplierName}
+            placeholder="Supplier name"
+            onChange={(e) => setSupplierName(e.target.value)}
+            disabled={uploading || !!importRefusal}
+            className={`w-full sm:w-80 px-3 py-2 rounded-lg border ${
+              state.theme === 'dark'
+                ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+            }`}
+          />
+          <datalist id="import-suppliers">
+            {state.suppliers.map(supplier => (
+              <option key={supplier.id} value={supplier.name} />
+            ))}
+          </datalist>
+          <p className={`text-xs mt-1 ${
+            state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+          }`}>
+            {selectedSupplier
+              ? `${selectedSupplier.importProfile.columnMapping
+                  ? 'Spreadsheets use the column mapping saved for this supplier'
+                  : 'You will be asked to map spreadsheet columns on the first import'}. PDF layout: ${selectedSupplier.importProfile.pdfLayout}. Prices in ${selectedSupplier.currency}${
+                  selectedSupplier.currency !== 'INR' ? ` are converted at ₹${selectedSupplier.exchangeRate}` : ''
+                }.`
+              : supplierName.trim()
+                ? 'New supplier. It will be added to the supplier master with default settings on import.'
+                : 'Choose the supplier these files come from.'}
+          </p>
+
+          <div className="flex flex-wrap gap-2 mt-4">
+            {([
+              ['add', 'Add new products', 'Products already in the catalog are skipped'],
+              ['update', 'Update catalog', 'Review price, MOQ and stock changes before applying them']
+            ] as const).map(([mode, label, hint]) => (
+              <button
+                key={mode}
+                onClick={() => setImportMode(mode)}
+                disabled={uploading || !!importRefusal}
+                title={hint}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  importMode === mode
+                    ? 'bg-blue-600 text-white'
+                    : state.theme === 'dark'
+                      ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
         <div
           className={`relative border-2 border-dashed rounded-xl p-8 text-center transition-all ${
             dragActive
@@ -286,25 +513,73 @@ const validateExcelFormat = (products: any[], filename: string) => {
           <input
             type="file"
             multiple
-            accept=".xls,.xlsx"
+            accept=".xls,.xlsx,.csv,.pdf"
             onChange={handleChange}
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-            disabled={uploading}
+            disabled={uploading || !!importRefusal}
           />
           
-          {uploading ? (
+          {importRefusal ? (
+            <div className="space-y-4">
+              <div className="flex justify-center">
+                <XCircle className="w-12 h-12 text-red-500" />
+              </div>
+              <p className={`text-lg font-medium ${
+                state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+              }`}>
+                Importing is not available
+              </p>
+              <p className={`text-sm ${
+                state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+              }`}>
+                {importRefusal}
+              </p>
+            </div>
+          ) : uploading ? (
             <div className="space-y-4">
               <Loader2 className="animate-spin mx-auto w-12 h-12 text-blue-500" />
               <p className={`text-lg font-medium ${
                 state.theme === 'dark' ? 'text-white' : 'text-gray-900'
               }`}>
-                Processing Excel files...
+                {progress
+                  ? `Processing ${progress.fileName}${progress.fileCount > 1 ? ` (file ${progress.fileIndex + 1} of ${progress.fileCount})` : ''}`
+                  : 'Processing catalog files...'}
               </p>
+              {progress && progress.total > 0 && (
+                <div className="max-w-md mx-auto space-y-1">
+                  <div className={`h-2 rounded-full overflow-hidden ${
+                    state.theme === 'dark' ? 'bg-gray-700' : 'bg-gray-200'
+                  }`}>
+                    <div
+                      className="h-full bg-blue-500 transition-all"
+                      style={{ width: `${Math.round((progress.done / progress.total) * 100)}%` }}
+                    />
+                  </div>
+                </div>
+              )}
               <p className={`text-sm ${
                 state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
               }`}>
-                Please wait while we validate and import your data
+                {progress?.unit
+                  ? `${PROGRESS_UNITS[progress.unit]} ${progress.done} of ${progress.total} read${
+                      progress.imported > 0 ? `, ${progress.imported} products added` : ''
+                    }`
+                  : progress
+                    ? 'Reading file...'
+                    : 'Please wait while we validate and import your data'}
               </p>
+              {progress && (
+                <button
+                  onClick={cancelUpload}
+                  className={`relative z-10 px-4 py-2 rounded-lg text-sm font-medium ${
+                    state.theme === 'dark'
+                      ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                  }`}
+                >
+                  Cancel import
+                </button>
+              )}
             </div>
           ) : (
             <div className="space-y-4">
@@ -317,12 +592,12 @@ const validateExcelFormat = (products: any[], filename: string) => {
                 <p className={`text-lg font-medium ${
                   state.theme === 'dark' ? 'text-white' : 'text-gray-900'
                 }`}>
-                  {uploadResults ? 'Drag new Excel files here' : 'Drop your Excel files here, or click to browse'}
+                  {uploadResults ? 'Drag new Excel, CSV or PDF files here' : 'Drop your Excel, CSV or PDF files here, or click to browse'}
                 </p>
                 <p className={`text-sm mt-1 ${
                   state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
                 }`}>
-                  Supports .xls and .xlsx files only (Max 10MB)
+                  Supports .xls, .xlsx, .csv and .pdf files (Max {MAX_IMPORT_FILE_SIZE / (1024 * 1024)}MB)
                 </p>
               </div>
             </div>
@@ -334,7 +609,7 @@ const validateExcelFormat = (products: any[], filename: string) => {
           <h3 className={`text-lg font-semibold mb-3 ${
             state.theme === 'dark' ? 'text-white' : 'text-gray-900'
           }`}>
-            Required Excel Format
+            Required File Formats
           </h3>
           
           <div className={`p-4 rounded-lg ${
@@ -346,7 +621,7 @@ const validateExcelFormat = (products: any[], filename: string) => {
                 <p className={`font-medium ${
                   state.theme === 'dark' ? 'text-white' : 'text-gray-900'
                 }`}>
-                  Required Excel Columns:
+                  Required Excel / CSV Columns:
                 </p>
                 <ul className={`text-sm space-y-1 ${
                   state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
@@ -364,6 +639,41 @@ const validateExcelFormat = (products: any[], filename: string) => {
                 }`}>
                   <span className="text-red-500">*</span> Required fields
                 </p>
+                <p className={`text-xs ${
+                  state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+                }`}>
+                  Workbooks may have several sheets and title rows above the column headers; you choose the sheets, header row and an optional category per sheet before importing.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className={`mt-4 p-4 rounded-lg ${
+            state.theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'
+          }`}>
+            <div className="flex items-start space-x-3">
+              <FileText className="w-5 h-5 text-red-500 mt-0.5 flex-shrink-0" />
+              <div className="space-y-2">
+                <p className={`font-medium ${
+                  state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+                }`}>
+                  PDF Price List Columns:
+                </p>
+                <ul className={`text-sm space-y-1 ${
+                  state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
+                }`}>
+                  <li>• <span className="font-semibold text-red-500">*</span> <span className="font-semibold">E-Code</span> - Product code</li>
+                  <li>• <span className="font-semibold">DCAT</span> - Discount category</li>
+                  <li>• <span className="font-semibold">SAP</span> - SAP article number</li>
+                  <li>• <span className="font-semibold">Stock</span> - Available quantity</li>
+                  <li>• <span className="font-semibold text-red-500">*</span> <span className="font-semibold">Price</span> - Unit price in INR</li>
+                  <li>• <span className="font-semibold">MOQ</span> - Minimum order quantity</li>
+                </ul>
+                <p className={`text-xs pt-2 ${
+                  state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+                }`}>
+                  Rows without an E-Code or a valid price are reported as invalid and not imported.
+                </p>
               </div>
             </div>
           </div>
@@ -377,6 +687,11 @@ const validateExcelFormat = (products: any[], filename: string) => {
             }`}>
               <strong>Price Tiers:</strong> Excel files with multiple price columns (1.0, 2.0, 3.0, etc.) will be automatically detected and imported as price tiers for bulk pricing.
             </p>
+            <p className={`text-sm mt-2 ${
+              state.theme === 'dark' ? 'text-blue-300' : 'text-blue-700'
+            }`}>
+              <strong>CSV:</strong> Comma, semicolon, tab and pipe separated files are detected automatically, in UTF-8 or Windows-1252. Quote fields that contain separators or line breaks.
+            </p>
           </div>
         </div>
 
@@ -408,6 +723,27 @@ const validateExcelFormat = (products: any[], filename: string) => {
               </div>
             )}
             
+            {uploadResults.updated > 0 && (
+              <div className="flex items-start space-x-2 text-blue-600">
+                <CheckCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+                <span>Updated {uploadResults.updated} existing product{uploadResults.updated !== 1 ? 's' : ''}</span>
+              </div>
+            )}
+
+            {uploadResults.removed > 0 && (
+              <div className="flex items-start space-x-2 text-red-600">
+                <XCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+                <span>Removed {uploadResults.removed} product{uploadResults.removed !== 1 ? 's' : ''} no longer in the price list</span>
+              </div>
+            )}
+
+            {uploadResults.invalid > 0 && (
+              <div className="flex items-start space-x-2 text-red-600">
+                <XCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+                <span>{uploadResults.invalid} invalid row{uploadResults.invalid !== 1 ? 's' : ''} not imported (see warnings below)</span>
+              </div>
+            )}
+
             {uploadResults.skipped > 0 && (
               <div className="flex items-start space-x-2 text-yellow-600">
                 <AlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
@@ -421,16 +757,23 @@ const validateExcelFormat = (products: any[], filename: string) => {
                   <AlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
                   <span>Warnings ({uploadResults.warnings.length}):</span>
                 </div>
-                <ul className={`ml-7 text-sm space-y-1 max-h-32 overflow-y-auto ${
+                <ul className={`ml-7 text-sm space-y-1 overflow-y-auto ${
+                  showAllWarnings ? 'max-h-96' : 'max-h-32'
+                } ${
                   state.theme === 'dark' ? 'text-yellow-400' : 'text-yellow-600'
                 }`}>
-                  {uploadResults.warnings.slice(0, 10).map((warning, index) => (
+                  {(showAllWarnings ? uploadResults.warnings : uploadResults.warnings.slice(0, 10)).map((warning, index) => (
                     <li key={`warning-${index}`}>• {warning}</li>
                   ))}
-                  {uploadResults.warnings.length > 10 && (
-                    <li>• And {uploadResults.warnings.length - 10} more warnings...</li>
-                  )}
                 </ul>
+                {uploadResults.warnings.length > 10 && (
+                  <button
+                    onClick={() => setShowAllWarnings(!showAllWarnings)}
+                    className="ml-7 text-sm text-blue-600 hover:underline"
+                  >
+                    {showAllWarnings ? 'Show fewer warnings' : `Show all ${uploadResults.warnings.length} warnings`}
+                  </button>
+                )}
               </div>
             )}
             
@@ -456,7 +799,7 @@ const validateExcelFormat = (products: any[], filename: string) => {
                   <p className={`text-sm ${
                     state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
                   }`}>
-                    Please correct the errors in your Excel file and try again. Ensure all required fields are present and contain valid values.
+                    Please correct the errors in your file and try again. Ensure all required fields are present and contain valid values.
                   </p>
                 </div>
               </div>
@@ -464,6 +807,9 @@ const validateExcelFormat = (products: any[], filename: string) => {
 
             {uploadResults.success === 0 && 
              uploadResults.skipped === 0 && 
+             uploadResults.invalid === 0 && 
+             uploadResults.updated === 0 && 
+             uploadResults.removed === 0 && 
              uploadResults.errors.length === 0 && (
               <div className="flex items-start space-x-2 text-blue-600">
                 <AlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
@@ -473,6 +819,55 @@ const validateExcelFormat = (products: any[], filename: string) => {
           </div>
         )}
       </div>
+
+      {pendingReview && (
+        <CatalogDiffPreview
+          supplier={pendingReview.supplier}
+          fileNames={pendingReview.fileNames}
+          changes={pendingReview.changes}
+          onApply={(selected) => {
+            pendingReview.resolve(selected);
+            setPendingReview(null);
+          }}
+          onCancel={() => {
+            pendingReview.resolve(null);
+            setPendingReview(null);
+          }}
+        />
+      )}
+
+      {pendingSheets && (
+        <SheetPicker
+          fileName={pendingSheets.fileName}
+          sheets={pendingSheets.sheets}
+          onConfirm={(selections) => {
+            pendingSheets.resolve(selections);
+            setPendingSheets(null);
+          }}
+          onCancel={() => {
+            pendingSheets.resolve(null);
+            setPendingSheets(null);
+          }}
+        />
+      )}
+
+      {pendingMapping && (
+        <ColumnMappingWizard
+          fileName={pendingMapping.fileName}
+          supplier={pendingMapping.supplier}
+          headers={pendingMapping.headers}
+          sampleRows={pendingMapping.sampleRows}
+          initialColumns={pendingMapping.initialColumns}
+          onConfirm={(columns, remember) => {
+            pendingMapping.resolve({ columns, remember });
+            setPendingMapping(null);
+          }}
+          onCancel={() => {
+            pendingMapping.resolve(null);
+            setPendingMapping(null);
+          }}
+        />
+      )}
     </div>
   );
 }
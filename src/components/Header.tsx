@@ -1,7 +1,9 @@
-import React from 'react';
-import { Moon, Sun, Upload, Search, Building2, Store, ShoppingCart, FileText, Settings, BarChart3 } from 'lucide-react';
+import { Moon, Sun, Upload, Search, Building2, Truck, ShoppingCart, FileText, Settings, BarChart3, LogOut, UserCircle, Users, Contact, ClipboardList, Wallet } from 'lucide-react';
 import { useApp } from '../context/AppContext';
 import { ViewMode } from '../types';
+import { isApiEnabled, logout } from '../utils/api';
+import { ROLE_LABELS, can, getRole } from '../utils/permissions';
+import { countOpenCarts } from '../utils/heldCarts';
 
 export default function Header() {
   const { state, dispatch } = useApp();
@@ -14,13 +16,29 @@ export default function Header() {
     dispatch({ type: 'SET_VIEW', payload: view });
   };
 
+  const handleLogout = async () => {
+    await logout();
+    dispatch({ type: 'SET_USER', payload: null });
+  };
+
+  // Counts carts, not items: the current one plus any parked
+  const openCarts = countOpenCarts(state.cart, state.heldCarts);
+
   const navigationItems = [
     { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
     { id: 'search', label: 'Search', icon: Search },
     { id: 'upload', label: 'Upload', icon: Upload },
     { id: 'companies', label: 'Companies', icon: Building2 },
+    { id: 'suppliers', label: 'Suppliers', icon: Truck },
+    { id: 'customers', label: 'Customers', icon: Contact },
     { id: 'cart', label: 'Cart', icon: ShoppingCart },
+    { id: 'quotations', label: 'Quotations', icon: ClipboardList },
     { id: 'bills', label: 'Bills', icon: FileText },
+    { id: 'receivables', label: 'Receivables', icon: Wallet },
+    ...(isApiEnabled && can(state.user, 'manageUsers')
+      ? [{ id: 'team', label: 'Team', icon: Users }]
+      : []),
+    { id: 'settings', label: 'Settings', icon: Settings },
   ];
 
   return (
@@ -41,7 +59,7 @@ export default function Header() {
             {navigationItems.map((item) => {
               const Icon = item.icon;
               const isActive = state.currentView === item.id;
-              const cartCount = item.id === 'cart' ? state.cart.length : 0;
+              const cartCount = item.id === 'cart' ? openCarts : 0;
               
               return (
                 <button
@@ -69,16 +87,47 @@ export default function Header() {
             })}
           </nav>
 
-          <button
-            onClick={toggleTheme}
-            className={`p-2 rounded-lg transition-colors ${
-              state.theme === 'dark'
-                ? 'bg-gray-800 text-yellow-400 hover:bg-gray-700'
-                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-            }`}
-          >
-            {state.theme === 'dark' ? <Sun size={20} /> : <Moon size={20} />}
-          </button>
+          <div className="flex items-center space-x-2">
+            {state.user && (
+              <div className="flex items-center space-x-2">
+                <UserCircle size={28} className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'} />
+                <div className="hidden sm:block text-right leading-tight">
+                  <p className={`text-sm font-medium ${
+                    state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+                  }`}>
+                    {state.user.name}
+                  </p>
+                  <p className={`text-xs ${
+                    state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+                  }`}>
+                    {state.user.shopName} • {ROLE_LABELS[getRole(state.user)]}
+                  </p>
+                </div>
+                <button
+                  onClick={handleLogout}
+                  title="Sign out"
+                  className={`p-2 rounded-lg transition-colors ${
+                    state.theme === 'dark'
+                      ? 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  <LogOut size={20} />
+                </button>
+              </div>
+            )}
+
+            <button
+              onClick={toggleTheme}
+              className={`p-2 rounded-lg transition-colors ${
+                state.theme === 'dark'
+                  ? 'bg-gray-800 text-yellow-400 hover:bg-gray-700'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {state.theme === 'dark' ? <Sun size={20} /> : <Moon size={20} />}
+            </button>
+          </div>
         </div>
 
         {/* Mobile Navigation */}
@@ -87,7 +136,7 @@ export default function Header() {
             {navigationItems.map((item) => {
               const Icon = item.icon;
               const isActive = state.currentView === item.id;
-              const cartCount = item.id === 'cart' ? state.cart.length : 0;
+              const cartCount = item.id === 'cart' ? openCarts : 0;
               
               return (
                 <button
@@ -0,0 +1,62 @@
+import { PauseCircle, PlayCircle, Trash2 } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { calculateTotals } from '../utils/billing';
+import { formatRupees } from '../utils/amounts';
+
+// Parked carts shown above the Cart. Resuming one parks the cart in
+// progress in its place.
+export default function HeldCarts() {
+  const { state, dispatch } = useApp();
+
+  if (state.heldCarts.length === 0) return null;
+
+  const discard = (id: string, name: string) => {
+    if (confirm(`Discard the held cart "${name}"? Its items will be lost.`)) {
+      dispatch({ type: 'DISCARD_HELD_CART', payload: id });
+    }
+  };
+
+  return (
+    <div className={`p-4 rounded-xl border ${
+      state.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+    }`}>
+      <h2 className={`text-sm font-semibold mb-3 flex items-center space-x-2 ${
+        state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+      }`}>
+        <PauseCircle className="w-4 h-4" />
+        <span>Held carts ({state.heldCarts.length})</span>
+      </h2>
+      <div className="flex flex-wrap gap-3">
+        {state.heldCarts.map(held => (
+          <div key={held.id} className={`flex items-center space-x-3 px-3 py-2 rounded-lg border ${
+            state.theme === 'dark' ? 'border-gray-600 bg-gray-700/50' : 'border-gray-200 bg-gray-50'
+          }`}>
+            <div>
+              <div className={`font-medium ${state.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                {held.name}
+              </div>
+              <div className={`text-xs ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                {held.items.length} item{held.items.length !== 1 ? 's' : ''} · {formatRupees(calculateTotals(held.items).total)}
+                {' · '}parked {new Date(held.parkedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </div>
+            </div>
+            <button
+              onClick={() => dispatch({ type: 'RESUME_CART', payload: held.id })}
+              className="p-1 rounded-lg text-emerald-600 hover:bg-emerald-50 dark:hover:bg-emerald-900/20"
+              title={state.cart.length > 0 ? 'Resume (parks the current cart)' : 'Resume'}
+            >
+              <PlayCircle className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => discard(held.id, held.name)}
+              className="p-1 rounded-lg text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+              title="Discard"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { LogIn, UserPlus, Loader2, AlertCircle } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { login, register } from '../utils/api';
+
+export default function Login() {
+  const { state, dispatch } = useApp();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [form, setForm] = useState({ name: '', email: '', password: '', shopName: '' });
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateField = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const session = mode === 'login'
+        ? await login(form.email, form.password)
+        : await register(form);
+      dispatch({ type: 'SET_USER', payload: session.user });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border ${
+    state.theme === 'dark'
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`;
+
+  const labelClass = `block text-sm font-medium mb-2 ${
+    state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+  }`;
+
+  return (
+    <div className="max-w-md mx-auto mt-8">
+      <div className={`p-8 rounded-xl border ${
+        state.theme === 'dark'
+          ? 'bg-gray-800 border-gray-700'
+          : 'bg-white border-gray-200'
+      }`}>
+        <h1 className={`text-2xl font-bold text-center ${
+          state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+        }`}>
+          {mode === 'login' ? 'Sign in' : 'Create an account'}
+        </h1>
+        <p className={`mt-2 text-center text-sm ${
+          state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+        }`}>
+          {mode === 'login'
+            ? 'Sign in to manage your catalog and bills.'
+            : 'Set up your shop with its first account. The owner adds everyone else from the Team screen.'}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4 mt-6">
+          {mode === 'register' && (
+            <>
+              <div>
+                <label className={labelClass}>Full name</label>
+                <input type="text" required value={form.name} onChange={updateField('name')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Shop name</label>
+                <input type="text" required value={form.shopName} onChange={updateField('shopName')} className={inputClass} />
+              </div>
+            </>
+          )}
+          <div>
+            <label className={labelClass}>Email</label>
+            <input
+              type="email"
+              required
+              autoComplete="email"
+              value={form.email}
+              onChange={updateField('email')}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Password</label>
+            <input
+              type="password"
+              required
+              minLength={mode === 'register' ? 8 : undefined}
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              value={form.password}
+              onChange={updateField('password')}
+              className={inputClass}
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-start space-x-2 text-red-600 text-sm">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className={`w-full ${
+              submitting ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            } text-white px-4 py-3 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2`}
+          >
+            {submitting ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : mode === 'login' ? (
+              <LogIn className="w-4 h-4" />
+            ) : (
+              <UserPlus className="w-4 h-4" />
+            )}
+            <span>{mode === 'login' ? 'Sign in' : 'Register'}</span>
+          </button>
+        </form>
+
+        <p className={`mt-6 text-center text-sm ${
+          state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+        }`}>
+          {mode === 'login' ? "Don't have an account?" : 'Already registered?'}{' '}
+          <button
+            onClick={() => {
+              setMode(mode === 'login' ? 'register' : 'login');
+              setError(null);
+            }}
+            className="text-blue-600 hover:underline font-medium"
+          >
+            {mode === 'login' ? 'Register' : 'Sign in'}
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+}
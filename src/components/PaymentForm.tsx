@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Wallet, AlertCircle } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { Bill, PaymentMode } from '../types';
+import { isApiEnabled, recordPayment } from '../utils/api';
+import { PAYMENT_MODE_LABELS, RECEIVED_MODES, createPayment, getBillBalance } from '../utils/payments';
+import { formatRupees } from '../utils/amounts';
+
+interface PaymentFormProps {
+  bill: Bill;
+  onClose: () => void;
+}
+
+// Records money received against a bill's outstanding balance
+export default function PaymentForm({ bill, onClose }: PaymentFormProps) {
+  const { state, dispatch } = useApp();
+  const { paid, credited, balance } = getBillBalance(bill, state.payments, state.creditNotes);
+  const [amount, setAmount] = useState(balance);
+  const [mode, setMode] = useState<PaymentMode>('cash');
+  const [reference, setReference] = useState('');
+  const [date, setDate] = useState(new Date().toLocaleDateString('en-CA'));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const receivedOn = new Date(`${date}T${new Date().toTimeString().slice(0, 8)}`);
+  const problem = !(amount > 0)
+    ? 'Enter the amount received'
+    : amount > balance
+      ? `Only ${formatRupees(balance)} is left to pay`
+      : Number.isNaN(receivedOn.getTime()) || receivedOn > new Date()
+        ? 'The payment date cannot be in the future'
+        : null;
+
+  // With the API configured the payment is kept only once the server has
+  // accepted it, since another payment may have settled the bill meanwhile
+  const save = async () => {
+    if (problem || saving) return;
+    const payment = createPayment(bill.id, amount, mode, {
+      date: receivedOn,
+      reference: reference.trim() || undefined,
+      receivedBy: state.user ? { id: state.user.id, name: state.user.name } : undefined
+    });
+
+    setSaving(true);
+    setError(null);
+    try {
+      const recorded = isApiEnabled
+        ? await recordPayment(payment).then(saved => ({ ...saved, date: new Date(saved.date) }))
+        : payment;
+      dispatch({ type: 'ADD_PAYMENT', payload: recorded });
+      onClose();
+    } catch (error) {
+      setError(`Could not record the payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setSaving(false);
+    }
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border ${
+    state.theme === 'dark'
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`;
+  const labelClass = `block text-sm font-medium mb-1 ${
+    state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+  }`;
+  const mutedClass = state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className={`max-w-md w-full rounded-xl ${
+        state.theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+      }`}>
+        <div className="p-6">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h2 className={`text-xl font-bold flex items-center space-x-2 ${
+                state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+              }`}>
+                <Wallet className="w-5 h-5 text-blue-500" />
+                <span>Record Payment</span>
+              </h2>
+              <p className={`text-sm mt-1 ${mutedClass}`}>
+                Bill {bill.billNumber} · {bill.customerName || 'Walk-in Customer'}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${mutedClass}`}
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className={`p-3 rounded-lg text-sm space-y-1 mb-4 ${
+            state.theme === 'dark' ? 'bg-gray-700/50 text-gray-300' : 'bg-gray-50 text-gray-700'
+          }`}>
+            <div className="flex justify-between"><span>Bill total</span><span>{formatRupees(bill.total)}</span></div>
+            <div className="flex justify-between"><span>Paid so far</span><span>{formatRupees(paid)}</span></div>
+            {credited > 0 && (
+              <div className="flex justify-between"><span>Credit notes</span><span>{formatRupees(credited)}</span></div>
+            )}
+            <div className="flex justify-between font-semibold">
+              <span>Balance</span>
+              <span>{formatRupees(balance)}{bill.dueDate && ` due ${new Date(bill.dueDate).toLocaleDateString()}`}</span>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Amount</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Mode</label>
+                <select value={mode} onChange={(e) => setMode(e.target.value as PaymentMode)} className={inputClass}>
+                  {RECEIVED_MODES.map(m => (
+                    <option key={m} value={m}>{PAYMENT_MODE_LABELS[m]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Received on</label>
+                <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Reference</label>
+                <input
+                  type="text"
+                  value={reference}
+                  placeholder={mode === 'cheque' ? 'Cheque no.' : mode === 'cash' ? 'Optional' : 'Transaction id'}
+                  onChange={(e) => setReference(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </div>
+
+          {(problem || error) && (
+            <div className="mt-4 flex items-center space-x-2 text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{problem || error}</span>
+            </div>
+          )}
+
+          <div className="flex space-x-3 mt-6">
+            <button
+              onClick={save}
+              disabled={!!problem || saving}
+              className={`flex-1 px-4 py-2 rounded-lg font-medium text-white ${
+                problem || saving ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {saving ? 'Recording...' : 'Record Payment'}
+            </button>
+            <button
+              onClick={onClose}
+              className={`px-6 py-2 rounded-lg font-medium ${
+                state.theme === 'dark'
+                  ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                  : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+              }`}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
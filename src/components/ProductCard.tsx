@@ -1,7 +1,9 @@
-import React from 'react';
-import { Plus, Eye, Building2, Store, Package } from 'lucide-react';
+import { Plus, Eye, Building2, Store, Package, Boxes } from 'lucide-react';
 import { Product } from '../types';
 import { useApp } from '../context/AppContext';
+import { getPriceBreaks } from '../utils/billing';
+import { formatRupees } from '../utils/amounts';
+import { describeOrderRules, hasOrderRules } from '../utils/orderRules';
 
 interface ProductCardProps {
   product: Product;
@@ -84,6 +86,16 @@ export default function ProductCard({ product, onAddToCart, onViewDetails }: Pro
               {product.quantity} units available
             </span>
           </div>
+          {hasOrderRules(product) && (
+            <div className="flex items-center space-x-2">
+              <Boxes className="w-4 h-4 text-orange-500" />
+              <span className={`text-sm ${
+                state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
+              }`}>
+                {describeOrderRules(product)}
+              </span>
+            </div>
+          )}
         </div>
 
         <div className="flex items-center justify-between mb-4">
@@ -91,7 +103,7 @@ export default function ProductCard({ product, onAddToCart, onViewDetails }: Pro
             <span className={`text-2xl font-bold ${
               state.theme === 'dark' ? 'text-emerald-400' : 'text-emerald-600'
             }`}>
-              ₹{product.price}
+              {formatRupees(product.price)}
             </span>
             {product.gst && product.gst > 0 && (
               <span className={`text-sm ml-2 ${
@@ -100,6 +112,13 @@ export default function ProductCard({ product, onAddToCart, onViewDetails }: Pro
                 +{product.gst}% GST
               </span>
             )}
+            {getPriceBreaks(product).length > 1 && (
+              <p className={`text-xs ${
+                state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+              }`}>
+                {getPriceBreaks(product).map(tier => `${tier.minQty}+ @ ${formatRupees(tier.price)}`).join(' · ')}
+              </p>
+            )}
           </div>
           {/* Removed the category from here since it's now moved above */}
         </div>
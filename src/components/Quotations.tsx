@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { ClipboardList, Download, ShoppingCart, AlertCircle, Search as SearchIcon } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { Quotation, QuotationStatus } from '../types';
+import { QUOTATION_STATUS_LABELS, QuoteLineChange, getQuotationStatus, repriceQuotation } from '../utils/quotations';
+import { downloadQuotationPdf } from '../utils/quotationPdf';
+import { formatRupees } from '../utils/amounts';
+
+const STATUS_CLASSES: Record<QuotationStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  sent: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  accepted: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300',
+  expired: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+};
+
+const describeChange = (change: QuoteLineChange) => {
+  switch (change.kind) {
+    case 'missing':
+      return 'no longer in the catalog and will be left out';
+    case 'quantity':
+      return `quantity rounded from ${change.from} to ${change.to} for the current MOQ / pack size`;
+    case 'price':
+      return `price changed from ${formatRupees(change.from ?? 0)} to ${formatRupees(change.to ?? 0)}`;
+    case 'gst':
+      return `GST changed from ${change.from}% to ${change.to}%`;
+  }
+};
+
+export default function Quotations() {
+  const { state, dispatch } = useApp();
+  const [query, setQuery] = useState('');
+  // Conversion waiting on the user to accept catalog changes
+  const [review, setReview] = useState<{ quotation: Quotation; items: Quotation['items']; changes: QuoteLineChange[] } | null>(null);
+
+  const term = query.trim().toLowerCase();
+  const visible = [...state.quotations]
+    .filter(q =>
+      !term ||
+      q.quoteNumber.toLowerCase().includes(term) ||
+      (q.customerName || '').toLowerCase().includes(term)
+    )
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  // Loads the re-priced lines and the buyer into the Cart, linked to the
+  // quotation so the bill marks it accepted
+  const loadIntoCart = (quotation: Quotation, items: Quotation['items']) => {
+    if (state.cart.length > 0 && !confirm('Replace the items currently in the cart?')) return;
+    dispatch({
+      type: 'LOAD_CART',
+      payload: {
+        items,
+        details: {
+          customerId: quotation.customerId,
+          customerName: quotation.customerName || '',
+          customerPhone: quotation.customerPhone || '',
+          customerGstin: quotation.customerGstin || '',
+          customerAddress: quotation.customerAddress || '',
+          placeOfSupply: quotation.placeOfSupply || '',
+          quotationId: quotation.id
+        }
+      }
+    });
+    setReview(null);
+    dispatch({ type: 'SET_VIEW', payload: 'cart' });
+  };
+
+  const convert = (quotation: Quotation) => {
+    const { items, changes } = repriceQuotation(quotation, state.products);
+    if (changes.length > 0) {
+      setReview({ quotation, items, changes });
+    } else {
+      loadIntoCart(quotation, items);
+    }
+  };
+
+  const cardClass = `rounded-xl border ${
+    state.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+  }`;
+
+  const mutedClass = state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className={`text-3xl font-bold ${
+          state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+        }`}>
+          Quotations
+        </h1>
+        <p className={`mt-2 ${mutedClass}`}>
+          Price quotes saved from the Cart. Convert one to a bill once the customer accepts it.
+        </p>
+      </div>
+
+      <div className={`relative ${cardClass}`}>
+        <SearchIcon className={`absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 ${mutedClass}`} />
+        <input
+          type="text"
+          placeholder="Search by quotation number or customer..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className={`w-full pl-12 pr-4 py-3 rounded-xl border-0 ${
+            state.theme === 'dark'
+              ? 'bg-gray-800 text-white placeholder-gray-400'
+              : 'bg-white text-gray-900 placeholder-gray-500'
+          }`}
+        />
+      </div>
+
+      <div className={`${cardClass} overflow-hidden`}>
+        {visible.length === 0 ? (
+          <div className={`text-center py-12 ${mutedClass}`}>
+            <ClipboardList className="w-16 h-16 mx-auto mb-4 opacity-50" />
+            <h3 className="text-lg font-medium mb-2">
+              {state.quotations.length === 0 ? 'No quotations yet' : 'No matching quotations'}
+            </h3>
+            <p>Use "Save as Quotation" in the Cart to quote a customer.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className={`border-b ${
+                  state.theme === 'dark' ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-600'
+                }`}>
+                  <th className="text-left py-3 px-4 font-medium">Quotation No.</th>
+                  <th className="text-left py-3 px-4 font-medium">Customer</th>
+                  <th className="text-left py-3 px-4 font-medium">Date</th>
+                  <th className="text-left py-3 px-4 font-medium">Valid Until</th>
+                  <th className="text-right py-3 px-4 font-medium">Total</th>
+                  <th className="text-left py-3 px-4 font-medium">Status</th>
+                  <th className="py-3 px-4" />
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map(quotation => {
+                  const status = getQuotationStatus(quotation);
+                  const bill = quotation.billId ? state.bills.find(b => b.id === quotation.billId) : undefined;
+                  return (
+                    <tr key={quotation.id} className={`border-b ${
+                      state.theme === 'dark' ? 'border-gray-700 text-white' : 'border-gray-200 text-gray-900'
+                    }`}>
+                      <td className="py-3 px-4 font-medium">{quotation.quoteNumber}</td>
+                      <td className="py-3 px-4">
+                        {quotation.customerName || 'Cash customer'}
+                        {quotation.customerPhone && (
+                          <div className={`text-xs ${mutedClass}`}>{quotation.customerPhone}</div>
+                        )}
+                      </td>
+                      <td className={`py-3 px-4 ${mutedClass}`}>{new Date(quotation.date).toLocaleDateString()}</td>
+                      <td className={`py-3 px-4 ${mutedClass}`}>{new Date(quotation.validUntil).toLocaleDateString()}</td>
+                      <td className={`py-3 px-4 text-right font-semibold ${
+                        state.theme === 'dark' ? 'text-emerald-400' : 'text-emerald-600'
+                      }`}>
+                        {formatRupees(quotation.total)}
+                      </td>
+                      <td className="py-3 px-4">
+                        {status === 'draft' || status === 'sent' ? (
+                          <select
+                            value={status}
+                            onChange={(e) => dispatch({
+                              type: 'SET_QUOTATION_STATUS',
+                              payload: { id: quotation.id, status: e.target.value as QuotationStatus }
+                            })}
+                            className={`px-2 py-1 rounded-lg border text-sm ${
+                              state.theme === 'dark'
+                                ? 'bg-gray-700 border-gray-600 text-white'
+                                : 'bg-white border-gray-300 text-gray-900'
+                            }`}
+                          >
+                            <option value="draft">{QUOTATION_STATUS_LABELS.draft}</option>
+                            <option value="sent">{QUOTATION_STATUS_LABELS.sent}</option>
+                          </select>
+                        ) : (
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_CLASSES[status]}`}>
+                            {QUOTATION_STATUS_LABELS[status]}
+                          </span>
+                        )}
+                        {status === 'accepted' && bill && (
+                          <div className={`text-xs mt-1 ${mutedClass}`}>Bill {bill.billNumber}</div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex justify-end space-x-2">
+                          <button
+                            onClick={() => downloadQuotationPdf(quotation).catch(error =>
+                              alert(`Could not download the PDF: ${error instanceof Error ? error.message : 'Unknown error'}`)
+                            )}
+                            className="p-2 rounded-lg text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                            title="Download PDF"
+                          >
+                            <Download className="w-4 h-4" />
+                          </button>
+                          {status !== 'accepted' && (
+                            <button
+                              onClick={() => convert(quotation)}
+                              className="flex items-center space-x-1 px-3 py-1 rounded-lg text-sm font-medium bg-emerald-600 hover:bg-emerald-700 text-white"
+                              title="Load into the Cart at current catalog prices"
+                            >
+                              <ShoppingCart className="w-4 h-4" />
+                              <span>Convert to Bill</span>
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {review && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className={`max-w-lg w-full max-h-[90vh] overflow-y-auto rounded-xl ${
+            state.theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+          }`}>
+            <div className="p-6">
+              <div className="flex items-start justify-between mb-4">
+                <h2 className={`text-xl font-bold ${
+                  state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+                }`}>
+                  Catalog changes since {review.quotation.quoteNumber}
+                </h2>
+                <button
+                  onClick={() => setReview(null)}
+                  className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${mutedClass}`}
+                >
+                  ✕
+                </button>
+              </div>
+
+              <p className={`text-sm mb-4 ${mutedClass}`}>
+                The bill will use current catalog prices and rules. Review the differences before billing.
+              </p>
+              <div className="space-y-2">
+                {review.changes.map((change, index) => (
+                  <div key={index} className="flex items-start space-x-2 text-sm text-yellow-600">
+                    <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    <span>
+                      <span className="font-medium">{change.name}</span>: {describeChange(change)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex space-x-3 mt-6">
+                <button
+                  onClick={() => loadIntoCart(review.quotation, review.items)}
+                  disabled={review.items.length === 0}
+                  className={`flex-1 px-4 py-2 rounded-lg font-medium text-white ${
+                    review.items.length === 0 ? 'bg-emerald-400 cursor-not-allowed' : 'bg-emerald-600 hover:bg-emerald-700'
+                  }`}
+                >
+                  Continue to Cart
+                </button>
+                <button
+                  onClick={() => setReview(null)}
+                  className={`px-6 py-2 rounded-lg font-medium ${
+                    state.theme === 'dark'
+                      ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+                  }`}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
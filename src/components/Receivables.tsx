@@ -0,0 +1,191 @@
+import { useMemo, useState } from 'react';
+import { Wallet, ArrowLeft } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { AGEING_BUCKETS, AgeingRow, buildAgeingReport, buildLedger } from '../utils/payments';
+import { formatRupees } from '../utils/amounts';
+
+const ENTRY_LABELS = {
+  bill: 'Bill',
+  payment: 'Payment',
+  creditNote: 'Credit note',
+};
+
+const formatAmount = (amount: number) => (amount ? formatRupees(amount) : '—');
+
+// Money owed by customers, aged by bill date, with a ledger per customer
+export default function Receivables() {
+  const { state } = useApp();
+  const [selected, setSelected] = useState<AgeingRow | null>(null);
+
+  const report = useMemo(
+    () => buildAgeingReport(state.bills, state.payments, state.creditNotes),
+    [state.bills, state.payments, state.creditNotes]
+  );
+  const ledger = useMemo(
+    () => (selected ? buildLedger(selected.key, state.bills, state.payments, state.creditNotes) : []),
+    [selected, state.bills, state.payments, state.creditNotes]
+  );
+
+  const totals = AGEING_BUCKETS.map((_, index) => report.reduce((sum, row) => sum + row.buckets[index], 0));
+  const outstanding = report.reduce((sum, row) => sum + row.total, 0);
+  const overdue = report.reduce((sum, row) => sum + row.overdue, 0);
+
+  const cardClass = `rounded-xl border ${
+    state.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+  }`;
+  const mutedClass = state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+  const headRowClass = `border-b ${
+    state.theme === 'dark' ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-600'
+  }`;
+  const rowClass = `border-b ${
+    state.theme === 'dark' ? 'border-gray-700 text-white' : 'border-gray-200 text-gray-900'
+  }`;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className={`text-3xl font-bold ${
+          state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+        }`}>
+          Receivables
+        </h1>
+        <p className={`mt-2 ${mutedClass}`}>
+          Unpaid balances by customer, aged from the bill date. Select a customer for their ledger.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {[
+          { label: 'Outstanding', value: outstanding, className: state.theme === 'dark' ? 'text-white' : 'text-gray-900' },
+          { label: 'Overdue', value: overdue, className: 'text-red-600' },
+          { label: 'Customers owing', value: null, className: state.theme === 'dark' ? 'text-white' : 'text-gray-900' },
+        ].map(card => (
+          <div key={card.label} className={`p-4 ${cardClass}`}>
+            <div className={`text-sm ${mutedClass}`}>{card.label}</div>
+            <div className={`text-2xl font-bold mt-1 ${card.className}`}>
+              {card.value === null ? report.length : formatRupees(card.value)}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {selected ? (
+        <div className={`${cardClass} overflow-hidden`}>
+          <div className="flex items-center justify-between p-4">
+            <div>
+              <h2 className={`text-xl font-semibold ${
+                state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+              }`}>
+                {selected.name}
+              </h2>
+              <p className={`text-sm ${mutedClass}`}>
+                {formatRupees(selected.total)} outstanding on {selected.bills} bill{selected.bills === 1 ? '' : 's'}
+              </p>
+            </div>
+            <button
+              onClick={() => setSelected(null)}
+              className={`flex items-center space-x-1 px-3 py-2 rounded-lg text-sm font-medium ${
+                state.theme === 'dark'
+                  ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                  : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+              }`}
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span>All customers</span>
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className={headRowClass}>
+                  <th className="text-left py-3 px-4 font-medium">Date</th>
+                  <th className="text-left py-3 px-4 font-medium">Entry</th>
+                  <th className="text-left py-3 px-4 font-medium">Reference</th>
+                  <th className="text-left py-3 px-4 font-medium">Bill</th>
+                  <th className="text-right py-3 px-4 font-medium">Debit</th>
+                  <th className="text-right py-3 px-4 font-medium">Credit</th>
+                  <th className="text-right py-3 px-4 font-medium">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ledger.map((entry, index) => (
+                  <tr key={index} className={rowClass}>
+                    <td className={`py-3 px-4 ${mutedClass}`}>{entry.date.toLocaleDateString()}</td>
+                    <td className="py-3 px-4">{ENTRY_LABELS[entry.kind]}</td>
+                    <td className="py-3 px-4">{entry.reference}</td>
+                    <td className={`py-3 px-4 ${mutedClass}`}>{entry.billNumber}</td>
+                    <td className="py-3 px-4 text-right">{formatAmount(entry.debit)}</td>
+                    <td className="py-3 px-4 text-right text-emerald-600">{formatAmount(entry.credit)}</td>
+                    <td className="py-3 px-4 text-right font-semibold">{formatRupees(entry.balance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <div className={`${cardClass} overflow-hidden`}>
+          {report.length === 0 ? (
+            <div className={`text-center py-12 ${mutedClass}`}>
+              <Wallet className="w-16 h-16 mx-auto mb-4 opacity-50" />
+              <h3 className="text-lg font-medium mb-2">Nothing outstanding</h3>
+              <p>Bills sold on credit show here until they are paid.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className={headRowClass}>
+                    <th className="text-left py-3 px-4 font-medium">Customer</th>
+                    {AGEING_BUCKETS.map(bucket => (
+                      <th key={bucket.label} className="text-right py-3 px-4 font-medium">{bucket.label}</th>
+                    ))}
+                    <th className="text-right py-3 px-4 font-medium">Overdue</th>
+                    <th className="text-right py-3 px-4 font-medium">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.map(row => (
+                    <tr
+                      key={row.key}
+                      onClick={() => setSelected(row)}
+                      className={`${rowClass} cursor-pointer ${
+                        state.theme === 'dark' ? 'hover:bg-gray-700/50' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <td className="py-3 px-4 font-medium">
+                        {row.name}
+                        <div className={`text-xs font-normal ${mutedClass}`}>
+                          {row.bills} bill{row.bills === 1 ? '' : 's'}
+                        </div>
+                      </td>
+                      {row.buckets.map((amount, index) => (
+                        <td key={index} className="py-3 px-4 text-right">{formatAmount(amount)}</td>
+                      ))}
+                      <td className="py-3 px-4 text-right text-red-600">{formatAmount(row.overdue)}</td>
+                      <td className={`py-3 px-4 text-right font-semibold ${
+                        state.theme === 'dark' ? 'text-emerald-400' : 'text-emerald-600'
+                      }`}>
+                        {formatRupees(row.total)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className={`font-semibold ${state.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                    <td className="py-3 px-4">Total</td>
+                    {totals.map((amount, index) => (
+                      <td key={index} className="py-3 px-4 text-right">{formatAmount(amount)}</td>
+                    ))}
+                    <td className="py-3 px-4 text-right text-red-600">{formatAmount(overdue)}</td>
+                    <td className="py-3 px-4 text-right">{formatRupees(outstanding)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,50 @@
 import { useState, useMemo } from 'react';
-import { Search as SearchIcon, FileSpreadsheet, FileText, Filter } from 'lucide-react';
+import { Search as SearchIcon, FileSpreadsheet, FileText, Filter, Trash2, X } from 'lucide-react';
 import { useApp } from '../context/AppContext';
 import { Product } from '../types';
 import ProductCard from './ProductCard';
+import { DISCOUNT_LIMITS, checkPermission, getRole } from '../utils/permissions';
+import { applyDiscountScheme } from '../utils/discounts';
+import { FIELD_LABELS, formatFieldValue, recordPriceChange } from '../utils/catalogDiff';
+import { formatRupees } from '../utils/amounts';
+import { describeOrderRules, hasOrderRules, minimumQuantity } from '../utils/orderRules';
 
 export default function Search() {
   const { state, dispatch } = useApp();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [fileTypeFilter, setFileTypeFilter] = useState<'all' | 'excel' | 'pdf'>('all');
+  const [sheetFilter, setSheetFilter] = useState('all');
   const [showFilters, setShowFilters] = useState(false);
+  const [priceDraft, setPriceDraft] = useState('');
+
+  const editPriceRefusal = checkPermission(state.user, 'editPrices');
+  const deleteRefusal = checkPermission(state.user, 'deleteProducts');
+
+  const openProduct = (product: Product) => {
+    setSelectedProduct(product);
+    setPriceDraft(String(product.price));
+  };
+
+  const savePrice = () => {
+    if (!selectedProduct) return;
+    const price = parseFloat(priceDraft);
+    if (isNaN(price) || price < 0) return;
+    const updated = recordPriceChange(selectedProduct, { ...selectedProduct, price }, 'Manual edit', state.user?.name);
+    dispatch({ type: 'UPDATE_PRODUCT', payload: updated });
+    if (!editPriceRefusal) setSelectedProduct(updated);
+  };
+
+  const deleteProduct = (product: Product) => {
+    if (!window.confirm(`Delete ${product.name} from the catalog?`)) return;
+    dispatch({ type: 'DELETE_PRODUCT', payload: product.productId });
+    if (!deleteRefusal) setSelectedProduct(null);
+  };
+
+  const removeFile = (fileName: string) => {
+    if (!window.confirm(`Remove all products imported from ${fileName}?`)) return;
+    dispatch({ type: 'REMOVE_PRODUCTS_BY_FILE', payload: fileName });
+  };
 
   const filteredProducts = useMemo(() => {
     let products = state.products;
@@ -27,6 +62,11 @@ export default function Search() {
       });
     }
     
+    // Filter by workbook sheet
+    if (sheetFilter !== 'all') {
+      products = products.filter(product => product.sheet === sheetFilter);
+    }
+    
     // Filter by search term
     if (!searchTerm.trim()) return products;
     
@@ -38,9 +78,10 @@ export default function Search() {
       product.shopName.toLowerCase().includes(term) ||
       product.category?.toLowerCase().includes(term) ||
       product.description?.toLowerCase().includes(term) ||
+      product.sheet?.toLowerCase().includes(term) ||
       (product.fileSource && product.fileSource.toLowerCase().includes(term))
     );
-  }, [state.products, searchTerm, fileTypeFilter]);
+  }, [state.products, searchTerm, fileTypeFilter, sheetFilter]);
 
   const suggestions = useMemo(() => {
     if (!searchTerm.trim() || searchTerm.length < 2) return [];
@@ -70,15 +111,24 @@ export default function Search() {
   }, [state.products, searchTerm]);
 
   const addToCart = (product: Product, shopName: string) => {
+    // Priced by the buyer's discount scheme for the product's DCAT, else
+    // the supplier's default discount capped at what this user may give
+    const customer = state.customers.find(c => c.id === state.cartDetails.customerId);
     dispatch({
       type: 'ADD_TO_CART',
-      payload: {
-        product,
-        selectedShop: shopName,
-        quantity: 1,
-        discount: 0,
-        discountType: 'percentage'
-      }
+      payload: applyDiscountScheme(
+        {
+          product,
+          selectedShop: shopName,
+          quantity: minimumQuantity(product),
+          discount: 0,
+          discountType: 'percentage'
+        },
+        state.discountRules,
+        customer,
+        state.suppliers,
+        DISCOUNT_LIMITS[getRole(state.user)]
+      )
     });
   };
 
@@ -88,10 +138,14 @@ export default function Search() {
       total: state.products.length,
       excel: 0,
       pdf: 0,
-      files: new Set<string>()
+      files: new Set<string>(),
+      sheets: new Map<string, number>() // Product count per workbook sheet
     };
     
     state.products.forEach(product => {
+      if (product.sheet) {
+        stats.sheets.set(product.sheet, (stats.sheets.get(product.sheet) || 0) + 1);
+      }
       const fileSource = product.fileSource;
       if (fileSource) {
         stats.files.add(fileSource);
@@ -234,7 +288,34 @@ export default function Search() {
               </label>
             </div>
 
-            {/* File List */}
+            {/* Sheet Filter */}
+            {fileStats.sheets.size > 0 && (
+              <div className="mt-4">
+                <label className={`block text-sm font-medium mb-2 ${
+                  state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+                }`}>
+                  Workbook Sheet
+                </label>
+                <select
+                  value={sheetFilter}
+                  onChange={(e) => setSheetFilter(e.target.value)}
+                  className={`px-3 py-2 rounded-lg border text-sm ${
+                    state.theme === 'dark'
+                      ? 'bg-gray-700 border-gray-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-900'
+                  }`}
+                >
+                  <option value="all">All sheets</option>
+                  {Array.from(fileStats.sheets)
+                    .sort(([a], [b]) => a.localeCompare(b))
+                    .map(([sheet, count]) => (
+                      <option key={sheet} value={sheet}>{sheet} ({count})</option>
+                    ))}
+                </select>
+              </div>
+            )}
+
+                        {/* File List */}
             {fileStats.fileCount > 0 && (
               <div className="mt-4">
                 <h4 className={`text-sm font-medium mb-2 ${
@@ -244,17 +325,31 @@ export default function Search() {
                 </h4>
                 <div className="flex flex-wrap gap-2">
                   {Array.from(fileStats.files).map((fileName, index) => (
-                    <button
+                    <span
                       key={index}
-                      onClick={() => setSearchTerm(fileName)}
-                      className={`px-2 py-1 text-xs rounded-md border hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                      className={`inline-flex items-center rounded-md border text-xs ${
                         state.theme === 'dark'
                           ? 'bg-gray-700 border-gray-600 text-gray-300'
                           : 'bg-gray-50 border-gray-200 text-gray-600'
                       }`}
                     >
-                      {fileName.split('/').pop() || fileName}
-                    </button>
+                      <button
+                        onClick={() => setSearchTerm(fileName)}
+                        className="px-2 py-1 rounded-l-md hover:bg-gray-100 dark:hover:bg-gray-600"
+                      >
+                        {fileName.split('/').pop() || fileName}
+                      </button>
+                      <button
+                        onClick={() => removeFile(fileName)}
+                        disabled={!!deleteRefusal}
+                        title={deleteRefusal || `Remove products from ${fileName}`}
+                        className={`px-1 py-1 rounded-r-md ${
+                          deleteRefusal ? 'opacity-40 cursor-not-allowed' : 'hover:text-red-600'
+                        }`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
                   ))}
                 </div>
               </div>
@@ -284,6 +379,11 @@ export default function Search() {
                 {fileTypeFilter.toUpperCase()} only
               </span>
             )}
+            {sheetFilter !== 'all' && (
+              <span className="px-2 py-1 rounded text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                Sheet: {sheetFilter}
+              </span>
+            )}
           </div>
         </div>
 
@@ -294,7 +394,7 @@ export default function Search() {
                 <ProductCard
                   product={product}
                   onAddToCart={addToCart}
-                  onViewDetails={setSelectedProduct}
+                  onViewDetails={openProduct}
                 />
                 {/* File Source Badge */}
                 {product.fileSource && (
@@ -402,6 +502,24 @@ export default function Search() {
                         <span className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>Category:</span>
                         <span className={state.theme === 'dark' ? 'text-white' : 'text-gray-900'}>{selectedProduct.category || 'N/A'}</span>
                       </div>
+                      {selectedProduct.hsn && (
+                        <div className="flex justify-between">
+                          <span className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>HSN:</span>
+                          <span className={state.theme === 'dark' ? 'text-white' : 'text-gray-900'}>{selectedProduct.hsn}</span>
+                        </div>
+                      )}
+                      {hasOrderRules(selectedProduct) && (
+                        <div className="flex justify-between">
+                          <span className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>Ordering:</span>
+                          <span className={state.theme === 'dark' ? 'text-white' : 'text-gray-900'}>{describeOrderRules(selectedProduct)}</span>
+                        </div>
+                      )}
+                      {selectedProduct.sheet && (
+                        <div className="flex justify-between">
+                          <span className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>Sheet:</span>
+                          <span className={state.theme === 'dark' ? 'text-white' : 'text-gray-900'}>{selectedProduct.sheet}</span>
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -417,9 +535,39 @@ export default function Search() {
                       <div className="flex justify-between">
                         <span className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>Price:</span>
                         <span className={`font-bold ${state.theme === 'dark' ? 'text-emerald-400' : 'text-emerald-600'}`}>
-                          ₹{selectedProduct.price}
+                          {formatRupees(selectedProduct.price)}
                         </span>
                       </div>
+                      <div className="flex items-center space-x-2 pt-1">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={priceDraft}
+                          onChange={(e) => setPriceDraft(e.target.value)}
+                          disabled={!!editPriceRefusal}
+                          className={`w-full px-2 py-1 rounded border ${
+                            state.theme === 'dark'
+                              ? 'bg-gray-600 border-gray-500 text-white'
+                              : 'bg-white border-gray-300 text-gray-900'
+                          } ${editPriceRefusal ? 'opacity-50 cursor-not-allowed' : ''}`}
+                        />
+                        <button
+                          onClick={savePrice}
+                          disabled={!!editPriceRefusal || priceDraft === String(selectedProduct.price)}
+                          title={editPriceRefusal || 'Update price'}
+                          className={`px-3 py-1 rounded text-white text-xs font-medium ${
+                            editPriceRefusal || priceDraft === String(selectedProduct.price)
+                              ? 'bg-gray-400 cursor-not-allowed'
+                              : 'bg-blue-600 hover:bg-blue-700'
+                          }`}
+                        >
+                          Save
+                        </button>
+                      </div>
+                      {editPriceRefusal && (
+                        <p className="text-xs text-red-500">{editPriceRefusal}</p>
+                      )}
                       <div className="flex justify-between">
                         <span className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>Quantity:</span>
                         <span className={state.theme === 'dark' ? 'text-white' : 'text-gray-900'}>{selectedProduct.quantity}</span>
@@ -432,6 +580,42 @@ export default function Search() {
                   </div>
                 </div>
 
+                {/* Price History */}
+                {selectedProduct.priceHistory && selectedProduct.priceHistory.length > 0 && (
+                  <div className={`p-4 rounded-lg ${
+                    state.theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'
+                  }`}>
+                    <h3 className={`font-semibold mb-2 ${
+                      state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+                    }`}>
+                      Price History
+                    </h3>
+                    <ul className="space-y-1 text-sm max-h-40 overflow-y-auto">
+                      {[...selectedProduct.priceHistory].reverse().map((change, index) => (
+                        <li key={index} className="flex justify-between gap-4">
+                          <span className={state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
+                            {new Date(change.date).toLocaleDateString()} · {change.source}
+                            {change.changedBy && ` · ${change.changedBy}`}
+                          </span>
+                          {'field' in change ? (
+                            <span className={`text-right font-medium ${
+                              state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+                            }`}>
+                              {FIELD_LABELS[change.field]}: {formatFieldValue(change.field, change.from)} → {formatFieldValue(change.field, change.to)}
+                            </span>
+                          ) : (
+                            <span className={`whitespace-nowrap font-medium ${
+                              change.price > change.previousPrice ? 'text-orange-600' : 'text-blue-600'
+                            }`}>
+                              {formatRupees(change.previousPrice)} → {formatRupees(change.price)}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Company & Shop Info */}
                 <div className={`p-4 rounded-lg ${
                   state.theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'
@@ -482,6 +666,18 @@ export default function Search() {
                   >
                     <span>Add to Cart</span>
                   </button>
+                  <button
+                    onClick={() => deleteProduct(selectedProduct)}
+                    disabled={!!deleteRefusal}
+                    title={deleteRefusal || 'Delete product'}
+                    className={`p-2 rounded-lg ${
+                      deleteRefusal
+                        ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                        : 'bg-red-100 hover:bg-red-200 text-red-600'
+                    }`}
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
                   <button
                     onClick={() => setSelectedProduct(null)}
                     className={`px-6 py-2 rounded-lg font-medium transition-colors ${
@@ -0,0 +1,327 @@
+import { useState } from 'react';
+import { Building2, FileText, AlertCircle, Upload, Download, CheckCircle } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { BankDetails, BusinessProfile, InvoiceSettings } from '../types';
+import { cleanBusiness, validateBusiness } from '../utils/gst';
+import { checkPermission } from '../utils/permissions';
+import {
+  DEFAULT_INVOICE_FOOTER,
+  INVOICE_TEMPLATES,
+  INVOICE_TEMPLATE_IDS,
+  MAX_LOGO_BYTES,
+  cleanInvoiceSettings,
+  validateInvoiceSettings
+} from '../utils/invoiceSettings';
+import { downloadBillPdf } from '../utils/billPdf';
+import BusinessProfileFields from './BusinessProfileFields';
+
+const EMPTY_BANK: BankDetails = { accountNumber: '', ifsc: '' };
+
+// The business profile and how invoices are printed. Only owners may
+// change them; everyone else sees them read-only.
+export default function Settings() {
+  const { state, dispatch } = useApp();
+  const [business, setBusiness] = useState<BusinessProfile>(state.business);
+  const [invoice, setInvoice] = useState<InvoiceSettings>(state.invoiceSettings);
+  const [saved, setSaved] = useState<'business' | 'invoice' | null>(null);
+  const [logoError, setLogoError] = useState<string | null>(null);
+
+  const refusal = checkPermission(state.user, 'manageSettings');
+  const businessProblems = validateBusiness(business);
+  const invoiceProblems = validateInvoiceSettings(cleanInvoiceSettings(invoice));
+  const latestBill = state.bills.reduce<typeof state.bills[number] | undefined>(
+    (latest, bill) => (!latest || new Date(bill.date) > new Date(latest.date) ? bill : latest),
+    undefined
+  );
+
+  const updateBusiness = (changes: Partial<BusinessProfile>) => {
+    setBusiness(prev => ({ ...prev, ...changes }));
+    setSaved(null);
+  };
+  const updateInvoice = (changes: Partial<InvoiceSettings>) => {
+    setInvoice(prev => ({ ...prev, ...changes }));
+    setSaved(null);
+  };
+  const updateBank = (changes: Partial<BankDetails>) =>
+    updateInvoice({ bank: { ...(invoice.bank || EMPTY_BANK), ...changes } });
+
+  const saveBusiness = () => {
+    if (businessProblems.length > 0) return;
+    dispatch({ type: 'SET_BUSINESS', payload: cleanBusiness(business) });
+    setSaved('business');
+  };
+
+  const saveInvoice = () => {
+    if (invoiceProblems.length > 0) return;
+    dispatch({ type: 'SET_INVOICE_SETTINGS', payload: cleanInvoiceSettings(invoice) });
+    setSaved('invoice');
+  };
+
+  const chooseLogo = (file: File | undefined) => {
+    setLogoError(null);
+    if (!file) return;
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      setLogoError('Choose a PNG or JPEG image');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setLogoError(`The logo must be under ${MAX_LOGO_BYTES / 1024} KB; this one is ${Math.ceil(file.size / 1024)} KB`);
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => updateInvoice({ logo: String(reader.result) });
+    reader.onerror = () => setLogoError('Could not read the image');
+    reader.readAsDataURL(file);
+  };
+
+  // Prints the latest bill with the unsaved settings, to check the layout
+  const preview = async () => {
+    if (!latestBill) return;
+    try {
+      await downloadBillPdf(latestBill, {
+        business: state.business,
+        invoice: cleanInvoiceSettings(invoice),
+        payments: state.payments,
+        creditNotes: state.creditNotes
+      });
+    } catch (error) {
+      setLogoError(`Could not print the preview: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const cardClass = `rounded-xl border p-6 ${
+    state.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+  }`;
+  const mutedClass = state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+  const headingClass = `text-xl font-semibold flex items-center space-x-2 mb-4 ${
+    state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+  }`;
+  const inputClass = `w-full px-3 py-2 rounded-lg border ${
+    state.theme === 'dark'
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`;
+  const labelClass = `block text-sm font-medium mb-1 ${
+    state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+  }`;
+
+  const renderProblems = (problems: string[]) => problems.length > 0 && (
+    <div className="mt-4 space-y-1">
+      {problems.map(problem => (
+        <div key={problem} className="flex items-center space-x-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{problem}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderSave = (section: 'business' | 'invoice', onSave: () => void, problems: string[]) => (
+    <div className="flex items-center space-x-3 mt-6">
+      <button
+        onClick={onSave}
+        disabled={!!refusal || problems.length > 0}
+        className={`px-6 py-2 rounded-lg font-medium text-white ${
+          refusal || problems.length > 0 ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+        }`}
+      >
+        Save
+      </button>
+      {saved === section && (
+        <span className="flex items-center space-x-1 text-sm text-emerald-600">
+          <CheckCircle className="w-4 h-4" />
+          <span>Saved</span>
+        </span>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className={`text-3xl font-bold ${
+          state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+        }`}>
+          Settings
+        </h1>
+        <p className={`mt-2 ${mutedClass}`}>
+          Your business details and how invoices are printed from the Cart and Bills screens.
+        </p>
+      </div>
+
+      {refusal && (
+        <div className="flex items-center space-x-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{refusal}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+        <div className={cardClass}>
+          <h2 className={headingClass}>
+            <Building2 className="w-5 h-5 text-blue-500" />
+            <span>Business Profile</span>
+          </h2>
+          <fieldset disabled={!!refusal}>
+            <BusinessProfileFields form={business} onChange={updateBusiness} />
+          </fieldset>
+          {renderProblems(businessProblems)}
+          {renderSave('business', saveBusiness, businessProblems)}
+        </div>
+
+        <div className={cardClass}>
+          <h2 className={headingClass}>
+            <FileText className="w-5 h-5 text-blue-500" />
+            <span>Invoice</span>
+          </h2>
+          <fieldset disabled={!!refusal} className="space-y-4">
+            <div>
+              <label className={labelClass}>Template</label>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {INVOICE_TEMPLATE_IDS.map(id => (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() => updateInvoice({ template: id })}
+                    className={`text-left p-3 rounded-lg border text-sm ${
+                      invoice.template === id
+                        ? 'border-blue-500 ring-2 ring-blue-500/30'
+                        : state.theme === 'dark' ? 'border-gray-600' : 'border-gray-200'
+                    }`}
+                  >
+                    <div className={`font-medium ${state.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                      {INVOICE_TEMPLATES[id].label}
+                    </div>
+                    <div className={`text-xs mt-1 ${mutedClass}`}>{INVOICE_TEMPLATES[id].description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Logo</label>
+              <div className="flex items-center space-x-3">
+                {invoice.logo && (
+                  <img src={invoice.logo} alt="Logo" className="h-14 max-w-[8rem] object-contain rounded border border-gray-200 bg-white" />
+                )}
+                <label className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium cursor-pointer ${
+                  state.theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+                }`}>
+                  <Upload className="w-4 h-4" />
+                  <span>{invoice.logo ? 'Change' : 'Upload'}</span>
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    className="hidden"
+                    onChange={(e) => {
+                      chooseLogo(e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                {invoice.logo && (
+                  <button type="button" onClick={() => updateInvoice({ logo: undefined })} className="text-sm text-red-600 hover:underline">
+                    Remove
+                  </button>
+                )}
+              </div>
+              <p className={`text-xs mt-1 ${logoError ? 'text-red-600' : mutedClass}`}>
+                {logoError || `PNG or JPEG under ${MAX_LOGO_BYTES / 1024} KB. Not printed on the letterhead template.`}
+              </p>
+            </div>
+
+            <div>
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!!invoice.bank}
+                  onChange={(e) => updateInvoice({ bank: e.target.checked ? EMPTY_BANK : undefined })}
+                />
+                <span className={state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}>Print bank details</span>
+              </label>
+              {invoice.bank && (
+                <div className="grid grid-cols-2 gap-3 mt-3">
+                  <div className="col-span-2">
+                    <label className={labelClass}>Account name</label>
+                    <input type="text" value={invoice.bank.accountName || ''} onChange={(e) => updateBank({ accountName: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Account number</label>
+                    <input type="text" value={invoice.bank.accountNumber} onChange={(e) => updateBank({ accountNumber: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>IFSC</label>
+                    <input
+                      type="text"
+                      value={invoice.bank.ifsc}
+                      onChange={(e) => updateBank({ ifsc: e.target.value.toUpperCase() })}
+                      className={`${inputClass} uppercase`}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Bank</label>
+                    <input type="text" value={invoice.bank.bankName || ''} onChange={(e) => updateBank({ bankName: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Branch</label>
+                    <input type="text" value={invoice.bank.branch || ''} onChange={(e) => updateBank({ branch: e.target.value })} className={inputClass} />
+                  </div>
+                  <div className="col-span-2">
+                    <label className={labelClass}>UPI ID</label>
+                    <input
+                      type="text"
+                      value={invoice.bank.upiId || ''}
+                      placeholder="e.g. shop@okbank (optional)"
+                      onChange={(e) => updateBank({ upiId: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className={labelClass}>Terms & conditions</label>
+              <textarea
+                rows={4}
+                value={invoice.terms || ''}
+                placeholder={'e.g. Goods once sold will not be taken back.\nSubject to local jurisdiction.'}
+                onChange={(e) => updateInvoice({ terms: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Closing line</label>
+              <input
+                type="text"
+                value={invoice.footer || ''}
+                placeholder={DEFAULT_INVOICE_FOOTER}
+                onChange={(e) => updateInvoice({ footer: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </fieldset>
+
+          {renderProblems(invoiceProblems)}
+          <div className="flex items-center justify-between">
+            {renderSave('invoice', saveInvoice, invoiceProblems)}
+            <button
+              onClick={preview}
+              disabled={!latestBill}
+              title={latestBill ? `Print bill ${latestBill.billNumber} with these settings` : 'Issue a bill first'}
+              className={`flex items-center space-x-2 mt-6 px-4 py-2 rounded-lg font-medium ${
+                !latestBill
+                  ? 'text-gray-400 cursor-not-allowed'
+                  : state.theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+              }`}
+            >
+              <Download className="w-4 h-4" />
+              <span>Preview</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { Layers, AlertCircle } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { SheetSelection, WorkbookSheet } from '../utils/fileParser';
+
+interface SheetPickerProps {
+  fileName: string;
+  sheets: WorkbookSheet[];
+  onConfirm: (selections: SheetSelection[]) => void;
+  onCancel: () => void;
+}
+
+interface SheetChoice {
+  include: boolean;
+  headerRow: number;
+  category: string;
+}
+
+export default function SheetPicker({ fileName, sheets, onConfirm, onCancel }: SheetPickerProps) {
+  const { state } = useApp();
+  // Empty sheets start unticked; everything else is imported by default
+  const [choices, setChoices] = useState<Record<string, SheetChoice>>(() =>
+    Object.fromEntries(sheets.map(sheet => [
+      sheet.name,
+      { include: sheet.rowCount > sheet.headerRow + 1, headerRow: sheet.headerRow, category: '' }
+    ]))
+  );
+  const [activeSheet, setActiveSheet] = useState(sheets[0]?.name || '');
+
+  const active = sheets.find(sheet => sheet.name === activeSheet);
+  const selected = sheets.filter(sheet => choices[sheet.name].include);
+
+  const updateChoice = (name: string, changes: Partial<SheetChoice>) => {
+    setChoices(prev => ({ ...prev, [name]: { ...prev[name], ...changes } }));
+  };
+
+  const confirm = () => {
+    onConfirm(selected.map(sheet => ({
+      name: sheet.name,
+      headerRow: choices[sheet.name].headerRow,
+      category: choices[sheet.name].category.trim() || undefined
+    })));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className={`max-w-6xl w-full max-h-[90vh] flex flex-col rounded-xl ${
+        state.theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+      }`}>
+        <div className="p-6 flex items-start justify-between">
+          <div>
+            <h2 className={`text-2xl font-bold flex items-center space-x-2 ${
+              state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+            }`}>
+              <Layers className="w-6 h-6 text-blue-500" />
+              <span>Choose Sheets</span>
+            </h2>
+            <p className={`mt-1 text-sm ${
+              state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+            }`}>
+              Pick the sheets of <span className="font-medium">{fileName}</span> to import. Click a preview row to use it as the header row.
+            </p>
+          </div>
+          <button
+            onClick={onCancel}
+            className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${
+              state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+            }`}
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="px-6 flex-1 overflow-hidden grid grid-cols-1 lg:grid-cols-5 gap-4">
+          <div className="lg:col-span-2 overflow-y-auto space-y-2">
+            {sheets.map(sheet => {
+              const choice = choices[sheet.name];
+              return (
+                <div
+                  key={sheet.name}
+                  onClick={() => setActiveSheet(sheet.name)}
+                  className={`p-3 rounded-lg border cursor-pointer ${
+                    sheet.name === activeSheet
+                      ? 'border-blue-500'
+                      : state.theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+                  } ${state.theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}
+                >
+                  <label className={`flex items-center space-x-2 font-medium ${
+                    state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+                  }`}>
+                    <input
+                      type="checkbox"
+                      checked={choice.include}
+                      onChange={(e) => updateChoice(sheet.name, { include: e.target.checked })}
+                      className="rounded"
+                    />
+                    <span className="truncate">{sheet.name}</span>
+                    <span className={`text-xs font-normal ${
+                      state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+                    }`}>
+                      {Math.max(sheet.rowCount - choice.headerRow - 1, 0)} rows
+                    </span>
+                  </label>
+                  {choice.include && (
+                    <div className="mt-2 grid grid-cols-3 gap-2">
+                      <label className={`text-xs ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                        Header row
+                        <input
+                          type="number"
+                          min={1}
+                          max={Math.max(sheet.rowCount, 1)}
+                          value={choice.headerRow + 1}
+                          onChange={(e) => {
+                            const row = parseInt(e.target.value, 10);
+                            if (row >= 1 && row <= sheet.rowCount) updateChoice(sheet.name, { headerRow: row - 1 });
+                          }}
+                          className={`mt-1 w-full px-2 py-1 rounded-md border text-sm ${
+                            state.theme === 'dark'
+                              ? 'bg-gray-800 border-gray-600 text-white'
+                              : 'bg-white border-gray-300 text-gray-900'
+                          }`}
+                        />
+                      </label>
+                      <label className={`col-span-2 text-xs ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                        Category
+                        <input
+                          type="text"
+                          value={choice.category}
+                          placeholder="From the category column"
+                          onChange={(e) => updateChoice(sheet.name, { category: e.target.value })}
+                          className={`mt-1 w-full px-2 py-1 rounded-md border text-sm ${
+                            state.theme === 'dark'
+                              ? 'bg-gray-800 border-gray-600 text-white placeholder-gray-500'
+                              : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+                          }`}
+                        />
+                      </label>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="lg:col-span-3 overflow-auto">
+            {active && (
+              <table className="w-full text-xs">
+                <tbody>
+                  {active.preview.map((row, index) => {
+                    const isHeader = index === choices[active.name].headerRow;
+                    return (
+                      <tr
+                        key={index}
+                        onClick={() => updateChoice(active.name, { headerRow: index })}
+                        className={`border-t cursor-pointer ${
+                          state.theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+                        } ${
+                          isHeader
+                            ? 'bg-blue-100 text-blue-900 font-semibold dark:bg-blue-900 dark:text-blue-100'
+                            : index < choices[active.name].headerRow
+                              ? state.theme === 'dark' ? 'text-gray-600' : 'text-gray-400'
+                              : state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+                        }`}
+                      >
+                        <td className="p-1 pr-2 text-right opacity-60">{index + 1}</td>
+                        {row.map((cell, cellIndex) => (
+                          <td key={cellIndex} className="p-1 whitespace-nowrap max-w-[12rem] truncate">{cell}</td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          {selected.length === 0 ? (
+            <div className="flex items-center space-x-2 text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>Select at least one sheet.</span>
+            </div>
+          ) : (
+            <span className={`text-sm ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+              {selected.length} of {sheets.length} sheets selected
+            </span>
+          )}
+          <div className="flex space-x-3">
+            <button
+              onClick={onCancel}
+              className={`px-4 py-2 rounded-lg font-medium ${
+                state.theme === 'dark'
+                  ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                  : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+              }`}
+            >
+              Skip file
+            </button>
+            <button
+              onClick={confirm}
+              disabled={selected.length === 0}
+              className={`px-4 py-2 rounded-lg font-medium text-white ${
+                selected.length === 0 ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              Continue
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import { useMemo, useState } from 'react';
+import { Truck, Plus, Pencil, Trash2, AlertCircle } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { PdfLayout, Supplier } from '../types';
+import { checkPermission } from '../utils/permissions';
+import { CURRENCIES, computeCompanies, createSupplier, validateSupplier } from '../utils/suppliers';
+import { formatRupees } from '../utils/amounts';
+
+const PDF_LAYOUT_LABELS: Record<PdfLayout, string> = {
+  auto: 'Automatic',
+  columns: 'Table columns (E-Code / DCAT / Price)',
+  lines: 'Text lines',
+};
+
+export default function Suppliers() {
+  const { state, dispatch } = useApp();
+  const [editing, setEditing] = useState<Supplier | null>(null);
+
+  const refusal = checkPermission(state.user, 'importCatalog');
+  const companies = useMemo(
+    () => computeCompanies(state.suppliers, state.products, state.bills),
+    [state.suppliers, state.products, state.bills]
+  );
+  const problems = editing ? validateSupplier(editing, state.suppliers) : [];
+
+  const update = <K extends keyof Supplier>(key: K, value: Supplier[K]) => {
+    setEditing(prev => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const save = () => {
+    if (!editing || problems.length > 0) return;
+    dispatch({ type: 'SAVE_SUPPLIER', payload: { ...editing, name: editing.name.trim() } });
+    setEditing(null);
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border ${
+    state.theme === 'dark'
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`;
+
+  const labelClass = `block text-sm font-medium mb-2 ${
+    state.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+  }`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className={`text-3xl font-bold ${
+            state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+          }`}>
+            Suppliers
+          </h1>
+          <p className={`mt-2 ${
+            state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+          }`}>
+            Supplier details and how their price lists are imported.
+          </p>
+        </div>
+        {!refusal && (
+          <button
+            onClick={() => setEditing(createSupplier(''))}
+            className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Supplier</span>
+          </button>
+        )}
+      </div>
+
+      <div className={`rounded-xl border overflow-hidden ${
+        state.theme === 'dark'
+          ? 'bg-gray-800 border-gray-700'
+          : 'bg-white border-gray-200'
+      }`}>
+        {companies.length === 0 ? (
+          <div className={`text-center py-12 ${
+            state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+          }`}>
+            <Truck className="w-16 h-16 mx-auto mb-4 opacity-50" />
+            <h3 className="text-lg font-medium mb-2">No suppliers yet</h3>
+            <p>Add a supplier or import a price list to get started.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className={`border-b ${
+                  state.theme === 'dark' ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-600'
+                }`}>
+                  <th className="text-left py-3 px-4 font-medium">Supplier</th>
+                  <th className="text-left py-3 px-4 font-medium">GSTIN</th>
+                  <th className="text-left py-3 px-4 font-medium">Contact</th>
+                  <th className="text-right py-3 px-4 font-medium">Discount</th>
+                  <th className="text-left py-3 px-4 font-medium">Import profile</th>
+                  <th className="text-right py-3 px-4 font-medium">Products</th>
+                  <th className="text-right py-3 px-4 font-medium">Total Sales</th>
+                  <th className="py-3 px-4" />
+                </tr>
+              </thead>
+              <tbody>
+                {companies.map(company => {
+                  const supplier = company.supplier;
+                  return (
+                    <tr key={company.name} className={`border-b ${
+                      state.theme === 'dark' ? 'border-gray-700 text-white' : 'border-gray-200 text-gray-900'
+                    }`}>
+                      <td className="py-3 px-4 font-medium">{company.name}</td>
+                      <td className={`py-3 px-4 ${state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}`}>
+                        {supplier?.gstin || '—'}
+                      </td>
+                      <td className={`py-3 px-4 text-sm ${state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}`}>
+                        {supplier ? [supplier.contactName, supplier.phone, supplier.email].filter(Boolean).join(' · ') || '—' : '—'}
+                      </td>
+                      <td className="py-3 px-4 text-right">{supplier ? `${supplier.defaultDiscount}%` : '—'}</td>
+                      <td className={`py-3 px-4 text-sm ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                        {supplier ? (
+                          <>
+                            <div>PDF: {PDF_LAYOUT_LABELS[supplier.importProfile.pdfLayout]}</div>
+                            <div>
+                              {supplier.importProfile.columnMapping ? 'Column mapping saved' : 'No column mapping'}
+                              {supplier.currency !== 'INR' && ` · ${supplier.currency} at ₹${supplier.exchangeRate}`}
+                            </div>
+                          </>
+                        ) : (
+                          'Not in supplier master'
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-right">{company.productCount}</td>
+                      <td className="py-3 px-4 text-right">{formatRupees(company.totalSales)}</td>
+                      <td className="py-3 px-4">
+                        {!refusal && (
+                          <div className="flex justify-end space-x-2">
+                            <button
+                              onClick={() => setEditing(supplier || createSupplier(company.name))}
+                              className="p-2 rounded-lg text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                              title={supplier ? 'Edit supplier' : 'Add to supplier master'}
+                            >
+                              {supplier ? <Pencil className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                            </button>
+                            {supplier && (
+                              <button
+                                onClick={() => dispatch({ type: 'DELETE_SUPPLIER', payload: supplier.id })}
+                                disabled={company.productCount > 0}
+                                className={`p-2 rounded-lg ${
+                                  company.productCount > 0
+                                    ? 'text-gray-400 cursor-not-allowed'
+                                    : 'text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20'
+                                }`}
+                                title={company.productCount > 0 ? 'Remove its products before deleting the supplier' : 'Delete supplier'}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className={`max-w-2xl w-full max-h-[90vh] overflow-y-auto rounded-xl ${
+            state.theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+          }`}>
+            <div className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className={`text-2xl font-bold ${
+                  state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+                }`}>
+                  {state.suppliers.some(s => s.id === editing.id) ? 'Edit Supplier' : 'Add Supplier'}
+                </h2>
+                <button
+                  onClick={() => setEditing(null)}
+                  className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${
+                    state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+                  }`}
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Name</label>
+                  <input type="text" value={editing.name} onChange={(e) => update('name', e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>GSTIN</label>
+                  <input
+                    type="text"
+                    value={editing.gstin || ''}
+                    onChange={(e) => update('gstin', e.target.value.toUpperCase())}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Contact person</label>
+                  <input type="text" value={editing.contactName || ''} onChange={(e) => update('contactName', e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Phone</label>
+                  <input type="tel" value={editing.phone || ''} onChange={(e) => update('phone', e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Email</label>
+                  <input type="email" value={editing.email || ''} onChange={(e) => update('email', e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Default discount (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.5"
+                    value={editing.defaultDiscount}
+                    onChange={(e) => update('defaultDiscount', parseFloat(e.target.value) || 0)}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Price list currency</label>
+                  <select
+                    value={editing.currency}
+                    onChange={(e) => {
+                      update('currency', e.target.value);
+                      if (e.target.value === 'INR') update('exchangeRate', 1);
+                    }}
+                    className={inputClass}
+                  >
+                    {CURRENCIES.map(currency => (
+                      <option key={currency} value={currency}>{currency}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Exchange rate (₹ per {editing.currency})</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    value={editing.exchangeRate}
+                    disabled={editing.currency === 'INR'}
+                    onChange={(e) => update('exchangeRate', parseFloat(e.target.value) || 0)}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="sm:col-span-2">
+                  <label className={labelClass}>PDF price list layout</label>
+                  <select
+                    value={editing.importProfile.pdfLayout}
+                    onChange={(e) => update('importProfile', { ...editing.importProfile, pdfLayout: e.target.value as PdfLayout })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(PDF_LAYOUT_LABELS) as PdfLayout[]).map(layout => (
+                      <option key={layout} value={layout}>{PDF_LAYOUT_LABELS[layout]}</option>
+                    ))}
+                  </select>
+                </div>
+                {editing.importProfile.columnMapping && (
+                  <div className={`sm:col-span-2 flex items-center justify-between text-sm ${
+                    state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'
+                  }`}>
+                    <span>
+                      Spreadsheet column mapping saved {new Date(editing.importProfile.columnMapping.updatedAt).toLocaleDateString()}
+                    </span>
+                    <button
+                      onClick={() => update('importProfile', { ...editing.importProfile, columnMapping: undefined })}
+                      className="text-red-600 hover:underline"
+                    >
+                      Forget mapping
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {problems.length > 0 && (
+                <div className="space-y-1">
+                  {problems.map(problem => (
+                    <div key={problem} className="flex items-start space-x-2 text-sm text-red-600">
+                      <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      <span>{problem}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  onClick={() => setEditing(null)}
+                  className={`px-4 py-2 rounded-lg font-medium ${
+                    state.theme === 'dark'
+                      ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                  }`}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={save}
+                  disabled={problems.length > 0}
+                  className={`px-4 py-2 rounded-lg font-medium text-white ${
+                    problems.length > 0 ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+                  }`}
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
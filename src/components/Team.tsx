@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { Users, Loader2, AlertCircle, UserPlus } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { Role, User } from '../types';
+import { addUser, fetchUsers, updateUserRole } from '../utils/api';
+import { DISCOUNT_LIMITS, ROLE_LABELS, checkPermission } from '../utils/permissions';
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  owner: 'Everything, including managing users',
+  manager: 'Import catalogs, edit prices, delete products, view reports',
+  salesperson: 'Search products and create bills',
+};
+
+export default function Team() {
+  const { state } = useApp();
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [newUser, setNewUser] = useState({ name: '', email: '', password: '' });
+  const [adding, setAdding] = useState(false);
+
+  const refusal = checkPermission(state.user, 'manageUsers');
+
+  useEffect(() => {
+    if (refusal) return;
+    fetchUsers()
+      .then(setUsers)
+      .catch(err => setError(err instanceof Error ? err.message : 'Unknown error'))
+      .finally(() => setLoading(false));
+  }, [refusal]);
+
+  const changeRole = async (user: User, role: Role) => {
+    setSavingId(user.id);
+    setError(null);
+    try {
+      const updated = await updateUserRole(user.id, role);
+      setUsers(prev => prev.map(u => (u.id === updated.id ? updated : u)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  // Registration closes once the shop is set up, so accounts are added here
+  const createUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setAdding(true);
+    setError(null);
+    try {
+      const user = await addUser(newUser);
+      setUsers(prev => [...prev, user].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewUser({ name: '', email: '', password: '' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const inputClass = `px-3 py-2 rounded-lg border ${
+    state.theme === 'dark'
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  }`;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className={`text-3xl font-bold ${
+          state.theme === 'dark' ? 'text-white' : 'text-gray-900'
+        }`}>
+          Team
+        </h1>
+        <p className={`mt-2 ${
+          state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+        }`}>
+          Decide what each counter account is allowed to do.
+        </p>
+      </div>
+
+      {refusal ? (
+        <div className="flex items-start space-x-2 text-red-600">
+          <AlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <span>{refusal}</span>
+        </div>
+      ) : (
+        <div className={`rounded-xl border overflow-hidden ${
+          state.theme === 'dark'
+            ? 'bg-gray-800 border-gray-700'
+            : 'bg-white border-gray-200'
+        }`}>
+          {error && (
+            <div className="flex items-start space-x-2 text-red-600 p-4">
+              <AlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+          <form onSubmit={createUser} className={`flex flex-wrap items-center gap-3 p-4 border-b ${
+            state.theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+          }`}>
+            <input
+              type="text"
+              required
+              placeholder="Name"
+              value={newUser.name}
+              onChange={(e) => setNewUser(prev => ({ ...prev, name: e.target.value }))}
+              className={inputClass}
+            />
+            <input
+              type="email"
+              required
+              placeholder="Email"
+              value={newUser.email}
+              onChange={(e) => setNewUser(prev => ({ ...prev, email: e.target.value }))}
+              className={inputClass}
+            />
+            <input
+              type="password"
+              required
+              minLength={8}
+              placeholder="Password"
+              value={newUser.password}
+              onChange={(e) => setNewUser(prev => ({ ...prev, password: e.target.value }))}
+              className={inputClass}
+            />
+            <button
+              type="submit"
+              disabled={adding}
+              className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+              <span>Add salesperson</span>
+            </button>
+          </form>
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+            </div>
+          ) : users.length === 0 ? (
+            <div className={`text-center py-12 ${
+              state.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+            }`}>
+              <Users className="w-16 h-16 mx-auto mb-4 opacity-50" />
+              <h3 className="text-lg font-medium mb-2">No users yet</h3>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead>
+                <tr className={`border-b ${
+                  state.theme === 'dark' ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-600'
+                }`}>
+                  <th className="text-left py-3 px-4 font-medium">Name</th>
+                  <th className="text-left py-3 px-4 font-medium">Email</th>
+                  <th className="text-left py-3 px-4 font-medium">Role</th>
+                  <th className="text-left py-3 px-4 font-medium">Can do</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map(user => (
+                  <tr key={user.id} className={`border-b ${
+                    state.theme === 'dark' ? 'border-gray-700 text-white' : 'border-gray-200 text-gray-900'
+                  }`}>
+                    <td className="py-3 px-4">
+                      {user.name}
+                      {user.id === state.user?.id && <span className="ml-2 text-xs text-blue-500">(you)</span>}
+                    </td>
+                    <td className={`py-3 px-4 ${state.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}`}>
+                      {user.email}
+                    </td>
+                    <td className="py-3 px-4">
+                      <select
+                        value={user.role || 'salesperson'}
+                        disabled={savingId === user.id}
+                        onChange={(e) => changeRole(user, e.target.value as Role)}
+                        className={`px-3 py-1 rounded-lg border ${
+                          state.theme === 'dark'
+                            ? 'bg-gray-700 border-gray-600 text-white'
+                            : 'bg-white border-gray-300 text-gray-900'
+                        }`}
+                      >
+                        {(Object.keys(ROLE_LABELS) as Role[]).map(role => (
+                          <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className={`py-3 px-4 text-sm ${state.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                      {ROLE_DESCRIPTIONS[user.role || 'salesperson']}; discounts up to {DISCOUNT_LIMITS[user.role || 'salesperson']}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,70 @@
-import React, { createContext, useContext, useReducer, ReactNode } from 'react';
-import { Product, CartItem, Bill, Theme, ViewMode } from '../types';
-
-interface User {
-  id: string;
-  name: string;
-  shopName: string;
-  email?: string;
-}
+import React, { createContext, useCallback, useContext, useEffect, useReducer, useRef, ReactNode } from 'react';
+import {
+  Product,
+  CartItem,
+  CartDetails,
+  Bill,
+  Theme,
+  ViewMode,
+  User,
+  Supplier,
+  BusinessProfile,
+  Customer,
+  CreditNote,
+  DiscountRule,
+  HeldCart,
+  InvoiceSettings,
+  Payment,
+  Quotation,
+  QuotationStatus
+} from '../types';
+import {
+  isStorageAvailable,
+  loadBills,
+  loadMeta,
+  loadProducts,
+  saveBills,
+  saveMeta,
+  saveProducts,
+} from '../utils/storage';
+import {
+  isApiEnabled,
+  createCustomer,
+  createProducts,
+  createSupplier,
+  deleteCustomer,
+  deleteProduct,
+  deleteProductsByFile,
+  deleteSupplier,
+  fetchAllProducts,
+  fetchBills,
+  fetchCompanies,
+  fetchCreditNotes,
+  fetchCustomers,
+  fetchPayments,
+  fetchQuotations,
+  fetchSettings,
+  hasSession,
+  onSessionExpired,
+  updateBusiness,
+  updateCustomer,
+  updateDiscountRules,
+  updateInvoiceSettings,
+  updateProduct,
+  updateQuotationStatus,
+  updateSupplier,
+} from '../utils/api';
+import { DISCOUNT_LIMITS, can, checkDiscount, checkPermission, checkProductEdit, checkQuantity, getRole } from '../utils/permissions';
+import { CatalogUpdate } from '../utils/catalogDiff';
+import { createHeldCart, defaultCartName } from '../utils/heldCarts';
+import { restockProducts } from '../utils/creditNotes';
+import { applyDiscountScheme, findDiscountRule } from '../utils/discounts';
+import { DEFAULT_INVOICE_SETTINGS } from '../utils/invoiceSettings';
 
 interface AppState {
   products: Product[];
   cart: CartItem[];
+  cartDetails: CartDetails; // Buyer details for the cart
   bills: Bill[];
   theme: Theme;
   currentView: ViewMode;
@@ -21,15 +75,38 @@ interface AppState {
   // File management state
   uploadedFiles: string[]; // Track all uploaded files
   fileTypeFilter: 'all' | 'excel' | 'pdf'; // Current filter
+  suppliers: Supplier[]; // Supplier master with import profiles
+  business: BusinessProfile; // Seller details for tax invoices
+  invoiceSettings: InvoiceSettings; // Invoice template, logo, bank details and terms
+  customers: Customer[]; // Customer master for lookup at billing
+  discountRules: DiscountRule[]; // Customer / group × DCAT discount matrix
+  quotations: Quotation[];
+  heldCarts: HeldCart[]; // Parked carts, resumed into `cart` one at a time
+  creditNotes: CreditNote[];
+  payments: Payment[];
+  // Persistence state
+  hydrated: boolean; // True once saved data has been restored from IndexedDB
+  permissionError: string | null; // Why the last guarded action was refused
 }
 
+// Slices of state saved under the IndexedDB meta store. Products and bills
+// live in their own object stores so they can be written incrementally.
+const PERSISTED_META_KEYS = ['cart', 'cartDetails', 'uploadedFiles', 'theme', 'user', 'suppliers', 'business', 'invoiceSettings', 'customers', 'discountRules', 'quotations', 'heldCarts', 'creditNotes', 'payments'] as const;
+type PersistedMeta = Pick<AppState, typeof PERSISTED_META_KEYS[number]>;
+
 type AppAction =
   | { type: 'SET_PRODUCTS'; payload: Product[] }
+  | { type: 'SET_BILLS'; payload: Bill[] }
   | { type: 'ADD_PRODUCTS'; payload: { products: Product[]; fileName?: string } }
   | { type: 'ADD_TO_CART'; payload: CartItem }
   | { type: 'UPDATE_CART_ITEM'; payload: { index: number; item: CartItem } }
   | { type: 'REMOVE_FROM_CART'; payload: number }
-  | { type: 'CLEAR_CART' }
+  | { type: 'CLEAR_CART' } // Also clears the buyer details
+  | { type: 'SET_CART_DETAILS'; payload: Partial<CartDetails> } // A new buyer re-prices the cart
+  | { type: 'LOAD_CART'; payload: { items: CartItem[]; details: CartDetails } } // Replaces the cart, e.g. from a quotation
+  | { type: 'PARK_CART'; payload: string } // Name for the held cart
+  | { type: 'RESUME_CART'; payload: string } // Held cart id; the current cart is parked in its place
+  | { type: 'DISCARD_HELD_CART'; payload: string }
   | { type: 'ADD_BILL'; payload: Bill }
   | { type: 'SET_THEME'; payload: Theme }
   | { type: 'SET_VIEW'; payload: ViewMode } 
@@ -41,11 +118,41 @@ type AppAction =
   | { type: 'SET_USER'; payload: User | null }
   | { type: 'SET_FILE_TYPE_FILTER'; payload: 'all' | 'excel' | 'pdf' }
   | { type: 'ADD_UPLOADED_FILE'; payload: string }
-  | { type: 'REMOVE_PRODUCTS_BY_FILE'; payload: string }; // For removing products from specific file
+  | { type: 'REMOVE_PRODUCTS_BY_FILE'; payload: string } // For removing products from specific file
+  | { type: 'APPLY_CATALOG_UPDATE'; payload: CatalogUpdate } // Re-import in update mode
+  | { type: 'SET_SUPPLIERS'; payload: Supplier[] }
+  | { type: 'SAVE_SUPPLIER'; payload: Supplier } // Adds or replaces by id
+  | { type: 'DELETE_SUPPLIER'; payload: string }
+  | { type: 'SET_BUSINESS'; payload: BusinessProfile }
+  | { type: 'SET_INVOICE_SETTINGS'; payload: InvoiceSettings }
+  | { type: 'SET_CUSTOMERS'; payload: Customer[] }
+  | { type: 'SAVE_CUSTOMER'; payload: Customer } // Adds or replaces by id
+  | { type: 'DELETE_CUSTOMER'; payload: string }
+  | { type: 'SET_DISCOUNT_RULES'; payload: DiscountRule[] } // Also re-prices the open cart
+  | { type: 'SET_QUOTATIONS'; payload: Quotation[] }
+  | { type: 'ADD_QUOTATION'; payload: Quotation }
+  | { type: 'SET_QUOTATION_STATUS'; payload: { id: string; status: QuotationStatus } }
+  | { type: 'SET_CREDIT_NOTES'; payload: CreditNote[] }
+  | { type: 'ADD_CREDIT_NOTE'; payload: CreditNote } // Also restocks the returned goods
+  | { type: 'SET_PAYMENTS'; payload: Payment[] }
+  | { type: 'ADD_PAYMENT'; payload: Payment }
+  | { type: 'HYDRATE_STATE'; payload: Partial<PersistedMeta> & { bills?: Bill[] } }
+  | { type: 'HYDRATE_PRODUCTS'; payload: Product[] } // Appends a chunk read from storage
+  | { type: 'SET_HYDRATED' }
+  | { type: 'DISMISS_PERMISSION_ERROR' };
+
+const EMPTY_CART_DETAILS: CartDetails = {
+  customerName: '',
+  customerPhone: '',
+  customerGstin: '',
+  customerAddress: '',
+  placeOfSupply: ''
+};
 
 const initialState: AppState = {
   products: [],
   cart: [],
+  cartDetails: EMPTY_CART_DETAILS,
   bills: [],
   theme: 'light',
   currentView: 'dashboard',
@@ -55,12 +162,117 @@ const initialState: AppState = {
   user: null,
   uploadedFiles: [],
   fileTypeFilter: 'all',
+  suppliers: [],
+  business: { name: '', stateCode: '' },
+  invoiceSettings: DEFAULT_INVOICE_SETTINGS,
+  customers: [],
+  discountRules: [],
+  quotations: [],
+  heldCarts: [],
+  creditNotes: [],
+  payments: [],
+  hydrated: false,
+  permissionError: null,
+};
+
+// Screens that show takings and balances
+const REPORT_VIEWS: ViewMode[] = ['dashboard', 'receivables'];
+
+// Users who may not see reports land on the search screen instead
+const allowedView = (user: User | null, view: ViewMode): ViewMode =>
+  REPORT_VIEWS.includes(view) && !can(user, 'viewReports') ? 'search' : view;
+
+// Discount and quantity checks for a line sold to the given customer. Their
+// discount scheme may take a line past the user's own discount limit.
+const checkCartLine = (state: AppState, item: CartItem, customerId: string | undefined) => {
+  const customer = state.customers.find(c => c.id === customerId);
+  return checkDiscount(state.user, item, findDiscountRule(state.discountRules, customer, item.product)?.percent) ||
+    checkQuantity(state.user, item);
 };
 
+// Re-prices the lines not discounted by hand, e.g. once the buyer is known
+const applyDiscountSchemes = (state: AppState, cart: CartItem[], customerId: string | undefined) => {
+  const customer = state.customers.find(c => c.id === customerId);
+  const limit = DISCOUNT_LIMITS[getRole(state.user)];
+  return cart.map(item => applyDiscountScheme(item, state.discountRules, customer, state.suppliers, limit));
+};
+
+// Role checks run before an action reaches the reducer. Returns the reason
+// an action is refused, or null when the current user may perform it.
+function guardAction(state: AppState, action: AppAction): string | null {
+  switch (action.type) {
+    case 'ADD_PRODUCTS':
+    case 'SAVE_SUPPLIER':
+    case 'DELETE_SUPPLIER':
+      return checkPermission(state.user, 'importCatalog');
+    case 'UPDATE_PRODUCT': {
+      const existing = state.products.find(p =>
+        p.id === action.payload.id || p.productId === action.payload.productId
+      );
+      return checkProductEdit(state.user, existing, action.payload);
+    }
+    case 'DELETE_PRODUCT':
+    case 'REMOVE_PRODUCTS_BY_FILE':
+      return checkPermission(state.user, 'deleteProducts');
+    case 'APPLY_CATALOG_UPDATE': {
+      const { updated, removed } = action.payload;
+      return checkPermission(state.user, 'importCatalog') ||
+        (updated.length > 0 ? checkPermission(state.user, 'editPrices') : null) ||
+        (removed.length > 0 ? checkPermission(state.user, 'deleteProducts') : null);
+    }
+    case 'ADD_TO_CART':
+      return checkCartLine(state, action.payload, state.cartDetails.customerId);
+    case 'UPDATE_CART_ITEM':
+      return checkCartLine(state, action.payload.item, state.cartDetails.customerId);
+    case 'LOAD_CART':
+      return action.payload.items
+        .map(item => checkCartLine(state, item, action.payload.details.customerId))
+        .find(Boolean) || null;
+    case 'RESUME_CART': {
+      const held = state.heldCarts.find(cart => cart.id === action.payload);
+      return (held?.items || [])
+        .map(item => checkCartLine(state, item, held?.details.customerId))
+        .find(Boolean) || null;
+    }
+    case 'SET_BUSINESS':
+    case 'SET_INVOICE_SETTINGS':
+      return checkPermission(state.user, 'manageSettings');
+    case 'SAVE_CUSTOMER': {
+      // Anyone may add customers at the counter; credit limits and discount
+      // groups are set by managers
+      const existing = state.customers.find(c => c.id === action.payload.id);
+      return ((existing?.creditLimit ?? undefined) !== (action.payload.creditLimit ?? undefined)
+        ? checkPermission(state.user, 'manageCustomers')
+        : null) ||
+        ((existing?.group || undefined) !== (action.payload.group || undefined)
+          ? checkPermission(state.user, 'manageDiscounts')
+          : null);
+    }
+    case 'DELETE_CUSTOMER':
+      return checkPermission(state.user, 'manageCustomers');
+    case 'SET_DISCOUNT_RULES':
+      return checkPermission(state.user, 'manageDiscounts');
+    case 'ADD_CREDIT_NOTE':
+      return checkPermission(state.user, 'issueCreditNotes');
+    case 'SET_VIEW':
+      return REPORT_VIEWS.includes(action.payload) ? checkPermission(state.user, 'viewReports') : null;
+    default:
+      return null;
+  }
+}
+
 function appReducer(state: AppState, action: AppAction): AppState {
+  const refusal = guardAction(state, action);
+  if (refusal) {
+    return { ...state, permissionError: refusal };
+  }
+
   switch (action.type) {
     case 'SET_PRODUCTS':
       return { ...state, products: action.payload };
+
+    case 'SET_BILLS':
+      return { ...state, bills: action.payload };
       
     case 'ADD_PRODUCTS':
       const existingIds = new Set(state.products.map(p => p.productId));
@@ -95,10 +307,59 @@ function appReducer(state: AppState, action: AppAction): AppState {
       return { ...state, cart: state.cart.filter((_, index) => index !== action.payload) };
       
     case 'CLEAR_CART':
-      return { ...state, cart: [] };
+      return { ...state, cart: [], cartDetails: EMPTY_CART_DETAILS };
+
+    case 'SET_CART_DETAILS': {
+      const cartDetails = { ...state.cartDetails, ...action.payload };
+      return {
+        ...state,
+        cartDetails,
+        cart: cartDetails.customerId === state.cartDetails.customerId
+          ? state.cart
+          : applyDiscountSchemes(state, state.cart, cartDetails.customerId)
+      };
+    }
+
+    case 'LOAD_CART':
+      return { ...state, cart: action.payload.items, cartDetails: action.payload.details };
+
+    case 'PARK_CART':
+      if (state.cart.length === 0) return state;
+      return {
+        ...state,
+        heldCarts: [...state.heldCarts, createHeldCart(action.payload, state.cart, state.cartDetails)],
+        cart: [],
+        cartDetails: EMPTY_CART_DETAILS
+      };
+
+    case 'RESUME_CART': {
+      const held = state.heldCarts.find(cart => cart.id === action.payload);
+      if (!held) return state;
+      const others = state.heldCarts.filter(cart => cart.id !== held.id);
+      return {
+        ...state,
+        cart: held.items,
+        cartDetails: held.details,
+        heldCarts: state.cart.length > 0
+          ? [...others, createHeldCart(defaultCartName(state.cartDetails, others), state.cart, state.cartDetails)]
+          : others
+      };
+    }
+
+    case 'DISCARD_HELD_CART':
+      return { ...state, heldCarts: state.heldCarts.filter(cart => cart.id !== action.payload) };
       
-    case 'ADD_BILL':
-      return { ...state, bills: [...state.bills, action.payload] };
+    case 'ADD_BILL': {
+      // Billing a quotation accepts it, as the API does
+      const { id, quotationId } = action.payload;
+      return {
+        ...state,
+        bills: [...state.bills, action.payload],
+        quotations: quotationId
+          ? state.quotations.map(q => (q.id === quotationId ? { ...q, status: 'accepted', billId: id } : q))
+          : state.quotations
+      };
+    }
       
     case 'SET_THEME':
       return { ...state, theme: action.payload };
@@ -134,7 +395,11 @@ function appReducer(state: AppState, action: AppAction): AppState {
       };
       
     case 'SET_USER':
-      return { ...state, user: action.payload };
+      return {
+        ...state,
+        user: action.payload,
+        currentView: allowedView(action.payload, state.currentView)
+      };
       
     case 'SET_FILE_TYPE_FILTER':
       return { ...state, fileTypeFilter: action.payload };
@@ -164,18 +429,393 @@ function appReducer(state: AppState, action: AppAction): AppState {
         )
       };
       
+    case 'APPLY_CATALOG_UPDATE': {
+      const { added, updated, removed } = action.payload;
+      const removedIds = new Set(removed);
+      const updatedById = new Map(updated.map(p => [p.productId, p]));
+      const newFiles = added
+        .map(p => p.fileSource)
+        .filter((file, index, files): file is string =>
+          !!file && !state.uploadedFiles.includes(file) && files.indexOf(file) === index
+        );
+
+      return {
+        ...state,
+        products: [
+          ...state.products
+            .filter(p => !removedIds.has(p.productId))
+            .map(p => updatedById.get(p.productId) || p),
+          ...added
+        ],
+        uploadedFiles: [...state.uploadedFiles, ...newFiles]
+      };
+    }
+
+    case 'SET_SUPPLIERS':
+      return { ...state, suppliers: action.payload };
+
+    case 'SAVE_SUPPLIER': {
+      const existing = state.suppliers.find(s => s.id === action.payload.id);
+      const renamed = existing && existing.name !== action.payload.name;
+      return {
+        ...state,
+        suppliers: existing
+          ? state.suppliers.map(s => (s.id === action.payload.id ? action.payload : s))
+          : [...state.suppliers, action.payload],
+        // Renaming a supplier renames it on its products, as the API does
+        products: renamed
+          ? state.products.map(p =>
+              p.companyName === existing.name ? { ...p, companyName: action.payload.name } : p
+            )
+          : state.products
+      };
+    }
+
+    case 'DELETE_SUPPLIER':
+      return { ...state, suppliers: state.suppliers.filter(s => s.id !== action.payload) };
+
+    case 'SET_BUSINESS':
+      return { ...state, business: action.payload };
+
+    case 'SET_INVOICE_SETTINGS':
+      return { ...state, invoiceSettings: action.payload };
+
+    case 'SET_CUSTOMERS':
+      return { ...state, customers: action.payload };
+
+    case 'SAVE_CUSTOMER': {
+      const exists = state.customers.some(c => c.id === action.payload.id);
+      return {
+        ...state,
+        customers: exists
+          ? state.customers.map(c => (c.id === action.payload.id ? action.payload : c))
+          : [...state.customers, action.payload]
+      };
+    }
+
+    case 'DELETE_CUSTOMER':
+      return { ...state, customers: state.customers.filter(c => c.id !== action.payload) };
+
+    case 'SET_DISCOUNT_RULES': {
+      const next = { ...state, discountRules: action.payload };
+      return { ...next, cart: applyDiscountSchemes(next, state.cart, state.cartDetails.customerId) };
+    }
+
+    case 'SET_QUOTATIONS':
+      return { ...state, quotations: action.payload };
+
+    case 'ADD_QUOTATION':
+      return { ...state, quotations: [...state.quotations, action.payload] };
+
+    case 'SET_CREDIT_NOTES':
+      return { ...state, creditNotes: action.payload };
+
+    case 'ADD_CREDIT_NOTE':
+      return {
+        ...state,
+        creditNotes: [...state.creditNotes, action.payload],
+        products: restockProducts(state.products, action.payload)
+      };
+
+    case 'SET_PAYMENTS':
+      return { ...state, payments: action.payload };
+
+    case 'ADD_PAYMENT':
+      return { ...state, payments: [...state.payments, action.payload] };
+
+    case 'SET_QUOTATION_STATUS':
+      return {
+        ...state,
+        quotations: state.quotations.map(q =>
+          q.id === action.payload.id ? { ...q, status: action.payload.status } : q
+        )
+      };
+
+    case 'HYDRATE_STATE': {
+      const user = action.payload.user !== undefined ? action.payload.user : state.user;
+      return { ...state, ...action.payload, currentView: allowedView(user, state.currentView) };
+    }
+
+    case 'HYDRATE_PRODUCTS':
+      return { ...state, products: [...state.products, ...action.payload] };
+
+    case 'SET_HYDRATED':
+      return { ...state, hydrated: true };
+
+    case 'DISMISS_PERMISSION_ERROR':
+      return { ...state, permissionError: null };
+      
     default:
       return state;
   }
 }
 
+// Restores saved state on mount and writes changes back as they happen.
+// Nothing is written until hydration finishes so the empty initial state
+// never overwrites what is already stored.
+function usePersistence(state: AppState, dispatch: React.Dispatch<AppAction>) {
+  const started = useRef(false);
+  const saved = useRef<{ products: Product[]; bills: Bill[]; meta: Partial<PersistedMeta> }>({
+    products: [],
+    bills: [],
+    meta: {},
+  });
+  // Saves are chained so a slow chunked write never races a newer one
+  const queue = useRef<Promise<void>>(Promise.resolve());
+
+  const enqueue = useCallback((task: () => Promise<void>) => {
+    queue.current = queue.current
+      .then(task)
+      .catch(error => console.error('Failed to persist state:', error));
+  }, []);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    if (!isStorageAvailable()) {
+      dispatch({ type: 'SET_HYDRATED' });
+      return;
+    }
+
+    const hydrate = async () => {
+      try {
+        const meta: Partial<PersistedMeta> = {};
+        for (const key of PERSISTED_META_KEYS) {
+          const value = await loadMeta(key);
+          if (value !== undefined) {
+            (meta as Record<string, unknown>)[key] = value;
+          }
+        }
+        const bills = await loadBills();
+
+        saved.current.meta = meta;
+        saved.current.bills = bills;
+        dispatch({ type: 'HYDRATE_STATE', payload: { ...meta, bills } });
+
+        const products: Product[] = [];
+        await loadProducts(chunk => {
+          products.push(...chunk);
+          dispatch({ type: 'HYDRATE_PRODUCTS', payload: chunk });
+        });
+        saved.current.products = products;
+      } catch (error) {
+        console.error('Failed to restore saved state:', error);
+      } finally {
+        dispatch({ type: 'SET_HYDRATED' });
+      }
+    };
+
+    hydrate();
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (!state.hydrated || state.products === saved.current.products) return;
+    const prev = saved.current.products;
+    const next = state.products;
+    saved.current.products = next;
+    enqueue(() => saveProducts(prev, next));
+  }, [state.hydrated, state.products, enqueue]);
+
+  useEffect(() => {
+    if (!state.hydrated || state.bills === saved.current.bills) return;
+    const prev = saved.current.bills;
+    const next = state.bills;
+    saved.current.bills = next;
+    enqueue(() => saveBills(prev, next));
+  }, [state.hydrated, state.bills, enqueue]);
+
+  useEffect(() => {
+    if (!state.hydrated) return;
+    PERSISTED_META_KEYS.forEach(key => {
+      const value = state[key];
+      if (saved.current.meta[key] === value) return;
+      (saved.current.meta as Record<string, unknown>)[key] = value;
+      enqueue(() => saveMeta(key, value));
+    });
+  }, [state, enqueue]);
+}
+
+// Mirrors catalog and settings actions to the API once the reducer has
+// applied them locally. Failures are logged; the local state stays usable.
+// Bills, quotations and credit notes are not mirrored: they are posted
+// first so the server can number them, then the issued document is added.
+// Payments are posted first too, so a refused one is never shown as paid.
+function syncToServer(action: AppAction, state: AppState) {
+  let request: Promise<unknown> | null = null;
+
+  switch (action.type) {
+    case 'ADD_PRODUCTS':
+      request = createProducts(action.payload.products, action.payload.fileName);
+      break;
+    case 'UPDATE_PRODUCT':
+      request = updateProduct(action.payload);
+      break;
+    case 'DELETE_PRODUCT': {
+      const product = state.products.find(p => p.id === action.payload || p.productId === action.payload);
+      request = deleteProduct(product?.productId || action.payload);
+      break;
+    }
+    case 'REMOVE_PRODUCTS_BY_FILE':
+      request = deleteProductsByFile(action.payload);
+      break;
+    case 'APPLY_CATALOG_UPDATE': {
+      const { added, updated, removed } = action.payload;
+      request = Promise.all([
+        ...(added.length > 0 ? [createProducts(added)] : []),
+        ...updated.map(product => updateProduct(product)),
+        ...removed.map(productId => deleteProduct(productId))
+      ]);
+      break;
+    }
+    case 'SAVE_SUPPLIER':
+      request = state.suppliers.some(s => s.id === action.payload.id)
+        ? updateSupplier(action.payload)
+        : createSupplier(action.payload);
+      break;
+    case 'DELETE_SUPPLIER':
+      request = deleteSupplier(action.payload);
+      break;
+    case 'SET_BUSINESS':
+      request = updateBusiness(action.payload);
+      break;
+    case 'SET_INVOICE_SETTINGS':
+      request = updateInvoiceSettings(action.payload);
+      break;
+    case 'SAVE_CUSTOMER':
+      request = state.customers.some(c => c.id === action.payload.id)
+        ? updateCustomer(action.payload)
+        : createCustomer(action.payload);
+      break;
+    case 'DELETE_CUSTOMER':
+      request = deleteCustomer(action.payload);
+      break;
+    case 'SET_DISCOUNT_RULES':
+      request = updateDiscountRules(action.payload);
+      break;
+    case 'SET_QUOTATION_STATUS':
+      request = updateQuotationStatus(action.payload.id, action.payload.status);
+      break;
+  }
+
+  request?.catch(error => console.error(`Failed to sync ${action.type} to server:`, error));
+}
+
+// When the API is configured it is the source of truth: once local data is
+// restored and someone is signed in, the catalog and (for those who may see
+// reports) the bill history are replaced with the server copy.
+function useServerData(
+  hydrated: boolean,
+  userId: string | null,
+  viewReports: boolean,
+  dispatch: React.Dispatch<AppAction>
+) {
+  const loadedFor = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!isApiEnabled || !hydrated || !userId || loadedFor.current === userId) return;
+    loadedFor.current = userId;
+
+    const load = async () => {
+      try {
+        const products: Product[] = [];
+        await fetchAllProducts(page => products.push(...page));
+        dispatch({ type: 'SET_PRODUCTS', payload: products });
+
+        const companies = await fetchCompanies();
+        dispatch({
+          type: 'SET_SUPPLIERS',
+          payload: companies.flatMap(company => (company.supplier ? [company.supplier] : []))
+        });
+
+        dispatch({ type: 'SET_CUSTOMERS', payload: await fetchCustomers() });
+
+        const quotations = await fetchQuotations();
+        dispatch({
+          type: 'SET_QUOTATIONS',
+          payload: quotations.map(q => ({ ...q, date: new Date(q.date), validUntil: new Date(q.validUntil) }))
+        });
+
+        const creditNotes = await fetchCreditNotes();
+        dispatch({ type: 'SET_CREDIT_NOTES', payload: creditNotes.map(note => ({ ...note, date: new Date(note.date) })) });
+
+        const settings = await fetchSettings();
+        // Hydrated rather than set: every role needs the seller details,
+        // discount schemes and invoice template to bill
+        dispatch({
+          type: 'HYDRATE_STATE',
+          payload: {
+            ...(settings.business ? { business: settings.business } : {}),
+            ...(settings.invoice ? { invoiceSettings: settings.invoice } : {}),
+            discountRules: settings.discountRules || []
+          }
+        });
+
+        // Bill history and takings are reports; other roles keep the bills
+        // issued on this device
+        if (!viewReports) return;
+
+        const payments = await fetchPayments();
+        dispatch({ type: 'SET_PAYMENTS', payload: payments.map(payment => ({ ...payment, date: new Date(payment.date) })) });
+
+        const bills: Bill[] = [];
+        let page = 1;
+        let pages = 1;
+        do {
+          const result = await fetchBills({ page, limit: 500 });
+          bills.push(...result.items.map(bill => ({
+            ...bill,
+            date: new Date(bill.date),
+            dueDate: bill.dueDate && new Date(bill.dueDate)
+          })));
+          pages = result.pages;
+          page++;
+        } while (page <= pages);
+        dispatch({ type: 'SET_BILLS', payload: bills.reverse() });
+      } catch (error) {
+        console.error('Failed to load data from server, using local data:', error);
+      }
+    };
+
+    load();
+  }, [hydrated, userId, viewReports, dispatch]);
+}
+
+// Signs the user out locally when the server rejects their refresh token,
+// or when a user restored from storage has no session to go with it.
+function useSession(hydrated: boolean, user: User | null, dispatch: React.Dispatch<AppAction>) {
+  useEffect(() => {
+    if (!isApiEnabled) return;
+    onSessionExpired(() => dispatch({ type: 'SET_USER', payload: null }));
+    return () => onSessionExpired(null);
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (isApiEnabled && hydrated && user && !hasSession()) {
+      dispatch({ type: 'SET_USER', payload: null });
+    }
+  }, [hydrated, user, dispatch]);
+}
+
 const AppContext = createContext<{
   state: AppState;
   dispatch: React.Dispatch<AppAction>;
 } | null>(null);
 
 export function AppProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(appReducer, initialState);
+  const [state, localDispatch] = useReducer(appReducer, initialState);
+  usePersistence(state, localDispatch);
+  useSession(state.hydrated, state.user, localDispatch);
+  useServerData(state.hydrated, state.user?.id || null, can(state.user, 'viewReports'), localDispatch);
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const dispatch = useCallback((action: AppAction) => {
+    const previous = stateRef.current;
+    localDispatch(action);
+    if (isApiEnabled && !guardAction(previous, action)) syncToServer(action, previous);
+  }, []);
 
   return (
     <AppContext.Provider value={{ state, dispatch }}>
@@ -0,0 +1,40 @@
+// src/test/amounts.test.ts
+import { describe, expect, it } from 'vitest';
+import { amountInWords, formatIndianNumber, formatRupees } from '../utils/amounts';
+
+describe('formatRupees', () => {
+  it('groups digits in thousands, lakhs and crores', () => {
+    expect(formatRupees(0)).toBe('₹0.00');
+    expect(formatRupees(999.5)).toBe('₹999.50');
+    expect(formatRupees(1000)).toBe('₹1,000.00');
+    expect(formatRupees(123456)).toBe('₹1,23,456.00');
+    expect(formatRupees(1234567.891)).toBe('₹12,34,567.89');
+    expect(formatRupees(123456789)).toBe('₹12,34,56,789.00');
+  });
+
+  it('puts the minus sign before the rupee symbol', () => {
+    expect(formatRupees(-1234567.5)).toBe('-₹12,34,567.50');
+    expect(formatIndianNumber(-1500)).toBe('-1,500.00');
+  });
+
+  it('drops the sign from amounts that round to zero paise', () => {
+    expect(formatRupees(-0.004)).toBe('₹0.00');
+    expect(formatRupees(-0.005)).toBe('-₹0.01');
+  });
+});
+
+describe('amountInWords', () => {
+  it('counts in crores, lakhs and thousands', () => {
+    expect(amountInWords(236)).toBe('Rupees Two Hundred Thirty Six Only');
+    expect(amountInWords(12405.5)).toBe('Rupees Twelve Thousand Four Hundred Five and Fifty Paise Only');
+    expect(amountInWords(10000000)).toBe('Rupees One Crore Only');
+    expect(amountInWords(2512345678)).toBe(
+      'Rupees Two Hundred Fifty One Crore Twenty Three Lakh Forty Five Thousand Six Hundred Seventy Eight Only'
+    );
+  });
+
+  it('handles zero and paise-only amounts', () => {
+    expect(amountInWords(0)).toBe('Rupees Zero Only');
+    expect(amountInWords(0.4)).toBe('Forty Paise Only');
+  });
+});
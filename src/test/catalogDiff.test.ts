@@ -0,0 +1,53 @@
+// src/test/catalogDiff.test.ts
+import { describe, expect, it } from 'vitest';
+import { Product } from '../types';
+import { buildCatalogUpdate, diffCatalog } from '../utils/catalogDiff';
+
+const product = (productId: string, fields: Partial<Product> = {}): Product => ({
+  productId,
+  name: `Product ${productId}`,
+  price: 100,
+  quantity: 0,
+  companyName: 'Bosch',
+  shopName: 'Sahajanand Sales',
+  ...fields,
+});
+
+describe('diffCatalog', () => {
+  it('sorts the new list into added, repriced, changed and removed products', () => {
+    const current = [product('A'), product('B'), product('C'), product('D'), product('E', { companyName: 'Makita' })];
+    const incoming = [product('A', { price: 110 }), product('B', { price: 80 }), product('C', { minOrderQty: 5 }), product('F')];
+
+    const changes = diffCatalog(current, incoming, 'Bosch');
+    expect(changes.map(change => [change.productId, change.kind])).toEqual([
+      ['A', 'priceUp'],
+      ['B', 'priceDown'],
+      ['C', 'changed'],
+      ['F', 'added'],
+      ['D', 'removed'],
+    ]);
+    expect(changes[0].percentChange).toBeCloseTo(10);
+  });
+
+  it('ignores fields the new list leaves out and values that only differ in type', () => {
+    const current = [product('A', { stock: 5, minOrderQty: 10 })];
+    const incoming = [product('A', { stock: '5', price: 100, minOrderQty: undefined })];
+    expect(diffCatalog(current, incoming, 'Bosch')).toEqual([]);
+  });
+});
+
+describe('buildCatalogUpdate', () => {
+  it('applies the changed fields and records each one in the history', () => {
+    const existing = product('A', { fileSource: 'bosch-2024.xlsx', packSize: 1 });
+    const incoming = product('A', { fileSource: 'bosch-2025.xlsx', price: 120, packSize: 5, priceTiers: { 10: 110 } });
+
+    const { updated } = buildCatalogUpdate(diffCatalog([existing], [incoming], 'Bosch'), 'Asha');
+    expect(updated).toHaveLength(1);
+    expect(updated[0]).toMatchObject({ price: 120, packSize: 5, priceTiers: { 10: 110 }, fileSource: 'bosch-2024.xlsx' });
+    expect(updated[0].priceHistory).toMatchObject([
+      { previousPrice: 100, price: 120, source: 'bosch-2025.xlsx', changedBy: 'Asha' },
+      { field: 'priceTiers', from: undefined, to: { 10: 110 }, source: 'bosch-2025.xlsx' },
+      { field: 'packSize', from: 1, to: 5, source: 'bosch-2025.xlsx' },
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+// src/test/fileParser.test.ts
+import { describe, expect, it } from 'vitest';
+import { decodeText, parseCSVData, sniffDelimiter } from '../utils/fileParser';
+
+describe('parseCSVData', () => {
+  it('reads quoted fields with delimiters, doubled quotes and line breaks', () => {
+    const csv = 'Item Code,Description,Price\r\n' +
+      'A1,"Drill, 6mm ""HSS""",120\r\n' +
+      'A2,"Two\nlines",80\r\n';
+    const { rows, errors } = parseCSVData(csv, 'list.csv');
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { 'item code': 'A1', description: 'Drill, 6mm "HSS"', price: '120' },
+      { 'item code': 'A2', description: 'Two\nlines', price: '80' },
+    ]);
+  });
+
+  it('accepts LF and CR line endings and skips blank lines', () => {
+    expect(parseCSVData('code,price\n\nA1,1\rA2,2', 'list.csv').rows).toEqual([
+      { code: 'A1', price: '1' },
+      { code: 'A2', price: '2' },
+    ]);
+  });
+
+  it('reports the row a record starts on when the field count is off', () => {
+    const { warnings } = parseCSVData('code,name,price\n"A1","Two\nlines",1\nA2,Short\n', 'list.csv');
+    expect(warnings).toEqual(['list.csv, Row 4: Expected 3 fields, found 2']);
+  });
+
+  it('reports an unclosed quote and a stray quote', () => {
+    expect(parseCSVData('code,name\nA1,"Open\n', 'list.csv').errors).toEqual(['list.csv, Row 2: Quoted field is never closed']);
+    expect(parseCSVData('code,name\nA1,6" bit\n', 'list.csv').errors).toEqual([
+      'list.csv, Row 2: Unexpected quote inside an unquoted field',
+    ]);
+  });
+});
+
+describe('sniffDelimiter', () => {
+  it('picks the delimiter that splits every line the same way', () => {
+    expect(sniffDelimiter('code;name;price\nA1;Drill, 6mm;120\nA2;Saw;80')).toBe(';');
+    expect(sniffDelimiter('code\tprice\nA1\t1')).toBe('\t');
+    expect(sniffDelimiter('code,price\nA1,1')).toBe(',');
+  });
+});
+
+describe('decodeText', () => {
+  it('falls back to Windows-1252 when the bytes are not UTF-8', () => {
+    expect(decodeText(new Uint8Array([0x43, 0x61, 0x66, 0xe9]))).toEqual({ text: 'Café', encoding: 'Windows-1252' });
+    expect(decodeText(new Uint8Array([0xef, 0xbb, 0xbf, 0x41]))).toEqual({ text: 'A', encoding: 'UTF-8 (BOM)' });
+  });
+});
@@ -0,0 +1,56 @@
+// src/test/gst.test.ts
+import { describe, expect, it } from 'vitest';
+import { CartItem } from '../types';
+import { calculateTaxInvoice, getPlaceOfSupply, getTaxType, isValidGstin, stateFromGstin } from '../utils/gst';
+
+const line = (price: number, gst: number, discount = 0): CartItem => ({
+  product: { productId: `P-${price}-${gst}`, name: 'Item', price, gst, quantity: 0, companyName: 'Bosch', shopName: 'Sahajanand Sales' },
+  quantity: 1,
+  selectedShop: 'Sahajanand Sales',
+  discount,
+  discountType: 'percentage',
+});
+
+describe('place of supply', () => {
+  it("is the buyer's registered state, or the seller's for a counter sale", () => {
+    expect(isValidGstin('27abcde1234f1z5')).toBe(true);
+    expect(stateFromGstin('27ABCDE1234F1Z5')).toBe('27');
+    expect(getPlaceOfSupply('24', '27ABCDE1234F1Z5')).toBe('27');
+    expect(getPlaceOfSupply('24', '27ABCDE1234')).toBe('24');
+    expect(getPlaceOfSupply('24')).toBe('24');
+  });
+
+  it('charges IGST only when both states are known and differ', () => {
+    expect(getTaxType('24', '27')).toBe('inter');
+    expect(getTaxType('24', '24')).toBe('intra');
+    expect(getTaxType('24', '')).toBe('intra');
+    expect(getTaxType(undefined, '27')).toBe('intra');
+  });
+});
+
+describe('calculateTaxInvoice', () => {
+  const items = [line(99.99, 18), line(250, 12, 10)];
+
+  it('splits tax within the state into equal CGST and SGST per rate', () => {
+    const invoice = calculateTaxInvoice(items, '24', '24');
+    expect(invoice.taxSummary).toEqual([
+      { rate: 12, taxableValue: 225, cgst: 13.5, sgst: 13.5, igst: 0 },
+      { rate: 18, taxableValue: 99.99, cgst: 9, sgst: 9, igst: 0 },
+    ]);
+    expect(invoice).toMatchObject({ taxType: 'intra', taxableValue: 324.99, cgst: 22.5, sgst: 22.5, igst: 0, gst: 45 });
+  });
+
+  it('charges the whole rate as IGST across states', () => {
+    const invoice = calculateTaxInvoice(items, '24', '27');
+    expect(invoice.taxSummary.map(row => [row.rate, row.cgst, row.sgst, row.igst])).toEqual([[12, 0, 0, 27], [18, 0, 0, 18]]);
+    expect(invoice).toMatchObject({ taxType: 'inter', igst: 45, gst: 45 });
+  });
+
+  it('rounds tax per rate to the paisa and the total to the rupee', () => {
+    // Per line each half would round to nothing; per rate it is 1 paisa
+    const small = calculateTaxInvoice([line(0.03, 18), line(0.03, 18)], '24', '24');
+    expect(small).toMatchObject({ taxableValue: 0.06, cgst: 0.01, sgst: 0.01, gst: 0.02, total: 0, roundOff: -0.08 });
+
+    expect(calculateTaxInvoice(items, '24', '24')).toMatchObject({ total: 370, roundOff: 0.01 });
+  });
+});
@@ -0,0 +1,38 @@
+// src/test/invoiceNumber.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  defaultInvoicePrefix,
+  formatInvoiceNumber,
+  getFinancialYear,
+  getInvoicePrefix,
+  nextInvoiceNumber,
+} from '../utils/invoiceNumber';
+
+describe('getFinancialYear', () => {
+  it('rolls over on 1 April', () => {
+    expect(getFinancialYear(new Date('2026-03-31T12:00:00+05:30'))).toBe('2025-26');
+    expect(getFinancialYear(new Date('2026-04-01T12:00:00+05:30'))).toBe('2026-27');
+    expect(getFinancialYear(new Date('2099-12-31T12:00:00+05:30'))).toBe('2099-00');
+  });
+
+  it('reads the date in IST whatever the time zone', () => {
+    // 00:30 IST on 1 April is still 31 March in UTC
+    expect(getFinancialYear(new Date('2026-03-31T19:00:00Z'))).toBe('2026-27');
+    expect(getFinancialYear(new Date('2026-03-31T18:29:59Z'))).toBe('2025-26');
+  });
+});
+
+describe('invoice numbers', () => {
+  it('lead with the configured prefix or the business initials', () => {
+    expect(getInvoicePrefix({ name: 'Sahajanand Sales', invoicePrefix: 'SAH' })).toBe('SAH');
+    expect(getInvoicePrefix({ name: 'Sahajanand Sales & Co.' })).toBe('SSC');
+    expect(defaultInvoicePrefix('  ')).toBe('INV');
+    expect(formatInvoiceNumber('SS', '2026-27', 42)).toBe('SS/2026-27/00042');
+  });
+
+  it('continue from the highest number this year and restart in the next', () => {
+    const issued = ['SS/2025-26/00041', 'SS/2025-26/00007', 'XY/2025-26/00099', 'SS/2024-25/00500'];
+    expect(nextInvoiceNumber(issued, 'SS', new Date('2026-03-31T12:00:00+05:30'))).toBe('SS/2025-26/00042');
+    expect(nextInvoiceNumber(issued, 'SS', new Date('2026-04-01T12:00:00+05:30'))).toBe('SS/2026-27/00001');
+  });
+});
@@ -0,0 +1,55 @@
+// src/test/orderRules.test.ts
+import { describe, expect, it } from 'vitest';
+import { getOrderRules, minimumQuantity, quantityProblems, snapQuantity, stepQuantity } from '../utils/orderRules';
+
+const boxed = { minOrderQty: 12, packSize: 5 };
+const loose = {};
+
+describe('getOrderRules', () => {
+  it('treats missing, fractional and non-numeric rules as whole numbers of at least 1', () => {
+    expect(getOrderRules(loose)).toEqual({ minOrderQty: 1, packSize: 1 });
+    expect(getOrderRules({ minOrderQty: 2.5, packSize: 0 })).toEqual({ minOrderQty: 2, packSize: 1 });
+    expect(getOrderRules({ minOrderQty: '10' as unknown as number })).toEqual({ minOrderQty: 10, packSize: 1 });
+  });
+});
+
+describe('snapQuantity', () => {
+  it('rounds up to the smallest whole pack at or above the minimum', () => {
+    expect(minimumQuantity(boxed)).toBe(15);
+    expect(snapQuantity(boxed, 7)).toBe(15);
+    expect(snapQuantity(boxed, 16)).toBe(20);
+    expect(snapQuantity(boxed, 20)).toBe(20);
+  });
+
+  it('rounds fractional quantities up to the next pack', () => {
+    expect(snapQuantity(loose, 1.5)).toBe(2);
+    expect(snapQuantity(boxed, 15.5)).toBe(20);
+  });
+});
+
+describe('stepQuantity', () => {
+  it('steps in whole packs without going below the minimum', () => {
+    expect(stepQuantity(boxed, 15, 1)).toBe(20);
+    expect(stepQuantity(boxed, 20, -1)).toBe(15);
+    expect(stepQuantity(boxed, 15, -1)).toBe(15);
+  });
+
+  it('steps a fractional quantity onto the pack grid', () => {
+    expect(stepQuantity(loose, 1.5, 1)).toBe(2);
+    expect(stepQuantity(loose, 1.5, -1)).toBe(1);
+    expect(stepQuantity(boxed, 17.5, -1)).toBe(15);
+  });
+});
+
+describe('quantityProblems', () => {
+  it('names each rule a quantity breaks', () => {
+    expect(quantityProblems(boxed, 20)).toEqual([]);
+    expect(quantityProblems(boxed, 10)).toEqual(['below the minimum order of 12']);
+    expect(quantityProblems(boxed, 7)).toEqual(['below the minimum order of 12', 'not a multiple of the pack size 5']);
+  });
+
+  it('flags fractions of a pack, which need an override', () => {
+    expect(quantityProblems(loose, 1.5)).toEqual(['not a multiple of the pack size 1']);
+    expect(quantityProblems(loose, 2)).toEqual([]);
+  });
+});
@@ -19,15 +19,55 @@ export interface Product {
   dcat?: string;
   sap?: string;
   minOrderQty?: number;
+  packSize?: number; // Sold only in multiples of this quantity
+  hsn?: string; // HSN / SAC code printed on tax invoices
+  priceHistory?: (PriceChange | FieldHistoryChange)[]; // Oldest first
+  sheet?: string; // Workbook sheet the product was imported from
   // Add any other fields from your Excel/PDF files
 }
 
+// One recorded change to a product's price
+export interface PriceChange {
+  date: Date;
+  previousPrice: number;
+  price: number;
+  source: string; // Price list file name, or 'Manual edit'
+  changedBy?: string;
+}
+
+// One recorded change to another field a price list update may change
+export interface FieldHistoryChange {
+  date: Date;
+  field: 'priceTiers' | 'minOrderQty' | 'packSize' | 'stock';
+  from: unknown;
+  to: unknown;
+  source: string;
+  changedBy?: string;
+}
+
 export interface CartItem {
   product: Product;
   quantity: number;
   selectedShop: string;
   discount: number;
   discountType: 'percentage' | 'amount';
+  quantityOverride?: QuantityOverride; // Set when the quantity breaks MOQ or pack rules
+  discountRule?: AppliedDiscount; // Scheme the discount was taken from
+  discountOverridden?: boolean; // Discount typed in by hand; schemes leave the line alone
+}
+
+// The discount scheme a cart line was priced by, as described on the line
+export interface AppliedDiscount {
+  ruleId: string;
+  label: string; // e.g. "Dealers · DCAT 12"
+}
+
+// Who allowed a quantity outside the product's MOQ / pack rules, and why
+export interface QuantityOverride {
+  by: string;
+  at: Date;
+  reason: string;
+  problems: string[]; // The rules broken, as worded when overriding
 }
 
 export interface Bill {
@@ -41,14 +81,250 @@ id: string;
   finalAmount: number;
   customerName?: string;
   customerPhone?: string;
+  customerId?: string; // Set when the buyer was picked from the customer master
+  quotationId?: string; // The quotation this bill was converted from
   date: Date;
   billNumber: string;
+  createdBy?: { id: string; name: string }; // User who issued the bill
+  // Tax invoice details. Bills issued before GST invoicing have none of these.
+  seller?: BusinessProfile; // As it was when the bill was issued
+  customerGstin?: string;
+  customerAddress?: string;
+  placeOfSupply?: string; // GST state code
+  taxType?: TaxType;
+  taxableValue?: number;
+  cgst?: number;
+  sgst?: number;
+  igst?: number;
+  taxSummary?: TaxSummaryRow[];
+  roundOff?: number; // Added to reach the rupee-rounded total
+  amountInWords?: string; // The total as printed, e.g. "Rupees One Lakh Only"
+  dueDate?: Date; // When any unpaid balance falls due; unset on bills from before payment tracking
+}
+
+// 'credit' is only a way of settling a bill at checkout: that part stays as
+// the bill's balance and is never recorded as a payment.
+export type PaymentMode = 'cash' | 'upi' | 'cheque' | 'bank' | 'credit';
+
+// Money received against a bill. A bill may be settled by several payments
+// in different modes; whatever is not yet paid is on credit.
+export interface Payment {
+  id: string;
+  billId: string;
+  date: Date;
+  amount: number;
+  mode: PaymentMode;
+  reference?: string; // UPI transaction id, cheque number, etc.
+  receivedBy?: { id: string; name: string };
+}
+
+// The shop's own details, printed as the seller on tax invoices
+export interface BusinessProfile {
+  name: string;
+  gstin?: string;
+  stateCode: string; // Two-digit GST state code, e.g. '24' for Gujarat
+  address?: string;
+  phone?: string;
+  email?: string;
+  invoicePrefix?: string; // Leads every bill number; the business initials when unset
+}
+
+// Page layouts bills can be printed in. 'letterhead' leaves the top of an
+// A4 page blank for pre-printed stationery.
+export type InvoiceTemplate = 'a4' | 'a5' | 'letterhead';
+
+// Where customers can pay, printed at the foot of invoices
+export interface BankDetails {
+  accountName?: string;
+  accountNumber: string;
+  ifsc: string;
+  bankName?: string;
+  branch?: string;
+  upiId?: string;
+}
+
+// How bills are printed. Kept apart from the business profile, which is
+// copied onto every bill.
+export interface InvoiceSettings {
+  template: InvoiceTemplate;
+  logo?: string; // PNG or JPEG data URL
+  bank?: BankDetails;
+  terms?: string; // Terms and conditions, one per line
+  footer?: string; // Closing line; a thank-you when unset
+}
+
+// 'intra' splits tax into CGST + SGST; 'inter' charges IGST
+export type TaxType = 'intra' | 'inter';
+
+// One line of the rate-wise tax summary on an invoice
+export interface TaxSummaryRow {
+  rate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
 }
 export interface Company {
   name: string;
-  productCount: number;
-  totalSales: number;
+  productCount: number; // Products in the catalog with this companyName
+  totalSales: number; // Billed line totals for those products
+  supplier?: Supplier; // Master record, when one has been saved
+}
+
+// Product fields a spreadsheet column can be imported into. 'priceTier'
+// marks a quantity-break column whose header is the break quantity.
+export type ImportField =
+  | 'productId'
+  | 'name'
+  | 'description'
+  | 'category'
+  | 'catalogueNo'
+  | 'obiArticleNo'
+  | 'eCode'
+  | 'dcat'
+  | 'sap'
+  | 'price'
+  | 'priceTier'
+  | 'stock'
+  | 'quantity'
+  | 'minOrderQty'
+  | 'packSize'
+  | 'hsn'
+  | 'gst';
+
+// How one supplier's spreadsheet columns map onto Product fields
+export interface ColumnMapping {
+  columns: { [header: string]: ImportField | null }; // null = ignore column
+  updatedAt: Date;
+}
+
+// How a supplier's PDF price lists are read: 'columns' rebuilds the table
+// from text positions, 'lines' matches whole text lines, 'auto' tries both
+export type PdfLayout = 'auto' | 'columns' | 'lines';
+
+export interface ImportProfile {
+  pdfLayout: PdfLayout;
+  columnMapping?: ColumnMapping; // Saved spreadsheet column mapping
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  gstin?: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  defaultDiscount: number; // Percentage pre-filled on new cart lines
+  currency: string; // Currency the supplier's price lists are in
+  exchangeRate: number; // INR per unit of currency, 1 for INR
+  importProfile: ImportProfile;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone?: string;
+  gstin?: string;
+  billingAddress?: string;
+  shippingAddress?: string;
+  stateCode?: string; // GST state code, taken from the GSTIN when there is one
+  creditLimit?: number; // In rupees; no limit when unset
+  group?: string; // Customer group for discount schemes, e.g. 'Dealers'
+  notes?: string;
+}
+
+// One cell of the discount matrix: a percentage off every product in a
+// discount category (DCAT), for one customer or for a customer group.
+// Exactly one of customerId and group is set.
+export interface DiscountRule {
+  id: string;
+  dcat: string;
+  customerId?: string;
+  group?: string;
+  percent: number;
+}
+
+// 'expired' is never stored; a draft or sent quotation past its validity
+// date shows as expired
+export type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'expired';
+
+// A price quote. Carries the same buyer, seller and tax details as a bill.
+export interface Quotation extends Omit<Bill, 'billNumber' | 'gstAmount' | 'finalAmount' | 'quotationId'> {
+  quoteNumber: string;
+  validUntil: Date;
+  status: QuotationStatus;
+  notes?: string;
+  billId?: string; // The bill it was converted into
+}
+
+// Buyer details entered at the Cart, kept with the cart until it is billed
+export interface CartDetails {
+  customerId?: string; // Customer-master record the details came from
+  customerName: string;
+  customerPhone: string;
+  customerGstin: string;
+  customerAddress: string;
+  placeOfSupply: string; // Empty follows the buyer's GSTIN
+  quotationId?: string; // Set when the cart was loaded from a quotation
+}
+
+// A line returned against a bill. `lineTotal` is the share of the bill
+// line's discounted value being credited.
+export interface CreditNoteItem {
+  billItemIndex: number; // Position of the line in the original bill
+  product: Product; // As it was billed
+  quantity: number;
+  lineTotal: number;
+  restock: boolean; // Returned goods put back into stock
+}
+
+// A credit note reversing part or all of a bill, with the tax split the
+// bill was issued with
+export interface CreditNote {
+  id: string;
+  noteNumber: string;
+  billId: string;
+  billNumber: string;
+  date: Date;
+  reason?: string;
+  items: CreditNoteItem[];
+  seller?: BusinessProfile;
+  customerName?: string;
+  customerPhone?: string;
+  customerId?: string;
+  customerGstin?: string;
+  customerAddress?: string;
+  placeOfSupply?: string;
+  taxType: TaxType;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  gst: number;
+  taxSummary: TaxSummaryRow[];
+  roundOff: number;
+  total: number; // Amount credited to the customer
+  createdBy?: { id: string; name: string };
+}
+
+// A cart parked while another customer is served
+export interface HeldCart {
+  id: string;
+  name: string;
+  items: CartItem[];
+  details: CartDetails;
+  parkedAt: Date;
+}
+
+export type Role = 'owner' | 'manager' | 'salesperson';
+
+export interface User {
+  id: string;
+  name: string;
+  shopName: string;
+  email?: string;
+  role?: Role;
 }
 
 export type Theme = 'light' | 'dark';
-export type ViewMode = 'dashboard' | 'search' | 'upload' | 'cart' | 'bills' | 'products'| 'companies'; 
+export type ViewMode = 'dashboard' | 'search' | 'upload' | 'cart' | 'bills' | 'products'| 'companies' | 'suppliers' | 'customers' | 'quotations' | 'receivables' | 'settings' | 'team'; 
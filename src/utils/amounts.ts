@@ -0,0 +1,56 @@
+// utils/amounts.ts
+
+// Rupee amounts as Indian invoices print them: lakh and crore digit grouping
+// and the grand total in words. Shared by the screens, the invoice PDF and
+// the API.
+
+// Amounts that round to zero paise are shown without a minus sign
+const isNegative = (amount: number) => amount <= -0.005;
+
+// 1234567.5 → "12,34,567.50": the last three digits, then pairs
+export const formatIndianNumber = (amount: number) => {
+  const [whole, paise] = Math.abs(amount).toFixed(2).split('.');
+  const grouped = whole.length > 3
+    ? `${whole.slice(0, -3).replace(/\B(?=(\d{2})+(?!\d))/g, ',')},${whole.slice(-3)}`
+    : whole;
+  return `${isNegative(amount) ? '-' : ''}${grouped}.${paise}`;
+};
+
+// -1234567.5 → "-₹12,34,567.50"
+export const formatRupees = (amount: number) =>
+  `${isNegative(amount) ? '-' : ''}₹${formatIndianNumber(Math.abs(amount))}`;
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const twoDigitsInWords = (n: number) =>
+  n < 20 ? ONES[n] : [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(' ');
+
+const threeDigitsInWords = (n: number) =>
+  [n >= 100 ? `${ONES[Math.floor(n / 100)]} Hundred` : '', twoDigitsInWords(n % 100)].filter(Boolean).join(' ');
+
+// Whole numbers counted in crores, lakhs, thousands and hundreds
+const numberInWords = (n: number): string => {
+  if (n === 0) return 'Zero';
+  const crores = Math.floor(n / 10000000);
+  const lakhs = Math.floor(n / 100000) % 100;
+  const thousands = Math.floor(n / 1000) % 100;
+  return [
+    crores ? `${numberInWords(crores)} Crore` : '',
+    lakhs ? `${twoDigitsInWords(lakhs)} Lakh` : '',
+    thousands ? `${twoDigitsInWords(thousands)} Thousand` : '',
+    threeDigitsInWords(n % 1000),
+  ].filter(Boolean).join(' ');
+};
+
+// 12405.5 → "Rupees Twelve Thousand Four Hundred Five and Fifty Paise Only"
+export const amountInWords = (amount: number) => {
+  const totalPaise = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(totalPaise / 100);
+  const paise = totalPaise % 100;
+  if (rupees === 0 && paise > 0) return `${twoDigitsInWords(paise)} Paise Only`;
+  return `Rupees ${numberInWords(rupees)}${paise > 0 ? ` and ${twoDigitsInWords(paise)} Paise` : ''} Only`;
+};
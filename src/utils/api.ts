@@ -0,0 +1,351 @@
+// utils/api.ts
+import { Product, Bill, BusinessProfile, Company, CreditNote, Customer, DiscountRule, InvoiceSettings, Payment, Quotation, QuotationStatus, Role, Supplier, User } from '../types';
+
+// The API is optional: without VITE_API_URL the app runs purely on local
+// IndexedDB storage.
+const API_URL = (import.meta.env.VITE_API_URL || '').replace(/\/$/, '');
+
+export const isApiEnabled = Boolean(API_URL);
+
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+}
+
+export interface UploadResult {
+  success: number;
+  skipped: number;
+  errors: string[];
+  warnings: string[];
+}
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+// Auth tokens. The refresh token survives reloads in localStorage; the
+// short-lived access token is re-issued from it when needed.
+const REFRESH_TOKEN_KEY = 'sahajanand-refresh-token';
+
+export interface AuthSession {
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+}
+
+let accessToken: string | null = null;
+let refreshPromise: Promise<boolean> | null = null;
+let sessionExpiredHandler: (() => void) | null = null;
+
+const getRefreshToken = () => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+const storeSession = (session: AuthSession) => {
+  accessToken = session.accessToken;
+  localStorage.setItem(REFRESH_TOKEN_KEY, session.refreshToken);
+  return session;
+};
+
+const clearSession = () => {
+  accessToken = null;
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+export const hasSession = () => Boolean(getRefreshToken());
+
+// Called when the refresh token is rejected so the app can sign the user out
+export const onSessionExpired = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+// Concurrent 401s share a single refresh request
+const refreshSession = (): Promise<boolean> => {
+  if (refreshPromise) return refreshPromise;
+
+  refreshPromise = (async () => {
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) return false;
+    try {
+      const response = await fetch(`${API_URL}/api/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      });
+      if (!response.ok) {
+        clearSession();
+        sessionExpiredHandler?.();
+        return false;
+      }
+      storeSession(await response.json());
+      return true;
+    } catch {
+      // Network failure: keep the session and let the caller report the error
+      return false;
+    } finally {
+      refreshPromise = null;
+    }
+  })();
+
+  return refreshPromise;
+};
+
+const request = async <T>(path: string, options: RequestInit = {}, retry = true): Promise<T> => {
+  if (!accessToken && retry && getRefreshToken() && !path.startsWith('/auth/')) {
+    await refreshSession();
+  }
+
+  const isFormData = options.body instanceof FormData;
+  const response = await fetch(`${API_URL}/api${path}`, {
+    ...options,
+    headers: {
+      ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      ...options.headers,
+    },
+  });
+
+  if (response.status === 401 && retry && !path.startsWith('/auth/')) {
+    if (await refreshSession()) return request<T>(path, options, false);
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(response.status, body?.error || `Request failed with status ${response.status}`);
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+const toQuery = (params: Record<string, string | number | undefined>) => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  });
+  const text = query.toString();
+  return text ? `?${text}` : '';
+};
+
+// Auth
+
+export const login = async (email: string, password: string) =>
+  storeSession(await request<AuthSession>('/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ email, password }),
+  }));
+
+export const register = async (details: { name: string; email: string; password: string; shopName: string }) =>
+  storeSession(await request<AuthSession>('/auth/register', {
+    method: 'POST',
+    body: JSON.stringify(details),
+  }));
+
+export const logout = async () => {
+  try {
+    if (!accessToken) await refreshSession();
+    if (accessToken) {
+      await request<void>('/auth/logout', { method: 'POST' }, false);
+    }
+  } catch (error) {
+    // Signing out locally still succeeds if the server cannot be reached
+    console.warn('Failed to revoke session on server:', error);
+  } finally {
+    clearSession();
+  }
+};
+
+// Users
+
+export const fetchUsers = () => request<User[]>('/users');
+
+export const addUser = (details: { name: string; email: string; password: string }) =>
+  request<User>('/users', {
+    method: 'POST',
+    body: JSON.stringify(details),
+  });
+
+export const updateUserRole = (userId: string, role: Role) =>
+  request<User>(`/users/${encodeURIComponent(userId)}/role`, {
+    method: 'PUT',
+    body: JSON.stringify({ role }),
+  });
+
+// Products
+
+export const fetchProducts = (params: {
+  search?: string;
+  company?: string;
+  category?: string;
+  fileSource?: string;
+  page?: number;
+  limit?: number;
+} = {}) => request<Paginated<Product>>(`/products${toQuery(params)}`);
+
+// Pages through the whole catalog, handing each page to onPage as it arrives
+export const fetchAllProducts = async (onPage: (products: Product[]) => void, limit = 500) => {
+  let page = 1;
+  let pages = 1;
+  do {
+    const result = await fetchProducts({ page, limit });
+    onPage(result.items);
+    pages = result.pages;
+    page++;
+  } while (page <= pages);
+};
+
+export const createProducts = (products: Product[], fileName?: string) =>
+  request<{ inserted: number; skipped: number }>('/products', {
+    method: 'POST',
+    body: JSON.stringify({ products, fileName }),
+  });
+
+export const updateProduct = (product: Product) =>
+  request<Product>(`/products/${encodeURIComponent(product.productId)}`, {
+    method: 'PUT',
+    body: JSON.stringify(product),
+  });
+
+export const deleteProduct = (productId: string) =>
+  request<void>(`/products/${encodeURIComponent(productId)}`, { method: 'DELETE' });
+
+export const deleteProductsByFile = (fileName: string) =>
+  request<{ deleted: number }>(`/products${toQuery({ fileSource: fileName })}`, { method: 'DELETE' });
+
+// Bills
+
+export const fetchBills = (params: { search?: string; page?: number; limit?: number } = {}) =>
+  request<Paginated<Bill>>(`/bills${toQuery(params)}`);
+
+// Buyer details and line items of a bill or quotation. The server prices
+// and taxes them itself, so totals are not sent.
+const toDocumentBody = (document: Bill | Quotation) => ({
+  id: document.id,
+  customerName: document.customerName,
+  customerPhone: document.customerPhone,
+  customerId: document.customerId,
+  customerGstin: document.customerGstin,
+  customerAddress: document.customerAddress,
+  placeOfSupply: document.placeOfSupply,
+  items: document.items.map(item => ({
+    productId: item.product.productId,
+    hsn: item.product.hsn,
+    quantity: item.quantity,
+    discount: item.discount,
+    discountType: item.discountType,
+    selectedShop: item.selectedShop,
+    quantityOverride: item.quantityOverride && { reason: item.quantityOverride.reason },
+    discountOverridden: item.discountOverridden,
+  })),
+});
+
+// The server assigns the bill number and date, and the due date from
+// `creditDays`; the returned bill is the one to keep and print
+export const createBill = (bill: Bill, creditDays = 0) =>
+  request<Bill>('/bills', {
+    method: 'POST',
+    body: JSON.stringify({ ...toDocumentBody(bill), quotationId: bill.quotationId, creditDays }),
+  });
+
+// Credit notes
+
+export const fetchCreditNotes = () => request<CreditNote[]>('/credit-notes');
+
+// Only the returned lines are sent; the server works out the credit from
+// the bill and assigns the number and date
+export const createCreditNote = (note: CreditNote) =>
+  request<CreditNote>('/credit-notes', {
+    method: 'POST',
+    body: JSON.stringify({
+      id: note.id,
+      billId: note.billId,
+      reason: note.reason,
+      items: note.items.map(({ billItemIndex, quantity, restock }) => ({ billItemIndex, quantity, restock })),
+    }),
+  });
+
+// Payments
+
+export const fetchPayments = () => request<Payment[]>('/payments');
+
+export const recordPayment = (payment: Payment) =>
+  request<Payment>('/payments', { method: 'POST', body: JSON.stringify(payment) });
+
+// Quotations
+
+export const fetchQuotations = () => request<Quotation[]>('/quotations');
+
+// Numbered and dated by the server like bills; valid for `validityDays`
+// from the server's date
+export const createQuotation = (quotation: Quotation, validityDays: number) =>
+  request<Quotation>('/quotations', {
+    method: 'POST',
+    body: JSON.stringify({ ...toDocumentBody(quotation), validityDays, notes: quotation.notes }),
+  });
+
+export const updateQuotationStatus = (id: string, status: QuotationStatus) =>
+  request<Quotation>(`/quotations/${encodeURIComponent(id)}/status`, {
+    method: 'PUT',
+    body: JSON.stringify({ status }),
+  });
+
+// Companies
+
+export const fetchCompanies = () => request<Company[]>('/companies');
+
+export const createSupplier = (supplier: Supplier) =>
+  request<Supplier>('/companies', { method: 'POST', body: JSON.stringify(supplier) });
+
+export const updateSupplier = (supplier: Supplier) =>
+  request<Supplier>(`/companies/${encodeURIComponent(supplier.id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(supplier),
+  });
+
+export const deleteSupplier = (id: string) =>
+  request<void>(`/companies/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+// Customers
+
+export const fetchCustomers = () => request<Customer[]>('/customers');
+
+export const createCustomer = (customer: Customer) =>
+  request<Customer>('/customers', { method: 'POST', body: JSON.stringify(customer) });
+
+export const updateCustomer = (customer: Customer) =>
+  request<Customer>(`/customers/${encodeURIComponent(customer.id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(customer),
+  });
+
+export const deleteCustomer = (id: string) =>
+  request<void>(`/customers/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+// Settings
+
+export const fetchSettings = () =>
+  request<{ business?: BusinessProfile; invoice?: InvoiceSettings; discountRules?: DiscountRule[] }>('/settings');
+
+export const updateBusiness = (business: BusinessProfile) =>
+  request<BusinessProfile>('/settings/business', { method: 'PUT', body: JSON.stringify(business) });
+
+export const updateInvoiceSettings = (invoice: InvoiceSettings) =>
+  request<InvoiceSettings>('/settings/invoice', { method: 'PUT', body: JSON.stringify(invoice) });
+
+export const updateDiscountRules = (rules: DiscountRule[]) =>
+  request<DiscountRule[]>('/settings/discount-rules', { method: 'PUT', body: JSON.stringify(rules) });
+
+// Uploads
+
+export const uploadFiles = (files: File[], supplierId: string) => {
+  const body = new FormData();
+  files.forEach(file => body.append('files', file));
+  body.append('supplierId', supplierId);
+  return request<UploadResult>('/uploads', { method: 'POST', body });
+};
@@ -0,0 +1,66 @@
+// utils/billPdf.ts
+import { BankDetails, Bill, BusinessProfile, CreditNote, InvoiceSettings, Payment } from '../types';
+import { amountInWords } from './amounts';
+import { getReturnedQuantities } from './creditNotes';
+import { cartItemRow, describePayments, downloadInvoicePdf } from './invoicePdf';
+import { DEFAULT_INVOICE_FOOTER } from './invoiceSettings';
+
+// The bill PDF in the shop's chosen invoice template, downloaded from the
+// Cart when a bill is issued and from the Bills screen afterwards.
+
+export interface BillPdfOptions {
+  business: BusinessProfile; // For bills issued before the seller was copied onto them
+  invoice: InvoiceSettings;
+  payments: Payment[];
+  creditNotes: CreditNote[]; // Returns are noted under the lines they reduce
+}
+
+const describeBank = (bank: BankDetails) => [
+  bank.accountName,
+  `A/c no: ${bank.accountNumber}`,
+  `IFSC: ${bank.ifsc}`,
+  [bank.bankName, bank.branch].filter(Boolean).join(', '),
+  bank.upiId ? `UPI: ${bank.upiId}` : '',
+].filter((line): line is string => !!line);
+
+export const downloadBillPdf = (bill: Bill, { business, invoice, payments, creditNotes }: BillPdfOptions) => {
+  const returned = getReturnedQuantities(bill, creditNotes);
+  const payment = describePayments(bill, payments, creditNotes);
+
+  return downloadInvoicePdf({
+    title: bill.taxSummary ? 'Tax Invoice' : 'Bill Receipt',
+    number: bill.billNumber,
+    fileName: `bill_${bill.billNumber.replace(/\//g, '-')}.pdf`,
+    references: [
+      [`Invoice No: ${bill.billNumber}`, `Date: ${new Date(bill.date).toLocaleDateString()}`],
+      ...(bill.customerName && !bill.seller ? [[`Customer: ${bill.customerName}`] as [string]] : []),
+      ...(bill.createdBy ? [[`Billed by: ${bill.createdBy.name}`] as [string]] : []),
+    ],
+    document: bill,
+    business: bill.seller || business,
+    settings: invoice,
+    rows: bill.items.map((item, index) => {
+      const row = cartItemRow(item, !!bill.taxSummary);
+      return returned[index] > 0
+        ? { ...row, notes: [...row.notes, `Returned: ${returned[index]} of ${item.quantity}`] }
+        : row;
+    }),
+    totals: [
+      { label: 'Subtotal', amount: bill.subtotal },
+      ...(bill.totalDiscount > 0 ? [{ label: 'Discount', amount: -bill.totalDiscount }] : []),
+      // Tax invoices split GST by rate in the tax summary instead
+      ...(bill.taxSummary ? [] : [{ label: 'GST', amount: bill.gst }]),
+    ],
+    total: { label: 'Total', amount: bill.total },
+    totalInWords: bill.amountInWords || amountInWords(bill.total),
+    blocks: [
+      ...(payment ? [payment] : []),
+      ...(invoice.bank ? [{ title: 'Bank details', lines: describeBank(invoice.bank) }] : []),
+      ...(invoice.terms?.trim() ? [{ title: 'Terms & conditions', lines: invoice.terms.trim().split('\n') }] : []),
+    ],
+    footer: [
+      invoice.footer?.trim() || DEFAULT_INVOICE_FOOTER,
+      `Generated on ${new Date().toLocaleString()}`,
+    ],
+  });
+};
@@ -0,0 +1,59 @@
+// utils/billing.ts
+import { CartItem, Product } from '../types';
+
+// Shared by the Cart screen and the API so bill totals are computed the same
+// way on both sides.
+
+export interface PriceBreak {
+  minQty: number;
+  price: number; // Unit price from minQty upwards
+}
+
+// Quantity breaks from the tier columns of a price list, smallest quantity
+// first. Tier keys are the column headers ("1.0", "6", "11+"); keys without
+// a number are ignored.
+export const getPriceBreaks = (product: Pick<Product, 'priceTiers'>): PriceBreak[] =>
+  Object.entries(product.priceTiers || {})
+    .map(([key, price]) => ({ minQty: parseFloat(key.match(/\d+(\.\d+)?/)?.[0] || ''), price: Number(price) }))
+    .filter(tier => tier.minQty > 0 && tier.price > 0)
+    .sort((a, b) => a.minQty - b.minQty);
+
+// The highest break the quantity reaches, or the list price below the first
+export const getUnitPrice = (product: Pick<Product, 'price' | 'priceTiers'>, quantity: number) => {
+  const breaks = getPriceBreaks(product);
+  const applied = breaks.filter(tier => quantity >= tier.minQty).pop();
+  if (applied) return applied.price;
+  return product.price > 0 ? product.price : breaks[0]?.price ?? product.price;
+};
+
+// The next break that lowers the unit price, for "buy 6 for ₹X each" hints
+export const getNextPriceBreak = (product: Pick<Product, 'price' | 'priceTiers'>, quantity: number) => {
+  const current = getUnitPrice(product, quantity);
+  return getPriceBreaks(product).find(tier => tier.minQty > quantity && tier.price < current);
+};
+
+export const calculateItemBase = (item: CartItem) => getUnitPrice(item.product, item.quantity) * item.quantity;
+
+export const calculateItemDiscount = (item: CartItem) => {
+  const basePrice = calculateItemBase(item);
+  if (item.discountType === 'percentage') {
+    return (basePrice * item.discount) / 100;
+  }
+  return item.discount;
+};
+
+export const calculateItemTotal = (item: CartItem) =>
+  Math.max(0, calculateItemBase(item) - calculateItemDiscount(item));
+
+export const calculateTotals = (items: CartItem[]) => {
+  const subtotal = items.reduce((sum, item) => sum + calculateItemBase(item), 0);
+  const totalDiscount = items.reduce((sum, item) => sum + calculateItemDiscount(item), 0);
+  const afterDiscount = subtotal - totalDiscount;
+  const gst = items.reduce((sum, item) => {
+    const itemGst = item.product.gst || 0;
+    return sum + (calculateItemTotal(item) * itemGst) / 100;
+  }, 0);
+  const total = afterDiscount + gst;
+
+  return { subtotal, totalDiscount, gst, total };
+};
@@ -0,0 +1,169 @@
+// utils/catalogDiff.ts
+import { FieldHistoryChange, PriceChange, Product } from '../types';
+import { formatRupees } from './amounts';
+
+// Compares a supplier's new price list with the catalog so a re-import can
+// update prices instead of skipping every known productId.
+
+export type CatalogChangeKind = 'added' | 'removed' | 'priceUp' | 'priceDown' | 'changed';
+
+// Fields a price-list update may change on an existing product
+export type UpdatableField = 'price' | 'priceTiers' | 'minOrderQty' | 'packSize' | 'stock';
+
+export interface FieldChange {
+  field: UpdatableField;
+  from: unknown;
+  to: unknown;
+}
+
+export interface CatalogChange {
+  kind: CatalogChangeKind;
+  productId: string;
+  name: string;
+  existing?: Product; // Missing for added products
+  incoming?: Product; // Missing for removed products
+  fields: FieldChange[];
+  percentChange?: number; // Price change relative to the old price
+}
+
+export interface CatalogUpdate {
+  added: Product[];
+  updated: Product[];
+  removed: string[]; // productIds
+}
+
+const UPDATABLE_FIELDS: UpdatableField[] = ['price', 'priceTiers', 'minOrderQty', 'packSize', 'stock'];
+
+export const FIELD_LABELS: Record<UpdatableField, string> = {
+  price: 'Price',
+  priceTiers: 'Quantity-break prices',
+  minOrderQty: 'MOQ',
+  packSize: 'Pack size',
+  stock: 'Stock',
+};
+
+export const formatFieldValue = (field: UpdatableField, value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (field === 'price') return formatRupees(Number(value));
+  if (field === 'priceTiers') {
+    return Object.entries(value as Record<string, number>)
+      .map(([qty, price]) => `${qty}: ${formatRupees(price)}`)
+      .join(', ');
+  }
+  return String(value);
+};
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+const sameValue = (field: UpdatableField, a: unknown, b: unknown) => {
+  if (isEmpty(a) && isEmpty(b)) return true;
+  if (field === 'priceTiers') return JSON.stringify(a || {}) === JSON.stringify(b || {});
+  if (field === 'stock') return String(a ?? '') === String(b ?? '');
+  return Number(a) === Number(b);
+};
+
+// Products of `companyName` missing from `incoming` are reported as removed;
+// other suppliers' products are left alone. Fields the new list does not
+// provide are not treated as changes.
+export const diffCatalog = (current: Product[], incoming: Product[], companyName: string): CatalogChange[] => {
+  const currentById = new Map(current.map(product => [product.productId, product]));
+  const incomingIds = new Set<string>();
+  const changes: CatalogChange[] = [];
+
+  incoming.forEach(product => {
+    if (incomingIds.has(product.productId)) return;
+    incomingIds.add(product.productId);
+
+    const existing = currentById.get(product.productId);
+    if (!existing) {
+      changes.push({ kind: 'added', productId: product.productId, name: product.name, incoming: product, fields: [] });
+      return;
+    }
+
+    const fields = UPDATABLE_FIELDS
+      .filter(field => !isEmpty(product[field]) && !sameValue(field, existing[field], product[field]))
+      .map(field => ({ field, from: existing[field], to: product[field] }));
+    if (fields.length === 0) return;
+
+    const priceChange = fields.find(change => change.field === 'price');
+    const kind: CatalogChangeKind = priceChange
+      ? Number(priceChange.to) > Number(priceChange.from) ? 'priceUp' : 'priceDown'
+      : 'changed';
+    changes.push({
+      kind,
+      productId: product.productId,
+      name: existing.name,
+      existing,
+      incoming: product,
+      fields,
+      percentChange: priceChange && existing.price > 0
+        ? ((Number(priceChange.to) - existing.price) / existing.price) * 100
+        : undefined
+    });
+  });
+
+  current
+    .filter(product => product.companyName === companyName && !incomingIds.has(product.productId))
+    .forEach(product => {
+      changes.push({ kind: 'removed', productId: product.productId, name: product.name, existing: product, fields: [] });
+    });
+
+  return changes;
+};
+
+// Appends a price history entry when the price actually changed
+export const recordPriceChange = (
+  previous: Product,
+  updated: Product,
+  source: string,
+  changedBy?: string
+): Product => {
+  if (previous.price === updated.price) return updated;
+  return {
+    ...updated,
+    priceHistory: [
+      ...(previous.priceHistory || []),
+      { date: new Date(), previousPrice: previous.price, price: updated.price, source, changedBy }
+    ]
+  };
+};
+
+// Appends a history entry for every field an update changed: price changes
+// as before, other fields with their old and new values
+const recordFieldChanges = (
+  product: Product,
+  fields: FieldChange[],
+  source: string,
+  changedBy?: string
+): Product => {
+  const date = new Date();
+  const entries = fields.map(({ field, from, to }): PriceChange | FieldHistoryChange => field === 'price'
+    ? { date, previousPrice: Number(from), price: Number(to), source, changedBy }
+    : { date, field, from, to, source, changedBy });
+  return { ...product, priceHistory: [...(product.priceHistory || []), ...entries] };
+};
+
+// Turns the changes picked in the preview into products to add, update and
+// remove. Updated products keep their identity and import file; only the
+// changed fields are copied over, and each is recorded in the history.
+export const buildCatalogUpdate = (changes: CatalogChange[], changedBy?: string): CatalogUpdate => {
+  const update: CatalogUpdate = { added: [], updated: [], removed: [] };
+
+  changes.forEach(change => {
+    if (change.kind === 'added' && change.incoming) {
+      update.added.push(change.incoming);
+    } else if (change.kind === 'removed') {
+      update.removed.push(change.productId);
+    } else if (change.existing && change.incoming) {
+      const updated: Product = { ...change.existing };
+      change.fields.forEach(({ field, to }) => {
+        (updated as Record<UpdatableField, unknown>)[field] = to;
+      });
+      update.updated.push(
+        recordFieldChanges(updated, change.fields, change.incoming.fileSource || 'Price list update', changedBy)
+      );
+    }
+  });
+
+  return update;
+};
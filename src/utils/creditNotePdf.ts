@@ -0,0 +1,35 @@
+// utils/creditNotePdf.ts
+import { CreditNote } from '../types';
+import { amountInWords } from './amounts';
+import { downloadInvoicePdf } from './invoicePdf';
+
+// The credit note PDF, laid out like the tax invoice it reverses.
+
+export const downloadCreditNotePdf = (note: CreditNote) =>
+  downloadInvoicePdf({
+    title: 'Credit Note',
+    number: note.noteNumber,
+    fileName: `credit_note_${note.noteNumber.replace(/\//g, '-')}.pdf`,
+    references: [
+      [`Credit Note No: ${note.noteNumber}`, `Date: ${new Date(note.date).toLocaleDateString()}`],
+      [`Against Invoice No: ${note.billNumber}`],
+    ],
+    document: note,
+    business: note.seller,
+    rows: note.items.map(item => ({
+      code: item.product.productId || '',
+      description: item.product.name,
+      notes: item.restock ? [] : ['Not returned to stock'],
+      hsn: item.product.hsn || '',
+      quantity: item.quantity,
+      rate: item.quantity > 0 ? item.lineTotal / item.quantity : 0,
+      discount: '',
+      tax: `${Number(item.product.gst) || 0}%`,
+      amount: item.lineTotal,
+    })),
+    totals: [],
+    total: { label: 'Total credit', amount: note.total },
+    totalInWords: amountInWords(note.total),
+    blocks: note.reason ? [{ title: 'Reason', lines: [note.reason] }] : [],
+    footer: [`Generated on ${new Date().toLocaleString()}`],
+  });
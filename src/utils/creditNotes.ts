@@ -0,0 +1,114 @@
+// utils/creditNotes.ts
+import { Bill, CreditNote, CreditNoteItem, Product } from '../types';
+import { calculateItemTotal } from './billing';
+import { round2, summariseTax } from './gst';
+
+// Sales returns against issued bills, shared by the Bills screen and the API.
+
+export interface ReturnLine {
+  billItemIndex: number;
+  quantity: number;
+  restock: boolean;
+}
+
+// Quantity already returned on each bill line, across all its credit notes
+export const getReturnedQuantities = (bill: Bill, creditNotes: CreditNote[]) => {
+  const returned = bill.items.map(() => 0);
+  creditNotes
+    .filter(note => note.billId === bill.id)
+    .forEach(note => note.items.forEach(item => {
+      if (item.billItemIndex < returned.length) returned[item.billItemIndex] += item.quantity;
+    }));
+  return returned;
+};
+
+// Returns a list of problems with a return, empty when it can be credited
+export const validateReturn = (bill: Bill, creditNotes: CreditNote[], lines: ReturnLine[]): string[] => {
+  const problems: string[] = [];
+  const returned = getReturnedQuantities(bill, creditNotes);
+  const chosen = lines.filter(line => line.quantity !== 0);
+  if (chosen.length === 0) problems.push('Choose at least one item to return');
+
+  const seen = new Set<number>();
+  chosen.forEach(line => {
+    const item = bill.items[line.billItemIndex];
+    if (!item) {
+      problems.push(`Bill ${bill.billNumber} has no line ${line.billItemIndex + 1}`);
+      return;
+    }
+    if (seen.has(line.billItemIndex)) problems.push(`${item.product.name} is listed twice`);
+    seen.add(line.billItemIndex);
+
+    const remaining = item.quantity - returned[line.billItemIndex];
+    if (!Number.isInteger(line.quantity) || line.quantity < 0) {
+      problems.push(`${item.product.name}: return a whole number of units`);
+    } else if (line.quantity > remaining) {
+      problems.push(`${item.product.name}: only ${remaining} of ${item.quantity} left to return`);
+    }
+  });
+  return problems;
+};
+
+// Each returned line is credited its share of the billed line's discounted
+// value, and tax is reversed at the bill's rates and CGST/SGST or IGST
+// split. Shares are rounded cumulatively, so returning every unit over
+// several notes credits exactly the billed value.
+export const calculateCreditNote = (bill: Bill, creditNotes: CreditNote[], lines: ReturnLine[]) => {
+  const returned = getReturnedQuantities(bill, creditNotes);
+  const items: CreditNoteItem[] = lines
+    .filter(line => line.quantity > 0)
+    .map(line => {
+      const billed = bill.items[line.billItemIndex];
+      const value = calculateItemTotal(billed);
+      const before = returned[line.billItemIndex];
+      const share = (quantity: number) => round2((value * quantity) / billed.quantity);
+      return {
+        billItemIndex: line.billItemIndex,
+        product: billed.product,
+        quantity: line.quantity,
+        lineTotal: round2(share(before + line.quantity) - share(before)),
+        restock: line.restock,
+      };
+    });
+
+  const byRate = new Map<number, number>();
+  items.forEach(item => {
+    const rate = Number(item.product.gst) || 0;
+    byRate.set(rate, (byRate.get(rate) || 0) + item.lineTotal);
+  });
+
+  return { items, ...summariseTax(byRate, bill.taxType || 'intra') };
+};
+
+// The credit note for a return, carrying the bill's parties
+export const buildCreditNote = (
+  bill: Bill,
+  creditNotes: CreditNote[],
+  lines: ReturnLine[],
+  fields: Pick<CreditNote, 'id' | 'noteNumber' | 'date' | 'reason' | 'createdBy'>
+): CreditNote => ({
+  ...fields,
+  billId: bill.id,
+  billNumber: bill.billNumber,
+  seller: bill.seller,
+  customerName: bill.customerName,
+  customerPhone: bill.customerPhone,
+  customerId: bill.customerId,
+  customerGstin: bill.customerGstin,
+  customerAddress: bill.customerAddress,
+  placeOfSupply: bill.placeOfSupply,
+  ...calculateCreditNote(bill, creditNotes, lines),
+});
+
+// Puts the restocked lines back into the catalog's stock counts
+export const restockProducts = (products: Product[], note: CreditNote) => {
+  const restocked = new Map<string, number>();
+  note.items
+    .filter(item => item.restock)
+    .forEach(item => restocked.set(item.product.productId, (restocked.get(item.product.productId) || 0) + item.quantity));
+  if (restocked.size === 0) return products;
+  return products.map(product => {
+    const quantity = restocked.get(product.productId);
+    return quantity ? { ...product, quantity: (Number(product.quantity) || 0) + quantity } : product;
+  });
+};
@@ -0,0 +1,74 @@
+// utils/customers.ts
+import { Bill, Customer } from '../types';
+import { GST_STATES, isValidGstin, stateFromGstin } from './gst';
+
+// The customer master, shared by the Cart, the Customers screen and the API.
+
+export const createCustomer = (name: string, overrides: Partial<Customer> = {}): Customer => ({
+  id: `CUS-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  name: name.trim(),
+  ...overrides,
+});
+
+// Digits only, so "+91 98250 12345" and "9825012345" compare equal
+export const normalizePhone = (phone: string | undefined) => {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length > 10 && digits.startsWith('91') ? digits.slice(-10) : digits;
+};
+
+// Returns a list of problems with a customer record, empty when it is valid
+export const validateCustomer = (customer: Customer, others: Customer[]): string[] => {
+  const problems: string[] = [];
+  if (!customer.name.trim()) problems.push('Name is required');
+  const phone = normalizePhone(customer.phone);
+  if (customer.phone && phone.length !== 10) problems.push('Phone should have 10 digits');
+  if (phone && others.some(other => other.id !== customer.id && normalizePhone(other.phone) === phone)) {
+    problems.push(`Another customer already has the phone ${customer.phone}`);
+  }
+  if (customer.gstin) {
+    if (!isValidGstin(customer.gstin)) {
+      problems.push('GSTIN should be 15 characters, e.g. 24ABCDE1234F1Z5');
+    } else if (customer.stateCode && stateFromGstin(customer.gstin) !== customer.stateCode) {
+      problems.push('State does not match the GSTIN');
+    }
+  }
+  if (customer.stateCode && !GST_STATES.some(state => state.code === customer.stateCode)) {
+    problems.push(`Unknown state code ${customer.stateCode}`);
+  }
+  if (customer.creditLimit !== undefined && !(customer.creditLimit >= 0)) {
+    problems.push('Credit limit cannot be negative');
+  }
+  return problems;
+};
+
+// Type-ahead matches on name, phone or GSTIN; names starting with the query
+// come first
+export const searchCustomers = (customers: Customer[], query: string, limit = 8) => {
+  const term = query.trim().toLowerCase();
+  if (!term) return [];
+  const phone = normalizePhone(term);
+  return customers
+    .filter(customer =>
+      customer.name.toLowerCase().includes(term) ||
+      (phone.length >= 3 && normalizePhone(customer.phone).includes(phone)) ||
+      customer.gstin?.toLowerCase().includes(term)
+    )
+    .sort((a, b) =>
+      Number(b.name.toLowerCase().startsWith(term)) - Number(a.name.toLowerCase().startsWith(term)) ||
+      a.name.localeCompare(b.name)
+    )
+    .slice(0, limit);
+};
+
+// Bills made out to the customer, newest first. Bills from before the
+// customer master are matched on phone number.
+export const getCustomerBills = (bills: Bill[], customer: Customer) => {
+  const phone = normalizePhone(customer.phone);
+  return bills
+    .filter(bill =>
+      bill.customerId
+        ? bill.customerId === customer.id
+        : !!phone && normalizePhone(bill.customerPhone) === phone
+    )
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+};
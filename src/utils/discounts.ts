@@ -0,0 +1,88 @@
+// utils/discounts.ts
+import { CartItem, Customer, DiscountRule, Product, Supplier } from '../types';
+import { findSupplier } from './suppliers';
+
+// The customer discount matrix (customer or customer group × DCAT), shared
+// by the Cart, the Customers screen, the reducer and the API.
+
+export const createDiscountRule = (overrides: Partial<DiscountRule> = {}): DiscountRule => ({
+  id: `DSC-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  dcat: '',
+  percent: 0,
+  ...overrides,
+});
+
+// Catalogs print DCATs with varying case and padding
+const normalizeDcat = (dcat: string | undefined) => (dcat || '').trim().toUpperCase();
+const normalizeGroup = (group: string | undefined) => (group || '').trim().toLowerCase();
+
+// Returns a list of problems with a rule, empty when it is valid
+export const validateDiscountRule = (rule: DiscountRule, others: DiscountRule[]): string[] => {
+  const problems: string[] = [];
+  if (!normalizeDcat(rule.dcat)) problems.push('DCAT is required');
+  if (!rule.customerId === !normalizeGroup(rule.group)) problems.push('Choose either a customer or a customer group');
+  if (!(rule.percent >= 0 && rule.percent <= 100)) problems.push('Discount must be between 0 and 100%');
+  const duplicate = others.some(other =>
+    other.id !== rule.id &&
+    normalizeDcat(other.dcat) === normalizeDcat(rule.dcat) &&
+    (rule.customerId ? other.customerId === rule.customerId : !other.customerId && normalizeGroup(other.group) === normalizeGroup(rule.group))
+  );
+  if (duplicate) problems.push(`There is already a rule for DCAT ${normalizeDcat(rule.dcat)} and this ${rule.customerId ? 'customer' : 'group'}`);
+  return problems;
+};
+
+// Groups in use, for suggestions when editing customers and rules
+export const getCustomerGroups = (customers: Customer[]) =>
+  Array.from(new Set(customers.map(c => c.group?.trim()).filter((group): group is string => !!group)))
+    .sort((a, b) => a.localeCompare(b));
+
+// The rule for a product sold to a customer. A rule made for the customer
+// beats one for their group; products without a DCAT match nothing.
+export const findDiscountRule = (
+  rules: DiscountRule[],
+  customer: Customer | undefined,
+  product: Pick<Product, 'dcat'>
+) => {
+  const dcat = normalizeDcat(product.dcat);
+  if (!dcat || !customer) return undefined;
+  const matching = rules.filter(rule => normalizeDcat(rule.dcat) === dcat);
+  const group = normalizeGroup(customer.group);
+  return matching.find(rule => rule.customerId === customer.id) ||
+    (group ? matching.find(rule => !rule.customerId && normalizeGroup(rule.group) === group) : undefined);
+};
+
+export const describeDiscountRule = (rule: DiscountRule, customers: Customer[]) => {
+  const target = rule.customerId
+    ? customers.find(c => c.id === rule.customerId)?.name || 'Deleted customer'
+    : (rule.group || '').trim();
+  return `${target} · DCAT ${normalizeDcat(rule.dcat)}`;
+};
+
+// The discount a line gets without anyone typing one: the customer's
+// scheme for the product's DCAT, else the supplier's default capped at what
+// the user may give. Lines discounted by hand are left as they are.
+export const applyDiscountScheme = (
+  item: CartItem,
+  rules: DiscountRule[],
+  customer: Customer | undefined,
+  suppliers: Supplier[],
+  limit: number
+): CartItem => {
+  if (item.discountOverridden) return item;
+  const rule = findDiscountRule(rules, customer, item.product);
+  if (rule) {
+    return {
+      ...item,
+      discount: rule.percent,
+      discountType: 'percentage',
+      discountRule: { ruleId: rule.id, label: describeDiscountRule(rule, customer ? [customer] : []) }
+    };
+  }
+  const supplier = findSupplier(suppliers, item.product.companyName);
+  return {
+    ...item,
+    discount: Math.min(supplier?.defaultDiscount || 0, limit),
+    discountType: 'percentage',
+    discountRule: undefined
+  };
+};
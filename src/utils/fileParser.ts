@@ -1,15 +1,24 @@
 // utils/fileParser.ts
-import * as pdfjsLib from 'pdfjs-dist';
+import * as pdfjsModule from 'pdfjs-dist';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
 import * as XLSX from 'xlsx';
+import { ColumnMapping, ImportField, PdfLayout, Product } from '../types';
+import { getPriceBreaks } from './billing';
+
+// Node's ESM loader (used by the API server) exposes the CommonJS build
+// under `default` only
+const pdfjsLib: typeof pdfjsModule =
+  'getDocument' in pdfjsModule ? pdfjsModule : (pdfjsModule as unknown as { default: typeof pdfjsModule }).default;
 
 // Set up PDF.js worker with better error handling
 const setupPDFWorker = () => {
   try {
-    // Try local worker first
-    if (typeof window !== 'undefined') {
+    // Try local worker first. Also applies inside the catalog parse worker,
+    // which starts pdf.js's own worker as a nested one.
+    if (typeof window !== 'undefined' || 'importScripts' in globalThis) {
       pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.js';
     }
-  } catch (error) {
+  } catch {
     // Fallback to CDN
     console.warn('Local PDF worker not found, using CDN fallback');
     pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
@@ -18,143 +27,345 @@ const setupPDFWorker = () => {
 
 setupPDFWorker();
 
-// Enhanced CSV parser with better delimiter detection
-export const parseCSV = (content: string): any[] => {
+// One raw record as the parsers return it, keyed by column header
+export type ParsedRow = Record<string, unknown>;
+
+// Largest catalog file accepted by the Upload screen and the API. Parsing
+// runs off the main thread, so this only guards memory.
+export const MAX_IMPORT_FILE_SIZE = 100 * 1024 * 1024;
+
+// RFC 4180 CSV parsing. Quoted fields may contain delimiters, doubled
+// quotes and line breaks; CRLF, LF and CR line endings are all accepted.
+
+export interface CSVParseResult {
+  rows: ParsedRow[]; // One object per record, keyed by lowercased header like parseExcelData
+  headers: string[];
+  encoding: string;
+  delimiter: string;
+  errors: string[];
+  warnings: string[];
+}
+
+interface CSVRecord {
+  fields: string[];
+  line: number; // Line the record starts on, 1-based
+}
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+// Detects UTF-8 (with or without BOM) and UTF-16 BOMs, falling back to
+// Windows-1252, which is what Excel on Windows writes for "CSV" exports
+export const decodeText = (data: ArrayBuffer | Uint8Array): { text: string; encoding: string } => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'UTF-8 (BOM)' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'UTF-16LE' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'UTF-16BE' };
+  }
+
   try {
-    const lines = content.split('\n').filter(line => line.trim());
-    if (lines.length < 2) return [];
-
-    // Detect delimiter (comma, semicolon, or tab)
-    const firstLine = lines[0];
-    const delimiters = [',', ';', '\t'];
-    let delimiter = ',';
-    let maxColumns = 0;
-
-    for (const del of delimiters) {
-      const columns = firstLine.split(del).length;
-      if (columns > maxColumns) {
-        maxColumns = columns;
-        delimiter = del;
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'Windows-1252' };
+  }
+};
+
+// Splits text into records. Stops after `limit` records when given, which
+// the delimiter sniffer uses to look at the start of the file only.
+const readCSVRecords = (text: string, delimiter: string, limit = Infinity) => {
+  const records: CSVRecord[] = [];
+  const errors: string[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quotedField = false; // Current field started with a quote
+  let line = 1;
+  let recordLine = 1;
+  let i = 0;
+
+  const endField = () => {
+    fields.push(quotedField ? field : field.trim());
+    field = '';
+    quotedField = false;
+  };
+  const endRecord = () => {
+    endField();
+    // Blank lines are not records
+    if (fields.length > 1 || fields[0] !== '') records.push({ fields, line: recordLine });
+    fields = [];
+  };
+
+  while (i < text.length && records.length < limit) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+        field += char;
       }
+      i++;
+      continue;
     }
 
-    // Parse with detected delimiter
-    const headers = lines[0]
-      .split(delimiter)
-      .map(h => h.trim().replace(/^["']|["']$/g, ''));
-    
-    const products = [];
+    if (char === '"' && field.trim() === '') {
+      inQuotes = true;
+      quotedField = true;
+      field = '';
+    } else if (char === '"') {
+      // A quote inside an unquoted field is kept as text
+      if (!errors.some(error => error.startsWith(`Row ${line}:`))) {
+        errors.push(`Row ${line}: Unexpected quote inside an unquoted field`);
+      }
+      field += char;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (quotedField) {
+      // Text after a closing quote, e.g. "abc"def; keep it rather than drop it
+      if (char.trim() && !errors.some(error => error.startsWith(`Row ${line}:`))) {
+        errors.push(`Row ${line}: Text after closing quote`);
+      }
+      if (char.trim()) field += char;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (records.length < limit) {
+    if (inQuotes) errors.push(`Row ${recordLine}: Quoted field is never closed`);
+    if (field !== '' || fields.length > 0) endRecord();
+  }
+
+  return { records, errors };
+};
+
+// Picks the delimiter that splits the first lines into the same number
+// (more than one) of fields most consistently
+export const sniffDelimiter = (text: string, sampleSize = 10): string => {
+  let best = { delimiter: ',', consistent: 0, columns: 0 };
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const { records } = readCSVRecords(text, delimiter, sampleSize);
+    if (records.length === 0) continue;
+
+    const counts = new Map<number, number>();
+    records.forEach(record => counts.set(record.fields.length, (counts.get(record.fields.length) || 0) + 1));
+    const [columns, consistent] = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    if (columns <= 1) continue;
+
+    if (consistent > best.consistent || (consistent === best.consistent && columns > best.columns)) {
+      best = { delimiter, consistent, columns };
+    }
+  }
+
+  return best.delimiter;
+};
+
+export const parseCSVData = (data: ArrayBuffer | Uint8Array | string, filename: string): CSVParseResult => {
+  const { text, encoding } = typeof data === 'string' ? { text: data, encoding: 'UTF-8' } : decodeText(data);
+  const delimiter = sniffDelimiter(text);
+  const { records, errors: syntaxErrors } = readCSVRecords(text, delimiter);
+  const errors = syntaxErrors.map(error => `${filename}, ${error}`);
+  const warnings: string[] = [];
+
+  if (records.length < 2) {
+    return { rows: [], headers: [], encoding, delimiter, errors, warnings };
+  }
+
+  const headers = records[0].fields.map(header => header.trim().toLowerCase());
+  const rows: ParsedRow[] = [];
+
+  records.slice(1).forEach(record => {
+    if (record.fields.length !== headers.length) {
+      warnings.push(`${filename}, Row ${record.line}: Expected ${headers.length} fields, found ${record.fields.length}`);
+    }
+
+    const row: ParsedRow = {};
+    headers.forEach((header, index) => {
+      const value = record.fields[index];
+      if (header && value !== undefined && value !== '') row[header] = value;
+    });
+    if (Object.keys(row).length > 0) rows.push(row);
+  });
+
+  return { rows, headers: headers.filter(Boolean), encoding, delimiter, errors, warnings };
+};
+
+export const parseCSV = (content: string): ParsedRow[] => parseCSVData(content, 'CSV').rows;
+
+export const parseCSVFile = async (file: File): Promise<CSVParseResult> =>
+  parseCSVData(await file.arrayBuffer(), file.name);
+
+// Supplier workbooks often open with logo and title rows and keep one
+// product family per sheet, so the header row is detected per sheet and the
+// user can pick which sheets to import.
+
+export interface WorkbookSheet {
+  name: string;
+  headerRow: number; // Index into the sheet's non-blank rows
+  rowCount: number;
+  preview: string[][]; // First rows as text, for the sheet picker
+}
+
+export interface SheetSelection {
+  name: string;
+  headerRow: number;
+  category?: string; // Replaces the category of every product on the sheet
+}
 
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i]
-        .split(delimiter)
-        .map(v => v.trim().replace(/^["']|["']$/g, ''));
+const HEADER_SCAN_ROWS = 20;
+const SHEET_PREVIEW_ROWS = 15;
+
+const readWorkbook = (data: ArrayBuffer | Uint8Array) =>
+  XLSX.read(data instanceof Uint8Array ? data : new Uint8Array(data), {
+    type: 'array',
+    cellDates: true,
+    cellNF: false,
+    cellText: false
+  });
+
+const readSheetRows = (worksheet: XLSX.WorkSheet): unknown[][] =>
+  XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    defval: '',
+    blankrows: false,
+    raw: false // This ensures numbers stay as strings when needed
+  });
+
+const cellText = (cell: unknown) => String(cell ?? '').trim();
+
+// Picks the row among the first few that reads most like a header: the most
+// cells recognised as product fields, then the most text cells. Title rows
+// with a single cell never qualify. Falls back to the first row.
+export const detectHeaderRow = (rows: unknown[][]): number => {
+  let best = 0;
+  let bestScore = 0;
+
+  rows.slice(0, HEADER_SCAN_ROWS).forEach((row, index) => {
+    const cells = row.map(cellText).filter(Boolean);
+    if (cells.length < 2) return;
+    const known = Object.values(suggestColumnMapping(cells))
+      .filter(field => field && field !== 'priceTier').length;
+    const text = cells.filter(cell => isNaN(parseAmount(cell))).length;
+    const score = known * 10 + text;
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+// Lists the sheets of a workbook with their detected header rows
+export const inspectWorkbook = (data: ArrayBuffer | Uint8Array): WorkbookSheet[] => {
+  const workbook = readWorkbook(data);
+  return workbook.SheetNames.map(name => {
+    const rows = readSheetRows(workbook.Sheets[name]);
+    return {
+      name,
+      headerRow: detectHeaderRow(rows),
+      rowCount: rows.length,
+      preview: rows.slice(0, SHEET_PREVIEW_ROWS).map(row => row.map(cellText))
+    };
+  });
+};
+
+// Enhanced Excel parser with multiple sheet support.
+// Works on raw bytes so the same code runs in the browser and on the API.
+// Without `selections` every sheet is read from its detected header row.
+// `onSheet` receives each sheet's rows as soon as it has been read.
+export const parseExcelData = (
+  data: ArrayBuffer | Uint8Array,
+  onSheet?: (rows: ParsedRow[], sheetIndex: number, sheetCount: number) => void,
+  selections?: SheetSelection[]
+): ParsedRow[] => {
+  const workbook = readWorkbook(data);
+  const allProducts: ParsedRow[] = [];
+  const sheetsToProcess = selections
+    ? selections.filter(selection => workbook.Sheets[selection.name])
+    : workbook.SheetNames.map(name => ({ name, headerRow: -1 } as SheetSelection));
+
+  for (const [sheetIndex, selection] of sheetsToProcess.entries()) {
+    const jsonData = readSheetRows(workbook.Sheets[selection.name]);
+    const headerRow = selection.headerRow >= 0 ? selection.headerRow : detectHeaderRow(jsonData);
+    const sheetProducts: ParsedRow[] = [];
+
+    const headers = (jsonData[headerRow] || []).map(h =>
+      String(h || '').trim().toLowerCase()
+    );
+
+    // Skip if no meaningful headers
+    if (!headers.some(h => h)) {
+      onSheet?.([], sheetIndex, sheetsToProcess.length);
+      continue;
+    }
+
+    // Process data rows
+    for (let i = headerRow + 1; i < jsonData.length; i++) {
+      const row = jsonData[i];
       
-      if (values.length >= headers.length / 2) { // Allow some flexibility
-        const product: any = {};
-        headers.forEach((header, index) => {
-          if (header && values[index] !== undefined) {
-            product[header] = values[index];
-          }
-        });
-        
-        // Only add products with meaningful data
-        if (Object.values(product).some(value => value && String(value).trim())) {
-          products.push(product);
+      // Skip empty rows
+      if (!row || !row.some(cell =>
+        cell !== '' && cell !== null && cell !== undefined)) {
+        continue;
+      }
+
+      const product: ParsedRow = {};
+      let hasData = false;
+
+      headers.forEach((header, index) => {
+        const cell = row[index];
+        if (header && cell !== undefined && cell !== '') {
+          // Clean and normalize the data, by type
+          product[header] = typeof cell === 'number'
+            ? cell.toString()
+            : cell instanceof Date
+              ? cell.toISOString().split('T')[0]
+              : String(cell).trim();
+          hasData = true;
         }
+      });
+
+      if (hasData) {
+        // Internal keys, picked up by applyColumnMapping
+        product._sheet = selection.name;
+        if (selection.category?.trim()) product._category = selection.category.trim();
+        sheetProducts.push(product);
       }
     }
 
-    return products;
-  } catch (error) {
-    throw new Error(`CSV parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    allProducts.push(...sheetProducts);
+    onSheet?.(sheetProducts, sheetIndex, sheetsToProcess.length);
   }
+
+  return allProducts;
 };
 
-// Enhanced Excel parser with multiple sheet support
-export const parseExcel = async (file: File): Promise<any[]> => {
+export const parseExcel = async (file: File): Promise<ParsedRow[]> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     
     reader.onload = (e) => {
       try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { 
-          type: 'array',
-          cellDates: true,
-          cellNF: false,
-          cellText: false
-        });
-        
-        let allProducts: any[] = [];
-
-        // Process all sheets (or just the first one if you prefer)
-        const sheetsToProcess = workbook.SheetNames.slice(0, 3); // Limit to first 3 sheets
-        
-        for (const sheetName of sheetsToProcess) {
-          const worksheet = workbook.Sheets[sheetName];
-          
-          // Convert to JSON with better options
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, {
-            header: 1,
-            defval: '',
-            blankrows: false,
-            raw: false // This ensures numbers stay as strings when needed
-          }) as any[][];
-
-          if (jsonData.length < 2) continue;
-
-          // Get headers from first row
-          const headers = jsonData[0].map((h: any) => 
-            String(h || '').trim().toLowerCase()
-          );
-          
-          // Skip if no meaningful headers
-          if (!headers.some(h => h)) continue;
-
-          // Process data rows
-          for (let i = 1; i < jsonData.length; i++) {
-            const row = jsonData[i];
-            
-            // Skip empty rows
-            if (!row || !row.some((cell: any) => 
-              cell !== '' && cell !== null && cell !== undefined)) {
-              continue;
-            }
-
-            const product: any = {};
-            let hasData = false;
-
-            headers.forEach((header, index) => {
-              if (header && row[index] !== undefined && row[index] !== '') {
-                // Clean and normalize the data
-                let value = row[index];
-                
-                // Handle different data types
-                if (typeof value === 'number') {
-                  value = value.toString();
-                } else if (value instanceof Date) {
-                  value = value.toISOString().split('T')[0];
-                } else {
-                  value = String(value).trim();
-                }
-
-                product[header] = value;
-                hasData = true;
-              }
-            });
-
-            if (hasData) {
-              // Add sheet information if multiple sheets
-              if (workbook.SheetNames.length > 1) {
-                product._sheet = sheetName;
-              }
-              allProducts.push(product);
-            }
-          }
-        }
-
-        resolve(allProducts);
+        resolve(parseExcelData(e.target?.result as ArrayBuffer));
       } catch (error) {
         reject(new Error(`Failed to parse Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`));
       }
@@ -165,39 +376,271 @@ export const parseExcel = async (file: File): Promise<any[]> => {
   });
 };
 
+// Checks that parsed spreadsheet rows carry at least a price column.
+// Missing optional columns only produce warnings.
+export const validateExcelFormat = (products: ParsedRow[], filename: string) => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  
+  if (products.length === 0) {
+    errors.push(`${filename}: File is empty`);
+    return { errors, warnings };
+  }
+
+  const firstRow = products[0];
+  const availableHeaders = Object.keys(firstRow).map(h => h.toLowerCase());
+  
+  // Check for at least price column (minimum requirement)
+  const hasPriceColumn = availableHeaders.some(header => 
+    ['price', 'cost', 'inr', 'amount'].some(pattern => header.includes(pattern))
+  );
+  
+  if (!hasPriceColumn) {
+    errors.push(`${filename}: Must contain at least a price column`);
+    return { errors, warnings };
+  }
+
+  // Warn about missing optional columns
+  const optionalChecks = [
+    { name: 'Category', patterns: ['taper', 'categories', 'category', 'type'] },
+    { name: 'Description', patterns: ['description', 'name', 'product name', 'title'] },
+    { name: 'Article Number', patterns: ['catalogue', 'article', 'part', 'number', 'code', 'sku'] }
+  ];
+
+  optionalChecks.forEach(check => {
+    const hasColumn = check.patterns.some(pattern => 
+      availableHeaders.some(header => header.includes(pattern))
+    );
+    if (!hasColumn) {
+      warnings.push(`${filename}: Missing optional column: ${check.name}. Products will use default values.`);
+    }
+  });
+
+  return { errors, warnings };
+};
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  productId: 'Product ID',
+  name: 'Name',
+  description: 'Description',
+  category: 'Category',
+  catalogueNo: 'Catalogue No.',
+  obiArticleNo: 'OBI Article No.',
+  eCode: 'E-Code',
+  dcat: 'DCAT',
+  sap: 'SAP',
+  price: 'Price',
+  priceTier: 'Quantity-break price',
+  stock: 'Stock',
+  quantity: 'Quantity',
+  minOrderQty: 'Min. order quantity',
+  packSize: 'Pack size',
+  hsn: 'HSN / SAC',
+  gst: 'GST %'
+};
+
+// Header words recognised for each field, most specific first
+const FIELD_ALIASES: Partial<Record<ImportField, string[]>> = {
+  category: ['taper categories', 'taper', 'categories', 'category'],
+  description: ['description', 'bezeichnung designation', 'bezeichnung', 'designation'],
+  catalogueNo: ['catalogue article no', 'catalogue no', 'article no', 'part no'],
+  obiArticleNo: ['obi article no', 'obi no'],
+  price: ['unit price in inr', 'inr price per piece', 'unit price', 'price', 'rate', 'mrp'],
+  stock: ['stock'],
+  quantity: ['quantity', 'qty'],
+  eCode: ['e code', 'ecode'],
+  dcat: ['dcat'],
+  sap: ['sap'],
+  minOrderQty: ['min order quantity', 'min order qty', 'moq'],
+  packSize: ['pack size', 'pack qty', 'pack quantity', 'packing', 'pack'],
+  hsn: ['hsn sac', 'hsn code', 'hsn', 'sac'],
+  gst: ['gst']
+};
+
+const NUMERIC_FIELDS: ImportField[] = ['price', 'quantity', 'minOrderQty', 'packSize', 'gst'];
+
+// Reads numbers written as 1,234.50, 1,23,456.00 or the European 12,50.
+// With both separators present the last one is the decimal point; a lone
+// comma followed by one or two digits is a decimal comma.
+export const parseAmount = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  let text = String(value ?? '').replace(/[^\d.,-]/g, '');
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > -1 && lastDot > -1) {
+    text = lastComma > lastDot
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+  } else if (/^-?\d+,\d{1,2}$/.test(text)) {
+    text = text.replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+  return text === '' || text === '-' ? NaN : Number(text);
+};
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Column headers in first-seen order, leaving out internal keys like _sheet
+export const getColumnHeaders = (rows: ParsedRow[]): string[] => {
+  const headers = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (!key.startsWith('_')) headers.add(key);
+  }));
+  return [...headers];
+};
+
+// Guesses a field for each header. Whole-word matches only, scored so an
+// exact header beats one that merely starts or contains the alias; that
+// keeps "Price incl. stock" on price rather than stock. Each field is given
+// to its best-scoring header only, except quantity-break columns.
+export const suggestColumnMapping = (headers: string[]): ColumnMapping['columns'] => {
+  const columns: ColumnMapping['columns'] = {};
+  const candidates: { header: string; field: ImportField; score: number }[] = [];
+
+  headers.forEach(header => {
+    columns[header] = null;
+    const normalized = normalizeHeader(header);
+    if (/^\d+(\.\d+)?$/.test(header.trim())) {
+      columns[header] = 'priceTier';
+      return;
+    }
+    (Object.entries(FIELD_ALIASES) as [ImportField, string[]][]).forEach(([field, aliases]) => {
+      aliases.forEach((alias, rank) => {
+        let score = 0;
+        if (normalized === alias) score = 3;
+        else if (normalized.startsWith(`${alias} `)) score = 2;
+        else if (` ${normalized} `.includes(` ${alias} `)) score = 1;
+        // Earlier aliases are more specific
+        if (score > 0) candidates.push({ header, field, score: score * 10 - rank / 10 });
+      });
+    });
+  });
+
+  const assignedFields = new Set<ImportField>();
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ header, field }) => {
+      if (columns[header] || assignedFields.has(field)) return;
+      columns[header] = field;
+      assignedFields.add(field);
+    });
+
+  return columns;
+};
+
+// A saved mapping can be reused silently only if it covers every column
+export const isMappingComplete = (mapping: ColumnMapping | undefined, headers: string[]) =>
+  !!mapping && headers.every(header => header in mapping.columns);
+
+// Builds a Product from a raw spreadsheet row. Columns mapped to null or
+// missing from the mapping are dropped.
+export const applyColumnMapping = (
+  row: ParsedRow,
+  columns: ColumnMapping['columns'],
+  { shopName, companyName }: { shopName: string; companyName: string }
+): Product => {
+  const fields: Record<string, string | number> = {};
+  const priceTiers: { [key: string]: number } = {};
+
+  Object.entries(columns).forEach(([header, field]) => {
+    const value = row[header];
+    if (!field || value === undefined || value === null || String(value).trim() === '') return;
+
+    if (field === 'priceTier') {
+      const tierValue = parseAmount(value);
+      if (!isNaN(tierValue) && tierValue > 0) priceTiers[header] = tierValue;
+    } else if (NUMERIC_FIELDS.includes(field)) {
+      const number = parseAmount(value);
+      if (!isNaN(number)) fields[field] = number;
+    } else {
+      fields[field] = String(value).trim();
+    }
+  });
+
+  const normalized = fields as Partial<Product>;
+  if (Object.keys(priceTiers).length > 0) {
+    normalized.priceTiers = priceTiers;
+  }
+
+  // Set by parseExcelData: the sheet a row came from and the category the
+  // user assigned to that sheet
+  if (row._sheet) normalized.sheet = String(row._sheet);
+  if (row._category) normalized.category = String(row._category);
+
+  return {
+    ...normalized,
+    // Generate a unique ID if not present
+    productId: normalized.productId || normalized.eCode || normalized.catalogueNo ||
+      `${normalized.category || 'UNKNOWN'}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    // Ensure required fields have values
+    name: normalized.name || normalized.description || normalized.catalogueNo || 'Unknown Product',
+    // A list with only quantity-break columns is priced from its first break
+    price: normalized.price || getPriceBreaks(normalized)[0]?.price || 0,
+    quantity: normalized.quantity || 0,
+    companyName,
+    shopName,
+  };
+};
+
+// Maps a raw spreadsheet row onto Product fields using the suggested mapping
+export const normalizeProduct = (product: ParsedRow, shopName: string, companyName: string) =>
+  applyColumnMapping(product, suggestColumnMapping(getColumnHeaders([product])), { shopName, companyName });
+
 // Enhanced PDF parser with better pattern recognition
 // Enhanced parsePDF function in utils/fileParser.ts
-export const parsePDF = async (file: File): Promise<any[]> => {
+export const parsePDF = async (file: File, layout: PdfLayout = 'auto'): Promise<PDFRecord[]> =>
+  parsePDFData(await file.arrayBuffer(), file.name, layout);
+
+// `onPage` receives each page's rows as soon as the page has been read
+export const parsePDFData = async (
+  data: ArrayBuffer | Uint8Array,
+  filename: string,
+  layout: PdfLayout = 'auto',
+  onPage?: (rows: PDFRecord[], pageNumber: number, pageCount: number) => void
+): Promise<PDFRecord[]> => {
   try {
-    const arrayBuffer = await file.arrayBuffer();
     const pdf = await pdfjsLib.getDocument({ 
-      data: arrayBuffer,
+      data,
       standardFontDataUrl: 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/standard_fonts/'
     }).promise;
     
-    const products: any[] = [];
+    const products: PDFRecord[] = [];
+    // Column layout from the last header seen; price lists usually only
+    // print the header on the first page of a section
+    let tables: PDFTable[] | null = null;
     
-    // Extract text from all pages with position information
     for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
       const page = await pdf.getPage(pageNum);
       const textContent = await page.getTextContent();
       
-      // Sort items by Y position, then X position for better text flow
-      const sortedItems = textContent.items
-        .filter((item: any) => item.str && item.str.trim())
-        .sort((a: any, b: any) => {
-          const yDiff = Math.abs(a.transform[5] - b.transform[5]);
-          if (yDiff < 2) { // Same line
-            return a.transform[4] - b.transform[4]; // Sort by X
-          }
-          return b.transform[5] - a.transform[5]; // Sort by Y (top to bottom)
-        });
+      const items: PDFTextItem[] = textContent.items
+        .filter((item: TextItem | TextMarkedContent): item is TextItem => 'str' in item && !!item.str.trim())
+        .map(item => ({
+          str: item.str.trim(),
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width || 0,
+          height: item.height || Math.abs(item.transform[3]) || 10
+        }));
+
+      const lines = groupIntoLines(items);
+      const pageProducts: PDFRecord[] = [];
+      if (layout !== 'lines') {
+        const parsed = parseTableRows(lines, tables, pageNum, filename);
+        pageProducts.push(...parsed.products);
+        tables = parsed.tables;
+      }
+
+      // No usable column layout: fall back to matching whole lines
+      if (pageProducts.length === 0 && layout !== 'columns') {
+        const pageText = lines.map(line => line.text).join('\n');
+        pageProducts.push(...parseSpecificPDFFormat(pageText, pageNum, filename));
+      }
 
-      const pageText = sortedItems.map((item: any) => item.str).join(' ');
-      
-      // Process this specific format
-      const pageProducts = parseSpecificPDFFormat(pageText, pageNum, file.name);
       products.push(...pageProducts);
+      onPage?.(pageProducts, pageNum, pdf.numPages);
     }
 
     return products;
@@ -206,13 +649,261 @@ export const parsePDF = async (file: File): Promise<any[]> => {
   }
 };
 
+interface PDFTextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface PDFLine {
+  y: number;
+  height: number;
+  items: PDFTextItem[];
+  text: string;
+}
+
+type PDFColumnKey = 'eCode' | 'description' | 'dcat' | 'sap' | 'stock' | 'price' | 'minOrderQty';
+
+type PDFRow = Partial<Record<PDFColumnKey, string>>;
+
+// A product as read from a PDF price list, before validation
+export type PDFRecord = {
+  eCode?: string;
+  description?: string;
+  dcat?: string;
+  dcatSource?: string; // Set when the DCAT came from a page header or footer
+  sap?: string | null;
+  stock?: string;
+  price?: number;
+  minOrderQty?: number;
+  source: 'PDF';
+  filename: string;
+  pageNumber: number;
+  pattern: string; // Which layout or line pattern matched
+};
+
+interface PDFColumn {
+  key: PDFColumnKey;
+  center: number;
+}
+
+// One price table; pages set in two or three columns hold several side by side
+interface PDFTable {
+  left: number;
+  right: number;
+  columns: PDFColumn[];
+}
+
+const HEADER_PATTERNS: [PDFColumnKey, RegExp][] = [
+  ['eCode', /^e[\s.-]?code/i],
+  ['description', /description|designation|bezeichnung/i],
+  ['dcat', /dcat/i],
+  ['sap', /\bsap\b/i],
+  ['stock', /stock/i],
+  ['price', /price|\binr\b/i],
+  ['minOrderQty', /\bmin\b|min\.|moq|order\s*qty|quantity/i]
+];
+
+const E_CODE_PATTERN = /^[A-Z0-9]+(?:[.\-/][A-Z0-9]+)*$/;
+
+// Group text items whose baselines are within half a glyph height into one
+// line, top to bottom, with items ordered left to right
+const groupIntoLines = (items: PDFTextItem[]): PDFLine[] => {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PDFLine[] = [];
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= Math.max(2, Math.min(line.height, item.height) * 0.5)) {
+      line.items.push(item);
+      line.height = Math.max(line.height, item.height);
+    } else {
+      lines.push({ y: item.y, height: item.height, items: [item], text: '' });
+    }
+  }
+
+  lines.forEach(line => {
+    line.items.sort((a, b) => a.x - b.x);
+    line.text = joinItems(line.items);
+  });
+
+  return lines;
+};
+
+// Join items into text, keeping wide gaps as runs of spaces so the tabular
+// fallback in parseSpecificPDFFormat can still split on them
+const joinItems = (items: PDFTextItem[]): string =>
+  items.reduce((text, item, index) => {
+    if (index === 0) return item.str;
+    const previous = items[index - 1];
+    const gap = item.x - (previous.x + previous.width);
+    const separator = gap > item.height ? '   ' : gap > item.height * 0.15 ? ' ' : '';
+    return text + separator + item.str;
+  }, '');
+
+// Merge neighbouring header words ("INR", "price", "per", "piece") into cells
+const mergeHeaderCells = (line: PDFLine) => {
+  const cells: { text: string; start: number; end: number }[] = [];
+  for (const item of line.items) {
+    const cell = cells[cells.length - 1];
+    if (cell && item.x - cell.end < item.height * 0.5) {
+      cell.text += ' ' + item.str;
+      cell.end = item.x + item.width;
+    } else {
+      cells.push({ text: item.str, start: item.x, end: item.x + item.width });
+    }
+  }
+  return cells;
+};
+
+// Returns the tables described by a header line, or null when the line is
+// not a header (at least 4 known columns, like the old text matcher)
+const detectTables = (line: PDFLine): PDFTable[] | null => {
+  const columns = mergeHeaderCells(line).flatMap(cell => {
+    const match = HEADER_PATTERNS.find(([, pattern]) => pattern.test(cell.text));
+    return match ? [{ key: match[0], center: (cell.start + cell.end) / 2, start: cell.start }] : [];
+  });
+
+  if (new Set(columns.map(column => column.key)).size < 4) return null;
+
+  // Every E-Code heading starts a new table
+  const tables: PDFTable[] = [];
+  for (const column of columns) {
+    if (column.key === 'eCode' || tables.length === 0) {
+      tables.push({ left: column.start, right: Infinity, columns: [] });
+    }
+    tables[tables.length - 1].columns.push({ key: column.key, center: column.center });
+  }
+
+  tables.forEach((table, index) => {
+    if (index > 0) {
+      // Split the gutter between neighbouring tables
+      const previous = tables[index - 1];
+      const lastCenter = previous.columns[previous.columns.length - 1].center;
+      previous.right = (lastCenter + table.columns[0].center) / 2;
+      table.left = previous.right;
+    } else {
+      table.left = -Infinity;
+    }
+  });
+
+  return tables.filter(table => table.columns.some(column => column.key === 'eCode'));
+};
+
+// Pick the column whose heading is horizontally closest to the item
+const columnFor = (table: PDFTable, item: PDFTextItem): PDFColumnKey => {
+  const center = item.x + item.width / 2;
+  let best = table.columns[0];
+  for (const column of table.columns) {
+    if (Math.abs(column.center - center) < Math.abs(best.center - center)) best = column;
+  }
+  return best.key;
+};
+
+const toRecord = (cells: PDFRow, pageNumber: number, filename: string) => {
+  const product: PDFRecord = {
+    eCode: cells.eCode,
+    source: 'PDF',
+    filename,
+    pageNumber,
+    pattern: 'Column layout'
+  };
+  if (cells.description) product.description = cells.description;
+  if (cells.dcat) product.dcat = cells.dcat;
+  product.sap = cells.sap || null;
+  if (cells.stock) product.stock = cells.stock;
+  if (cells.price) product.price = parseFloat(cells.price.replace(/[^\d.]/g, ''));
+  if (cells.minOrderQty) product.minOrderQty = parseInt(cells.minOrderQty.replace(/[^\d]/g, ''));
+  return product;
+};
+
+// Walk the page top to bottom and build one record per E-Code. Lines without
+// an E-Code directly under a row continue it (wrapped descriptions); lines
+// further away are section headings and end the row. A header line switches
+// to its own column layout, which is returned for the following pages.
+const parseTableRows = (
+  lines: PDFLine[],
+  initialTables: PDFTable[] | null,
+  pageNumber: number,
+  filename: string
+): { products: PDFRecord[]; tables: PDFTable[] | null } => {
+  let tables = initialTables;
+  let current: (PDFRow | null)[] = [];
+  let lastY: number[] = [];
+  // Rows per table, one list per header section, so side-by-side tables
+  // come out in reading order (left table first)
+  const sections: PDFRow[][][] = [[]];
+
+  for (const line of lines) {
+    const headerTables = detectTables(line);
+    if (headerTables) {
+      tables = headerTables;
+      current = [];
+      lastY = [];
+      sections.push([]);
+      continue;
+    }
+    if (!tables) continue;
+
+    tables.forEach((table, index) => {
+      const cells: PDFRow = {};
+      for (const item of line.items) {
+        const center = item.x + item.width / 2;
+        if (center < table.left || center >= table.right) continue;
+        const key = columnFor(table, item);
+        cells[key] = cells[key] ? `${cells[key]} ${item.str}` : item.str;
+      }
+      if (Object.keys(cells).length === 0) return;
+
+      const row = current[index];
+      if (cells.eCode && E_CODE_PATTERN.test(cells.eCode) && /\d/.test(cells.eCode)) {
+        current[index] = cells;
+        const section = sections[sections.length - 1];
+        (section[index] = section[index] || []).push(cells);
+        lastY[index] = line.y;
+      } else if (row && lastY[index] - line.y <= line.height * 1.8) {
+        for (const [key, value] of Object.entries(cells) as [PDFColumnKey, string][]) {
+          if (key === 'description' || key === 'eCode') {
+            row.description = row.description ? `${row.description} ${value}` : value;
+          } else if (!row[key]) {
+            row[key] = value;
+          }
+        }
+        lastY[index] = line.y;
+      } else {
+        current[index] = null;
+      }
+    });
+  }
+
+  const products = sections
+    .flatMap(section => section.flat())
+    .map(cells => toRecord(cells, pageNumber, filename));
+
+  // Discount category printed in a page header/footer applies to rows without one
+  for (const line of lines) {
+    const dcatMatch = line.text.match(/discount\s+categor(?:y|ies)\s*\(?\s*dcat\s*\)?[:\s]*(\d+)/i);
+    if (dcatMatch) {
+      products.forEach(product => {
+        if (!product.dcat) {
+          product.dcat = dcatMatch[1];
+          product.dcatSource = 'Page header/footer';
+        }
+      });
+    }
+  }
+
+  return { products, tables };
+};
+
 // Specific parser for your PDF format
-const parseSpecificPDFFormat = (text: string, pageNumber: number, filename: string): any[] => {
-  const products: any[] = [];
+const parseSpecificPDFFormat = (text: string, pageNumber: number, filename: string): PDFRecord[] => {
+  const products: PDFRecord[] = [];
   const lines = text.split('\n').filter(line => line.trim());
   
   let headerFound = false;
-  let headerPattern: RegExp | null = null;
   
   // Define expected column patterns for your format
   const expectedColumns = ['e-code', 'dcat', 'sap', 'stock', 'inr price per piece', 'min. order quantity'];
@@ -240,19 +931,19 @@ const parseSpecificPDFFormat = (text: string, pageNumber: number, filename: stri
     if (headerFound) {
       // Pattern 1: Standard format with all columns
       // E-Code DCAT SAP Stock Price MinOrder
-      const pattern1 = /^([A-Z0-9]+(?:[.\-][A-Z0-9]+)*)\s+(\d+)\s+([A-Z0-9]*)\s+([○●]|\d+)\s+([\d,]+\.?\d*)\s+(\d+)$/;
+      const pattern1 = /^([A-Z0-9]+(?:[.-][A-Z0-9]+)*)\s+(\d+)\s+([A-Z0-9]*)\s+([○●]|\d+)\s+([\d,]+\.?\d*)\s+(\d+)$/;
       
       // Pattern 2: Format with bullet separator
       // E-Code DCAT • Price MinOrder
-      const pattern2 = /^([A-Z0-9]+(?:[.\-][A-Z0-9]+)*)\s+(\d+)\s+•\s+([\d,]+\.?\d*)\s+(\d+)$/;
+      const pattern2 = /^([A-Z0-9]+(?:[.-][A-Z0-9]+)*)\s+(\d+)\s+•\s+([\d,]+\.?\d*)\s+(\d+)$/;
       
       // Pattern 3: Compact format
       // E-Code DCAT Price MinOrder (without stock/sap)
-      const pattern3 = /^([A-Z0-9]+(?:[.\-][A-Z0-9]+)*)\s+(\d+)\s+([\d,]+\.?\d*)\s+(\d+)$/;
+      const pattern3 = /^([A-Z0-9]+(?:[.-][A-Z0-9]+)*)\s+(\d+)\s+([\d,]+\.?\d*)\s+(\d+)$/;
       
       // Pattern 4: Extended format with description
       // E-Code Description DCAT SAP Stock Price MinOrder  
-      const pattern4 = /^([A-Z0-9]+(?:[.\-][A-Z0-9]+)*)\s+(.+?)\s+(\d+)\s+([A-Z0-9]*)\s+([○●]|\d+)\s+([\d,]+\.?\d*)\s+(\d+)$/;
+      const pattern4 = /^([A-Z0-9]+(?:[.-][A-Z0-9]+)*)\s+(.+?)\s+(\d+)\s+([A-Z0-9]*)\s+([○●]|\d+)\s+([\d,]+\.?\d*)\s+(\d+)$/;
       
       let match = null;
       let patternUsed = '';
@@ -319,7 +1010,7 @@ const parseSpecificPDFFormat = (text: string, pageNumber: number, filename: stri
         
         if (columns.length >= 4) {
           // Try to map columns based on position and content
-          const product: any = {
+          const product: PDFRecord = {
             source: 'PDF',
             filename,
             pageNumber,
@@ -391,30 +1082,33 @@ const parseSpecificPDFFormat = (text: string, pageNumber: number, filename: stri
 };
 
 // Enhanced validation for your specific format
-export const validateSpecificPDFData = (products: any[], filename: string): {
-  valid: any[];
-  invalid: any[];
+export const validateSpecificPDFData = (products: ParsedRow[], filename: string, companyName: string): {
+  valid: Product[];
+  invalid: ParsedRow[];
   warnings: string[];
 } => {
-  const valid: any[] = [];
-  const invalid: any[] = [];
+  const valid: Product[] = [];
+  const invalid: ParsedRow[] = [];
   const warnings: string[] = [];
 
   products.forEach((product, index) => {
     const issues: string[] = [];
+    const eCode = typeof product.eCode === 'string' ? product.eCode : '';
+    const dcat = product.dcat ? String(product.dcat) : '';
+    const price = Number(product.price);
     
     // Validate E-Code (required)
-    if (!product.eCode || !/^[A-Z0-9]+/.test(product.eCode)) {
+    if (!/^[A-Z0-9]+/.test(eCode)) {
       issues.push('Invalid or missing E-Code');
     }
     
     // Validate DCAT (should be numeric)
-    if (product.dcat && !/^\d+$/.test(product.dcat.toString())) {
+    if (dcat && !/^\d+$/.test(dcat)) {
       issues.push('DCAT should be numeric');
     }
     
     // Validate price (required, should be positive number)
-    if (!product.price || isNaN(Number(product.price)) || Number(product.price) <= 0) {
+    if (!(price > 0)) {
       issues.push('Invalid or missing price');
     }
     
@@ -424,7 +1118,7 @@ export const validateSpecificPDFData = (products: any[], filename: string): {
     }
     
     // Validate stock format
-    if (product.stock && !['○', '●'].includes(product.stock) && isNaN(Number(product.stock))) {
+    if (product.stock && !['○', '●'].includes(String(product.stock)) && isNaN(Number(product.stock))) {
       warnings.push(`${filename}, Page ${product.pageNumber}, Row ${index + 1}: Stock format unusual (${product.stock})`);
     }
     
@@ -433,12 +1127,14 @@ export const validateSpecificPDFData = (products: any[], filename: string): {
       warnings.push(`${filename}, Page ${product.pageNumber}, Row ${index + 1}: ${issues.join(', ')}`);
     } else {
       // Normalize the valid product
-      const normalizedProduct = {
+      const normalizedProduct: Product = {
         ...product,
-        productId: product.eCode,
-        name: product.description || product.eCode,
-        category: product.dcat ? `DCAT-${product.dcat}` : 'Uncategorized',
-        companyName: 'Dormer Pramet', // Based on your previous examples
+        productId: eCode,
+        name: typeof product.description === 'string' && product.description ? product.description : eCode,
+        price,
+        quantity: 0,
+        category: dcat ? `DCAT-${dcat}` : 'Uncategorized',
+        companyName,
         shopName: 'Default Shop'
       };
       valid.push(normalizedProduct);
@@ -0,0 +1,152 @@
+// utils/gst.ts
+import { BusinessProfile, CartItem, TaxSummaryRow, TaxType } from '../types';
+import { calculateItemTotal } from './billing';
+import { INVOICE_PREFIX_PATTERN } from './invoiceNumber';
+
+// GST tax invoice rules, shared by the Cart, the invoice PDF and the API.
+
+// State and union territory codes as used in GSTINs and place of supply
+export const GST_STATES: { code: string; name: string }[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+  { code: '97', name: 'Other Territory' },
+];
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const isValidGstin = (gstin: string) => GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+
+// The first two digits of a GSTIN are the registration's state code
+export const stateFromGstin = (gstin: string | undefined) =>
+  gstin && isValidGstin(gstin) ? gstin.trim().slice(0, 2) : undefined;
+
+// e.g. "24 - Gujarat"
+export const formatState = (code: string | undefined) => {
+  if (!code) return '';
+  const state = GST_STATES.find(s => s.code === code);
+  return state ? `${state.code} - ${state.name}` : code;
+};
+
+// Supply to the buyer's registered state; without a buyer GSTIN it is a
+// counter sale in the seller's state
+export const getPlaceOfSupply = (sellerStateCode: string | undefined, customerGstin?: string) =>
+  stateFromGstin(customerGstin) || sellerStateCode || '';
+
+// IGST applies only when both states are known and differ
+export const getTaxType = (sellerStateCode: string | undefined, placeOfSupply: string | undefined): TaxType =>
+  sellerStateCode && placeOfSupply && sellerStateCode !== placeOfSupply ? 'inter' : 'intra';
+
+// Trims the free-text fields and drops the empty ones before saving
+export const cleanBusiness = (business: BusinessProfile): BusinessProfile => ({
+  ...business,
+  name: business.name.trim(),
+  address: business.address?.trim() || undefined,
+  phone: business.phone?.trim() || undefined,
+  email: business.email?.trim() || undefined,
+  invoicePrefix: business.invoicePrefix?.trim() || undefined
+});
+
+// The seller details printed on every tax invoice
+export const validateBusiness = (business: BusinessProfile): string[] => {
+  const problems: string[] = [];
+  if (!business.name.trim()) problems.push('Business name is required');
+  if (!GST_STATES.some(state => state.code === business.stateCode)) problems.push('Choose the state you are registered in');
+  if (business.gstin) {
+    if (!isValidGstin(business.gstin)) {
+      problems.push('GSTIN should be 15 characters, e.g. 24ABCDE1234F1Z5');
+    } else if (stateFromGstin(business.gstin) !== business.stateCode) {
+      problems.push(`GSTIN is registered in ${formatState(stateFromGstin(business.gstin))}, not the chosen state`);
+    }
+  }
+  if (business.invoicePrefix && !INVOICE_PREFIX_PATTERN.test(business.invoicePrefix)) {
+    problems.push('Invoice prefix can use up to 10 capital letters, digits and dashes');
+  }
+  return problems;
+};
+
+export const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface TaxInvoiceTotals {
+  taxType: TaxType;
+  taxableValue: number;
+  taxSummary: TaxSummaryRow[];
+  cgst: number;
+  sgst: number;
+  igst: number;
+  gst: number; // cgst + sgst + igst
+  roundOff: number;
+  total: number; // Rounded to the rupee
+}
+
+// Tax is worked out per GST rate on the taxable values, each rate rounded
+// to the paisa, and the grand total rounded to the rupee.
+export const summariseTax = (taxableByRate: Map<number, number>, taxType: TaxType): TaxInvoiceTotals => {
+  const taxSummary: TaxSummaryRow[] = Array.from(taxableByRate.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([rate, taxable]) => {
+      const taxableValue = round2(taxable);
+      const half = round2((taxableValue * rate) / 200);
+      return taxType === 'intra'
+        ? { rate, taxableValue, cgst: half, sgst: half, igst: 0 }
+        : { rate, taxableValue, cgst: 0, sgst: 0, igst: round2((taxableValue * rate) / 100) };
+    });
+
+  const sum = (key: keyof TaxSummaryRow) => round2(taxSummary.reduce((total, row) => total + row[key], 0));
+  const taxableValue = sum('taxableValue');
+  const cgst = sum('cgst');
+  const sgst = sum('sgst');
+  const igst = sum('igst');
+  const gst = round2(cgst + sgst + igst);
+  const exact = round2(taxableValue + gst);
+  const total = Math.round(exact);
+
+  return { taxType, taxableValue, taxSummary, cgst, sgst, igst, gst, roundOff: round2(total - exact), total };
+};
+
+// A tax invoice for the cart, taxed on the discounted line values
+export const calculateTaxInvoice = (
+  items: CartItem[],
+  sellerStateCode: string | undefined,
+  placeOfSupply: string | undefined
+): TaxInvoiceTotals => {
+  const byRate = new Map<number, number>();
+  items.forEach(item => {
+    const rate = Number(item.product.gst) || 0;
+    byRate.set(rate, (byRate.get(rate) || 0) + calculateItemTotal(item));
+  });
+  return summariseTax(byRate, getTaxType(sellerStateCode, placeOfSupply));
+};
@@ -0,0 +1,25 @@
+// utils/heldCarts.ts
+import { CartDetails, CartItem, HeldCart } from '../types';
+
+// Parked sales, so the counter can serve another customer without billing
+// or clearing the current cart. Held carts are kept on this device only.
+
+export const createHeldCart = (name: string, items: CartItem[], details: CartDetails): HeldCart => ({
+  id: `HOLD-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  name: name.trim(),
+  items,
+  details,
+  parkedAt: new Date(),
+});
+
+// The customer's name if one was entered, else the first free "Cart N"
+export const defaultCartName = (details: CartDetails, held: HeldCart[]) => {
+  const customer = details.customerName.trim();
+  if (customer) return customer;
+  let number = held.length + 1;
+  while (held.some(cart => cart.name === `Cart ${number}`)) number++;
+  return `Cart ${number}`;
+};
+
+// The cart being worked on counts once it has items
+export const countOpenCarts = (cart: CartItem[], held: HeldCart[]) => held.length + (cart.length > 0 ? 1 : 0);
@@ -0,0 +1,62 @@
+// utils/invoiceNumber.ts
+
+// Sequential tax invoice numbers per financial year, e.g. SS/2026-27/00042,
+// with quotations and credit notes in series of their own, e.g.
+// SS/Q/2026-27/00007 and SS/CN/2026-27/00003.
+// The API hands out numbers from a shared counter; without an API they are
+// worked out from the local history.
+
+export const INVOICE_PREFIX_PATTERN = /^[A-Z0-9-]{1,10}$/;
+
+const SEQUENCE_DIGITS = 5;
+const IST_OFFSET_MINUTES = 330;
+
+// Initials of the business name, e.g. "Sahajanand Sales" -> "SS"
+export const defaultInvoicePrefix = (businessName: string) => {
+  const initials = businessName
+    .split(/\s+/)
+    .map(word => word.replace(/[^A-Za-z0-9]/g, '').charAt(0))
+    .join('')
+    .toUpperCase()
+    .slice(0, 10);
+  return initials || 'INV';
+};
+
+export const getInvoicePrefix = (business: { name: string; invoicePrefix?: string }) =>
+  business.invoicePrefix || defaultInvoicePrefix(business.name);
+
+export const getQuotationPrefix = (business: { name: string; invoicePrefix?: string }) =>
+  `${getInvoicePrefix(business)}/Q`;
+
+export const getCreditNotePrefix = (business: { name: string; invoicePrefix?: string }) =>
+  `${getInvoicePrefix(business)}/CN`;
+
+// Indian financial years run 1 April to 31 March, e.g. "2026-27". The date is
+// read in IST so a bill issued just after midnight on 1 April on a server
+// running in UTC still lands in the new year.
+export const getFinancialYear = (date: Date) => {
+  const ist = new Date(date.getTime() + IST_OFFSET_MINUTES * 60 * 1000);
+  const start = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+};
+
+export const formatInvoiceNumber = (prefix: string, financialYear: string, sequence: number) =>
+  `${prefix}/${financialYear}/${String(sequence).padStart(SEQUENCE_DIGITS, '0')}`;
+
+// The sequence part of a number issued under this prefix and year, or null
+export const parseInvoiceSequence = (billNumber: string, prefix: string, financialYear: string) => {
+  const lead = `${prefix}/${financialYear}/`;
+  if (!billNumber.startsWith(lead)) return null;
+  const sequence = Number(billNumber.slice(lead.length));
+  return Number.isInteger(sequence) && sequence > 0 ? sequence : null;
+};
+
+// Next number after the highest of the numbers already issued
+export const nextInvoiceNumber = (issued: string[], prefix: string, date: Date) => {
+  const financialYear = getFinancialYear(date);
+  const last = issued.reduce(
+    (max, number) => Math.max(max, parseInvoiceSequence(number, prefix, financialYear) || 0),
+    0
+  );
+  return formatInvoiceNumber(prefix, financialYear, last + 1);
+};
@@ -0,0 +1,493 @@
+// utils/invoicePdf.ts
+import { jsPDF } from 'jspdf';
+import { Bill, BusinessProfile, CartItem, CreditNote, InvoiceSettings, Payment } from '../types';
+import { formatIndianNumber, formatRupees } from './amounts';
+import { calculateItemDiscount, calculateItemTotal, getUnitPrice } from './billing';
+import { formatState } from './gst';
+import { DEFAULT_INVOICE_SETTINGS, INVOICE_TEMPLATES } from './invoiceSettings';
+import { PAYMENT_MODE_LABELS, getBillBalance } from './payments';
+
+// The one renderer behind the bill, quotation and credit note PDFs: business
+// header, party details, a line-item table that continues across pages with
+// its header repeated, then the totals and closing notes kept together on the
+// last page, and page numbers on every page.
+//
+// Text is set in Source Code Pro (public/fonts, SIL OFL) because jsPDF's
+// built-in Helvetica has no glyph for '₹'.
+
+type PartyFields = Pick<Bill, 'seller' | 'customerName' | 'customerAddress' | 'customerPhone' | 'customerGstin' | 'placeOfSupply'>;
+type TaxFields = Pick<Bill, 'taxSummary' | 'taxType' | 'taxableValue' | 'cgst' | 'sgst' | 'igst' | 'roundOff'>;
+
+// One line of the item table
+export interface InvoiceRow {
+  code: string;
+  description: string;
+  notes: string[]; // Printed small under the description
+  hsn: string;
+  quantity: number;
+  rate: number;
+  discount: string; // "10%" or an amount, empty when there is none
+  tax: string; // "18%", empty on documents without GST
+  amount: number; // After discount, before tax
+}
+
+export interface InvoiceTotal {
+  label: string;
+  amount: number; // Negative amounts print in red
+}
+
+// A titled group of lines after the totals: payment, bank details, terms
+export interface InvoiceBlock {
+  title: string;
+  lines: string[];
+}
+
+export interface InvoicePdfContent {
+  title: string; // "Tax Invoice", "Quotation", "Credit Note"
+  number: string; // Printed beside the page number on every page
+  fileName: string;
+  references: [string, string?][]; // Lines under the title: left, and optionally right-aligned
+  document: PartyFields & TaxFields;
+  business?: BusinessProfile; // Printed at the top unless the template leaves room for letterhead
+  settings?: InvoiceSettings;
+  rows: InvoiceRow[];
+  totals: InvoiceTotal[]; // Above the tax summary
+  total: InvoiceTotal; // Below it and the round-off, in bold
+  totalInWords: string;
+  blocks: InvoiceBlock[];
+  footer: string[];
+}
+
+const FONT = 'SourceCodePro';
+const FONT_FILES = {
+  normal: '/fonts/SourceCodePro-Regular.ttf',
+  bold: '/fonts/SourceCodePro-Bold.ttf',
+};
+type FontStyle = keyof typeof FONT_FILES;
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fetchFont = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load the invoice font (${response.status})`);
+  return toBase64(await response.arrayBuffer());
+};
+
+// Fetched once a session; a failed load is retried on the next download
+let fontData: Promise<Record<FontStyle, string>> | undefined;
+const loadFonts = () => {
+  if (!fontData) {
+    fontData = Promise.all([fetchFont(FONT_FILES.normal), fetchFont(FONT_FILES.bold)])
+      .then(([normal, bold]) => ({ normal, bold }))
+      .catch(error => {
+        fontData = undefined;
+        throw error;
+      });
+  }
+  return fontData;
+};
+
+const createPdf = async (format: 'a4' | 'a5') => {
+  const fonts = await loadFonts();
+  const pdf = new jsPDF({ format });
+  (Object.keys(fonts) as FontStyle[]).forEach(style => {
+    pdf.addFileToVFS(`${FONT}-${style}.ttf`, fonts[style]);
+    pdf.addFont(`${FONT}-${style}.ttf`, FONT, style);
+  });
+  pdf.setFont(FONT, 'normal');
+  return pdf;
+};
+
+// Left margin, right margin and the edge amounts are right-aligned to, for
+// the page size in use. On A4 these are 14, 196 and 180 mm.
+const pageEdges = (pdf: jsPDF) => {
+  const width = pdf.internal.pageSize.getWidth();
+  const margin = width < 200 ? 10 : 14;
+  return { left: margin, right: width - margin, amounts: width - margin - 16 };
+};
+
+const TOP_MARGIN = 15; // On pages after the first
+const BOTTOM_MARGIN = 18; // Leaves room for the page number
+const LOGO_SIZE = 22; // mm along the logo's longer side
+const CELL_PADDING = 1;
+
+// Shares of the table width. Even on A5 a rate up to 99,999.99 and an
+// amount up to 9,99,999.99 fit on one line; longer values wrap.
+const COLUMNS: { label: string; width: number; align: 'left' | 'right' }[] = [
+  { label: 'S.No', width: 0.07, align: 'left' },
+  { label: 'Code', width: 0.11, align: 'left' },
+  { label: 'Description', width: 0.26, align: 'left' },
+  { label: 'HSN', width: 0.08, align: 'left' },
+  { label: 'Qty', width: 0.06, align: 'right' },
+  { label: 'Rate ₹', width: 0.12, align: 'right' },
+  { label: 'Disc', width: 0.09, align: 'right' },
+  { label: 'Tax', width: 0.06, align: 'right' },
+  { label: 'Amount ₹', width: 0.15, align: 'right' },
+];
+
+// Height of a line of text at the current font size, in mm
+const lineHeight = (pdf: jsPDF) => pdf.getFontSize() * 0.3528 * 1.25;
+
+// Logo with the business name and contact details beside it
+const addBusinessHeader = (pdf: jsPDF, business: BusinessProfile | undefined, logo: string | undefined, yPos: number) => {
+  const { left, right } = pageEdges(pdf);
+  let textX = left;
+  let logoHeight = 0;
+  if (logo) {
+    const { width, height } = pdf.getImageProperties(logo);
+    const w = width >= height ? LOGO_SIZE : (LOGO_SIZE * width) / height;
+    logoHeight = width >= height ? (LOGO_SIZE * height) / width : LOGO_SIZE;
+    pdf.addImage(logo, logo.startsWith('data:image/png') ? 'PNG' : 'JPEG', left, yPos, w, logoHeight);
+    textX = left + w + 5;
+  }
+  if (!business?.name && !logo) return yPos;
+
+  pdf.setFontSize(15);
+  pdf.setFont(FONT, 'bold');
+  if (business?.name) pdf.text(business.name, textX, yPos + 6);
+  pdf.setFont(FONT, 'normal');
+  pdf.setFontSize(8);
+  const lines = business
+    ? [
+        ...(business.address ? pdf.splitTextToSize(business.address, right - textX) as string[] : []),
+        [business.phone, business.email].filter(Boolean).join(' · '),
+        business.gstin ? `GSTIN: ${business.gstin}` : '',
+      ].filter(Boolean)
+    : [];
+  lines.forEach((line, index) => pdf.text(line, textX, yPos + 12 + index * 4));
+
+  const bottom = yPos + Math.max(logoHeight, 8 + lines.length * 4) + 4;
+  pdf.setDrawColor(200, 200, 200);
+  pdf.line(left, bottom, right, bottom);
+  return bottom + 8;
+};
+
+// Seller and buyer blocks with GSTINs and the place of supply
+const addPartyDetails = (pdf: jsPDF, document: PartyFields, yPos: number) => {
+  if (!document.seller) return yPos;
+  const { left, right } = pageEdges(pdf);
+  const column = (right - left) / 2;
+  const top = yPos;
+  pdf.setFontSize(8);
+
+  const seller = [
+    document.seller.name,
+    ...(document.seller.address ? pdf.splitTextToSize(document.seller.address, column - 6) as string[] : []),
+    document.seller.gstin ? `GSTIN: ${document.seller.gstin}` : 'Unregistered',
+    `State: ${formatState(document.seller.stateCode)}`,
+  ];
+  const buyer = [
+    document.customerName || 'Cash customer',
+    ...(document.customerAddress ? pdf.splitTextToSize(document.customerAddress, column - 6) as string[] : []),
+    ...(document.customerPhone ? [`Phone: ${document.customerPhone}`] : []),
+    document.customerGstin ? `GSTIN: ${document.customerGstin}` : 'Unregistered',
+    `Place of supply: ${formatState(document.placeOfSupply)}`,
+  ];
+
+  pdf.setFont(FONT, 'bold');
+  pdf.text('Sold by', left, top);
+  pdf.text('Billed to', left + column + 5, top);
+  pdf.setFont(FONT, 'normal');
+  seller.forEach((line, index) => pdf.text(line, left, top + 5 + index * 4.5));
+  buyer.forEach((line, index) => pdf.text(line, left + column + 5, top + 5 + index * 4.5));
+
+  return top + 5 + Math.max(seller.length, buyer.length) * 4.5 + 3;
+};
+
+// Rate-wise taxable value and CGST/SGST or IGST.
+// Returns its height and a function drawing it from a given line.
+const taxSummarySection = (pdf: jsPDF, document: TaxFields) => {
+  const taxSummary = document.taxSummary;
+  if (!taxSummary) return { height: 0, draw: (yPos: number) => yPos };
+  const { left, amounts } = pageEdges(pdf);
+  const intra = document.taxType !== 'inter';
+  const columns = intra ? ['Rate', 'Taxable value', 'CGST', 'SGST'] : ['Rate', 'Taxable value', 'IGST'];
+  const x = intra ? [left, amounts - 90, amounts - 45, amounts] : [left, amounts - 70, amounts];
+  const rows = [
+    ...taxSummary.map(row => ({ label: `${row.rate}%`, ...row })),
+    {
+      label: 'Total',
+      taxableValue: document.taxableValue ?? 0,
+      cgst: document.cgst ?? 0,
+      sgst: document.sgst ?? 0,
+      igst: document.igst ?? 0,
+    },
+  ];
+
+  const draw = (yPos: number) => {
+    pdf.setFontSize(8);
+    pdf.setFont(FONT, 'bold');
+    columns.forEach((column, index) => pdf.text(column, x[index], yPos, { align: index === 0 ? 'left' : 'right' }));
+    pdf.setFont(FONT, 'normal');
+    yPos += 5;
+    rows.forEach(row => {
+      const values = intra
+        ? [row.label, formatIndianNumber(row.taxableValue), formatIndianNumber(row.cgst), formatIndianNumber(row.sgst)]
+        : [row.label, formatIndianNumber(row.taxableValue), formatIndianNumber(row.igst)];
+      values.forEach((value, index) => pdf.text(value, x[index], yPos, { align: index === 0 ? 'left' : 'right' }));
+      yPos += 4.5;
+    });
+    return yPos + 4;
+  };
+  return { height: 5 + rows.length * 4.5 + 4, draw };
+};
+
+// Amount received by mode and any balance left on credit
+export const describePayments = (bill: Bill, payments: Payment[], creditNotes: CreditNote[]): InvoiceBlock | undefined => {
+  if (!bill.dueDate) return undefined;
+  const { paid, balance } = getBillBalance(bill, payments, creditNotes);
+  const received = payments.filter(payment => payment.billId === bill.id);
+  const modes = received.length === 1
+    ? ` by ${PAYMENT_MODE_LABELS[received[0].mode]}`
+    : received.length > 1
+      ? ` (${received.map(payment => `${PAYMENT_MODE_LABELS[payment.mode]} ${formatIndianNumber(payment.amount)}`).join(', ')})`
+      : '';
+  return {
+    title: 'Payment',
+    lines: [
+      `Paid: ${formatRupees(paid)}${modes}`,
+      ...(balance > 0 ? [`Balance due: ${formatRupees(balance)} by ${new Date(bill.dueDate).toLocaleDateString()}`] : []),
+    ],
+  };
+};
+
+// A table row for a bill or quotation line
+export const cartItemRow = (item: CartItem, hasTax: boolean): InvoiceRow => ({
+  code: item.product.productId || '',
+  description: item.product.name,
+  notes: item.quantityOverride ? [`Quantity override by ${item.quantityOverride.by}: ${item.quantityOverride.reason}`] : [],
+  hsn: item.product.hsn || '',
+  quantity: item.quantity,
+  rate: getUnitPrice(item.product, item.quantity),
+  discount: calculateItemDiscount(item) > 0
+    ? item.discountType === 'percentage' ? `${item.discount}%` : formatIndianNumber(item.discount)
+    : '',
+  tax: hasTax ? `${Number(item.product.gst) || 0}%` : '',
+  amount: calculateItemTotal(item),
+});
+
+export const downloadInvoicePdf = async (content: InvoicePdfContent) => {
+  const settings = content.settings || DEFAULT_INVOICE_SETTINGS;
+  const layout = INVOICE_TEMPLATES[settings.template] || INVOICE_TEMPLATES.a4;
+  const pdf = await createPdf(layout.format);
+  const { left, right, amounts } = pageEdges(pdf);
+  const centre = (left + right) / 2;
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const bottom = pageHeight - BOTTOM_MARGIN;
+  const tableFontSize = layout.format === 'a5' ? 7 : 8;
+  let yPos = layout.topMargin;
+
+  pdf.setTextColor(40, 40, 40);
+  if (layout.printHeader) yPos = addBusinessHeader(pdf, content.business, settings.logo, yPos);
+
+  pdf.setFontSize(12);
+  pdf.setFont(FONT, 'bold');
+  pdf.text(content.title, centre, yPos, { align: 'center' });
+  pdf.setFont(FONT, 'normal');
+  yPos += 9;
+
+  pdf.setFontSize(9);
+  content.references.forEach(([leftText, rightText]) => {
+    pdf.text(leftText, left, yPos);
+    if (rightText) pdf.text(rightText, right, yPos, { align: 'right' });
+    yPos += 5;
+  });
+  yPos += 2;
+
+  yPos = addPartyDetails(pdf, content.document, yPos);
+
+  // Item table. Columns are laid out left to right from their shares of the
+  // page width; cells wrap within their column.
+  let x = left;
+  const columns = COLUMNS.map(column => {
+    const width = column.width * (right - left);
+    const start = x;
+    x += width;
+    return { ...column, start, width };
+  });
+  const cellX = (column: typeof columns[number]) =>
+    column.align === 'right' ? column.start + column.width - CELL_PADDING : column.start + CELL_PADDING;
+
+  const drawTableHeader = () => {
+    pdf.setFontSize(tableFontSize);
+    pdf.setFont(FONT, 'bold');
+    const height = lineHeight(pdf) + CELL_PADDING * 2;
+    pdf.setFillColor(240, 240, 240);
+    pdf.rect(left, yPos, right - left, height, 'F');
+    columns.forEach(column =>
+      pdf.text(column.label, cellX(column), yPos + CELL_PADDING, { align: column.align, baseline: 'top' })
+    );
+    pdf.setFont(FONT, 'normal');
+    yPos += height;
+  };
+
+  drawTableHeader();
+  content.rows.forEach((row, index) => {
+    pdf.setFontSize(tableFontSize);
+    const values = [
+      String(index + 1),
+      row.code,
+      row.description,
+      row.hsn,
+      String(row.quantity),
+      formatIndianNumber(row.rate),
+      row.discount,
+      row.tax,
+      formatIndianNumber(row.amount),
+    ];
+    const cells = columns.map((column, i) =>
+      pdf.splitTextToSize(values[i], column.width - CELL_PADDING * 2) as string[]
+    );
+    const descriptionColumn = columns[2];
+    pdf.setFontSize(tableFontSize - 1.5);
+    const notes = row.notes.flatMap(note =>
+      pdf.splitTextToSize(note, descriptionColumn.width - CELL_PADDING * 2) as string[]
+    );
+    const noteHeight = lineHeight(pdf);
+    pdf.setFontSize(tableFontSize);
+    const textHeight = lineHeight(pdf);
+    const height = Math.max(...cells.map(lines => lines.length)) * textHeight + notes.length * noteHeight + CELL_PADDING * 2;
+
+    if (yPos + height > bottom) {
+      pdf.addPage();
+      yPos = TOP_MARGIN;
+      drawTableHeader();
+      pdf.setFontSize(tableFontSize);
+    }
+
+    cells.forEach((lines, i) =>
+      lines.forEach((line, lineIndex) =>
+        pdf.text(line, cellX(columns[i]), yPos + CELL_PADDING + lineIndex * textHeight, {
+          align: columns[i].align,
+          baseline: 'top',
+        })
+      )
+    );
+    if (notes.length > 0) {
+      const notesTop = yPos + CELL_PADDING + cells[2].length * textHeight;
+      pdf.setFontSize(tableFontSize - 1.5);
+      pdf.setTextColor(100, 100, 100);
+      notes.forEach((note, noteIndex) =>
+        pdf.text(note, cellX(descriptionColumn), notesTop + noteIndex * noteHeight, { baseline: 'top' })
+      );
+      pdf.setTextColor(40, 40, 40);
+    }
+    yPos += height;
+    pdf.setDrawColor(220, 220, 220);
+    pdf.line(left, yPos, right, yPos);
+  });
+
+  // Everything after the table is measured first so it moves to a new page
+  // as one piece rather than leaving the totals apart from the grand total
+  const taxSummary = taxSummarySection(pdf, content.document);
+  const blockColumns = layout.format === 'a4' ? 2 : 1;
+  const blockWidth = (right - left) / blockColumns - (blockColumns > 1 ? 5 : 0);
+  pdf.setFontSize(8);
+  const blocks = content.blocks
+    .filter(block => block.lines.length > 0)
+    .map(block => ({
+      title: block.title,
+      lines: block.lines.flatMap(line => pdf.splitTextToSize(line, blockWidth) as string[]),
+    }));
+  const blockRows: typeof blocks[] = [];
+  for (let i = 0; i < blocks.length; i += blockColumns) blockRows.push(blocks.slice(i, i + blockColumns));
+  const blockRowHeight = (row: typeof blocks) => 5 + Math.max(...row.map(block => block.lines.length)) * 4 + 4;
+
+  const words = pdf.splitTextToSize(content.totalInWords, right - left) as string[];
+  const totalHeight = 8 + words.length * 4 + 8;
+
+  const closingHeight = 6 +
+    content.totals.length * 6 +
+    taxSummary.height +
+    (content.document.roundOff ? 6 : 0) +
+    totalHeight +
+    blockRows.reduce((sum, row) => sum + blockRowHeight(row), 0) +
+    content.footer.length * 5;
+  if (yPos + closingHeight > bottom && closingHeight <= bottom - TOP_MARGIN) {
+    pdf.addPage();
+    yPos = TOP_MARGIN;
+  }
+  // Only a closing section taller than a whole page is split
+  const ensureSpace = (height: number) => {
+    if (yPos + height <= bottom) return;
+    pdf.addPage();
+    yPos = TOP_MARGIN;
+  };
+
+  yPos += 6;
+  pdf.setFontSize(10);
+  content.totals.forEach(total => {
+    ensureSpace(6);
+    if (total.amount < 0) pdf.setTextColor(200, 0, 0);
+    pdf.text(total.label, left, yPos);
+    pdf.text(formatRupees(total.amount), amounts, yPos, { align: 'right' });
+    pdf.setTextColor(40, 40, 40);
+    yPos += 6;
+  });
+
+  ensureSpace(taxSummary.height);
+  yPos = taxSummary.draw(yPos);
+
+  // The total is rounded to the rupee; the round-off makes up the difference
+  const { roundOff } = content.document;
+  if (roundOff) {
+    ensureSpace(6);
+    pdf.setFontSize(10);
+    pdf.text('Round off', left, yPos);
+    pdf.text(`${roundOff > 0 ? '+' : ''}${formatRupees(roundOff)}`, amounts, yPos, { align: 'right' });
+    yPos += 6;
+  }
+
+  ensureSpace(totalHeight);
+  pdf.setFontSize(12);
+  pdf.setFont(FONT, 'bold');
+  pdf.text(content.total.label, left, yPos + 2);
+  pdf.text(formatRupees(content.total.amount), amounts, yPos + 2, { align: 'right' });
+  pdf.setFont(FONT, 'normal');
+  yPos += 8;
+  pdf.setFontSize(8);
+  words.forEach(line => {
+    pdf.text(line, left, yPos);
+    yPos += 4;
+  });
+  yPos += 8;
+
+  blockRows.forEach(row => {
+    ensureSpace(blockRowHeight(row));
+    row.forEach((block, index) => {
+      const blockX = left + index * (blockWidth + 10);
+      pdf.setFontSize(8);
+      pdf.setFont(FONT, 'bold');
+      pdf.text(block.title, blockX, yPos);
+      pdf.setFont(FONT, 'normal');
+      block.lines.forEach((line, lineIndex) => pdf.text(line, blockX, yPos + 5 + lineIndex * 4));
+    });
+    yPos += blockRowHeight(row);
+  });
+
+  pdf.setFontSize(9);
+  pdf.setTextColor(100, 100, 100);
+  content.footer.forEach(line => {
+    ensureSpace(5);
+    pdf.text(line, centre, yPos, { align: 'center' });
+    yPos += 5;
+  });
+
+  // Page numbers, once the page count is known
+  const pages = pdf.getNumberOfPages();
+  pdf.setFontSize(7);
+  for (let page = 1; page <= pages; page++) {
+    pdf.setPage(page);
+    pdf.text(`${content.title} ${content.number}`, left, pageHeight - 8);
+    pdf.text(`Page ${page} of ${pages}`, right, pageHeight - 8, { align: 'right' });
+  }
+
+  pdf.save(content.fileName);
+};
@@ -0,0 +1,85 @@
+// utils/invoiceSettings.ts
+import { InvoiceSettings, InvoiceTemplate } from '../types';
+
+// Invoice templates and print settings, shared by the Settings screen, the
+// bill PDF and the API.
+
+export interface InvoiceLayout {
+  label: string;
+  description: string;
+  format: 'a4' | 'a5';
+  printHeader: boolean; // Logo and business details at the top of the page
+  topMargin: number; // mm above the first line of the first page
+}
+
+export const INVOICE_TEMPLATES: Record<InvoiceTemplate, InvoiceLayout> = {
+  a4: {
+    label: 'A4 tax invoice',
+    description: 'Full page with your logo and business details at the top',
+    format: 'a4',
+    printHeader: true,
+    topMargin: 15,
+  },
+  a5: {
+    label: 'A5 compact',
+    description: 'Half-page invoice for counter sales and small printers',
+    format: 'a5',
+    printHeader: true,
+    topMargin: 12,
+  },
+  letterhead: {
+    label: 'Letterhead',
+    description: 'A4 with room at the top for pre-printed stationery',
+    format: 'a4',
+    printHeader: false,
+    topMargin: 50,
+  },
+};
+
+export const INVOICE_TEMPLATE_IDS = Object.keys(INVOICE_TEMPLATES) as InvoiceTemplate[];
+
+export const DEFAULT_INVOICE_SETTINGS: InvoiceSettings = { template: 'a4' };
+
+export const DEFAULT_INVOICE_FOOTER = 'Thank you for your business!';
+
+// Logos are stored with the settings, so they are kept small
+export const MAX_LOGO_BYTES = 200 * 1024;
+
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+const LOGO_PATTERN = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/=]+$/;
+
+// Bytes of image data in a base64 data URL
+export const dataUrlBytes = (dataUrl: string) => Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+// Trims the free-text fields and drops the empty ones before saving
+export const cleanInvoiceSettings = (settings: InvoiceSettings): InvoiceSettings => ({
+  ...settings,
+  bank: settings.bank && {
+    accountName: settings.bank.accountName?.trim() || undefined,
+    accountNumber: settings.bank.accountNumber.trim(),
+    ifsc: settings.bank.ifsc.trim().toUpperCase(),
+    bankName: settings.bank.bankName?.trim() || undefined,
+    branch: settings.bank.branch?.trim() || undefined,
+    upiId: settings.bank.upiId?.trim() || undefined,
+  },
+  terms: settings.terms?.trim() || undefined,
+  footer: settings.footer?.trim() || undefined,
+});
+
+// Returns a list of problems with the settings, empty when they are valid
+export const validateInvoiceSettings = (settings: InvoiceSettings): string[] => {
+  const problems: string[] = [];
+  if (!INVOICE_TEMPLATE_IDS.includes(settings.template)) problems.push(`Unknown invoice template ${settings.template}`);
+  if (settings.logo) {
+    if (!LOGO_PATTERN.test(settings.logo)) {
+      problems.push('Logo must be a PNG or JPEG image');
+    } else if (dataUrlBytes(settings.logo) > MAX_LOGO_BYTES) {
+      problems.push(`Logo must be under ${MAX_LOGO_BYTES / 1024} KB`);
+    }
+  }
+  if (settings.bank) {
+    if (!settings.bank.accountNumber.trim()) problems.push('Bank account number is required');
+    if (!IFSC_PATTERN.test(settings.bank.ifsc)) problems.push('IFSC should be 11 characters, e.g. SBIN0001234');
+  }
+  return problems;
+};
@@ -0,0 +1,69 @@
+// utils/orderRules.ts
+import { Product } from '../types';
+
+// Minimum order quantity and pack-multiple rules for cart lines. Shared by
+// the Cart, the reducer guard and the API.
+
+export interface OrderRules {
+  minOrderQty: number;
+  packSize: number;
+}
+
+const wholeNumber = (value: unknown) => {
+  const number = Math.floor(Number(value));
+  return number > 1 ? number : 1;
+};
+
+export const getOrderRules = (product: Pick<Product, 'minOrderQty' | 'packSize'>): OrderRules => ({
+  minOrderQty: wholeNumber(product.minOrderQty),
+  packSize: wholeNumber(product.packSize),
+});
+
+export const hasOrderRules = (product: Pick<Product, 'minOrderQty' | 'packSize'>) => {
+  const rules = getOrderRules(product);
+  return rules.minOrderQty > 1 || rules.packSize > 1;
+};
+
+// e.g. "MOQ 10 · packs of 5"
+export const describeOrderRules = (product: Pick<Product, 'minOrderQty' | 'packSize'>) => {
+  const { minOrderQty, packSize } = getOrderRules(product);
+  return [
+    minOrderQty > 1 ? `MOQ ${minOrderQty}` : '',
+    packSize > 1 ? `packs of ${packSize}` : ''
+  ].filter(Boolean).join(' · ');
+};
+
+// Smallest quantity that satisfies both rules
+export const minimumQuantity = (product: Pick<Product, 'minOrderQty' | 'packSize'>) => {
+  const { minOrderQty, packSize } = getOrderRules(product);
+  return Math.ceil(minOrderQty / packSize) * packSize;
+};
+
+// Rounds a requested quantity up to the next one the rules allow
+export const snapQuantity = (product: Pick<Product, 'minOrderQty' | 'packSize'>, quantity: number) => {
+  const { packSize } = getOrderRules(product);
+  return Math.max(minimumQuantity(product), Math.ceil(quantity / packSize) * packSize);
+};
+
+// Quantity one step up or down from the current one, in whole packs and
+// never below the minimum
+export const stepQuantity = (
+  product: Pick<Product, 'minOrderQty' | 'packSize'>,
+  quantity: number,
+  direction: 1 | -1
+) => {
+  const { packSize } = getOrderRules(product);
+  const snapped = snapQuantity(product, quantity);
+  if (direction === 1) return snapped > quantity ? snapped : snapped + packSize;
+  const lower = Math.floor((quantity - 1) / packSize) * packSize;
+  return Math.max(minimumQuantity(product), lower);
+};
+
+// Which rules a quantity breaks, empty when it is allowed
+export const quantityProblems = (product: Pick<Product, 'minOrderQty' | 'packSize'>, quantity: number): string[] => {
+  const { minOrderQty, packSize } = getOrderRules(product);
+  const problems: string[] = [];
+  if (quantity < minOrderQty) problems.push(`below the minimum order of ${minOrderQty}`);
+  if (quantity % packSize !== 0) problems.push(`not a multiple of the pack size ${packSize}`);
+  return problems;
+};
@@ -0,0 +1,134 @@
+// utils/parseInWorker.ts
+import { PdfLayout } from '../types';
+import type { ParsedRow, SheetSelection, WorkbookSheet } from './fileParser';
+
+// Runs catalog parsing in a Web Worker so large price lists do not freeze the
+// tab. Each file gets its own worker; cancelling terminates it mid-parse.
+
+export type ParseKind = 'pdf' | 'excel' | 'csv';
+
+// 'workbook' lists a workbook's sheets instead of parsing rows
+export interface ParseRequest {
+  kind: ParseKind | 'workbook';
+  data: ArrayBuffer;
+  filename: string;
+  layout: PdfLayout;
+  sheets?: SheetSelection[];
+}
+
+export interface ParseProgress {
+  done: number;
+  total: number;
+  unit: 'page' | 'sheet' | 'row';
+}
+
+export type ParseMessage =
+  | ({ type: 'progress' } & ParseProgress)
+  | { type: 'rows'; rows: ParsedRow[] }
+  | { type: 'sheets'; sheets: WorkbookSheet[] }
+  | { type: 'done'; errors: string[]; warnings: string[] }
+  | { type: 'error'; message: string };
+
+export interface ParseOptions {
+  layout?: PdfLayout;
+  sheets?: SheetSelection[]; // Excel only; every sheet when omitted
+  signal?: AbortSignal;
+  onProgress?: (progress: ParseProgress) => void;
+  onRows?: (rows: ParsedRow[]) => void;
+}
+
+// Thrown when the signal aborts the parse; callers check for it to tell a
+// cancelled import from a broken file
+export class ParseCancelledError extends Error {
+  constructor(filename: string) {
+    super(`${filename}: Import cancelled`);
+    this.name = 'ParseCancelledError';
+  }
+}
+
+export const parseKindFor = (filename: string): ParseKind | null => {
+  if (/\.pdf$/i.test(filename)) return 'pdf';
+  if (/\.csv$/i.test(filename)) return 'csv';
+  if (/\.(xls|xlsx)$/i.test(filename)) return 'excel';
+  return null;
+};
+
+// Posts one request to a fresh worker and feeds its messages to `onMessage`
+// until that returns a result or the worker fails
+const runWorker = <T>(
+  request: ParseRequest,
+  signal: AbortSignal | undefined,
+  onMessage: (message: ParseMessage) => { result: T } | void
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./parseWorker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+      finish();
+      reject(new ParseCancelledError(request.filename));
+    };
+    signal?.addEventListener('abort', cancel);
+
+    worker.onmessage = (event: MessageEvent<ParseMessage>) => {
+      const message = event.data;
+      if (message.type === 'error') {
+        finish();
+        reject(new Error(message.message));
+        return;
+      }
+      const handled = onMessage(message);
+      if (handled) {
+        finish();
+        resolve(handled.result);
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Parser worker failed'));
+    };
+
+    // The buffer is transferred, not copied
+    worker.postMessage(request, [request.data]);
+  });
+
+// Resolves with all rows once parsing finishes. Rows are also handed to
+// `onRows` as they arrive so callers can import them in chunks.
+export const parseFileInWorker = async (
+  file: File,
+  kind: ParseKind,
+  { layout = 'auto', sheets, signal, onProgress, onRows }: ParseOptions = {}
+): Promise<{ rows: ParsedRow[]; errors: string[]; warnings: string[] }> => {
+  if (signal?.aborted) throw new ParseCancelledError(file.name);
+  const data = await file.arrayBuffer();
+  const rows: ParsedRow[] = [];
+
+  return runWorker({ kind, data, filename: file.name, layout, sheets }, signal, message => {
+    switch (message.type) {
+      case 'progress':
+        onProgress?.({ done: message.done, total: message.total, unit: message.unit });
+        break;
+      case 'rows':
+        // Appended one at a time: spreading a 100k-row chunk into push()
+        // overflows the call stack
+        message.rows.forEach(row => rows.push(row));
+        onRows?.(message.rows);
+        break;
+      case 'done':
+        return { result: { rows, errors: message.errors, warnings: message.warnings } };
+    }
+  });
+};
+
+// Lists a workbook's sheets with detected header rows and previews
+export const inspectWorkbookInWorker = async (file: File, signal?: AbortSignal): Promise<WorkbookSheet[]> => {
+  if (signal?.aborted) throw new ParseCancelledError(file.name);
+  const data = await file.arrayBuffer();
+
+  return runWorker({ kind: 'workbook', data, filename: file.name, layout: 'auto' }, signal, message => {
+    if (message.type === 'sheets') return { result: message.sheets };
+  });
+};
@@ -0,0 +1,45 @@
+// utils/parseWorker.ts
+// Web Worker entry: parses one catalog file off the main thread and streams
+// the rows back page by page (PDF), sheet by sheet (Excel) or in chunks (CSV).
+// A 'workbook' request only lists the sheets for the sheet picker.
+import { inspectWorkbook, parseCSVData, parseExcelData, parsePDFData } from './fileParser';
+import type { ParseRequest, ParseMessage } from './parseInWorker';
+
+const CSV_CHUNK_SIZE = 2000;
+
+const post = (message: ParseMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ParseRequest>) => {
+  const { kind, data, filename, layout, sheets } = event.data;
+  try {
+    if (kind === 'workbook') {
+      post({ type: 'sheets', sheets: inspectWorkbook(data) });
+    } else if (kind === 'pdf') {
+      await parsePDFData(data, filename, layout, (rows, page, pages) => {
+        post({ type: 'rows', rows });
+        post({ type: 'progress', done: page, total: pages, unit: 'page' });
+      });
+      post({ type: 'done', errors: [], warnings: [] });
+    } else if (kind === 'excel') {
+      parseExcelData(data, (rows, sheet, sheetCount) => {
+        post({ type: 'rows', rows });
+        post({ type: 'progress', done: sheet + 1, total: sheetCount, unit: 'sheet' });
+      }, sheets);
+      post({ type: 'done', errors: [], warnings: [] });
+    } else {
+      const csv = parseCSVData(data, filename);
+      for (let start = 0; start < csv.rows.length; start += CSV_CHUNK_SIZE) {
+        post({ type: 'rows', rows: csv.rows.slice(start, start + CSV_CHUNK_SIZE) });
+        post({
+          type: 'progress',
+          done: Math.min(start + CSV_CHUNK_SIZE, csv.rows.length),
+          total: csv.rows.length,
+          unit: 'row'
+        });
+      }
+      post({ type: 'done', errors: csv.errors, warnings: csv.warnings });
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
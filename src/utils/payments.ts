@@ -0,0 +1,165 @@
+// utils/payments.ts
+import { Bill, CreditNote, Payment, PaymentMode } from '../types';
+import { normalizePhone } from './customers';
+import { round2 } from './gst';
+
+// Payments against bills and the receivables built from them, shared by the
+// Cart, the Bills and Receivables screens and the API.
+
+export const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  cash: 'Cash',
+  upi: 'UPI',
+  cheque: 'Cheque',
+  bank: 'Bank transfer',
+  credit: 'Credit',
+};
+
+export const PAYMENT_MODES = Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[];
+
+// The modes money can actually be received in
+export const RECEIVED_MODES = PAYMENT_MODES.filter(mode => mode !== 'credit');
+
+// Days allowed for the part of a bill sold on credit
+export const DEFAULT_CREDIT_DAYS = 30;
+
+export const createPayment = (billId: string, amount: number, mode: PaymentMode, overrides: Partial<Payment> = {}): Payment => ({
+  id: `PAY-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  billId,
+  amount: round2(amount),
+  mode,
+  date: new Date(),
+  ...overrides,
+});
+
+// End of the day `days` after the bill date
+export const dueDateFor = (date: Date, days: number) => {
+  const due = new Date(date);
+  due.setDate(due.getDate() + days);
+  due.setHours(23, 59, 59, 999);
+  return due;
+};
+
+// Bills from before payment tracking have no due date and count as paid
+export const tracksPayments = (bill: Bill) => !!bill.dueDate;
+
+export type PaymentStatus = 'paid' | 'partial' | 'unpaid';
+
+// What is left to pay once payments and credit notes are taken off. Credit
+// notes beyond the unpaid amount are owed back to the customer, which shows
+// as a negative balance.
+export const getBillBalance = (bill: Bill, payments: Payment[], creditNotes: CreditNote[], now = new Date()) => {
+  const paid = round2(payments.filter(p => p.billId === bill.id).reduce((sum, p) => sum + p.amount, 0));
+  const credited = round2(creditNotes.filter(n => n.billId === bill.id).reduce((sum, n) => sum + n.total, 0));
+  const balance = tracksPayments(bill) ? round2(bill.total - paid - credited) : 0;
+  const status: PaymentStatus = balance <= 0 ? 'paid' : paid > 0 ? 'partial' : 'unpaid';
+  const overdue = balance > 0 && !!bill.dueDate && new Date(bill.dueDate) < now;
+  return { paid, credited, balance, status, overdue };
+};
+
+// Bills are grouped by customer-master record, else by phone number, else
+// by the name typed at the counter
+export const getReceivableKey = (bill: Pick<Bill, 'customerId' | 'customerPhone' | 'customerName'>) => {
+  if (bill.customerId) return bill.customerId;
+  const phone = normalizePhone(bill.customerPhone);
+  if (phone) return `phone:${phone}`;
+  return `name:${(bill.customerName || '').trim().toLowerCase()}`;
+};
+
+// Outstanding amounts by days since the bill date
+export const AGEING_BUCKETS = [
+  { label: '0–30 days', maxDays: 30 },
+  { label: '31–60 days', maxDays: 60 },
+  { label: '61–90 days', maxDays: 90 },
+  { label: '90+ days', maxDays: Infinity },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AgeingRow {
+  key: string;
+  name: string;
+  customerId?: string;
+  buckets: number[]; // One amount per AGEING_BUCKETS entry
+  total: number;
+  overdue: number;
+  bills: number; // Bills with something left to pay
+}
+
+// One row per customer with an outstanding balance, largest first
+export const buildAgeingReport = (bills: Bill[], payments: Payment[], creditNotes: CreditNote[], now = new Date()) => {
+  const rows = new Map<string, AgeingRow>();
+  bills.forEach(bill => {
+    const { balance, overdue } = getBillBalance(bill, payments, creditNotes, now);
+    if (balance <= 0) return;
+    const key = getReceivableKey(bill);
+    const row = rows.get(key) || {
+      key,
+      name: bill.customerName || 'Walk-in Customer',
+      customerId: bill.customerId,
+      buckets: AGEING_BUCKETS.map(() => 0),
+      total: 0,
+      overdue: 0,
+      bills: 0,
+    };
+    const age = Math.floor((now.getTime() - new Date(bill.date).getTime()) / DAY_MS);
+    const bucket = AGEING_BUCKETS.findIndex(b => age <= b.maxDays);
+    row.buckets[bucket] = round2(row.buckets[bucket] + balance);
+    row.total = round2(row.total + balance);
+    if (overdue) row.overdue = round2(row.overdue + balance);
+    row.bills += 1;
+    rows.set(key, row);
+  });
+  return Array.from(rows.values()).sort((a, b) => b.total - a.total);
+};
+
+export interface LedgerEntry {
+  date: Date;
+  kind: 'bill' | 'payment' | 'creditNote';
+  reference: string; // Bill or credit note number, or payment mode
+  billNumber: string;
+  debit: number; // Billed to the customer
+  credit: number; // Paid or credited
+  balance: number; // Running balance after this entry
+}
+
+// Bills, payments and credit notes for one customer in date order with a
+// running balance. Bills that are not tracked for payment are left out.
+export const buildLedger = (key: string, bills: Bill[], payments: Payment[], creditNotes: CreditNote[]) => {
+  const customerBills = bills.filter(bill => tracksPayments(bill) && getReceivableKey(bill) === key);
+  const billNumbers = new Map(customerBills.map(bill => [bill.id, bill.billNumber]));
+
+  const entries: Omit<LedgerEntry, 'balance'>[] = [
+    ...customerBills.map(bill => ({
+      date: new Date(bill.date),
+      kind: 'bill' as const,
+      reference: bill.billNumber,
+      billNumber: bill.billNumber,
+      debit: bill.total,
+      credit: 0,
+    })),
+    ...payments.filter(p => billNumbers.has(p.billId)).map(payment => ({
+      date: new Date(payment.date),
+      kind: 'payment' as const,
+      reference: [PAYMENT_MODE_LABELS[payment.mode], payment.reference].filter(Boolean).join(' '),
+      billNumber: billNumbers.get(payment.billId)!,
+      debit: 0,
+      credit: payment.amount,
+    })),
+    ...creditNotes.filter(n => billNumbers.has(n.billId)).map(note => ({
+      date: new Date(note.date),
+      kind: 'creditNote' as const,
+      reference: note.noteNumber,
+      billNumber: note.billNumber,
+      debit: 0,
+      credit: note.total,
+    })),
+  ];
+
+  let balance = 0;
+  return entries
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || b.debit - a.debit)
+    .map(entry => {
+      balance = round2(balance + entry.debit - entry.credit);
+      return { ...entry, balance };
+    });
+};
@@ -0,0 +1,125 @@
+// utils/permissions.ts
+import { CartItem, Product, Role, User } from '../types';
+import { getUnitPrice } from './billing';
+import { quantityProblems } from './orderRules';
+
+// Shared by the reducer, the UI and the API so all three refuse the same
+// actions with the same explanation.
+
+export type Permission =
+  | 'importCatalog'
+  | 'editPrices'
+  | 'deleteProducts'
+  | 'viewReports'
+  | 'manageUsers'
+  | 'overrideOrderRules'
+  | 'manageSettings'
+  | 'manageCustomers'
+  | 'issueCreditNotes'
+  | 'manageDiscounts';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: ['importCatalog', 'editPrices', 'deleteProducts', 'viewReports', 'manageUsers', 'overrideOrderRules', 'manageSettings', 'manageCustomers', 'issueCreditNotes', 'manageDiscounts'],
+  manager: ['importCatalog', 'editPrices', 'deleteProducts', 'viewReports', 'overrideOrderRules', 'manageCustomers', 'issueCreditNotes', 'manageDiscounts'],
+  salesperson: [],
+};
+
+// Highest discount each role may give on a line, as a percentage of the
+// line value. Fixed-amount discounts are converted before comparing.
+export const DISCOUNT_LIMITS: Record<Role, number> = {
+  owner: 100,
+  manager: 25,
+  salesperson: 10,
+};
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  importCatalog: 'import catalogs',
+  editPrices: 'edit product prices',
+  deleteProducts: 'delete products or imported files',
+  viewReports: 'view reports',
+  manageUsers: 'manage users',
+  overrideOrderRules: 'sell outside the minimum order quantity or pack size',
+  manageSettings: 'change business settings',
+  manageCustomers: 'delete customers or change credit limits',
+  issueCreditNotes: 'take back goods or issue credit notes',
+  manageDiscounts: 'change customer discount schemes',
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  salesperson: 'Salesperson',
+};
+
+// Without a signed-in user the app runs in single-user offline mode, where
+// the person at the keyboard owns the shop.
+export const getRole = (user: User | null | undefined): Role => {
+  if (!user) return 'owner';
+  return user.role || 'salesperson';
+};
+
+export const can = (user: User | null | undefined, permission: Permission) =>
+  ROLE_PERMISSIONS[getRole(user)].includes(permission);
+
+// Returns why the action is refused, or null when it is allowed
+export const checkPermission = (user: User | null | undefined, permission: Permission): string | null => {
+  if (can(user, permission)) return null;
+  const allowed = (Object.keys(ROLE_PERMISSIONS) as Role[])
+    .filter(role => ROLE_PERMISSIONS[role].includes(permission))
+    .map(role => ROLE_LABELS[role].toLowerCase());
+  return `As a ${ROLE_LABELS[getRole(user)].toLowerCase()} you cannot ${PERMISSION_LABELS[permission]}. Ask an ${allowed.join(' or ')}.`;
+};
+
+// Descriptive fields anyone may correct. Every other product field (price,
+// tiers, GST, DCAT, order rules, stock, price history) changes what a sale
+// is charged, so editing it needs editPrices.
+const OPEN_PRODUCT_FIELDS = ['id', 'productId', 'name', 'description', 'category'];
+
+export const checkProductEdit = (
+  user: User | null | undefined,
+  before: Product | undefined,
+  after: Product
+): string | null => {
+  if (!before) return checkPermission(user, 'editPrices');
+  const previous = before as unknown as Record<string, unknown>;
+  const next = after as unknown as Record<string, unknown>;
+  const restricted = [...new Set([...Object.keys(previous), ...Object.keys(next)])].some(key =>
+    !OPEN_PRODUCT_FIELDS.includes(key) && JSON.stringify(previous[key]) !== JSON.stringify(next[key])
+  );
+  return restricted ? checkPermission(user, 'editPrices') : null;
+};
+
+export const getDiscountPercent = (item: Pick<CartItem, 'product' | 'quantity' | 'discount' | 'discountType'>) => {
+  if (item.discountType === 'percentage') return item.discount;
+  const lineValue = getUnitPrice(item.product, item.quantity) * item.quantity;
+  return lineValue > 0 ? (item.discount / lineValue) * 100 : 0;
+};
+
+// `schemePercent` is the customer's discount scheme for the product, which
+// anyone may give in full whatever their own limit
+export const checkDiscount = (
+  user: User | null | undefined,
+  item: Pick<CartItem, 'product' | 'quantity' | 'discount' | 'discountType'>,
+  schemePercent = 0
+): string | null => {
+  const role = getRole(user);
+  const limit = DISCOUNT_LIMITS[role];
+  const percent = getDiscountPercent(item);
+  // Small tolerance so a fixed amount that rounds to the limit is accepted
+  if (percent <= Math.max(limit, schemePercent) + 0.005) return null;
+  return `Discount of ${percent.toFixed(1)}% on ${item.product.name} exceeds the ${limit}% limit for a ${ROLE_LABELS[role].toLowerCase()}.`;
+};
+
+// A quantity outside the MOQ / pack rules needs a recorded override, and
+// only roles allowed to override may record one
+export const checkQuantity = (
+  user: User | null | undefined,
+  item: Pick<CartItem, 'product' | 'quantity' | 'quantityOverride'>
+): string | null => {
+  const problems = quantityProblems(item.product, item.quantity);
+  if (problems.length === 0) return null;
+  if (!item.quantityOverride) {
+    return `${item.quantity} of ${item.product.name} is ${problems.join(' and ')}.`;
+  }
+  return checkPermission(user, 'overrideOrderRules');
+};
@@ -0,0 +1,34 @@
+// utils/quotationPdf.ts
+import { Quotation } from '../types';
+import { amountInWords } from './amounts';
+import { cartItemRow, downloadInvoicePdf } from './invoicePdf';
+
+// The quotation PDF, downloaded from the Cart when a quote is saved and
+// from the Quotations screen. Laid out like the tax invoice.
+
+export const downloadQuotationPdf = (quotation: Quotation) => {
+  const validUntil = new Date(quotation.validUntil).toLocaleDateString();
+  return downloadInvoicePdf({
+    title: 'Quotation',
+    number: quotation.quoteNumber,
+    fileName: `quotation_${quotation.quoteNumber.replace(/\//g, '-')}.pdf`,
+    references: [
+      [`Quotation No: ${quotation.quoteNumber}`, `Date: ${new Date(quotation.date).toLocaleDateString()}`],
+      [quotation.createdBy ? `Prepared by: ${quotation.createdBy.name}` : '', `Valid until: ${validUntil}`],
+    ],
+    document: quotation,
+    business: quotation.seller,
+    rows: quotation.items.map(item => cartItemRow(item, !!quotation.taxSummary)),
+    totals: [
+      { label: 'Subtotal', amount: quotation.subtotal },
+      ...(quotation.totalDiscount > 0 ? [{ label: 'Discount', amount: -quotation.totalDiscount }] : []),
+    ],
+    total: { label: 'Total', amount: quotation.total },
+    totalInWords: amountInWords(quotation.total),
+    blocks: quotation.notes ? [{ title: 'Notes', lines: quotation.notes.split('\n') }] : [],
+    footer: [
+      `Prices are valid until ${validUntil} and are subject to stock availability.`,
+      'This is a quotation, not a tax invoice.',
+    ],
+  });
+};
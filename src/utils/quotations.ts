@@ -0,0 +1,74 @@
+// utils/quotations.ts
+import { CartItem, Product, Quotation, QuotationStatus } from '../types';
+import { getUnitPrice } from './billing';
+import { quantityProblems, snapQuantity } from './orderRules';
+
+// Quotation validity and conversion, shared by the Cart, the Quotations
+// screen and the API.
+
+export const DEFAULT_VALIDITY_DAYS = 15;
+
+export const QUOTATION_STATUS_LABELS: Record<QuotationStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  expired: 'Expired',
+};
+
+// End of the day `days` from `from`, so a quote is valid through its last day
+export const validityDate = (from: Date, days: number) => {
+  const date = new Date(from);
+  date.setDate(date.getDate() + days);
+  date.setHours(23, 59, 59, 999);
+  return date;
+};
+
+// Open quotes lapse once their validity date has passed
+export const getQuotationStatus = (quotation: Pick<Quotation, 'status' | 'validUntil'>, now = new Date()): QuotationStatus =>
+  (quotation.status === 'draft' || quotation.status === 'sent') && new Date(quotation.validUntil) < now
+    ? 'expired'
+    : quotation.status;
+
+export interface QuoteLineChange {
+  productId: string;
+  name: string;
+  kind: 'price' | 'gst' | 'quantity' | 'missing';
+  from?: number;
+  to?: number;
+}
+
+// Re-prices a quotation's lines against the current catalog before it is
+// billed. Lines whose product has left the catalog are dropped; quantities
+// are rounded up if the MOQ or pack size has changed since the quote.
+export const repriceQuotation = (quotation: Pick<Quotation, 'items'>, products: Product[]) => {
+  const byProductId = new Map(products.map(product => [product.productId, product]));
+  const changes: QuoteLineChange[] = [];
+  const items: CartItem[] = [];
+
+  quotation.items.forEach(item => {
+    const { productId, name } = item.product;
+    const current = byProductId.get(productId);
+    if (!current) {
+      changes.push({ productId, name, kind: 'missing' });
+      return;
+    }
+
+    const product = { ...current, hsn: current.hsn || item.product.hsn };
+    let quantity = item.quantity;
+    if (!item.quantityOverride && quantityProblems(product, quantity).length > 0) {
+      quantity = snapQuantity(product, quantity);
+      changes.push({ productId, name, kind: 'quantity', from: item.quantity, to: quantity });
+    }
+
+    const quoted = getUnitPrice(item.product, item.quantity);
+    const now = getUnitPrice(product, quantity);
+    if (quoted !== now) changes.push({ productId, name, kind: 'price', from: quoted, to: now });
+    if ((Number(item.product.gst) || 0) !== (Number(product.gst) || 0)) {
+      changes.push({ productId, name, kind: 'gst', from: Number(item.product.gst) || 0, to: Number(product.gst) || 0 });
+    }
+
+    items.push({ ...item, product, quantity });
+  });
+
+  return { items, changes };
+};
@@ -0,0 +1,201 @@
+// utils/storage.ts
+import { Product, Bill } from '../types';
+
+const DB_NAME = 'sahajanand-sales';
+
+// Bump this whenever the shape of a stored record changes and add a matching
+// entry to `migrations` below. Each migration upgrades data written by the
+// previous version, so old databases are walked forward one step at a time.
+export const DB_VERSION = 1;
+
+const STORES = {
+  products: 'products',
+  bills: 'bills',
+  meta: 'meta',
+} as const;
+
+// Number of products read or written per transaction. Keeping batches small
+// lets the browser paint between them when a 50k+ row catalog is loaded.
+const CHUNK_SIZE = 2000;
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+const migrations: Record<number, Migration> = {
+  1: (db) => {
+    db.createObjectStore(STORES.products, { keyPath: 'productId' });
+    db.createObjectStore(STORES.bills, { keyPath: 'id' });
+    db.createObjectStore(STORES.meta);
+  },
+};
+
+// Record-level upgrades applied while reading. Use these for changes that can
+// be fixed lazily instead of rewriting every record inside onupgradeneeded.
+export const migrateProduct = (product: Product): Product => ({
+  ...product,
+  price: Number(product.price) || 0,
+  quantity: Number(product.quantity) || 0,
+});
+
+export const migrateBill = (bill: Bill): Bill => ({
+  ...bill,
+  date: new Date(bill.date),
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isStorageAvailable = () => typeof indexedDB !== 'undefined';
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        migrations[version]?.(db, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; drop our handle so it can proceed
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(new Error(`Failed to open database: ${request.error?.message || 'Unknown error'}`));
+    };
+    request.onblocked = () => {
+      console.warn('Database upgrade blocked by another open tab');
+    };
+  });
+
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+// Give the event loop a turn so rendering is not starved between chunks
+const yieldToMain = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export const loadMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDB();
+  const tx = db.transaction(STORES.meta, 'readonly');
+  return promisifyRequest(tx.objectStore(STORES.meta).get(key)) as Promise<T | undefined>;
+};
+
+export const saveMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(STORES.meta, 'readwrite');
+  tx.objectStore(STORES.meta).put(value, key);
+  return transactionDone(tx);
+};
+
+// Streams products out of the database in key order, handing each chunk to
+// `onChunk` so the UI can render a growing catalog instead of waiting.
+export const loadProducts = async (onChunk: (products: Product[]) => void): Promise<number> => {
+  const db = await openDB();
+  let lastKey: IDBValidKey | undefined;
+  let total = 0;
+
+  for (;;) {
+    const tx = db.transaction(STORES.products, 'readonly');
+    const range = lastKey === undefined ? undefined : IDBKeyRange.lowerBound(lastKey, true);
+    const store = tx.objectStore(STORES.products);
+    const [records, keys] = await Promise.all([
+      promisifyRequest(store.getAll(range, CHUNK_SIZE)),
+      promisifyRequest(store.getAllKeys(range, CHUNK_SIZE)),
+    ]);
+
+    if (records.length === 0) break;
+
+    onChunk(records.map(migrateProduct));
+    total += records.length;
+    lastKey = keys[keys.length - 1];
+
+    if (records.length < CHUNK_SIZE) break;
+    await yieldToMain();
+  }
+
+  return total;
+};
+
+export const loadBills = async (): Promise<Bill[]> => {
+  const db = await openDB();
+  const tx = db.transaction(STORES.bills, 'readonly');
+  const bills = await promisifyRequest(tx.objectStore(STORES.bills).getAll());
+  return bills.map(migrateBill);
+};
+
+// Writes only what changed between two snapshots of a keyed collection.
+// Reducer updates replace changed records with new objects, so a reference
+// comparison is enough to find them without deep-diffing 50k products.
+const saveCollectionDiff = async <T>(
+  storeName: string,
+  prev: T[],
+  next: T[],
+  keyOf: (record: T) => IDBValidKey
+): Promise<void> => {
+  const prevByKey = new Map<IDBValidKey, T>();
+  prev.forEach(record => prevByKey.set(keyOf(record), record));
+
+  const puts: T[] = [];
+  next.forEach(record => {
+    const key = keyOf(record);
+    if (prevByKey.get(key) !== record) puts.push(record);
+    prevByKey.delete(key);
+  });
+  const deletes = Array.from(prevByKey.keys());
+
+  if (puts.length === 0 && deletes.length === 0) return;
+
+  const db = await openDB();
+
+  if (deletes.length > 0) {
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    deletes.forEach(key => store.delete(key));
+    await transactionDone(tx);
+  }
+
+  for (let i = 0; i < puts.length; i += CHUNK_SIZE) {
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    puts.slice(i, i + CHUNK_SIZE).forEach(record => store.put(record));
+    await transactionDone(tx);
+    if (i + CHUNK_SIZE < puts.length) await yieldToMain();
+  }
+};
+
+export const saveProducts = (prev: Product[], next: Product[]) =>
+  saveCollectionDiff(STORES.products, prev, next, p => p.productId);
+
+export const saveBills = (prev: Bill[], next: Bill[]) =>
+  saveCollectionDiff(STORES.bills, prev, next, b => b.id);
+
+export const clearStorage = async (): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([STORES.products, STORES.bills, STORES.meta], 'readwrite');
+  tx.objectStore(STORES.products).clear();
+  tx.objectStore(STORES.bills).clear();
+  tx.objectStore(STORES.meta).clear();
+  return transactionDone(tx);
+};
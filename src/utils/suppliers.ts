@@ -0,0 +1,86 @@
+// utils/suppliers.ts
+import { Bill, Company, Product, Supplier } from '../types';
+import { calculateItemTotal } from './billing';
+import { isValidGstin } from './gst';
+
+// Shared by the Upload and Suppliers screens and the API.
+
+export const CURRENCIES = ['INR', 'EUR', 'USD', 'GBP', 'CHF', 'JPY', 'CNY'];
+
+export const createSupplier = (name: string, overrides: Partial<Supplier> = {}): Supplier => ({
+  id: `SUP-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  name: name.trim(),
+  defaultDiscount: 0,
+  currency: 'INR',
+  exchangeRate: 1,
+  importProfile: { pdfLayout: 'auto' },
+  ...overrides,
+});
+
+export const findSupplier = (suppliers: Supplier[], name: string | undefined) => {
+  const key = (name || '').trim().toLowerCase();
+  return suppliers.find(supplier => supplier.name.toLowerCase() === key);
+};
+
+// Returns a list of problems with a supplier record, empty when it is valid
+export const validateSupplier = (supplier: Supplier, others: Supplier[]): string[] => {
+  const problems: string[] = [];
+  if (!supplier.name.trim()) problems.push('Name is required');
+  if (others.some(other => other.id !== supplier.id && other.name.toLowerCase() === supplier.name.trim().toLowerCase())) {
+    problems.push(`A supplier named ${supplier.name.trim()} already exists`);
+  }
+  if (supplier.gstin && !isValidGstin(supplier.gstin)) {
+    problems.push('GSTIN should be 15 characters, e.g. 24ABCDE1234F1Z5');
+  }
+  if (!(supplier.defaultDiscount >= 0 && supplier.defaultDiscount <= 100)) {
+    problems.push('Default discount must be between 0 and 100%');
+  }
+  if (!(supplier.exchangeRate > 0)) problems.push('Exchange rate must be greater than 0');
+  return problems;
+};
+
+// Stamps an imported product with its supplier and converts prices quoted
+// in a foreign currency to INR, which is what bills are made out in.
+export const applySupplier = <T extends Partial<Product>>(product: T, supplier: Supplier): T => {
+  const rate = supplier.currency === 'INR' ? 1 : supplier.exchangeRate;
+  const converted: T = { ...product, companyName: supplier.name };
+  if (rate !== 1) {
+    if (typeof product.price === 'number') {
+      converted.price = Math.round(product.price * rate * 100) / 100;
+    }
+    if (product.priceTiers) {
+      converted.priceTiers = Object.fromEntries(
+        Object.entries(product.priceTiers).map(([qty, price]) => [qty, Math.round(price * rate * 100) / 100])
+      );
+    }
+  }
+  return converted;
+};
+
+// Derives productCount and totalSales for every company that has a supplier
+// record or appears on a product, sorted by name.
+export const computeCompanies = (suppliers: Supplier[], products: Product[], bills: Bill[]): Company[] => {
+  const companies = new Map<string, Company>();
+  const companyFor = (name: string) => {
+    if (!companies.has(name)) {
+      companies.set(name, { name, productCount: 0, totalSales: 0 });
+    }
+    return companies.get(name)!;
+  };
+
+  suppliers.forEach(supplier => {
+    companyFor(supplier.name).supplier = supplier;
+  });
+  products.forEach(product => {
+    if (product.companyName) companyFor(product.companyName).productCount++;
+  });
+  bills.forEach(bill => {
+    bill.items.forEach(item => {
+      if (item.product.companyName) {
+        companyFor(item.product.companyName).totalSales += calculateItemTotal(item);
+      }
+    });
+  });
+
+  return Array.from(companies.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -1,4 +1,5 @@
 // vite.config.ts
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { resolve } from 'path'
@@ -40,9 +41,20 @@ export default defineConfig({
       allow: ['..']
     }
   },
+  // The catalog parse worker imports pdf.js, which needs code splitting
+  worker: {
+    format: 'es'
+  },
   optimizeDeps: {
     include: ['pdfjs-dist']
   },
+  // Unit tests for the shared utils run on their own. The API route tests
+  // start an in-memory MongoDB per file, which has to be downloaded the first
+  // time
+  test: {
+    include: ['src/**/*.test.ts', 'server/**/*.test.ts'],
+    hookTimeout: 120000
+  },
   build: {
     rollupOptions: {
       external: [],